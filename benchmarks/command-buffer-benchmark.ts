@@ -0,0 +1,95 @@
+/**
+ * Command Buffer Benchmarks
+ * Compares immediate component changes with archetype-batched command execution
+ */
+
+import { benchmarkSuite } from 'jest-bench';
+import { EngineBuilder } from '../packages/core/src/index';
+
+const ENTITY_COUNT = 10000;
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Velocity {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Health {
+    constructor(public current: number = 100) {}
+}
+
+class Sprite {
+    constructor(public texture: string = 'default') {}
+}
+
+// Reshape runs flip every entity between { Position, Sprite } and
+// { Position, Velocity, Health }, so each case reuses one world and times only the reshape
+function createReshapeWorld() {
+    const engine = new EngineBuilder().withDebugMode(false).build();
+    const entities = Array.from({ length: ENTITY_COUNT }, () =>
+        engine.createEntity().addComponent(Position).addComponent(Sprite)
+    );
+    return { engine, entities };
+}
+
+const immediateWorld = createReshapeWorld();
+const batchedWorld = createReshapeWorld();
+
+benchmarkSuite('Command Buffer', {
+    // ===== SPAWNING =====
+
+    'Spawn: 10000 entities with 4 components (immediate addComponent)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            engine
+                .createEntity()
+                .addComponent(Position, i, i)
+                .addComponent(Velocity, 1, 1)
+                .addComponent(Health)
+                .addComponent(Sprite);
+        }
+    },
+
+    'Spawn: 10000 entities with 4 components (batched commands)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+
+        engine.commands.spawnBatch(ENTITY_COUNT, (builder, i) => {
+            builder.with(Position, i, i).with(Velocity, 1, 1).with(Health).with(Sprite);
+        });
+        engine.commands.execute();
+    },
+
+    // ===== RESHAPING EXISTING ENTITIES =====
+
+    'Reshape: 10000 entities, +2/-1 components (immediate)': () => {
+        for (const entity of immediateWorld.entities) {
+            if (entity.hasComponent(Sprite)) {
+                entity.addComponent(Velocity, 1, 1).addComponent(Health).removeComponent(Sprite);
+            } else {
+                entity.addComponent(Sprite).removeComponent(Velocity).removeComponent(Health);
+            }
+        }
+    },
+
+    'Reshape: 10000 entities, +2/-1 components (batched commands)': () => {
+        const { engine, entities } = batchedWorld;
+        for (const entity of entities) {
+            const commands = engine.commands.entity(entity);
+            if (entity.hasComponent(Sprite)) {
+                commands.addComponent(Velocity, 1, 1).addComponent(Health).removeComponent(Sprite);
+            } else {
+                commands.addComponent(Sprite).removeComponent(Velocity).removeComponent(Health);
+            }
+        }
+        engine.commands.execute();
+    },
+});
@@ -0,0 +1,173 @@
+/**
+ * Struct-of-Arrays Storage Benchmarks
+ * Compares object components with typed-array (SoA) components for particle-style workloads
+ */
+
+import { benchmarkSuite } from 'jest-bench';
+import type { ComponentIdentifier } from '../packages/core/src/index';
+import {
+    Archetype,
+    ComponentTypeRegistry,
+    defineSoAComponent,
+    EngineBuilder,
+} from '../packages/core/src/index';
+
+const ENTITY_COUNT = 10000;
+const UPDATE_COUNT = 100;
+
+// Object components
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Velocity {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+// Typed-array components with the same fields
+const SoAPosition = defineSoAComponent('SoAPosition', { x: 'f32', y: 'f32' });
+const SoAVelocity = defineSoAComponent('SoAVelocity', { x: 'f32', y: 'f32' });
+
+benchmarkSuite('Struct-of-Arrays Storage', {
+    // ===== ITERATION THROUGH SYSTEMS =====
+
+    'Iteration: 10000 entities (Object components)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            const entity = engine.createEntity();
+            entity.addComponent(Position, i, i);
+            entity.addComponent(Velocity, 1, 1);
+        }
+
+        engine.createSystem(
+            'MovementSystem',
+            { all: [Position, Velocity] },
+            {
+                act: (_entity, position, velocity) => {
+                    position.x += velocity.x;
+                    position.y += velocity.y;
+                },
+            }
+        );
+
+        for (let i = 0; i < UPDATE_COUNT; i++) {
+            engine.update(16);
+        }
+    },
+
+    'Iteration: 10000 entities (SoA component views)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            const entity = engine.createEntity();
+            entity.addComponent(SoAPosition, { x: i, y: i });
+            entity.addComponent(SoAVelocity, { x: 1, y: 1 });
+        }
+
+        engine.createSystem(
+            'MovementSystem',
+            { all: [SoAPosition, SoAVelocity] },
+            {
+                act: (_entity, position, velocity) => {
+                    position.x += velocity.x;
+                    position.y += velocity.y;
+                },
+            }
+        );
+
+        for (let i = 0; i < UPDATE_COUNT; i++) {
+            engine.update(16);
+        }
+    },
+
+    // ===== RAW COLUMN ACCESS =====
+
+    'Raw loop: 10000 entities (Object component arrays)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+        const archetype = new Archetype([Position, Velocity], new ComponentTypeRegistry());
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            archetype.addEntity(
+                engine.createEntity(),
+                new Map<ComponentIdentifier, unknown>([
+                    [Position, new Position(i, i)],
+                    [Velocity, new Velocity(1, 1)],
+                ])
+            );
+        }
+
+        const [positions, velocities] = archetype.getComponentArrays([Position, Velocity]) as [
+            Position[],
+            Velocity[],
+        ];
+        for (let u = 0; u < UPDATE_COUNT; u++) {
+            for (let i = 0; i < archetype.entityCount; i++) {
+                const position = positions[i] as Position;
+                const velocity = velocities[i] as Velocity;
+                position.x += velocity.x;
+                position.y += velocity.y;
+            }
+        }
+    },
+
+    'Raw loop: 10000 entities (SoA typed-array columns)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+        const archetype = new Archetype([SoAPosition, SoAVelocity], new ComponentTypeRegistry());
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            archetype.addEntity(
+                engine.createEntity(),
+                new Map<ComponentIdentifier, unknown>([
+                    [SoAPosition, new SoAPosition({ x: i, y: i })],
+                    [SoAVelocity, new SoAVelocity({ x: 1, y: 1 })],
+                ])
+            );
+        }
+
+        const position = archetype.getSoAColumns(SoAPosition);
+        const velocity = archetype.getSoAColumns(SoAVelocity);
+        const px = position?.getColumn('x') as Float32Array;
+        const py = position?.getColumn('y') as Float32Array;
+        const vx = velocity?.getColumn('x') as Float32Array;
+        const vy = velocity?.getColumn('y') as Float32Array;
+        for (let u = 0; u < UPDATE_COUNT; u++) {
+            for (let i = 0; i < archetype.entityCount; i++) {
+                px[i] = (px[i] as number) + (vx[i] as number);
+                py[i] = (py[i] as number) + (vy[i] as number);
+            }
+        }
+    },
+
+    // ===== CREATION AND DESTRUCTION =====
+
+    'Churn: spawn and destroy 10000 entities (Object components)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            const entity = engine.createEntity();
+            entity.addComponent(Position, i, i);
+            entity.addComponent(Velocity, 1, 1);
+            entity.queueFree();
+        }
+        engine.update(16);
+    },
+
+    'Churn: spawn and destroy 10000 entities (SoA components)': () => {
+        const engine = new EngineBuilder().withDebugMode(false).build();
+
+        for (let i = 0; i < ENTITY_COUNT; i++) {
+            const entity = engine.createEntity();
+            entity.addComponent(SoAPosition, { x: i, y: i });
+            entity.addComponent(SoAVelocity, { x: 1, y: 1 });
+            entity.queueFree();
+        }
+        engine.update(16);
+    },
+});
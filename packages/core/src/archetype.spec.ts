@@ -470,6 +470,31 @@ describe('ArchetypeManager', () => {
             expect(archetype2?.hasEntity(entity)).toBe(true);
         });
 
+        it('should add several entities to an archetype at once', () => {
+            const entity2 = Entity.create(componentManager, eventEmitter, idGenerator);
+            const empty = archetypeManager.getOrCreateArchetype([]);
+            archetypeManager.addEntityToArchetype(entity, empty, new Map());
+            const archetype = archetypeManager.getOrCreateArchetype([Velocity, Position]);
+            const positions = [new Position(1, 2), new Position(3, 4)];
+            const velocities = [new Velocity(5, 6), new Velocity(7, 8)];
+
+            archetypeManager.addEntitiesToArchetype(
+                [entity, entity2],
+                archetype,
+                archetype.componentTypes.map((type) => (type === Position ? positions : velocities))
+            );
+
+            expect(empty.hasEntity(entity)).toBe(false);
+            expect(archetype.getEntities()).toEqual([entity, entity2]);
+            expect(archetype.getComponent(entity2, Position)).toBe(positions[1]);
+            expect(archetypeManager.getComponent(entity, Velocity)).toBe(velocities[0]);
+            expect(archetypeManager.getEntityArchetype(entity2)).toBe(archetype);
+            expect(archetypeManager.getStats().entityMovementCount).toBe(1);
+            expect(() => archetype.addEntities([entity], [positions, velocities.slice(1)])).toThrow(
+                '[ECS] Component'
+            );
+        });
+
         it('should remove entity from archetype', () => {
             const archetype = archetypeManager.getOrCreateArchetype([Position]);
             const components = new Map();
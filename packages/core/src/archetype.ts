@@ -6,6 +6,7 @@
 
 import type { Entity } from './core';
 import type { ComponentIdentifier, Logger, QueryOptions } from './definitions';
+import { getSoASchema, SoAColumns } from './soa';
 
 /**
  * Registry for assigning unique identifiers to component types.
@@ -205,6 +206,9 @@ export class Archetype {
     // Dense arrays of components, one per component type
     private componentArrays: Map<ComponentIdentifier, any[]> = new Map();
 
+    // Typed-array columns for struct-of-arrays components; their componentArrays hold views
+    private soaColumns: Map<ComponentIdentifier, SoAColumns> = new Map();
+
     // Map from entity ID to index in dense arrays
     private entityToIndex: Map<symbol, number> = new Map();
 
@@ -250,6 +254,11 @@ export class Archetype {
         for (const type of this.componentTypes) {
             this.componentArrays.set(type, []);
             this.componentTypeNames.add(type.name);
+
+            const schema = getSoASchema(type);
+            if (schema) {
+                this.soaColumns.set(type, new SoAColumns(schema));
+            }
         }
     }
 
@@ -324,8 +333,43 @@ export class Archetype {
                 );
             }
             const array = this.componentArrays.get(type);
-            array?.push(component);
+            const columns = this.soaColumns.get(type);
+            array?.push(columns ? columns.add(component, type) : component);
+        }
+    }
+
+    /**
+     * Add several entities to this archetype at once
+     * @param entities - Entities to add
+     * @param columns - Components of the entities, one array per type of `componentTypes`,
+     *   in the same order as `entities`
+     */
+    addEntities(entities: readonly Entity[], columns: ReadonlyArray<readonly unknown[]>): void {
+        const start = this.entities.length;
+
+        this.componentTypes.forEach((type, c) => {
+            const column = columns[c];
+            if (column?.length !== entities.length) {
+                throw new Error(
+                    `[ECS] Component ${type.name} not found when adding entities to archetype ${this.id}`
+                );
+            }
+        });
+
+        for (let i = 0; i < entities.length; i++) {
+            const entity = entities[i] as Entity;
+            this.entities.push(entity);
+            this.entityToIndex.set(entity.id, start + i);
         }
+
+        this.componentTypes.forEach((type, c) => {
+            const array = this.componentArrays.get(type) as unknown[];
+            const column = columns[c] as readonly unknown[];
+            const soa = this.soaColumns.get(type);
+            for (const component of column) {
+                array.push(soa ? soa.add(component as object, type) : component);
+            }
+        });
     }
 
     /**
@@ -396,6 +440,11 @@ export class Archetype {
             }
         }
 
+        // Struct-of-arrays columns swap their rows and re-point views before the arrays change
+        for (const [type, columns] of this.soaColumns) {
+            columns.swapRemove(index, this.componentArrays.get(type) ?? []);
+        }
+
         // Swap with last entity and pop (O(1) removal)
         if (index !== lastIndex) {
             const lastEntity = this.entities[lastIndex];
@@ -515,9 +564,29 @@ export class Archetype {
             );
         }
 
+        // Struct-of-arrays components keep their view and copy the new values into the row
+        const columns = this.soaColumns.get(type);
+        if (columns) {
+            columns.write(index, component as object);
+            return;
+        }
+
         array[index] = component;
     }
 
+    /**
+     * Get the typed-array columns of a struct-of-arrays component.
+     *
+     * Rows line up with `getEntities()`, which allows tight loops over raw
+     * typed arrays instead of views.
+     *
+     * @param type - Component type defined with `defineSoAComponent()`
+     * @returns The columns, or undefined if the type is not a struct-of-arrays component of this archetype
+     */
+    getSoAColumns(type: ComponentIdentifier): SoAColumns | undefined {
+        return this.soaColumns.get(type);
+    }
+
     /**
      * Check if entity is in this archetype
      */
@@ -769,6 +838,32 @@ export class ArchetypeManager {
         }
     }
 
+    /**
+     * Add several entities to an archetype at once, taking them out of their current ones
+     * @param entities - Entities to add
+     * @param archetype - Target archetype
+     * @param columns - Components of the entities, one array per type of the archetype's
+     *   `componentTypes`, in the same order as `entities`
+     */
+    addEntitiesToArchetype(
+        entities: readonly Entity[],
+        archetype: Archetype,
+        columns: ReadonlyArray<readonly unknown[]>
+    ): void {
+        for (const entity of entities) {
+            const oldArchetype = this.entityToArchetype.get(entity.id);
+            if (oldArchetype) {
+                oldArchetype.removeEntity(entity);
+                this._entityMovementCount++;
+            }
+        }
+
+        archetype.addEntities(entities, columns);
+        for (const entity of entities) {
+            this.entityToArchetype.set(entity.id, archetype);
+        }
+    }
+
     /**
      * Move entity to a new archetype (when components are added/removed)
      * @param entity - Entity to move
@@ -0,0 +1,191 @@
+/**
+ * Tests for binary world serialization
+ */
+
+import {
+    BINARY_WORLD_FORMAT_VERSION,
+    decodeWorldBinary,
+    encodeWorldBinary,
+    isBinaryWorld,
+} from './binary';
+import type { SerializedWorld } from './definitions';
+import { EngineBuilder } from './engine';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Inventory {
+    constructor(
+        public items: string[] = [],
+        public meta: Record<string, unknown> = {}
+    ) {}
+}
+
+const jsonRoundTrip = (world: SerializedWorld): SerializedWorld =>
+    JSON.parse(JSON.stringify(world));
+
+describe('Binary world serialization', () => {
+    describe('round trip', () => {
+        it('should match the JSON form for an engine world', () => {
+            const engine = new EngineBuilder().build();
+            const parent = engine.createEntity('Parent');
+            parent.addComponent(Position, 1.5, -20);
+            parent.addTag('root');
+            const child = engine.createEntity('Child');
+            child.addComponent(Inventory, ['sword', 'ünïcødé 🗡'], { level: 3, flags: [true] });
+            parent.addChild(child);
+            engine.createEntity();
+            engine.setSingleton(Position, 7, 8);
+
+            const world = engine.serialize();
+
+            expect(decodeWorldBinary(encodeWorldBinary(world))).toEqual(jsonRoundTrip(world));
+        });
+
+        it('should apply JSON semantics to values JSON cannot represent', () => {
+            const date = new Date(0);
+            const world = {
+                entities: [
+                    {
+                        id: 'custom-id',
+                        tags: [],
+                        components: {
+                            Weird: {
+                                missing: undefined,
+                                fn: () => 1,
+                                nan: Number.NaN,
+                                inf: Number.POSITIVE_INFINITY,
+                                date,
+                                sparse: [1, undefined, 3],
+                                big: 2 ** 60,
+                                negative: -12345678901,
+                                fraction: 0.1,
+                            },
+                        },
+                    },
+                ],
+                timestamp: 123.5,
+            } as unknown as SerializedWorld;
+
+            const decoded = decodeWorldBinary(encodeWorldBinary(world));
+
+            expect(decoded).toEqual(jsonRoundTrip(world));
+            expect(decoded.entities[0]!.components.Weird).toEqual({
+                nan: null,
+                inf: null,
+                date: date.toISOString(),
+                sparse: [1, null, 3],
+                big: 2 ** 60,
+                negative: -12345678901,
+                fraction: 0.1,
+            });
+        });
+
+        it('should preserve absent optional fields', () => {
+            const world: SerializedWorld = {
+                entities: [{ id: '5', tags: ['a'], components: {} }],
+                timestamp: 1,
+            };
+
+            const decoded = decodeWorldBinary(encodeWorldBinary(world));
+
+            expect(decoded).toEqual(world);
+            expect('children' in decoded.entities[0]!).toBe(false);
+            expect('singletons' in decoded).toBe(false);
+        });
+    });
+
+    describe('encoding', () => {
+        it('should be smaller than JSON for repeated components', () => {
+            const engine = new EngineBuilder().build();
+            for (let i = 0; i < 500; i++) {
+                engine.createEntity(`Entity_${i}`).addComponent(Position, i, i * 2);
+            }
+            const world = engine.serialize();
+
+            const binarySize = encodeWorldBinary(world).length;
+            const jsonSize = new TextEncoder().encode(JSON.stringify(world)).length;
+
+            expect(binarySize).toBeLessThan(jsonSize / 2);
+        });
+
+        it('should write the magic header and version', () => {
+            const bytes = encodeWorldBinary({ entities: [], timestamp: 0 });
+
+            expect(isBinaryWorld(bytes)).toBe(true);
+            expect(bytes[4]).toBe(BINARY_WORLD_FORMAT_VERSION);
+            expect(isBinaryWorld(new TextEncoder().encode('{"entities":[]}'))).toBe(false);
+        });
+
+        it('should reject circular structures', () => {
+            const data: Record<string, unknown> = {};
+            data.self = data;
+
+            expect(() =>
+                encodeWorldBinary({
+                    entities: [{ id: '1', tags: [], components: { Loop: data } }],
+                    timestamp: 0,
+                })
+            ).toThrow(/circular structure/);
+        });
+    });
+
+    describe('decoding', () => {
+        it('should reject data without the header', () => {
+            expect(() => decodeWorldBinary(new Uint8Array([1, 2, 3]))).toThrow(
+                /missing OECS header/
+            );
+        });
+
+        it('should reject unsupported versions', () => {
+            const bytes = encodeWorldBinary({ entities: [], timestamp: 0 });
+            bytes[4] = 99;
+
+            expect(() => decodeWorldBinary(bytes)).toThrow(/Unsupported binary world version 99/);
+        });
+
+        it('should read version 1 worlds, which have no entity generations', () => {
+            const world: SerializedWorld = {
+                entities: [{ id: '7', name: 'A', tags: [], components: { P: { x: 1 } } }],
+                timestamp: 0,
+            };
+            const bytes = encodeWorldBinary(world);
+            bytes[4] = 1;
+
+            expect(decodeWorldBinary(bytes)).toEqual(world);
+        });
+
+        it('should reject truncated data', () => {
+            const bytes = encodeWorldBinary({
+                entities: [{ id: '1', name: 'A', tags: [], components: { P: { x: 1 } } }],
+                timestamp: 0,
+            });
+
+            expect(() => decodeWorldBinary(bytes.slice(0, bytes.length - 2))).toThrow(
+                /unexpected end of data/
+            );
+        });
+    });
+
+    describe('Engine integration', () => {
+        it('should load a binary world into another engine', () => {
+            const source = new EngineBuilder().build();
+            const entity = source.createEntity('Player');
+            entity.addComponent(Position, 3, 4);
+            entity.addTag('player');
+
+            const target = new EngineBuilder().build();
+            target.registerComponent(Position);
+            const result = target.deserializeBinary(source.serializeBinary());
+
+            expect(result.unknownComponents).toHaveLength(0);
+            const restored = target.getEntityByName('Player')!;
+            expect(restored.getComponent(Position)).toEqual({ x: 3, y: 4 });
+            expect(restored.hasTag('player')).toBe(true);
+        });
+    });
+});
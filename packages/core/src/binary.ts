@@ -0,0 +1,627 @@
+/**
+ * Compact binary encoding for serialized worlds.
+ *
+ * The binary form is an alternative to `JSON.stringify(engine.serialize())` for
+ * large worlds, save files, snapshots and network transfer. Decoding a binary world
+ * always yields exactly what `JSON.parse(JSON.stringify(world))` would.
+ *
+ * Layout (all integers are unsigned LEB128 varints unless noted):
+ * - Header: magic `OECS`, one byte binary format version
+ * - String table: count, then byte length + UTF-8 bytes per string
+ * - Shape table: count, then key count + key string indices per object shape
+ * - World: presence flags byte, optional format version, float64 timestamp,
+ *   optional component versions, optional singletons, entities
+ *
+ * Component, tag and field names are stored once in the string table. Objects
+ * with the same set of keys share a shape, so repeated components pack to their
+ * field values only.
+ */
+
+import type { SerializedEntity, SerializedWorld } from './definitions';
+
+/** Magic bytes identifying a binary world ("OECS") */
+const MAGIC = [0x4f, 0x45, 0x43, 0x53];
+
+/**
+ * Version of the binary layout written by {@link encodeWorldBinary}.
+ * @public
+ */
+export const BINARY_WORLD_FORMAT_VERSION = 2;
+
+// World presence flags
+const WORLD_HAS_FORMAT_VERSION = 1;
+const WORLD_HAS_SINGLETONS = 2;
+const WORLD_HAS_COMPONENT_VERSIONS = 4;
+
+// Entity presence flags
+const ENTITY_HAS_NAME = 1;
+const ENTITY_HAS_CHILDREN = 2;
+// Added in binary format version 2
+const ENTITY_HAS_GENERATION = 4;
+
+// Value type tags
+const VALUE_NULL = 0;
+const VALUE_FALSE = 1;
+const VALUE_TRUE = 2;
+const VALUE_INT = 3;
+const VALUE_FLOAT = 4;
+const VALUE_STRING = 5;
+const VALUE_ARRAY = 6;
+const VALUE_OBJECT = 7;
+
+// Integers beyond this magnitude are stored as float64 so zigzag encoding stays exact
+const MAX_VARINT_MAGNITUDE = 2 ** 52;
+
+/**
+ * Growable byte buffer with varint and float64 writers.
+ * @internal
+ */
+class BinaryWriter {
+    private buffer: Uint8Array = new Uint8Array(1024);
+    private view: DataView = new DataView(this.buffer.buffer);
+    private length: number = 0;
+
+    private ensureCapacity(additional: number): void {
+        const required = this.length + additional;
+        if (required <= this.buffer.length) {
+            return;
+        }
+        let capacity = this.buffer.length * 2;
+        while (capacity < required) {
+            capacity *= 2;
+        }
+        const next = new Uint8Array(capacity);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    writeByte(value: number): void {
+        this.ensureCapacity(1);
+        this.buffer[this.length++] = value;
+    }
+
+    writeVarUint(value: number): void {
+        this.ensureCapacity(8);
+        // Division instead of bit shifts keeps values above 2^31 exact
+        let remaining = value;
+        while (remaining >= 0x80) {
+            this.buffer[this.length++] = (remaining % 0x80) | 0x80;
+            remaining = Math.floor(remaining / 0x80);
+        }
+        this.buffer[this.length++] = remaining;
+    }
+
+    writeFloat64(value: number): void {
+        this.ensureCapacity(8);
+        this.view.setFloat64(this.length, value, true);
+        this.length += 8;
+    }
+
+    writeBytes(bytes: Uint8Array): void {
+        this.ensureCapacity(bytes.length);
+        this.buffer.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    toBytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+/**
+ * Bounds-checked reader over a byte buffer.
+ * @internal
+ */
+class BinaryReader {
+    private offset: number = 0;
+    private view: DataView;
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    get isAtEnd(): boolean {
+        return this.offset >= this.bytes.length;
+    }
+
+    private require(count: number): void {
+        if (this.offset + count > this.bytes.length) {
+            throw new Error(
+                `[ECS] Malformed binary world: unexpected end of data at byte ${this.offset}`
+            );
+        }
+    }
+
+    readByte(): number {
+        this.require(1);
+        return this.bytes[this.offset++] as number;
+    }
+
+    readVarUint(): number {
+        let result = 0;
+        let multiplier = 1;
+        for (;;) {
+            const byte = this.readByte();
+            result += (byte & 0x7f) * multiplier;
+            if (byte < 0x80) {
+                return result;
+            }
+            multiplier *= 0x80;
+            if (multiplier > 2 ** 56) {
+                throw new Error(
+                    `[ECS] Malformed binary world: varint too long at byte ${this.offset}`
+                );
+            }
+        }
+    }
+
+    readFloat64(): number {
+        this.require(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+    }
+
+    readBytes(count: number): Uint8Array {
+        this.require(count);
+        const slice = this.bytes.subarray(this.offset, this.offset + count);
+        this.offset += count;
+        return slice;
+    }
+}
+
+/**
+ * Interns strings and object shapes while the world body is written.
+ * @internal
+ */
+class EncodeTables {
+    readonly strings: string[] = [];
+    readonly shapes: number[][] = [];
+    private stringIndex: Map<string, number> = new Map();
+    private shapeIndex: Map<string, number> = new Map();
+
+    string(value: string): number {
+        let index = this.stringIndex.get(value);
+        if (index === undefined) {
+            index = this.strings.length;
+            this.strings.push(value);
+            this.stringIndex.set(value, index);
+        }
+        return index;
+    }
+
+    shape(keys: string[]): number {
+        const keyIndices = keys.map((key) => this.string(key));
+        const id = keyIndices.join(',');
+        let index = this.shapeIndex.get(id);
+        if (index === undefined) {
+            index = this.shapes.length;
+            this.shapes.push(keyIndices);
+            this.shapeIndex.set(id, index);
+        }
+        return index;
+    }
+}
+
+/**
+ * Resolve a value the way JSON.stringify would before writing it.
+ * Returns undefined for values JSON omits (functions, symbols, undefined).
+ */
+function toJsonValue(rawValue: unknown, key: string): unknown {
+    const value =
+        rawValue !== null &&
+        typeof rawValue === 'object' &&
+        typeof (rawValue as { toJSON?: unknown }).toJSON === 'function'
+            ? (rawValue as { toJSON(key: string): unknown }).toJSON(key)
+            : rawValue;
+    if (typeof value === 'bigint') {
+        throw new Error('[ECS] Cannot encode BigInt values in a binary world');
+    }
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+        return undefined;
+    }
+    if (value instanceof Number || value instanceof String || value instanceof Boolean) {
+        return value.valueOf();
+    }
+    return value;
+}
+
+function writeValue(
+    writer: BinaryWriter,
+    tables: EncodeTables,
+    rawValue: unknown,
+    key: string,
+    ancestors: Set<object>
+): void {
+    const value = toJsonValue(rawValue, key);
+
+    if (value === null || value === undefined) {
+        writer.writeByte(VALUE_NULL);
+    } else if (value === true) {
+        writer.writeByte(VALUE_TRUE);
+    } else if (value === false) {
+        writer.writeByte(VALUE_FALSE);
+    } else if (typeof value === 'number') {
+        if (!Number.isFinite(value)) {
+            writer.writeByte(VALUE_NULL);
+        } else if (Number.isInteger(value) && Math.abs(value) < MAX_VARINT_MAGNITUDE) {
+            writer.writeByte(VALUE_INT);
+            writer.writeVarUint(value >= 0 ? value * 2 : -value * 2 - 1);
+        } else {
+            writer.writeByte(VALUE_FLOAT);
+            writer.writeFloat64(value);
+        }
+    } else if (typeof value === 'string') {
+        writer.writeByte(VALUE_STRING);
+        writer.writeVarUint(tables.string(value));
+    } else if (typeof value === 'object') {
+        if (ancestors.has(value)) {
+            throw new Error('[ECS] Cannot encode circular structure in a binary world');
+        }
+        ancestors.add(value);
+        if (Array.isArray(value)) {
+            writer.writeByte(VALUE_ARRAY);
+            writer.writeVarUint(value.length);
+            for (let i = 0; i < value.length; i++) {
+                writeValue(writer, tables, value[i], String(i), ancestors);
+            }
+        } else {
+            const record = value as Record<string, unknown>;
+            const keys = Object.keys(record).filter(
+                (field) => toJsonValue(record[field], field) !== undefined
+            );
+            writer.writeByte(VALUE_OBJECT);
+            writer.writeVarUint(tables.shape(keys));
+            for (const field of keys) {
+                writeValue(writer, tables, record[field], field, ancestors);
+            }
+        }
+        ancestors.delete(value);
+    } else {
+        writer.writeByte(VALUE_NULL);
+    }
+}
+
+function writeNamedValues(
+    writer: BinaryWriter,
+    tables: EncodeTables,
+    record: Record<string, unknown>
+): void {
+    const names = Object.keys(record).filter(
+        (name) => toJsonValue(record[name], name) !== undefined
+    );
+    writer.writeVarUint(names.length);
+    for (const name of names) {
+        writer.writeVarUint(tables.string(name));
+        writeValue(writer, tables, record[name], name, new Set());
+    }
+}
+
+/**
+ * Entity IDs produced by the engine are decimal numeric strings; those are
+ * written as varints (even), anything else as a string table index (odd).
+ */
+function writeEntityId(writer: BinaryWriter, tables: EncodeTables, id: string): void {
+    if (/^(0|[1-9]\d*)$/.test(id)) {
+        const numeric = Number(id);
+        if (numeric < MAX_VARINT_MAGNITUDE) {
+            writer.writeVarUint(numeric * 2);
+            return;
+        }
+    }
+    writer.writeVarUint(tables.string(id) * 2 + 1);
+}
+
+function writeEntity(writer: BinaryWriter, tables: EncodeTables, entity: SerializedEntity): void {
+    writeEntityId(writer, tables, String(entity.id));
+
+    const name = toJsonValue(entity.name, 'name');
+    const hasName = name !== undefined && name !== null;
+    const hasChildren = Array.isArray(entity.children);
+    const hasGeneration = Number.isInteger(entity.generation) && (entity.generation as number) >= 0;
+    writer.writeByte(
+        (hasName ? ENTITY_HAS_NAME : 0) |
+            (hasChildren ? ENTITY_HAS_CHILDREN : 0) |
+            (hasGeneration ? ENTITY_HAS_GENERATION : 0)
+    );
+    if (hasName) {
+        writer.writeVarUint(tables.string(String(name)));
+    }
+    if (hasGeneration) {
+        writer.writeVarUint(entity.generation as number);
+    }
+
+    writer.writeVarUint(entity.tags.length);
+    for (const tag of entity.tags) {
+        writer.writeVarUint(tables.string(tag));
+    }
+
+    writeNamedValues(writer, tables, entity.components ?? {});
+
+    if (hasChildren) {
+        const children = entity.children as SerializedEntity[];
+        writer.writeVarUint(children.length);
+        for (const child of children) {
+            writeEntity(writer, tables, child);
+        }
+    }
+}
+
+/**
+ * Encode a serialized world into a compact binary buffer.
+ *
+ * Component and tag names, field names and string values are stored once in a
+ * string table, numeric entity IDs are written as varints, and component objects
+ * sharing the same fields share a single shape so only their values are written.
+ *
+ * The encoding follows JSON semantics: `decodeWorldBinary(encodeWorldBinary(world))`
+ * deep-equals `JSON.parse(JSON.stringify(world))`. Values JSON cannot represent
+ * (functions, `undefined` fields, non-finite numbers) are dropped or become `null`
+ * exactly as `JSON.stringify` would, and objects with a `toJSON` method (such as
+ * `Date`) are encoded through it.
+ *
+ * @param world - The serialized world, e.g. from `engine.serialize()`
+ * @returns The binary representation
+ * @throws Error if the world contains circular references or BigInt values
+ *
+ * @example
+ * ```typescript
+ * const bytes = encodeWorldBinary(engine.serialize());
+ * await fs.promises.writeFile('save.bin', bytes);
+ * ```
+ *
+ * @public
+ */
+export function encodeWorldBinary(world: SerializedWorld): Uint8Array {
+    const tables = new EncodeTables();
+    const body = new BinaryWriter();
+
+    const hasFormatVersion = typeof world.formatVersion === 'number';
+    const hasSingletons = world.singletons !== undefined && world.singletons !== null;
+    const hasComponentVersions =
+        world.componentVersions !== undefined && world.componentVersions !== null;
+
+    body.writeByte(
+        (hasFormatVersion ? WORLD_HAS_FORMAT_VERSION : 0) |
+            (hasSingletons ? WORLD_HAS_SINGLETONS : 0) |
+            (hasComponentVersions ? WORLD_HAS_COMPONENT_VERSIONS : 0)
+    );
+    if (hasFormatVersion) {
+        body.writeVarUint(world.formatVersion as number);
+    }
+    body.writeFloat64(world.timestamp);
+    if (hasComponentVersions) {
+        const versions = world.componentVersions as Record<string, number>;
+        const names = Object.keys(versions);
+        body.writeVarUint(names.length);
+        for (const name of names) {
+            body.writeVarUint(tables.string(name));
+            body.writeVarUint(versions[name] as number);
+        }
+    }
+    if (hasSingletons) {
+        writeNamedValues(body, tables, world.singletons as Record<string, unknown>);
+    }
+    body.writeVarUint(world.entities.length);
+    for (const entity of world.entities) {
+        writeEntity(body, tables, entity);
+    }
+
+    const output = new BinaryWriter();
+    output.writeBytes(Uint8Array.from(MAGIC));
+    output.writeByte(BINARY_WORLD_FORMAT_VERSION);
+
+    const encoder = new TextEncoder();
+    output.writeVarUint(tables.strings.length);
+    for (const value of tables.strings) {
+        const bytes = encoder.encode(value);
+        output.writeVarUint(bytes.length);
+        output.writeBytes(bytes);
+    }
+
+    output.writeVarUint(tables.shapes.length);
+    for (const shape of tables.shapes) {
+        output.writeVarUint(shape.length);
+        for (const keyIndex of shape) {
+            output.writeVarUint(keyIndex);
+        }
+    }
+
+    output.writeBytes(body.toBytes());
+    return output.toBytes();
+}
+
+/**
+ * Decoded string and shape tables.
+ * @internal
+ */
+interface DecodeTables {
+    strings: string[];
+    shapes: string[][];
+}
+
+function stringAt(tables: DecodeTables, index: number): string {
+    const value = tables.strings[index];
+    if (value === undefined) {
+        throw new Error(`[ECS] Malformed binary world: string index ${index} out of range`);
+    }
+    return value;
+}
+
+function readString(reader: BinaryReader, tables: DecodeTables): string {
+    return stringAt(tables, reader.readVarUint());
+}
+
+function readValue(reader: BinaryReader, tables: DecodeTables): unknown {
+    const tag = reader.readByte();
+    switch (tag) {
+        case VALUE_NULL:
+            return null;
+        case VALUE_FALSE:
+            return false;
+        case VALUE_TRUE:
+            return true;
+        case VALUE_INT: {
+            const zigzag = reader.readVarUint();
+            return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+        }
+        case VALUE_FLOAT:
+            return reader.readFloat64();
+        case VALUE_STRING:
+            return readString(reader, tables);
+        case VALUE_ARRAY: {
+            const length = reader.readVarUint();
+            const array: unknown[] = [];
+            for (let i = 0; i < length; i++) {
+                array.push(readValue(reader, tables));
+            }
+            return array;
+        }
+        case VALUE_OBJECT: {
+            const shapeIndex = reader.readVarUint();
+            const shape = tables.shapes[shapeIndex];
+            if (!shape) {
+                throw new Error(
+                    `[ECS] Malformed binary world: shape index ${shapeIndex} out of range`
+                );
+            }
+            const record: Record<string, unknown> = {};
+            for (const key of shape) {
+                record[key] = readValue(reader, tables);
+            }
+            return record;
+        }
+        default:
+            throw new Error(`[ECS] Malformed binary world: unknown value tag ${tag}`);
+    }
+}
+
+function readNamedValues(reader: BinaryReader, tables: DecodeTables): Record<string, unknown> {
+    const count = reader.readVarUint();
+    const record: Record<string, unknown> = {};
+    for (let i = 0; i < count; i++) {
+        const name = readString(reader, tables);
+        record[name] = readValue(reader, tables);
+    }
+    return record;
+}
+
+function readEntity(reader: BinaryReader, tables: DecodeTables): SerializedEntity {
+    const encodedId = reader.readVarUint();
+    const id = encodedId % 2 === 0 ? String(encodedId / 2) : stringAt(tables, (encodedId - 1) / 2);
+
+    const flags = reader.readByte();
+    const entity: SerializedEntity = { id, tags: [], components: {} };
+    if (flags & ENTITY_HAS_NAME) {
+        entity.name = readString(reader, tables);
+    }
+    if (flags & ENTITY_HAS_GENERATION) {
+        entity.generation = reader.readVarUint();
+    }
+
+    const tagCount = reader.readVarUint();
+    for (let i = 0; i < tagCount; i++) {
+        entity.tags.push(readString(reader, tables));
+    }
+
+    entity.components = readNamedValues(reader, tables);
+
+    if (flags & ENTITY_HAS_CHILDREN) {
+        const childCount = reader.readVarUint();
+        const children: SerializedEntity[] = [];
+        for (let i = 0; i < childCount; i++) {
+            children.push(readEntity(reader, tables));
+        }
+        entity.children = children;
+    }
+
+    return entity;
+}
+
+/**
+ * Check whether a buffer starts with the binary world magic bytes.
+ *
+ * @param bytes - The buffer to inspect
+ * @returns True if the buffer looks like output of {@link encodeWorldBinary}
+ *
+ * @public
+ */
+export function isBinaryWorld(bytes: Uint8Array): boolean {
+    return bytes.length >= MAGIC.length && MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Decode a binary buffer produced by {@link encodeWorldBinary}.
+ *
+ * @param bytes - The binary world data
+ * @returns The serialized world, identical to its JSON round-trip form
+ * @throws Error if the data is not a binary world, uses an unsupported version, or is truncated
+ *
+ * @example
+ * ```typescript
+ * const bytes = new Uint8Array(await fs.promises.readFile('save.bin'));
+ * engine.deserialize(decodeWorldBinary(bytes));
+ * ```
+ *
+ * @public
+ */
+export function decodeWorldBinary(bytes: Uint8Array): SerializedWorld {
+    if (!isBinaryWorld(bytes)) {
+        throw new Error('[ECS] Not a binary world: missing OECS header');
+    }
+
+    const reader = new BinaryReader(bytes);
+    reader.readBytes(MAGIC.length);
+    const version = reader.readByte();
+    if (version < 1 || version > BINARY_WORLD_FORMAT_VERSION) {
+        throw new Error(
+            `[ECS] Unsupported binary world version ${version} (supported: 1-${BINARY_WORLD_FORMAT_VERSION})`
+        );
+    }
+
+    const decoder = new TextDecoder();
+    const tables: DecodeTables = { strings: [], shapes: [] };
+    const stringCount = reader.readVarUint();
+    for (let i = 0; i < stringCount; i++) {
+        tables.strings.push(decoder.decode(reader.readBytes(reader.readVarUint())));
+    }
+    const shapeCount = reader.readVarUint();
+    for (let i = 0; i < shapeCount; i++) {
+        const keyCount = reader.readVarUint();
+        const keys: string[] = [];
+        for (let k = 0; k < keyCount; k++) {
+            keys.push(readString(reader, tables));
+        }
+        tables.shapes.push(keys);
+    }
+
+    const flags = reader.readByte();
+    const world: SerializedWorld = { entities: [], timestamp: 0 };
+    if (flags & WORLD_HAS_FORMAT_VERSION) {
+        world.formatVersion = reader.readVarUint();
+    }
+    world.timestamp = reader.readFloat64();
+    if (flags & WORLD_HAS_COMPONENT_VERSIONS) {
+        const versions: Record<string, number> = {};
+        const count = reader.readVarUint();
+        for (let i = 0; i < count; i++) {
+            const name = readString(reader, tables);
+            versions[name] = reader.readVarUint();
+        }
+        world.componentVersions = versions;
+    }
+    if (flags & WORLD_HAS_SINGLETONS) {
+        world.singletons = readNamedValues(reader, tables);
+    }
+    const entityCount = reader.readVarUint();
+    for (let i = 0; i < entityCount; i++) {
+        world.entities.push(readEntity(reader, tables));
+    }
+
+    if (!reader.isAtEnd) {
+        throw new Error('[ECS] Malformed binary world: trailing data after entities');
+    }
+
+    return world;
+}
@@ -0,0 +1,198 @@
+/**
+ * Typed Channels Test Suite
+ * Tests for typed message and event channels, debug-mode validation, delivery modes and readers
+ */
+
+import { defineEvent, defineMessage } from './channels';
+import { EngineBuilder } from './engine';
+
+interface DamageData {
+    target: number;
+    amount: number;
+}
+
+const Damage = defineMessage<DamageData>('damage', {
+    validate: (data) => data.amount >= 0 || 'amount must not be negative',
+});
+
+const LevelCompleted = defineEvent<[level: number, time: number]>('levelCompleted', {
+    validate: (level) => Number.isInteger(level),
+});
+
+describe('Typed channels', () => {
+    test('should publish and subscribe through message channels alongside string keys', () => {
+        const engine = new EngineBuilder().build();
+        const typed: DamageData[] = [];
+        const untyped: unknown[] = [];
+        engine.messageBus.subscribe(Damage, (message) => typed.push(message.data));
+        engine.messageBus.subscribe('damage', (message) => untyped.push(message.data));
+
+        engine.messageBus.publish(Damage, { target: 1, amount: 5 }, 'CombatSystem');
+        engine.messageBus.publish('damage', { target: 2, amount: 3 });
+
+        expect(typed).toEqual([
+            { target: 1, amount: 5 },
+            { target: 2, amount: 3 },
+        ]);
+        expect(untyped).toEqual(typed);
+        expect(engine.messageBus.getMessageHistory(Damage)).toHaveLength(2);
+        expect(engine.messageBus.getMessageHistory(Damage)[0]?.sender).toBe('CombatSystem');
+        engine.destroy();
+    });
+
+    test('should emit and listen through event channels', () => {
+        const engine = new EngineBuilder().build();
+        const listener = jest.fn();
+        const stringListener = jest.fn();
+        const unsubscribe = engine.on(LevelCompleted, listener);
+        engine.on('levelCompleted', stringListener);
+
+        engine.emit(LevelCompleted, 3, 92.5);
+        unsubscribe();
+        engine.emit(LevelCompleted, 4, 80);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(3, 92.5);
+        expect(stringListener).toHaveBeenCalledTimes(2);
+        engine.off(LevelCompleted, stringListener);
+        engine.emit(LevelCompleted, 5, 70);
+        expect(stringListener).toHaveBeenCalledTimes(2);
+        engine.destroy();
+    });
+
+    test('should validate channel payloads in debug mode', () => {
+        const engine = new EngineBuilder().withDebugMode(true).build();
+        const received = jest.fn();
+        engine.messageBus.subscribe(Damage, received);
+
+        expect(() => engine.messageBus.publish(Damage, { target: 1, amount: -1 })).toThrow(
+            '[ECS] Invalid payload for message "damage": amount must not be negative'
+        );
+        expect(() => engine.emit(LevelCompleted, 1.5, 10)).toThrow(
+            '[ECS] Invalid payload for event "levelCompleted": payload validation failed'
+        );
+        expect(received).not.toHaveBeenCalled();
+        engine.destroy();
+    });
+
+    test('should skip payload validation outside debug mode', () => {
+        const engine = new EngineBuilder().build();
+        const received = jest.fn();
+        engine.messageBus.subscribe(Damage, received);
+
+        engine.messageBus.publish(Damage, { target: 1, amount: -1 });
+        engine.emit(LevelCompleted, 1.5, 10);
+
+        expect(received).toHaveBeenCalledTimes(1);
+        engine.destroy();
+    });
+});
+
+describe('Message delivery', () => {
+    function createSystems(engine: ReturnType<EngineBuilder['build']>, log: string[]) {
+        engine.createSystem(
+            'Combat',
+            { all: [] },
+            {
+                priority: 10,
+                before: () => {
+                    log.push('Combat');
+                    engine.messageBus.publish(Damage, { target: 1, amount: 5 });
+                },
+            }
+        );
+        engine.createSystem(
+            'Render',
+            { all: [] },
+            { priority: 0, before: () => void log.push('Render') }
+        );
+    }
+
+    test('should deliver end-of-system messages after the publishing system', () => {
+        const engine = new EngineBuilder().build();
+        const log: string[] = [];
+        createSystems(engine, log);
+        engine.messageBus.setDeliveryMode(Damage, 'endOfSystem');
+        engine.messageBus.subscribe(Damage, () => void log.push('damage'));
+
+        engine.update(1);
+
+        expect(engine.messageBus.getDeliveryMode('damage')).toBe('endOfSystem');
+        expect(log).toEqual(['Combat', 'damage', 'Render']);
+        engine.destroy();
+    });
+
+    test('should deliver end-of-frame messages after every system and queue re-entrant publishes', () => {
+        const engine = new EngineBuilder().build();
+        const log: string[] = [];
+        createSystems(engine, log);
+        engine.messageBus.setDeliveryMode(Damage, 'endOfFrame');
+        engine.messageBus.setDeliveryMode('echo', 'endOfFrame');
+        engine.messageBus.subscribe(Damage, () => {
+            log.push('damage');
+            engine.messageBus.publish('echo', null);
+        });
+        engine.messageBus.subscribe('echo', () => void log.push('echo'));
+
+        engine.update(1);
+        expect(log).toEqual(['Combat', 'Render', 'damage']);
+
+        engine.update(1);
+        expect(log).toEqual(['Combat', 'Render', 'damage', 'Combat', 'Render', 'echo', 'damage']);
+        engine.destroy();
+    });
+
+    test('should deliver next-fixed-tick messages before the next fixed systems run', () => {
+        const engine = new EngineBuilder().withFixedUpdateFPS(100).build();
+        const log: string[] = [];
+        engine.createSystem(
+            'Physics',
+            { all: [] },
+            {
+                before: () => {
+                    log.push('Physics');
+                    engine.messageBus.publish(Damage, { target: 1, amount: 1 });
+                },
+            },
+            true
+        );
+        engine.messageBus.setDeliveryMode(Damage, 'nextFixedTick');
+        engine.messageBus.subscribe(Damage, () => void log.push('damage'));
+
+        engine.update(10);
+        engine.update(5);
+        expect(log).toEqual(['Physics']);
+
+        engine.messageBus.publish(Damage, { target: 2, amount: 1 });
+        engine.update(5);
+        expect(log).toEqual(['Physics', 'damage', 'damage', 'Physics']);
+        engine.destroy();
+    });
+
+    test('should read messages delivered since the last read for two frames', () => {
+        const engine = new EngineBuilder().build();
+        const reader = engine.messageBus.createReader(Damage);
+        engine.messageBus.publish(Damage, { target: 1, amount: 1 });
+        engine.messageBus.publish('damage', { target: 2, amount: 2 });
+
+        expect(reader.hasUnread()).toBe(true);
+        expect(reader.read().map((message) => message.data.target)).toEqual([1, 2]);
+        expect(reader.read()).toEqual([]);
+
+        engine.messageBus.publish(Damage, { target: 3, amount: 3 });
+        engine.update(1);
+        engine.messageBus.publish(Damage, { target: 4, amount: 4 });
+        expect(reader.read().map((message) => message.data.target)).toEqual([3, 4]);
+
+        engine.messageBus.publish(Damage, { target: 5, amount: 5 });
+        engine.update(1);
+        engine.update(1);
+        expect(reader.hasUnread()).toBe(false);
+        expect(reader.read()).toEqual([]);
+
+        reader.close();
+        engine.messageBus.publish(Damage, { target: 6, amount: 6 });
+        expect(reader.read()).toEqual([]);
+        engine.destroy();
+    });
+});
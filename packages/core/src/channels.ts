@@ -0,0 +1,207 @@
+/**
+ * Typed event and message channels.
+ *
+ * `engine.on/emit` and the message bus are keyed by strings and carry untyped
+ * payloads. A channel pairs the string key with its payload type, so
+ * publishing, emitting and subscribing through the channel are checked at
+ * compile time, and an optional validator checks payloads at runtime in debug
+ * mode. Channels use the same string keys underneath, so string-based code
+ * keeps receiving channel traffic and vice versa.
+ */
+
+import type { SystemMessage } from './definitions';
+
+/**
+ * Checks a payload at runtime, returning true when it is valid or an error message.
+ *
+ * @public
+ */
+export type PayloadValidator<Args extends unknown[]> = (...args: Args) => boolean | string;
+
+/**
+ * A message bus channel whose payloads have type `T`, created with {@link defineMessage}.
+ *
+ * @public
+ */
+export interface MessageChannel<T> {
+    readonly kind: 'message';
+    /** The message type the channel publishes and subscribes to */
+    readonly name: string;
+    readonly validate?: PayloadValidator<[data: T]>;
+    /** Type-only marker carrying the payload type; never set at runtime */
+    readonly __payload?: T;
+}
+
+/**
+ * An engine event whose listeners receive arguments of type `Args`, created
+ * with {@link defineEvent}.
+ *
+ * @public
+ */
+export interface EventChannel<Args extends unknown[]> {
+    readonly kind: 'event';
+    /** The event name the channel emits and listens to */
+    readonly name: string;
+    readonly validate?: PayloadValidator<Args>;
+    /** Type-only marker carrying the argument types; never set at runtime */
+    readonly __args?: Args;
+}
+
+/**
+ * A message published on a {@link MessageChannel}.
+ *
+ * @public
+ */
+export interface TypedMessage<T> extends SystemMessage {
+    data: T;
+}
+
+/**
+ * When the message bus delivers a published message to its subscribers.
+ *
+ * - `immediate`: synchronously inside `publish()` (the default)
+ * - `endOfSystem`: after the publishing system finishes, or at the end of the frame
+ *   when published outside a system
+ * - `endOfFrame`: once every system has run, before deferred commands execute
+ * - `nextFixedTick`: before the fixed update systems of the next fixed tick run
+ *
+ * Queued messages are delivered in publish order. Messages published while a queue
+ * is being delivered wait for that queue's next delivery.
+ *
+ * @public
+ */
+export type MessageDeliveryMode = 'immediate' | 'endOfSystem' | 'endOfFrame' | 'nextFixedTick';
+
+/**
+ * Reads the messages of one type delivered since it last read, created with
+ * `messageBus.createReader()`.
+ *
+ * Delivered messages are kept for the frame they were delivered in and the
+ * following frame, so a reader must read at least every other frame to see every
+ * message; older messages are dropped.
+ *
+ * @public
+ */
+export interface MessageReader<T> {
+    /** The message type the reader reads */
+    readonly messageType: string;
+    /** Get the messages delivered since the last read, oldest first, and advance past them */
+    read(): TypedMessage<T>[];
+    /** Check for messages delivered since the last read without advancing */
+    hasUnread(): boolean;
+    /** Skip every unread message */
+    clear(): void;
+    /** Stop the reader; the bus stops buffering the type once no reader is left */
+    close(): void;
+}
+
+/**
+ * The engine's message bus, accepting channels and plain message types.
+ *
+ * @public
+ */
+export interface EngineMessageBus {
+    subscribe<T>(
+        channel: MessageChannel<T>,
+        callback: (message: TypedMessage<T>) => void
+    ): () => void;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    subscribe(messageType: string, callback: (message: any) => void): () => void;
+    publish<T>(channel: MessageChannel<T>, data: T, sender?: string): void;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    publish(messageType: string, data: any, sender?: string): void;
+    getMessageHistory<T>(channel: MessageChannel<T>): TypedMessage<T>[];
+    getMessageHistory(messageType?: string): SystemMessage[];
+    setDeliveryMode<T>(messageType: string | MessageChannel<T>, mode: MessageDeliveryMode): void;
+    getDeliveryMode<T>(messageType: string | MessageChannel<T>): MessageDeliveryMode;
+    createReader<T>(channel: MessageChannel<T>): MessageReader<T>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    createReader(messageType: string): MessageReader<any>;
+}
+
+/**
+ * Define a typed message bus channel.
+ *
+ * @typeParam T - The payload type
+ * @param name - The message type, shared with string-based publishers and subscribers
+ * @param options - Optional runtime validator, run on every publish in debug mode
+ * @returns A channel to publish and subscribe with
+ *
+ * @example
+ * ```typescript
+ * interface CollisionData {
+ *   a: EntityHandle;
+ *   b: EntityHandle;
+ *   impulse: number;
+ * }
+ *
+ * export const Collision = defineMessage<CollisionData>('collision', {
+ *   validate: (data) => typeof data.impulse === 'number' || 'impulse must be a number',
+ * });
+ *
+ * engine.messageBus.subscribe(Collision, (message) => applyDamage(message.data.impulse));
+ * engine.messageBus.publish(Collision, { a: player.handle, b: wall.handle, impulse: 4 });
+ * engine.messageBus.publish(Collision, { impulse: 4 }); // Compile error: a and b are missing
+ * ```
+ *
+ * @public
+ */
+export function defineMessage<T>(
+    name: string,
+    options: { validate?: PayloadValidator<[data: T]> } = {}
+): MessageChannel<T> {
+    return Object.freeze({ kind: 'message', name, validate: options.validate });
+}
+
+/**
+ * Define a typed engine event.
+ *
+ * @typeParam Args - The listener arguments
+ * @param name - The event name, shared with string-based `on` and `emit` calls
+ * @param options - Optional runtime validator, run on every emit in debug mode
+ * @returns A channel to emit and listen with
+ *
+ * @example
+ * ```typescript
+ * export const LevelCompleted = defineEvent<[level: number, time: number]>('levelCompleted');
+ *
+ * engine.on(LevelCompleted, (level, time) => saveBestTime(level, time));
+ * engine.emit(LevelCompleted, 3, 92.5);
+ * engine.emit(LevelCompleted, '3'); // Compile error
+ * ```
+ *
+ * @public
+ */
+export function defineEvent<Args extends unknown[] = []>(
+    name: string,
+    options: { validate?: PayloadValidator<Args> } = {}
+): EventChannel<Args> {
+    return Object.freeze({ kind: 'event', name, validate: options.validate });
+}
+
+/**
+ * Get the string key of a channel or plain key.
+ * @internal
+ */
+export function channelName(key: string | { readonly name: string }): string {
+    return typeof key === 'string' ? key : key.name;
+}
+
+/**
+ * Run a channel's validator, throwing if the payload is invalid.
+ * @internal
+ */
+export function assertPayload<Args extends unknown[]>(
+    channel: MessageChannel<Args[0]> | EventChannel<Args>,
+    args: Args
+): void {
+    const validate = channel.validate as PayloadValidator<Args> | undefined;
+    const result = validate ? validate(...args) : true;
+    if (result !== true) {
+        throw new Error(
+            `[ECS] Invalid payload for ${channel.kind} "${channel.name}": ${
+                typeof result === 'string' ? result : 'payload validation failed'
+            }`
+        );
+    }
+}
@@ -35,6 +35,14 @@ class Shield {
     constructor(public value: number = 50) {}
 }
 
+class Label {
+    constructor(public text: string) {
+        if (typeof text !== 'string') {
+            throw new Error('Label needs text');
+        }
+    }
+}
+
 describe('CommandBuffer', () => {
     let engine: Engine;
 
@@ -580,6 +588,376 @@ describe('CommandBuffer', () => {
         });
     });
 
+    describe('history', () => {
+        beforeEach(() => {
+            engine.commands.enableHistory();
+        });
+
+        it('should undo and redo component, tag and parent changes', () => {
+            const folder = engine.createEntity('Folder');
+            const entity = engine.createEntity('Hero').addComponent(Health, 40, 100);
+            engine.commands
+                .entity(entity)
+                .removeComponent(Health)
+                .addComponent(Shield, 5)
+                .addTag('edited')
+                .setParent(folder);
+            engine.commands.execute({ label: 'Edit hero' });
+
+            expect(engine.commands.getHistory().undo).toEqual([
+                { label: 'Edit hero', commandCount: 4 },
+            ]);
+            expect(engine.commands.undo()?.errors).toEqual([]);
+
+            expect(entity.getComponent(Health)).toEqual({ current: 40, max: 100 });
+            expect(entity.hasComponent(Shield)).toBe(false);
+            expect(entity.hasTag('edited')).toBe(false);
+            expect(entity.parent).toBeUndefined();
+            expect(engine.commands.canUndo).toBe(false);
+            expect(engine.commands.getHistory().redo).toEqual([
+                { label: 'Edit hero', commandCount: 4 },
+            ]);
+
+            engine.commands.redo();
+
+            expect(entity.hasComponent(Health)).toBe(false);
+            expect(entity.getComponent(Shield).value).toBe(5);
+            expect(entity.hasTag('edited')).toBe(true);
+            expect(entity.parent).toBe(folder);
+            expect(engine.commands.canRedo).toBe(false);
+        });
+
+        it('should restore despawned subtrees and follow them in older steps', () => {
+            const ship = engine.createEntity('Ship').addComponent(Position, 3, 4).addTag('ship');
+            const turret = engine.createEntity('Turret').addComponent(Damage, 7);
+            ship.addChild(turret);
+
+            engine.commands.entity(ship).addTag('selected');
+            engine.commands.execute({ label: 'Select' });
+            engine.commands.despawn(ship);
+            engine.commands.execute({ label: 'Delete' });
+            engine.update(0);
+            expect(engine.getAllEntities()).toEqual([]);
+
+            engine.commands.undo();
+            const restored = engine.getEntityByName('Ship') as Entity;
+            const restoredTurret = engine.getEntityByName('Turret') as Entity;
+            expect(restored.getComponent(Position)).toEqual({ x: 3, y: 4 });
+            expect([...restored.tags]).toEqual(['ship', 'selected']);
+            expect(restoredTurret.parent).toBe(restored);
+            expect(restoredTurret.getComponent(Damage).amount).toBe(7);
+
+            engine.commands.undo();
+            expect(restored.hasTag('selected')).toBe(false);
+
+            engine.commands.redo();
+            engine.commands.redo();
+            engine.update(0);
+            expect(engine.getAllEntities()).toEqual([]);
+        });
+
+        it('should restore each entity of a despawned subtree once', () => {
+            const ship = engine.createEntity('Ship');
+            ship.addChild(engine.createEntity('Turret'));
+            const crate = engine.createEntity('Crate');
+            const lid = engine.createEntity('Lid');
+            crate.addChild(lid);
+            const names = () =>
+                engine
+                    .getAllEntities()
+                    .map((entity) => `${entity.parent?.name ?? ''}/${entity.name}`)
+                    .toSorted();
+
+            engine.commands.despawn(ship);
+            engine.commands.despawn(lid);
+            engine.commands.despawn(crate);
+            engine.commands.execute({ label: 'Delete' });
+            engine.update(0);
+
+            for (let cycle = 0; cycle < 2; cycle++) {
+                expect(engine.commands.undo()?.errors).toEqual([]);
+                expect(names()).toEqual(['/Crate', '/Ship', 'Crate/Lid', 'Ship/Turret']);
+
+                engine.commands.redo();
+                engine.update(0);
+                expect(names()).toEqual([]);
+            }
+        });
+
+        it('should undo spawns and recreate them on redo', () => {
+            engine.commands.spawn().named('Crate').with(Position, 1, 2);
+            engine.commands.execute();
+
+            engine.commands.undo();
+            engine.update(0);
+            expect(engine.getEntityByName('Crate')).toBeUndefined();
+
+            engine.commands.redo();
+            expect(engine.getEntityByName('Crate')?.getComponent(Position)).toEqual({ x: 1, y: 2 });
+        });
+
+        it('should restore components whose constructor and validator need arguments', () => {
+            engine.registerComponentValidator(Label, {
+                validate: (label: Label) => label.text.length > 0 || 'text is empty',
+            });
+            const sign = engine.createEntity('Sign').addComponent(Label, 'Exit');
+            const door = engine.createEntity('Door').addComponent(Label, 'Locked');
+
+            engine.commands.entity(sign).removeComponent(Label);
+            engine.commands.despawn(door);
+            engine.commands.execute({ label: 'Clear labels' });
+            engine.update(0);
+
+            expect(engine.commands.undo()?.errors).toEqual([]);
+            const restoredDoor = engine.getEntityByName('Door') as Entity;
+            expect(sign.getComponent(Label)).toBeInstanceOf(Label);
+            expect(sign.getComponent(Label).text).toBe('Exit');
+            expect(restoredDoor.getComponent(Label)).toBeInstanceOf(Label);
+            expect(restoredDoor.getComponent(Label).text).toBe('Locked');
+        });
+
+        it('should group batches, cap the depth and clear redo on new batches', () => {
+            engine.commands.enableHistory({ maxDepth: 2 });
+            const entity = engine.createEntity();
+
+            engine.commands.beginGroup('Drag');
+            for (const tag of ['a', 'b']) {
+                engine.commands.entity(entity).addTag(tag);
+                engine.commands.execute({ label: 'ignored' });
+            }
+            engine.commands.endGroup();
+            engine.commands.entity(entity).addTag('c');
+            engine.commands.execute({ label: 'Tag c' });
+            engine.commands.entity(entity).addTag('d');
+            engine.commands.execute({ label: 'Tag d' });
+
+            expect(engine.commands.getHistory().undo.map((entry) => entry.label)).toEqual([
+                'Tag d',
+                'Tag c',
+            ]);
+
+            engine.commands.undo();
+            engine.commands.entity(entity).addTag('e');
+            engine.commands.execute();
+            expect(engine.commands.canRedo).toBe(false);
+
+            engine.commands.enableHistory({ maxDepth: 10 });
+            engine.commands.beginGroup('Drag');
+            engine.commands.entity(entity).removeTag('a');
+            engine.commands.execute();
+            engine.commands.entity(entity).removeTag('b');
+            engine.commands.execute();
+            engine.commands.endGroup();
+            engine.commands.undo();
+            expect([...entity.tags].toSorted()).toEqual(['a', 'b', 'c', 'e']);
+        });
+
+        it('should validate history usage', () => {
+            expect(() => engine.commands.endGroup()).toThrow('[ECS] No history group is open');
+            engine.commands.beginGroup();
+            expect(() => engine.commands.undo()).toThrow(
+                '[ECS] Cannot undo while a history group is open'
+            );
+            engine.commands.endGroup();
+            expect(engine.commands.undo()).toBeUndefined();
+
+            engine.commands.disableHistory();
+            expect(() => engine.commands.beginGroup()).toThrow(
+                '[ECS] Command history is not enabled; call enableHistory() first'
+            );
+        });
+    });
+
+    describe('archetype batching', () => {
+        it('should move an entity once for all of its component changes', () => {
+            const entity = engine.createEntity('Hero').addComponent(Position).addComponent(Damage);
+            const events: string[] = [];
+            engine.on('onComponentAdded', (_entity, type) => events.push(`+${type.name}`));
+            engine.on('onComponentRemoved', (_entity, type) => events.push(`-${type.name}`));
+            const moves = engine.getArchetypeStats().entityMovementCount;
+
+            engine.commands
+                .entity(entity)
+                .addComponent(Velocity, 1, 2)
+                .addTag('moving')
+                .addComponent(Health, 50)
+                .removeComponent(Damage);
+            const result = engine.commands.execute();
+
+            expect(engine.getArchetypeStats().entityMovementCount - moves).toBe(1);
+            expect(entity.getComponentTypes()).toEqual([Position, Velocity, Health]);
+            expect(entity.getComponent(Velocity)).toEqual({ vx: 1, vy: 2 });
+            expect(events).toEqual(['-Damage', '+Velocity', '+Health']);
+            expect(result.componentsAdded).toBe(2);
+            expect(result.componentsRemoved).toBe(1);
+            expect(result.commandsExecuted).toBe(4);
+        });
+
+        it('should net out changes that cancel each other', () => {
+            const entity = engine.createEntity().addComponent(Health, 10);
+            const previous = entity.getComponent(Health);
+
+            engine.commands
+                .entity(entity)
+                .addComponent(Shield)
+                .removeComponent(Shield)
+                .removeComponent(Health)
+                .addComponent(Health, 90);
+            const result = engine.commands.execute();
+
+            expect(entity.hasComponent(Shield)).toBe(false);
+            expect(entity.getComponent(Health)).not.toBe(previous);
+            expect(entity.getComponent(Health).current).toBe(90);
+            expect(result.componentsAdded).toBe(1);
+            expect(result.componentsRemoved).toBe(1);
+        });
+
+        it('should apply component changes after the batch tag and parent commands', () => {
+            const ship = engine.createEntity('Ship');
+            const crate = engine.createEntity('Crate').addTag('loose');
+            const seen: string[] = [];
+            engine.on('onComponentAdded', (entity, type) => {
+                const tags = [...entity.tags].join();
+                seen.push(`${entity.name}+${type.name} [${tags}] in ${entity.parent?.name}`);
+            });
+
+            engine.commands.spawn().named('Drone').with(Health).withTag('flying').withParent(ship);
+            engine.commands
+                .entity(crate)
+                .addComponent(Position)
+                .removeTag('loose')
+                .addTag('cargo')
+                .setParent(ship);
+            engine.commands.entity(crate).addComponent(Velocity).setParent(null);
+            engine.commands.execute();
+
+            // Spawned entities are stored last, after the other entities' changes
+            expect(seen).toEqual([
+                'Crate+Position [cargo] in undefined',
+                'Crate+Velocity [cargo] in undefined',
+                'Drone+Health [flying] in Ship',
+            ]);
+        });
+
+        it('should add components to an entity despawned later in the same batch', () => {
+            const crate = engine.createEntity('Crate');
+            const shielded = engine.createQuery({ all: [Shield] });
+            const events: string[] = [];
+            engine.on('onEntityQueuedForDeletion', (entity) => events.push(`free ${entity.name}`));
+            engine.on('onComponentAdded', (entity, type) => {
+                events.push(`${entity.name}+${type.name}`);
+            });
+
+            engine.commands.entity(crate).addComponent(Shield).despawn();
+            const result = engine.commands.execute();
+
+            expect(events).toEqual(['free Crate', 'Crate+Shield']);
+            expect(result.componentsAdded).toBe(1);
+            expect(result.entitiesDespawned).toBe(1);
+            expect(crate.isMarkedForDeletion).toBe(true);
+            expect(crate.getComponent(Shield).value).toBe(50);
+            expect(shielded.size).toBe(1);
+
+            engine.update(16);
+            expect(shielded.size).toBe(0);
+        });
+
+        it('should spawn entities with the same components straight into their archetype', () => {
+            const stats = engine.getArchetypeStats();
+
+            engine.commands.spawnBatch(100, (builder, i) => {
+                builder.with(Position, i).with(Velocity).with(Health);
+            });
+            engine.commands.execute();
+
+            const after = engine.getArchetypeStats();
+            expect(after.entityMovementCount - stats.entityMovementCount).toBe(100);
+            expect(after.archetypeCreationCount - stats.archetypeCreationCount).toBe(1);
+            expect(engine.createQuery({ all: [Position, Velocity, Health] }).size).toBe(100);
+        });
+
+        it('should store spawned entities in bulk before their hooks and events run', () => {
+            engine.registerComponentValidator(Damage, {
+                validate: (damage: Damage) => damage.amount >= 0 || 'negative damage',
+            });
+            const seen: Array<number | undefined> = [];
+            engine.on('onComponentAdded', (entity, type) => {
+                if (type === Damage) {
+                    seen.push(entity.getComponent(Damage).amount);
+                }
+            });
+
+            engine.commands.spawnBatch(3, (builder, i) => {
+                builder.with(Position, i).with(Damage, i === 1 ? -1 : i);
+            });
+            engine.commands.spawn().named('Turret').with(Damage, 9).with(Position);
+            engine.commands.spawn().named('Marker').with(Position, 1).with(Position, 2);
+            const result = engine.commands.execute({ rollbackOnError: false });
+
+            expect(result.errors.map((error) => error.message)).toEqual([
+                '[ECS] negative damage for Damage on entity 2',
+            ]);
+            expect(result.componentsAdded).toBe(7);
+            expect(seen).toEqual([0, 2, 9]);
+            expect(
+                engine
+                    .createQuery({ all: [Position, Damage] })
+                    .getEntitiesArray()
+                    .map((entity) => entity.getComponent(Position).x)
+            ).toEqual([0, 2, 0]);
+            expect(engine.getEntityByName('Marker')?.getComponent(Position).x).toBe(1);
+            expect(
+                engine.getAllEntities().filter((entity) => entity.hasComponent(Position))
+            ).toHaveLength(4);
+        });
+
+        it('should roll back removed components from their data', () => {
+            engine.registerComponentValidator(Damage, {
+                validate: (damage: Damage) => damage.amount >= 0 || 'negative damage',
+            });
+            // Pools reset released components
+            engine.registerComponentPool(Health);
+            const sign = engine.createEntity('Sign').addComponent(Label, 'Exit');
+            sign.addComponent(Health, 30, 60);
+            const label = sign.getComponent(Label);
+            const target = engine.createEntity('Target');
+
+            engine.commands.entity(sign).removeComponent(Label).removeComponent(Health);
+            engine.commands.entity(target).addComponent(Damage, -1);
+            const result = engine.commands.execute();
+
+            expect(result.rolledBack).toBe(true);
+            expect(sign.getComponent(Label)).toBeInstanceOf(Label);
+            expect(sign.getComponent(Label)).not.toBe(label);
+            expect(sign.getComponent(Label).text).toBe('Exit');
+            expect(sign.getComponent(Health)).toEqual({ current: 30, max: 60 });
+        });
+
+        it('should check component dependencies against the final component set', () => {
+            engine.registerComponentValidator(Health, {
+                validate: () => true,
+                dependencies: [Position],
+            });
+            const entity = engine.createEntity('Hero');
+
+            engine.commands.entity(entity).addComponent(Health).addComponent(Position);
+            engine.commands.execute();
+            expect(entity.hasComponent(Health)).toBe(true);
+
+            engine.commands.entity(entity).addTag('hurt').removeComponent(Position);
+            engine.commands.entity(entity).removeComponent(Health).addComponent(Health, 5);
+            const result = engine.commands.execute();
+
+            expect(result.errors[0]?.message).toBe(
+                '[ECS] Component Health requires Position on entity Hero'
+            );
+            expect(result.rolledBack).toBe(true);
+            expect(entity.hasTag('hurt')).toBe(false);
+            expect(entity.getComponent(Health).current).toBe(100);
+            expect(entity.hasComponent(Position)).toBe(true);
+        });
+    });
+
     describe('Engine.executeCommands()', () => {
         it('should be a convenience method for commands.execute()', () => {
             engine.commands.spawn().named('Test').with(Position, 0, 0);
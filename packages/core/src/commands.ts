@@ -10,9 +10,13 @@
  * @module Commands
  */
 
-import type { Entity } from './core';
+import type { Archetype, ArchetypeManager } from './archetype';
+import type { ComponentChange, Entity } from './core';
 import type { ComponentIdentifier, EntityDef, Logger } from './definitions';
-import { deepCloneComponent } from './utils';
+import { cloneComponentData } from './utils';
+
+/** Default maximum number of undo steps */
+const DEFAULT_HISTORY_DEPTH = 100;
 
 /**
  * Minimal interface for Engine to avoid circular dependencies.
@@ -21,6 +25,7 @@ import { deepCloneComponent } from './utils';
 interface EngineInterface {
     createEntity(name?: string): Entity;
     getEntity(id: symbol): Entity | undefined;
+    batchQueryUpdates<T>(callback: () => T): T;
 }
 
 /**
@@ -54,7 +59,11 @@ interface BaseCommand {
 export interface SpawnCommand extends BaseCommand {
     type: 'spawn';
     name?: string;
-    components: Array<{ type: ComponentIdentifier; args: unknown[] }>;
+    /**
+     * Components to add; `data` is assigned after construction, or with `restore`
+     * builds the component without calling its constructor, to recreate a removed entity
+     */
+    components: ComponentChange[];
     tags: string[];
     parentId?: symbol;
     childIds?: symbol[];
@@ -81,6 +90,10 @@ export interface AddComponentCommand extends BaseCommand {
     entityId: symbol;
     componentType: ComponentIdentifier;
     args: unknown[];
+    /** Data assigned after construction */
+    data?: object;
+    /** Build the component from `data` without calling its constructor, to restore a removed component */
+    restore?: boolean;
 }
 
 /**
@@ -185,6 +198,41 @@ export interface CommandExecutionResult {
     rolledBack: boolean;
 }
 
+/**
+ * Options for executing queued commands.
+ * @public
+ */
+export interface CommandExecuteOptions {
+    /** Whether to rollback on errors (default: true) */
+    rollbackOnError?: boolean;
+    /** Label of the undo step recorded for this batch when history is enabled */
+    label?: string;
+}
+
+/**
+ * Options for the undo/redo history of a command buffer.
+ * @public
+ */
+export interface CommandHistoryOptions {
+    /** Maximum number of undo steps kept; older steps are dropped (default: 100) */
+    maxDepth?: number;
+}
+
+/**
+ * An undoable step in the command history.
+ *
+ * A step is one executed batch, or every batch executed inside a
+ * {@link CommandBuffer.beginGroup} / {@link CommandBuffer.endGroup} pair.
+ *
+ * @public
+ */
+export interface CommandHistoryEntry {
+    /** Label passed to `execute()` or `beginGroup()` */
+    label?: string;
+    /** Number of inverse commands that undo (or redo) the step */
+    commandCount: number;
+}
+
 /**
  * Fluent builder for constructing a spawn command.
  *
@@ -492,8 +540,9 @@ export class EntityCommandBuilder {
  *
  * @remarks
  * Commands are processed in FIFO order, maintaining the sequence in which they
- * were queued. Spawn commands create placeholder IDs that can be referenced in
- * subsequent commands before execution.
+ * were queued, except that component changes are applied after the batch's
+ * other commands (see {@link CommandBuffer.execute}). Spawn commands create
+ * placeholder IDs that can be referenced in subsequent commands before execution.
  *
  * @example Basic Usage
  * ```typescript
@@ -548,6 +597,12 @@ export class CommandBuffer {
     /** Logger for command buffer operations */
     private logger?: Logger;
 
+    /** Undo/redo history, when enabled */
+    private history?: CommandHistoryState;
+
+    /** Whether an undo or redo step is running */
+    private replaying: boolean = false;
+
     constructor(engine: EngineInterface, debugMode: boolean = false, logger?: Logger) {
         this.engine = engine;
         this._debugMode = debugMode;
@@ -677,8 +732,28 @@ export class CommandBuffer {
      * and an error occurs, all changes made during this execution batch
      * will be reverted.
      *
+     * Component changes are coalesced per entity and applied after the other
+     * commands, so every entity makes at most one archetype transition per
+     * batch. Spawned entities that end up with the same components are placed
+     * straight into their shared archetype.
+     *
+     * This reorders component commands relative to the rest of the batch:
+     * - Spawns, despawns, tag and hierarchy commands run first, in FIFO order
+     * - Component adds and removes then apply entity by entity, so
+     *   `onComponentAdded`/`onComponentRemoved` listeners and component hooks
+     *   see tags and parents set later in the batch, and an entity despawned
+     *   later in the batch still gets its components before it is cleaned up
+     * - With archetypes enabled, components of spawned entities are stored
+     *   last, after the other entities' changes; their hooks and events run
+     *   once every spawned entity is stored
+     * - Spawn `onCreate()` callbacks run after all of the above
+     *
+     * When history is enabled (see {@link enableHistory}), the inverse of the
+     * batch is recorded as an undo step.
+     *
      * @param options - Execution options
      * @param options.rollbackOnError - Whether to rollback on errors (default: true)
+     * @param options.label - Label of the recorded undo step
      * @returns Execution result with statistics
      *
      * @example
@@ -688,8 +763,232 @@ export class CommandBuffer {
      * console.log(`Spawned ${result.entitiesSpawned} entities`);
      * ```
      */
-    execute(options: { rollbackOnError?: boolean } = {}): CommandExecutionResult {
-        const { rollbackOnError = true } = options;
+    execute(options: CommandExecuteOptions = {}): CommandExecutionResult {
+        const { rollbackOnError = true, label } = options;
+        const commandsToExecute = this.commands;
+        this.commands = [];
+
+        const inverse = this.history ? [] : undefined;
+        const result = this.run(commandsToExecute, rollbackOnError, inverse);
+        if (inverse && inverse.length > 0 && !result.rolledBack) {
+            this.recordStep({ label, commands: inverse });
+        }
+        return result;
+    }
+
+    /**
+     * Start recording executed batches so they can be undone and redone.
+     *
+     * Every batch executed afterwards, including the automatic execution at
+     * the end of `engine.update()`, records inverse commands: removed
+     * component data and despawned entity subtrees are captured so they can
+     * be restored. Calling this again only updates the options.
+     *
+     * @param options - History options
+     * @param options.maxDepth - Maximum number of undo steps kept (default: 100)
+     *
+     * @example
+     * ```typescript
+     * engine.commands.enableHistory({ maxDepth: 50 });
+     * engine.commands.despawn(crate);
+     * engine.commands.execute({ label: 'Delete crate' });
+     * engine.commands.undo(); // The crate and its children are back
+     * ```
+     */
+    enableHistory(options: CommandHistoryOptions = {}): void {
+        const maxDepth = options.maxDepth ?? DEFAULT_HISTORY_DEPTH;
+        if (this.history) {
+            this.history.maxDepth = maxDepth;
+            this.trimHistory();
+            return;
+        }
+        this.history = {
+            maxDepth,
+            undo: [],
+            redo: [],
+            groupDepth: 0,
+            ids: new Map(),
+            keys: new Map(),
+        };
+    }
+
+    /**
+     * Stop recording history and discard all undo and redo steps.
+     */
+    disableHistory(): void {
+        this.history = undefined;
+    }
+
+    /**
+     * Check if executed batches are recorded for undo/redo.
+     */
+    get historyEnabled(): boolean {
+        return this.history !== undefined;
+    }
+
+    /**
+     * Check if there is a step to undo.
+     */
+    get canUndo(): boolean {
+        return (this.history?.undo.length ?? 0) > 0;
+    }
+
+    /**
+     * Check if there is an undone step to redo.
+     */
+    get canRedo(): boolean {
+        return (this.history?.redo.length ?? 0) > 0;
+    }
+
+    /**
+     * Undo the most recent step.
+     *
+     * The step's inverse commands run immediately, bypassing pending commands.
+     * Entities restored from a despawn get new IDs; later undo and redo steps
+     * that refer to the original IDs follow them automatically. Relations are
+     * not restored.
+     *
+     * @returns The execution result, or undefined if there is nothing to undo
+     * @throws Error if commands are executing or a history group is open
+     *
+     * @remarks
+     * If an inverse command fails, its changes are rolled back and the step
+     * stays on the undo stack.
+     *
+     * @example
+     * ```typescript
+     * engine.commands.entity(player).removeComponent(Shield);
+     * engine.commands.execute({ label: 'Remove shield' });
+     *
+     * engine.commands.undo(); // Shield is back with its previous data
+     * engine.commands.redo(); // Removed again
+     * ```
+     */
+    undo(): CommandExecutionResult | undefined {
+        return this.replay('undo', 'redo');
+    }
+
+    /**
+     * Redo the most recently undone step.
+     *
+     * Executing a new batch discards the redo stack.
+     *
+     * @returns The execution result, or undefined if there is nothing to redo
+     * @throws Error if commands are executing or a history group is open
+     */
+    redo(): CommandExecutionResult | undefined {
+        return this.replay('redo', 'undo');
+    }
+
+    /**
+     * Merge every batch executed until the matching {@link endGroup} into one undo step.
+     *
+     * Groups may be nested; only the outermost group records a step and its
+     * label is used.
+     *
+     * @param label - Label of the undo step
+     * @throws Error if history is not enabled
+     *
+     * @example
+     * ```typescript
+     * engine.commands.beginGroup('Drag selection');
+     * for (const entity of selection) {
+     *   engine.commands.entity(entity).setParent(folder);
+     *   engine.commands.execute();
+     * }
+     * engine.commands.endGroup(); // One undo step moves them all back
+     * ```
+     */
+    beginGroup(label?: string): void {
+        if (!this.history) {
+            throw new Error('[ECS] Command history is not enabled; call enableHistory() first');
+        }
+        if (this.history.groupDepth++ === 0) {
+            this.history.group = { label, commands: [] };
+        }
+    }
+
+    /**
+     * Close the group opened by {@link beginGroup}.
+     *
+     * @throws Error if no group is open
+     */
+    endGroup(): void {
+        const history = this.history;
+        if (!history || history.groupDepth === 0) {
+            throw new Error('[ECS] No history group is open');
+        }
+        if (--history.groupDepth === 0) {
+            const group = history.group as HistoryStep;
+            history.group = undefined;
+            if (group.commands.length > 0) {
+                this.recordStep(group);
+            }
+        }
+    }
+
+    /**
+     * Get the undo and redo steps, next to be undone or redone first.
+     */
+    getHistory(): { undo: CommandHistoryEntry[]; redo: CommandHistoryEntry[] } {
+        return {
+            undo: describeSteps(this.history?.undo ?? []),
+            redo: describeSteps(this.history?.redo ?? []),
+        };
+    }
+
+    /**
+     * Discard all undo and redo steps, keeping history enabled.
+     */
+    clearHistory(): void {
+        if (this.history) {
+            this.history.undo = [];
+            this.history.redo = [];
+            this.history.ids.clear();
+            this.history.keys.clear();
+        }
+    }
+
+    /**
+     * Clear all pending commands without executing them.
+     */
+    clear(): void {
+        this.commands = [];
+        if (this._debugMode && this.logger) {
+            this.logger.debug('Cleared all pending commands');
+        }
+    }
+
+    /**
+     * Get a copy of pending commands (for debugging/inspection).
+     */
+    getPendingCommands(): ReadonlyArray<EntityCommand> {
+        return [...this.commands];
+    }
+
+    /**
+     * Resolve a placeholder ID to the actual entity (only valid during/after execution).
+     * @internal
+     */
+    resolveEntity(placeholderOrEntityId: symbol): Entity | undefined {
+        // First check if it's a placeholder from a spawn command
+        const fromPlaceholder = this.placeholderToEntity.get(placeholderOrEntityId);
+        if (fromPlaceholder) {
+            return fromPlaceholder;
+        }
+        // Otherwise try to get it from the engine, following entities recreated by undo/redo
+        const id = this.history?.ids.get(placeholderOrEntityId) ?? placeholderOrEntityId;
+        return this.engine.getEntity(id);
+    }
+
+    /**
+     * Execute commands as one batch, collecting their inverses when asked.
+     */
+    private run(
+        commandsToExecute: EntityCommand[],
+        rollbackOnError: boolean,
+        inverse?: EntityCommand[]
+    ): CommandExecutionResult {
         const startTime = performance.now();
 
         const result: CommandExecutionResult = {
@@ -705,17 +1004,13 @@ export class CommandBuffer {
             rolledBack: false,
         };
 
-        if (this.commands.length === 0) {
+        if (commandsToExecute.length === 0) {
             result.executionTimeMs = performance.now() - startTime;
             return result;
         }
 
         this._isExecuting = true;
 
-        // Store commands for potential rollback
-        const commandsToExecute = [...this.commands];
-        this.commands = [];
-
         // Track changes for rollback
         const rollbackState: RollbackState = {
             spawnedEntities: [],
@@ -723,27 +1018,19 @@ export class CommandBuffer {
             tagChanges: [],
             hierarchyChanges: [],
         };
+        const inverses: EntityCommand[][] = [];
 
         try {
-            // Execute commands in order
-            for (const command of commandsToExecute) {
-                try {
-                    this.executeCommand(command, result, rollbackState);
-                    result.commandsExecuted++;
-                } catch (error) {
-                    result.errors.push(error instanceof Error ? error : new Error(String(error)));
-
-                    if (this._debugMode && this.logger) {
-                        this.logger.error(`Error executing command ${command.type}:`, error);
-                    }
-
-                    if (rollbackOnError) {
-                        this.rollback(rollbackState);
-                        result.rolledBack = true;
-                        break;
-                    }
-                }
-            }
+            // Queries are matched once per changed entity after the batch is applied
+            this.engine.batchQueryUpdates(() =>
+                this.applyCommands(
+                    commandsToExecute,
+                    result,
+                    rollbackState,
+                    rollbackOnError,
+                    inverse ? inverses : undefined
+                )
+            );
 
             // Execute any spawn callbacks after all spawns are complete
             if (!result.rolledBack) {
@@ -767,6 +1054,9 @@ export class CommandBuffer {
             this.placeholderToEntity.clear();
         }
 
+        // Undo newest first
+        inverse?.push(...inverses.toReversed().flat());
+
         result.executionTimeMs = performance.now() - startTime;
 
         if (this._debugMode && this.logger) {
@@ -779,34 +1069,340 @@ export class CommandBuffer {
     }
 
     /**
-     * Clear all pending commands without executing them.
+     * Execute commands in order, then apply each entity's coalesced component changes.
      */
-    clear(): void {
-        this.commands = [];
+    private applyCommands(
+        commands: EntityCommand[],
+        result: CommandExecutionResult,
+        rollbackState: RollbackState,
+        rollbackOnError: boolean,
+        inverses?: EntityCommand[][]
+    ): void {
+        const changes = new Map<Entity, PendingComponentChanges>();
+
+        for (const command of commands) {
+            try {
+                // Inverses read the state a command changes; spawns are undone once they exist
+                const undo = inverses && command.type !== 'spawn' ? this.invert(command) : [];
+                this.executeCommand(command, result, rollbackState, changes);
+                inverses?.push(command.type === 'spawn' ? this.invertSpawn(command) : undo);
+                result.commandsExecuted++;
+            } catch (error) {
+                if (
+                    this.recordError(
+                        error,
+                        `Error executing command ${command.type}:`,
+                        result,
+                        rollbackState,
+                        rollbackOnError
+                    )
+                ) {
+                    return;
+                }
+            }
+        }
+
+        // One archetype transition per entity, with archetypes resolved once per component list
+        const archetypes: ArchetypeCacheNode = { next: new Map() };
+        const spawnGroups: SpawnGroup[] = [];
+        for (const [entity, pending] of changes) {
+            try {
+                if (pending.spawned && entity.getArchetypeManager()) {
+                    this.buildSpawnedComponents(entity, pending, archetypes, spawnGroups);
+                    continue;
+                }
+                const undo = this.applyComponentChanges(
+                    entity,
+                    pending,
+                    result,
+                    rollbackState,
+                    archetypes,
+                    inverses !== undefined
+                );
+                inverses?.push(undo);
+            } catch (error) {
+                if (
+                    this.recordError(
+                        error,
+                        'Error applying component changes:',
+                        result,
+                        rollbackState,
+                        rollbackOnError
+                    )
+                ) {
+                    return;
+                }
+            }
+        }
+
+        // Spawned entities are stored in bulk, then their hooks run and events fire
+        for (const group of spawnGroups) {
+            const { archetype, types, columns } = group;
+            group.archetypeManager.addEntitiesToArchetype(
+                group.entities,
+                archetype,
+                archetype.componentTypes.map((type) => columns[types.indexOf(type)] ?? [])
+            );
+            result.componentsAdded += group.entities.length * group.types.length;
+            for (let i = 0; i < group.entities.length; i++) {
+                try {
+                    (group.entities[i] as Entity).completeStoredComponents(
+                        types,
+                        group.components[i] as unknown[]
+                    );
+                } catch (error) {
+                    if (
+                        this.recordError(
+                            error,
+                            'Error applying component changes:',
+                            result,
+                            rollbackState,
+                            rollbackOnError
+                        )
+                    ) {
+                        return;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Build the components of an entity spawned by the batch and queue it for a
+     * bulk insert into its archetype.
+     */
+    private buildSpawnedComponents(
+        entity: Entity,
+        pending: PendingComponentChanges,
+        archetypes: ArchetypeCacheNode,
+        spawnGroups: SpawnGroup[]
+    ): void {
+        const adds = pendingAdds(pending);
+        const components = entity.buildComponents(adds);
+
+        const types = adds.map(({ type }) => type);
+        const node = lookupArchetypeNode(archetypes, types);
+        if (!node.spawns) {
+            const archetypeManager = entity.getArchetypeManager() as ArchetypeManager;
+            node.archetype ??= archetypeManager.getOrCreateArchetype(types);
+            node.spawns = {
+                archetypeManager,
+                archetype: node.archetype,
+                types,
+                entities: [],
+                components: [],
+                columns: types.map(() => []),
+            };
+            spawnGroups.push(node.spawns);
+        }
+        const group = node.spawns;
+        group.entities.push(entity);
+        group.components.push(components);
+        components.forEach((component, c) => {
+            group.columns[c]?.push(component);
+        });
+    }
+
+    /**
+     * Record an execution error, rolling the batch back when asked.
+     * @returns Whether execution should stop
+     */
+    private recordError(
+        error: unknown,
+        message: string,
+        result: CommandExecutionResult,
+        rollbackState: RollbackState,
+        rollbackOnError: boolean
+    ): boolean {
+        result.errors.push(error instanceof Error ? error : new Error(String(error)));
+
         if (this._debugMode && this.logger) {
-            this.logger.debug('Cleared all pending commands');
+            this.logger.error(message, error);
         }
+
+        if (rollbackOnError) {
+            this.rollback(rollbackState);
+            result.rolledBack = true;
+        }
+        return rollbackOnError;
     }
 
     /**
-     * Get a copy of pending commands (for debugging/inspection).
+     * Build the commands that undo a command, from the state it is about to change.
      */
-    getPendingCommands(): ReadonlyArray<EntityCommand> {
-        return [...this.commands];
+    private invert(command: Exclude<EntityCommand, SpawnCommand>): EntityCommand[] {
+        const timestamp = Date.now();
+        const entity = this.resolveEntity(command.entityId);
+        if (!entity) {
+            return [];
+        }
+        const entityId = this.historyKey(entity.id);
+
+        switch (command.type) {
+            case 'despawn': {
+                const spawns: SpawnCommand[] = [];
+                // Descendants of an entity despawned earlier are captured with it
+                if (!isPendingDeletion(entity)) {
+                    this.captureSubtree(entity, entity.parent, spawns);
+                }
+                return spawns;
+            }
+            case 'add_component':
+            case 'remove_component':
+                // Inverted once the entity's coalesced changes are applied
+                return [];
+            case 'add_tag':
+                return entity.hasTag(command.tag)
+                    ? []
+                    : [{ type: 'remove_tag', entityId, tag: command.tag, timestamp }];
+            case 'remove_tag':
+                return entity.hasTag(command.tag)
+                    ? [{ type: 'add_tag', entityId, tag: command.tag, timestamp }]
+                    : [];
+            case 'set_parent': {
+                const parentId = entity.parent ? this.historyKey(entity.parent.id) : null;
+                return [{ type: 'set_parent', entityId, parentId, timestamp }];
+            }
+            case 'add_child':
+            case 'remove_child': {
+                const child = this.resolveEntity(command.childId);
+                if (!child || (command.type === 'remove_child' && child.parent !== entity)) {
+                    return [];
+                }
+                const childId = this.historyKey(child.id);
+                const parentId = child.parent ? this.historyKey(child.parent.id) : null;
+                return [{ type: 'set_parent', entityId: childId, parentId, timestamp }];
+            }
+        }
     }
 
     /**
-     * Resolve a placeholder ID to the actual entity (only valid during/after execution).
-     * @internal
+     * Build the command that undoes an executed spawn.
      */
-    resolveEntity(placeholderOrEntityId: symbol): Entity | undefined {
-        // First check if it's a placeholder from a spawn command
-        const fromPlaceholder = this.placeholderToEntity.get(placeholderOrEntityId);
-        if (fromPlaceholder) {
-            return fromPlaceholder;
+    private invertSpawn(command: SpawnCommand): EntityCommand[] {
+        const entity = this.placeholderToEntity.get(command.placeholderId);
+        if (!entity) {
+            return [];
+        }
+        return [{ type: 'despawn', entityId: this.historyKey(entity.id), timestamp: Date.now() }];
+    }
+
+    /**
+     * Capture spawn commands that recreate an entity and its descendants, parents first.
+     *
+     * Each spawn uses the entity's history key as its placeholder, so children
+     * find their recreated parent and the key moves to the recreated entity.
+     * Children despawned earlier in the batch were captured by their own
+     * despawn and are skipped.
+     */
+    private captureSubtree(
+        entity: Entity,
+        parent: EntityDef | undefined,
+        spawns: SpawnCommand[]
+    ): void {
+        spawns.push({
+            type: 'spawn',
+            name: entity.name,
+            components: entity.getComponentTypes().map((type) => ({
+                type,
+                args: [],
+                data: cloneComponentData(type, entity.getComponent(type)),
+                restore: true,
+            })),
+            tags: [...entity.tags],
+            parentId: parent && this.historyKey(parent.id),
+            placeholderId: this.historyKey(entity.id),
+            timestamp: Date.now(),
+        });
+        for (const child of entity.children) {
+            if (!(child as Entity).isMarkedForDeletion) {
+                this.captureSubtree(child as Entity, entity, spawns);
+            }
+        }
+    }
+
+    /**
+     * Get the key history commands use for an entity.
+     *
+     * Entities recreated by undo/redo keep the key of the entity they replace.
+     * Pooled entities reuse IDs, so a live ID that is already the key of a
+     * recreated entity gets a fresh key.
+     */
+    private historyKey(id: symbol): symbol {
+        const history = this.history as CommandHistoryState;
+        const key = history.keys.get(id);
+        if (key) {
+            return key;
+        }
+        if (!history.ids.has(id)) {
+            return id;
+        }
+        const fresh = Symbol();
+        this.bindHistoryKey(fresh, id);
+        return fresh;
+    }
+
+    private bindHistoryKey(key: symbol, id: symbol): void {
+        const { ids, keys } = this.history as CommandHistoryState;
+        const previous = ids.get(key);
+        if (previous !== undefined) {
+            keys.delete(previous);
+        }
+        ids.set(key, id);
+        keys.set(id, key);
+    }
+
+    /**
+     * Push an undo step (or merge it into the open group) and discard redo steps.
+     */
+    private recordStep(step: HistoryStep): void {
+        const history = this.history as CommandHistoryState;
+        history.redo = [];
+        if (history.group) {
+            // Later batches are undone first
+            history.group.commands = [...step.commands, ...history.group.commands];
+            return;
+        }
+        history.undo.push(step);
+        this.trimHistory();
+    }
+
+    private trimHistory(): void {
+        const history = this.history as CommandHistoryState;
+        if (history.undo.length > history.maxDepth) {
+            history.undo.splice(0, history.undo.length - history.maxDepth);
         }
-        // Otherwise try to get it from the engine
-        return this.engine.getEntity(placeholderOrEntityId);
+    }
+
+    /**
+     * Run the next step of one stack and push its inverse onto the other.
+     */
+    private replay(from: 'undo' | 'redo', to: 'undo' | 'redo'): CommandExecutionResult | undefined {
+        const history = this.history;
+        if (this._isExecuting) {
+            throw new Error(`[ECS] Cannot ${from} while commands are executing`);
+        }
+        if (history && history.groupDepth > 0) {
+            throw new Error(`[ECS] Cannot ${from} while a history group is open`);
+        }
+        const step = history?.[from].at(-1);
+        if (!history || !step) {
+            return undefined;
+        }
+
+        const inverse: EntityCommand[] = [];
+        this.replaying = true;
+        let result: CommandExecutionResult;
+        try {
+            result = this.run(step.commands, true, inverse);
+        } finally {
+            this.replaying = false;
+        }
+        if (!result.rolledBack) {
+            history[from].pop();
+            history[to].push({ label: step.label, commands: inverse });
+        }
+        return result;
     }
 
     /**
@@ -816,20 +1412,19 @@ export class CommandBuffer {
     private executeCommand(
         command: EntityCommand,
         result: CommandExecutionResult,
-        rollbackState: RollbackState
+        rollbackState: RollbackState,
+        changes: Map<Entity, PendingComponentChanges>
     ): void {
         switch (command.type) {
             case 'spawn':
-                this.executeSpawnCommand(command, result, rollbackState);
+                this.executeSpawnCommand(command, result, rollbackState, changes);
                 break;
             case 'despawn':
                 this.executeDespawnCommand(command, result, rollbackState);
                 break;
             case 'add_component':
-                this.executeAddComponentCommand(command, result, rollbackState);
-                break;
             case 'remove_component':
-                this.executeRemoveComponentCommand(command, result, rollbackState);
+                this.queueComponentChange(command, changes);
                 break;
             case 'add_tag':
                 this.executeAddTagCommand(command, result, rollbackState);
@@ -852,7 +1447,8 @@ export class CommandBuffer {
     private executeSpawnCommand(
         command: SpawnCommand,
         result: CommandExecutionResult,
-        rollbackState: RollbackState
+        rollbackState: RollbackState,
+        changes: Map<Entity, PendingComponentChanges>
     ): void {
         const entity = this.engine.createEntity(command.name);
 
@@ -862,11 +1458,13 @@ export class CommandBuffer {
         // Track for rollback
         rollbackState.spawnedEntities.push(entity);
 
-        // Add components
-        for (const comp of command.components) {
-            entity.addComponent(comp.type, ...comp.args);
+        // Entities recreated by undo/redo take over the history key they were captured under
+        if (this.replaying && this.history) {
+            this.bindHistoryKey(command.placeholderId, entity.id);
         }
-        result.componentsAdded += command.components.length;
+
+        // Components are added with the rest of the batch's component changes
+        changes.set(entity, { adds: firstOfEachType(command.components), spawned: true });
 
         // Add tags
         for (const tag of command.tags) {
@@ -902,41 +1500,121 @@ export class CommandBuffer {
         }
     }
 
-    private executeAddComponentCommand(
-        command: AddComponentCommand,
-        result: CommandExecutionResult,
-        rollbackState: RollbackState
+    /**
+     * Fold a component command into the pending changes of its entity.
+     */
+    private queueComponentChange(
+        command: AddComponentCommand | RemoveComponentCommand,
+        changes: Map<Entity, PendingComponentChanges>
     ): void {
         const entity = this.resolveEntity(command.entityId);
-        if (entity && !entity.hasComponent(command.componentType)) {
-            entity.addComponent(command.componentType, ...command.args);
-            rollbackState.componentChanges.push({
-                entityId: command.entityId,
-                componentType: command.componentType,
-                action: 'added',
-            });
-            result.componentsAdded++;
+        if (!entity) {
+            return;
+        }
+        let pending = changes.get(entity);
+        if (!pending) {
+            pending = { adds: new Map(), spawned: false };
+            changes.set(entity, pending);
+        }
+        if (!(pending.adds instanceof Map)) {
+            pending.adds = new Map(pending.adds.map((change) => [change.type, change]));
+        }
+
+        const type = command.componentType;
+        if (command.type === 'add_component') {
+            const present =
+                pending.adds.has(type) ||
+                (entity.hasComponent(type) && !pending.removes?.has(type));
+            if (!present) {
+                pending.adds.set(type, {
+                    type,
+                    args: command.args,
+                    data: command.data,
+                    restore: command.restore,
+                });
+            }
+        } else if (pending.adds.has(type)) {
+            // Adding and then removing a component cancels out
+            pending.adds.delete(type);
+        } else if (entity.hasComponent(type)) {
+            pending.removes ??= new Set();
+            pending.removes.add(type);
         }
     }
 
-    private executeRemoveComponentCommand(
-        command: RemoveComponentCommand,
+    /**
+     * Apply an entity's pending component changes with a single archetype transition.
+     * @returns Commands that undo the changes, when `record` is set
+     */
+    private applyComponentChanges(
+        entity: Entity,
+        pending: PendingComponentChanges,
         result: CommandExecutionResult,
-        rollbackState: RollbackState
-    ): void {
-        const entity = this.resolveEntity(command.entityId);
-        if (entity && entity.hasComponent(command.componentType)) {
-            // Store component data for rollback
-            const componentData = entity.getComponent(command.componentType);
+        rollbackState: RollbackState,
+        archetypes: ArchetypeCacheNode,
+        record: boolean
+    ): EntityCommand[] {
+        const adds = pendingAdds(pending);
+        const removes = [...(pending.removes ?? [])].filter((type) => entity.hasComponent(type));
+        if (adds.length === 0 && removes.length === 0) {
+            return [];
+        }
+
+        const timestamp = record ? Date.now() : 0;
+        const entityId = record ? this.historyKey(entity.id) : entity.id;
+        const undo: EntityCommand[] = [];
+        if (record) {
+            for (const type of removes) {
+                undo.push({
+                    type: 'add_component',
+                    entityId,
+                    componentType: type,
+                    args: [],
+                    data: cloneComponentData(type, entity.getComponent(type)),
+                    restore: true,
+                    timestamp,
+                });
+            }
+        }
+
+        const types = adds.map(({ type }) => type);
+        if (!pending.spawned) {
+            types.unshift(
+                ...entity.getComponentTypes().filter((type) => !pending.removes?.has(type))
+            );
+        }
+        const archetypeManager = entity.getArchetypeManager();
+        const archetype = archetypeManager
+            ? lookupArchetype(archetypes, types, archetypeManager)
+            : undefined;
+        // Removed components are kept for rollback; restoring one copies its data
+        const removed: unknown[] = [];
+        entity.applyComponentChanges(adds, removes, archetype, removed);
+
+        removes.forEach((componentType, i) => {
             rollbackState.componentChanges.push({
-                entityId: command.entityId,
-                componentType: command.componentType,
+                entityId: entity.id,
+                componentType,
                 action: 'removed',
-                componentData: deepCloneComponent(componentData) as Record<string, unknown>,
+                componentData: removed[i] as object,
             });
-            entity.removeComponent(command.componentType);
-            result.componentsRemoved++;
+        });
+        // Rolling back or undoing a spawn frees the entity, which takes its components along
+        if (!pending.spawned) {
+            for (const { type: componentType } of adds) {
+                rollbackState.componentChanges.push({
+                    entityId: entity.id,
+                    componentType,
+                    action: 'added',
+                });
+                if (record) {
+                    undo.push({ type: 'remove_component', entityId, componentType, timestamp });
+                }
+            }
         }
+        result.componentsAdded += adds.length;
+        result.componentsRemoved += removes.length;
+        return undo;
     }
 
     private executeAddTagCommand(
@@ -1074,17 +1752,7 @@ export class CommandBuffer {
                     entity.removeComponent(change.componentType);
                 } else if (change.action === 'removed' && change.componentData) {
                     // Re-add the component with its original data
-                    const componentData = change.componentData;
-                    const dataKeys = Object.keys(componentData);
-                    const dataValues = dataKeys.map((key) => componentData[key]);
-                    try {
-                        entity.addComponent(change.componentType, ...dataValues);
-                    } catch {
-                        // If constructor args don't match, try creating empty and assigning
-                        entity.addComponent(change.componentType);
-                        const component = entity.getComponent(change.componentType);
-                        Object.assign(component as object, componentData);
-                    }
+                    entity.restoreComponent(change.componentType, change.componentData);
                 }
             } else {
                 failedOperations++;
@@ -1123,7 +1791,7 @@ interface RollbackState {
         entityId: symbol;
         componentType: ComponentIdentifier;
         action: 'added' | 'removed';
-        componentData?: Record<string, unknown>;
+        componentData?: object;
     }>;
     tagChanges: Array<{
         entityId: symbol;
@@ -1136,3 +1804,148 @@ interface RollbackState {
         newParentId?: symbol;
     }>;
 }
+
+/**
+ * Component changes queued for one entity during a batch.
+ * @internal
+ */
+interface PendingComponentChanges {
+    /**
+     * Components to add, by type; an entity spawned by the batch keeps its spawn
+     * command's list until a component command changes it
+     */
+    adds: Map<ComponentIdentifier, ComponentChange> | readonly ComponentChange[];
+    /** Component types to remove, once there are any */
+    removes?: Set<ComponentIdentifier>;
+    /** Whether the entity was spawned by this batch */
+    spawned: boolean;
+}
+
+/**
+ * List the components an entity's pending changes add.
+ */
+function pendingAdds(pending: PendingComponentChanges): readonly ComponentChange[] {
+    return pending.adds instanceof Map ? [...pending.adds.values()] : pending.adds;
+}
+
+/**
+ * Check whether an entity or one of its ancestors is queued for deletion.
+ */
+function isPendingDeletion(entity: Entity): boolean {
+    for (let current: Entity | undefined = entity; current; current = current.parent as Entity) {
+        if (current.isMarkedForDeletion) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Drop repeated types from a spawn's component list, keeping the first component of each.
+ */
+function firstOfEachType(components: readonly ComponentChange[]): readonly ComponentChange[] {
+    for (let i = 1; i < components.length; i++) {
+        for (let j = 0; j < i; j++) {
+            if (components[i]?.type === components[j]?.type) {
+                return components.filter(
+                    (change, k) => components.findIndex(({ type }) => type === change.type) === k
+                );
+            }
+        }
+    }
+    return components;
+}
+
+/**
+ * Archetypes resolved during a batch, keyed by component types in order.
+ * @internal
+ */
+interface ArchetypeCacheNode {
+    archetype?: Archetype;
+    /** Entities spawned by the batch with exactly this component list */
+    spawns?: SpawnGroup;
+    next: Map<ComponentIdentifier, ArchetypeCacheNode>;
+}
+
+/**
+ * Entities spawned by a batch with the same component list, waiting for a bulk insert.
+ * @internal
+ */
+interface SpawnGroup {
+    archetypeManager: ArchetypeManager;
+    archetype: Archetype;
+    /** Component types in the order the components were built */
+    types: ComponentIdentifier[];
+    entities: Entity[];
+    /** Each entity's components, in the order of `types` */
+    components: unknown[][];
+    /** The same components, one array per type of `types` */
+    columns: unknown[][];
+}
+
+/**
+ * Find the cache node for a list of component types.
+ */
+function lookupArchetypeNode(
+    root: ArchetypeCacheNode,
+    types: ComponentIdentifier[]
+): ArchetypeCacheNode {
+    let node = root;
+    for (const type of types) {
+        let next = node.next.get(type);
+        if (!next) {
+            next = { next: new Map() };
+            node.next.set(type, next);
+        }
+        node = next;
+    }
+    return node;
+}
+
+/**
+ * Find the archetype for a list of component types, resolving each distinct list once per batch.
+ */
+function lookupArchetype(
+    root: ArchetypeCacheNode,
+    types: ComponentIdentifier[],
+    archetypeManager: ArchetypeManager
+): Archetype {
+    const node = lookupArchetypeNode(root, types);
+    node.archetype ??= archetypeManager.getOrCreateArchetype(types);
+    return node.archetype;
+}
+
+/**
+ * Describe history steps, most recent first.
+ */
+function describeSteps(steps: HistoryStep[]): CommandHistoryEntry[] {
+    return steps.toReversed().map(({ label, commands }) => ({
+        label,
+        commandCount: commands.length,
+    }));
+}
+
+/**
+ * Commands that undo or redo one history step.
+ * @internal
+ */
+interface HistoryStep {
+    label?: string;
+    commands: EntityCommand[];
+}
+
+/**
+ * Undo/redo stacks of a command buffer.
+ * @internal
+ */
+interface CommandHistoryState {
+    maxDepth: number;
+    undo: HistoryStep[];
+    redo: HistoryStep[];
+    group?: HistoryStep;
+    groupDepth: number;
+    /** History keys of recreated entities mapped to their current entity IDs */
+    ids: Map<symbol, symbol>;
+    /** Current entity IDs mapped back to their history keys */
+    keys: Map<symbol, symbol>;
+}
@@ -0,0 +1,142 @@
+/**
+ * Component Hooks Test Suite
+ * Tests for engine-registered component hooks and the service container they receive
+ */
+
+import { EngineBuilder } from './engine';
+import { CoreServices, defineService, ServiceContainer } from './services';
+
+class SpatialIndex {
+    entries: Set<string> = new Set();
+}
+
+class Collider {
+    constructor(public radius: number = 1) {}
+    onCreate(): void {
+        order.push('onCreate');
+    }
+    onDestroy(): void {
+        order.push('onDestroy');
+    }
+}
+
+class Frozen {}
+
+let order: string[] = [];
+
+describe('Component hooks', () => {
+    beforeEach(() => {
+        order = [];
+    });
+
+    test('should run onAdd after onCreate and before systems see the component', () => {
+        const engine = new EngineBuilder().build();
+        engine.services.provide(SpatialIndex, new SpatialIndex());
+        engine.registerComponentHooks(Collider, {
+            onAdd: (entity, collider, services) => {
+                order.push(`onAdd ${collider.radius}`);
+                services.get(SpatialIndex).entries.add(entity.name ?? '');
+            },
+        });
+        const query = engine.createQuery({ all: [Collider] });
+        engine.createSystem(
+            'Watcher',
+            { all: [Collider] },
+            {
+                onComponentAdded: () =>
+                    void order.push(`system ${query.getEntitiesArray().length}`),
+            }
+        );
+
+        engine.createEntity('rock').addComponent(Collider, 3);
+
+        expect(order).toEqual(['onCreate', 'onAdd 3', 'system 1']);
+        expect(engine.services.get(SpatialIndex).entries).toEqual(new Set(['rock']));
+        engine.destroy();
+    });
+
+    test('should run onRemove while attached and onReplace with the previous instance', () => {
+        const engine = new EngineBuilder().build();
+        const unregister = engine.registerComponentHooks(Collider, {
+            onRemove: (entity, collider) =>
+                void order.push(`onRemove ${collider.radius} ${entity.hasComponent(Collider)}`),
+            onReplace: (_entity, collider, previous) =>
+                void order.push(`onReplace ${previous.radius}->${collider.radius}`),
+        });
+        engine.on('onComponentRemoved', () => void order.push('removed event'));
+        const entity = engine.createEntity().addComponent(Collider, 1);
+
+        entity.replaceComponent(Collider, 2);
+        entity.removeComponent(Collider);
+        unregister();
+        entity.addComponent(Collider).removeComponent(Collider);
+
+        expect(order).toEqual([
+            'onCreate',
+            'onDestroy',
+            'onCreate',
+            'onReplace 1->2',
+            'onRemove 2 true',
+            'onDestroy',
+            'removed event',
+            'onCreate',
+            'onDestroy',
+            'removed event',
+        ]);
+        engine.destroy();
+    });
+
+    test('should run hooks when the command buffer executes, removals first', () => {
+        const engine = new EngineBuilder().build();
+        for (const type of [Collider, Frozen]) {
+            engine.registerComponentHooks(type, {
+                onAdd: () => void order.push(`add ${type.name}`),
+                onRemove: () => void order.push(`remove ${type.name}`),
+            });
+        }
+        const entity = engine.createEntity().addComponent(Frozen);
+        order = [];
+
+        engine.commands.entity(entity).addComponent(Collider).removeComponent(Frozen);
+        expect(order).toEqual([]);
+        engine.commands.execute();
+
+        expect(order).toEqual(['remove Frozen', 'onCreate', 'add Collider']);
+        engine.destroy();
+    });
+
+    test('should give each world its own services', () => {
+        const engine = new EngineBuilder().build();
+        const Score = defineService<{ points: number }>('score');
+        const worlds: unknown[] = [];
+        engine.registerComponentHooks(Frozen, {
+            onAdd: (_entity, _frozen, services) =>
+                void worlds.push(services.get(CoreServices.Engine)),
+        });
+        engine.services.provide(Score, { points: 1 });
+
+        const world = engine.createWorld('preview');
+        engine.createEntity().addComponent(Frozen);
+        world.createEntity().addComponent(Frozen);
+
+        expect(worlds).toHaveLength(2);
+        expect(worlds[0]).toBe(engine);
+        expect(worlds[1]).toBe(world);
+        expect(world.services.get(CoreServices.Logger)).toBe(world.logger);
+        expect(world.services.has(Score)).toBe(false);
+        expect(() => world.services.get(Score)).toThrow('[ECS] Service "score" is not registered');
+        engine.destroy();
+    });
+
+    test('should replace and remove services', () => {
+        const services = new ServiceContainer();
+        const first = new SpatialIndex();
+
+        services.provide(SpatialIndex, first).provide(SpatialIndex, new SpatialIndex());
+
+        expect(services.get(SpatialIndex)).not.toBe(first);
+        expect(services.keys()).toEqual(['SpatialIndex']);
+        expect(services.remove(SpatialIndex)).toBe(true);
+        expect(services.tryGet(SpatialIndex)).toBeUndefined();
+    });
+});
@@ -8,19 +8,36 @@
  * @module Core
  */
 
-import type { ArchetypeManager } from './archetype';
+import type { Archetype, ArchetypeManager } from './archetype';
+import {
+    assertPayload,
+    channelName,
+    type MessageChannel,
+    type MessageDeliveryMode,
+    type MessageReader,
+    type TypedMessage,
+} from './channels';
 import type {
     ComponentIdentifier,
     ComponentLifecycle,
     EntityDef,
     Logger,
     QueryOptions,
+    QueryPage,
     QueryStats,
+    RelationChangedEvent,
+    RelationFilter,
+    RelationType,
     SerializedEntity,
     SystemMessage,
     SystemProfile,
     SystemType,
 } from './definitions';
+import { serializeFields, validateFields } from './fields';
+import { EntityHandle } from './handles';
+import { GroupedEntityIndex, SortedEntityIndex } from './query-order';
+import { isSoAView } from './soa';
+import { cloneComponentData } from './utils';
 
 // Constants
 const DEFAULT_POOL_MAX_SIZE = 1000;
@@ -178,6 +195,20 @@ function hasOnDestroy(
  */
 export const ARCHETYPE_STORAGE_INDEX = -1;
 
+/**
+ * A component to add through `Entity.applyComponentChanges`.
+ * @internal
+ */
+export interface ComponentChange {
+    type: ComponentIdentifier;
+    /** Constructor arguments */
+    args: unknown[];
+    /** Data assigned onto the new component */
+    data?: object;
+    /** Build the component from `data` alone, without calling its constructor */
+    restore?: boolean;
+}
+
 /**
  * Generic object pool for efficient memory reuse and reduced garbage collection.
  *
@@ -483,6 +514,19 @@ export class ComponentArray<T> {
  * });
  * ```
  *
+ * @example Sorted and Grouped Query
+ * ```typescript
+ * const sprites = engine.createQuery({
+ *   all: [Sprite, Team],
+ *   sort: { by: { component: Sprite, field: 'z' } },
+ *   groupBy: { component: Team, field: 'id' }
+ * });
+ *
+ * sprites.getEntitiesArray();  // Back to front
+ * sprites.getGroup(1);         // Team 1, back to front
+ * sprites.page(0, 20);         // First 20 sprites
+ * ```
+ *
  * @public
  */
 export class Query<C extends readonly unknown[] = unknown[]> {
@@ -500,6 +544,13 @@ export class Query<C extends readonly unknown[] = unknown[]> {
     private matchingArchetypes?: unknown[];
     private archetypesCacheValid: boolean = false;
 
+    // Iterate in entity ID order instead of archetype and insertion order
+    private stableOrder: boolean = false;
+
+    // Incrementally maintained order and groups for the sort and groupBy options
+    private sortIndex?: SortedEntityIndex;
+    private groupIndex?: GroupedEntityIndex;
+
     // Performance tracking
     private _executionCount: number = 0;
     private _totalTimeMs: number = 0;
@@ -515,6 +566,37 @@ export class Query<C extends readonly unknown[] = unknown[]> {
         }
     ) {
         this.archetypeManager = archetypeManager;
+        if (options.sort) {
+            this.sortIndex = new SortedEntityIndex(options.sort);
+        }
+        if (options.groupBy) {
+            this.groupIndex = new GroupedEntityIndex(options.groupBy, options.sort);
+        }
+    }
+
+    /**
+     * Iterate entities in ascending numeric ID order.
+     *
+     * By default iteration order follows archetype layout and the order in which
+     * entities started matching, which depends on component add/remove history.
+     * Stable order makes iteration independent of that history at the cost of a
+     * sort whenever the matching set changes and of archetype-based iteration in
+     * `forEach`. Enabled for all queries in deterministic mode.
+     *
+     * @param enabled - Whether to iterate in stable order
+     */
+    setStableOrder(enabled: boolean): void {
+        if (this.stableOrder !== enabled) {
+            this.stableOrder = enabled;
+            this.invalidateCache();
+        }
+    }
+
+    /**
+     * Check whether this query iterates in stable entity ID order
+     */
+    isStableOrder(): boolean {
+        return this.stableOrder;
     }
 
     /**
@@ -539,6 +621,25 @@ export class Query<C extends readonly unknown[] = unknown[]> {
         if (tags.length > 0 && !tags.every((tag: string) => entity.hasTag(tag))) return false;
         if (withoutTags.some((tag: string) => entity.hasTag(tag))) return false;
 
+        return this.testRelations(entity);
+    }
+
+    private testRelations(entity: Entity): boolean {
+        const { relations = [], withoutRelations = [] } = this.options;
+
+        if (
+            !relations.every((filter: RelationFilter) =>
+                entity.hasRelation(filter.relation, filter.target)
+            )
+        )
+            return false;
+        if (
+            withoutRelations.some((filter: RelationFilter) =>
+                entity.hasRelation(filter.relation, filter.target)
+            )
+        )
+            return false;
+
         return true;
     }
 
@@ -549,28 +650,46 @@ export class Query<C extends readonly unknown[] = unknown[]> {
         if (matches) {
             if (!hadEntity) {
                 this.matchingEntities.add(entity);
+                this.sortIndex?.add(entity);
+                this.groupIndex?.add(entity);
                 this.currentVersion++;
                 // Invalidate archetype cache when entity membership changes
                 this.archetypesCacheValid = false;
             }
-        } else {
-            if (hadEntity) {
-                this.matchingEntities.delete(entity);
-                this.currentVersion++;
-                // Invalidate archetype cache when entity membership changes
-                this.archetypesCacheValid = false;
-            }
+        } else if (hadEntity) {
+            this.removeEntity(entity);
         }
 
         return matches;
     }
 
+    /**
+     * Drop an entity from the query's results regardless of its components.
+     *
+     * Used when an entity is released, since a component-less entity still
+     * matches queries with only `none` or `withoutTags` filters.
+     * @internal
+     */
+    removeEntity(entity: Entity): void {
+        if (!this.matchingEntities.delete(entity)) {
+            return;
+        }
+        this.sortIndex?.delete(entity);
+        this.groupIndex?.delete(entity);
+        this.currentVersion++;
+        // Invalidate archetype cache when entity membership changes
+        this.archetypesCacheValid = false;
+    }
+
     getEntities(): IterableIterator<Entity> {
         const startTime = performance.now();
         this._executionCount++;
         this._lastMatchCount = this.matchingEntities.size;
 
-        const result = this.matchingEntities.values();
+        const result =
+            this.stableOrder || this.sortIndex
+                ? this.getSortedEntities().values()
+                : this.matchingEntities.values();
 
         const endTime = performance.now();
         this._totalTimeMs += endTime - startTime;
@@ -584,13 +703,11 @@ export class Query<C extends readonly unknown[] = unknown[]> {
         this._lastMatchCount = this.matchingEntities.size;
 
         let result: Entity[];
-        if (this.cacheVersion === this.currentVersion) {
+        if (this.cacheVersion === this.currentVersion && !this.sortIndex) {
             this._cacheHits++;
             result = this.cachedArray;
         } else {
-            this.cachedArray = Array.from(this.matchingEntities);
-            this.cacheVersion = this.currentVersion;
-            result = this.cachedArray;
+            result = this.getSortedEntities();
         }
 
         const endTime = performance.now();
@@ -599,10 +716,92 @@ export class Query<C extends readonly unknown[] = unknown[]> {
         return result;
     }
 
+    // Rebuild the cached entity array if stale, sorted by ID in stable order
+    private getSortedEntities(): Entity[] {
+        if (this.sortIndex) {
+            return this.sortIndex.refresh();
+        }
+        if (this.cacheVersion !== this.currentVersion) {
+            this.cachedArray = Array.from(this.matchingEntities);
+            if (this.stableOrder) {
+                this.cachedArray.sort((a, b) => a.numericId - b.numericId);
+            }
+            this.cacheVersion = this.currentVersion;
+        }
+        return this.cachedArray;
+    }
+
     get size(): number {
         return this.matchingEntities.size;
     }
 
+    /**
+     * Get one page of matching entities, in query order.
+     *
+     * @param page - Zero-based page index; pages past the end are empty
+     * @param pageSize - Maximum number of entities per page
+     * @returns The page's entities and the totals needed to page through the rest
+     *
+     * @example
+     * ```typescript
+     * const { entities, pageCount } = inventoryQuery.page(currentPage, 10);
+     * ```
+     */
+    page(page: number, pageSize: number): QueryPage<Entity> {
+        if (!Number.isInteger(pageSize) || pageSize < 1) {
+            throw new Error(`[ECS] Page size must be a positive integer, got ${pageSize}`);
+        }
+        if (!Number.isInteger(page) || page < 0) {
+            throw new Error(`[ECS] Page index must be a non-negative integer, got ${page}`);
+        }
+        const entities = this.getEntitiesArray();
+        return {
+            entities: entities.slice(page * pageSize, (page + 1) * pageSize),
+            page,
+            pageSize,
+            pageCount: Math.ceil(entities.length / pageSize),
+            total: entities.length,
+        };
+    }
+
+    /**
+     * Get the entities whose `groupBy` key equals a value, in query order.
+     *
+     * @param key - Group key, such as a team ID
+     * @returns The group's entities, or an empty array if no entity has the key
+     * @throws Error if the query was created without a `groupBy` option
+     *
+     * @example
+     * ```typescript
+     * const units = engine.createQuery({ all: [Unit, Team], groupBy: { component: Team, field: 'id' } });
+     * const redTeam = units.getGroup(1);
+     * ```
+     */
+    getGroup(key: unknown): Entity[] {
+        const groups = this.requireGroups();
+        groups.refresh();
+        return groups.get(key);
+    }
+
+    /**
+     * Get every group of a query created with a `groupBy` option.
+     *
+     * @returns Entities of each group keyed by group value, in query order
+     * @throws Error if the query was created without a `groupBy` option
+     */
+    getGroups(): Map<unknown, Entity[]> {
+        const groups = this.requireGroups();
+        groups.refresh();
+        return groups.getAll();
+    }
+
+    private requireGroups(): GroupedEntityIndex {
+        if (!this.groupIndex) {
+            throw new Error('[ECS] Query was created without a groupBy option');
+        }
+        return this.groupIndex;
+    }
+
     /**
      * Make Query iterable - allows for...of loops
      */
@@ -616,10 +815,17 @@ export class Query<C extends readonly unknown[] = unknown[]> {
      * Uses archetype-based iteration for significantly better performance when available
      */
     forEach(callback: (entity: Entity, ...components: C) => void): void {
-        const { all = [], tags = [], withoutTags = [] } = this.options;
+        const {
+            all = [],
+            tags = [],
+            withoutTags = [],
+            relations = [],
+            withoutRelations = [],
+        } = this.options;
 
         // Use archetype-based iteration if available (much faster!)
-        if (this.archetypeManager) {
+        // Stable and sorted order need the sorted entity list, so they take the entity-based path
+        if (this.archetypeManager && !this.stableOrder && !this.sortIndex) {
             if (!this.archetypesCacheValid) {
                 this.matchingArchetypes = this.archetypeManager.getMatchingArchetypes(this.options);
                 this.archetypesCacheValid = true;
@@ -639,6 +845,9 @@ export class Query<C extends readonly unknown[] = unknown[]> {
 
                     // Check if we need to filter by tags (tags are not part of archetype matching)
                     const needsTagFiltering = tags.length > 0 || withoutTags.length > 0;
+                    // Relations are not part of archetype matching either
+                    const needsRelationFiltering =
+                        relations.length > 0 || withoutRelations.length > 0;
 
                     // Iterate through entities
                     for (let i = 0; i < entities.length; i++) {
@@ -651,6 +860,8 @@ export class Query<C extends readonly unknown[] = unknown[]> {
                             if (withoutTags.some((tag: string) => entity.hasTag(tag))) continue;
                         }
 
+                        if (needsRelationFiltering && !this.testRelations(entity)) continue;
+
                         // Extract components in query order
                         // Type assertion is required because component types are only known at runtime
                         // based on the 'all' array in QueryOptions - TypeScript cannot verify at compile time
@@ -665,7 +876,9 @@ export class Query<C extends readonly unknown[] = unknown[]> {
         }
 
         // Fallback to traditional entity-based iteration
-        for (const entity of this.matchingEntities) {
+        const entities =
+            this.stableOrder || this.sortIndex ? this.getSortedEntities() : this.matchingEntities;
+        for (const entity of entities) {
             // Type assertion is required because component types are only known at runtime
             // based on the 'all' array in QueryOptions - TypeScript cannot verify at compile time
             const componentArgs = all.map((componentType: ComponentIdentifier) =>
@@ -762,6 +975,85 @@ export class QueryBuilder<C extends readonly unknown[] = unknown[]> {
         return this;
     }
 
+    /**
+     * Add a relation entities must have, to any target or to a specific one
+     */
+    withRelation(relation: RelationType<unknown>, target?: EntityDef): this {
+        this.options.relations = [...(this.options.relations ?? []), { relation, target }];
+        return this;
+    }
+
+    /**
+     * Add a relation entities must NOT have, to any target or to a specific one
+     */
+    withoutRelation(relation: RelationType<unknown>, target?: EntityDef): this {
+        this.options.withoutRelations = [
+            ...(this.options.withoutRelations ?? []),
+            { relation, target },
+        ];
+        return this;
+    }
+
+    /**
+     * Add components that entities must have gained since the system last ran
+     */
+    added(...types: ComponentIdentifier[]): this {
+        this.options.added = types;
+        return this;
+    }
+
+    /**
+     * Add components that must have been added or changed since the system last ran
+     */
+    changed(...types: ComponentIdentifier[]): this {
+        this.options.changed = types;
+        return this;
+    }
+
+    /**
+     * Add components that entities must have lost since the system last ran
+     */
+    removed(...types: ComponentIdentifier[]): this {
+        this.options.removed = types;
+        return this;
+    }
+
+    /**
+     * Keep results sorted by a component field
+     */
+    sortBy<T>(
+        component: ComponentIdentifier<T>,
+        field: keyof T & string,
+        order?: 'asc' | 'desc'
+    ): this {
+        this.options.sort = { by: { component, field }, order };
+        return this;
+    }
+
+    /**
+     * Keep results sorted by a value computed from each entity
+     */
+    sortByKey(key: (entity: EntityDef) => unknown, order?: 'asc' | 'desc'): this {
+        this.options.sort = { by: key, order };
+        return this;
+    }
+
+    /**
+     * Partition results by a component field
+     */
+    groupBy<T>(component: ComponentIdentifier<T>, field: keyof T & string): this {
+        this.options.groupBy = { component, field };
+        return this;
+    }
+
+    /**
+     * Partition results by a value computed from each entity
+     */
+    groupByKey(key: (entity: EntityDef) => unknown): this {
+        this.options.groupBy = key;
+        return this;
+    }
+
     /**
      * Build and return the Query instance
      */
@@ -819,6 +1111,9 @@ export class QueryBuilder<C extends readonly unknown[] = unknown[]> {
 export class Entity implements EntityDef {
     private readonly _id: symbol;
     private readonly _numericId: number;
+    // Advances each time the entity is released, so handles to a previous life go stale
+    private _generation: number = 0;
+    private _handle?: EntityHandle;
     private _name?: string;
     private _dirty: boolean = false;
     private _componentIndices: Map<ComponentIdentifier, number> = new Map();
@@ -826,6 +1121,9 @@ export class Entity implements EntityDef {
     private _parent?: Entity;
     private _children: Set<Entity> = new Set();
     private _tags: Set<string> = new Set();
+    // Outgoing relations (relation -> target -> data) and the reverse index of incoming ones
+    private _relations: Map<RelationType<unknown>, Map<Entity, unknown>> = new Map();
+    private _incomingRelations: Map<RelationType<unknown>, Set<Entity>> = new Map();
     private _changeVersion: number = 0;
 
     // Serialization cache to reduce GC pressure
@@ -848,6 +1146,17 @@ export class Entity implements EntityDef {
     get numericId(): number {
         return this._numericId;
     }
+    get generation(): number {
+        return this._generation;
+    }
+    /**
+     * Generational handle to this entity; resolve it with `engine.resolve()`,
+     * which returns undefined once the entity has been destroyed.
+     */
+    get handle(): EntityHandle {
+        this._handle ??= new EntityHandle(this._numericId, this._generation);
+        return this._handle;
+    }
     get name(): string | undefined {
         return this._name;
     }
@@ -964,92 +1273,219 @@ export class Entity implements EntityDef {
         ...args: ConstructorParameters<typeof type>
     ): this {
         if (!this._componentIndices.has(type)) {
-            const validator = this.componentManager.getValidator(type);
+            // Use pool if available, otherwise create normally
+            this.insertComponent(type, () => this.componentManager.acquireComponent(type, ...args));
+        }
+        return this;
+    }
 
-            if (validator?.dependencies) {
-                for (const dep of validator.dependencies) {
-                    if (!this.hasComponent(dep)) {
-                        throw new Error(
-                            `[ECS] Component ${type.name} requires ${dep.name} on entity ${this._name || this._numericId}`
-                        );
-                    }
-                }
-            }
+    /**
+     * Check a new component's dependencies and conflicts, then build, validate and store it.
+     *
+     * @param type - A component type the entity does not have
+     * @param build - Creates the component once the checks pass
+     */
+    private insertComponent<T>(type: ComponentIdentifier<T>, build: () => T): void {
+        const validator = this.componentManager.getValidator(type);
 
-            if (validator?.conflicts) {
-                for (const conflict of validator.conflicts) {
-                    if (this.hasComponent(conflict)) {
-                        throw new Error(
-                            `[ECS] Component ${type.name} conflicts with ${conflict.name} on entity ${this._name || this._numericId}`
-                        );
-                    }
+        if (validator?.dependencies) {
+            for (const dep of validator.dependencies) {
+                if (!this.hasComponent(dep)) {
+                    throw new Error(
+                        `[ECS] Component ${type.name} requires ${dep.name} on entity ${this._name || this._numericId}`
+                    );
                 }
             }
+        }
 
-            // Use pool if available, otherwise create normally
-            const component = this.componentManager.acquireComponent(type, ...args);
-
-            if (validator) {
-                const validationResult = validator.validate(component);
-                if (validationResult !== true) {
-                    const errorMessage =
-                        typeof validationResult === 'string'
-                            ? validationResult
-                            : 'Component validation failed';
+        if (validator?.conflicts) {
+            for (const conflict of validator.conflicts) {
+                if (this.hasComponent(conflict)) {
                     throw new Error(
-                        `[ECS] ${errorMessage} for ${type.name} on entity ${this._name || this._numericId}`
+                        `[ECS] Component ${type.name} conflicts with ${conflict.name} on entity ${this._name || this._numericId}`
                     );
                 }
             }
+        }
 
-            // Check if archetypes are enabled
-            const archetypeManager = this.componentManager.getArchetypeManager();
-            if (archetypeManager) {
-                // Archetype mode: move entity to new archetype
-                const newComponentTypes = [...this._componentIndices.keys(), type];
-                const components = new Map<ComponentIdentifier, any>();
+        const component = build();
+        this.validateComponent(type, component);
 
-                // Gather existing components from archetype (only if entity has components)
-                if (this._componentIndices.size > 0) {
-                    for (const compType of this._componentIndices.keys()) {
-                        const existingComp = archetypeManager.getComponent(this, compType);
-                        if (existingComp !== null) {
-                            components.set(compType, existingComp);
-                        }
+        // Check if archetypes are enabled
+        const archetypeManager = this.componentManager.getArchetypeManager();
+        if (archetypeManager) {
+            // Archetype mode: move entity to new archetype
+            const newComponentTypes = [...this._componentIndices.keys(), type];
+            const components = new Map<ComponentIdentifier, any>();
+
+            // Gather existing components from archetype (only if entity has components)
+            if (this._componentIndices.size > 0) {
+                for (const compType of this._componentIndices.keys()) {
+                    const existingComp = archetypeManager.getComponent(this, compType);
+                    if (existingComp !== null) {
+                        components.set(compType, existingComp);
                     }
                 }
+            }
 
-                // Add new component
-                components.set(type, component);
+            // Add new component
+            components.set(type, component);
 
-                // Move entity to new archetype
-                archetypeManager.moveEntity(this, newComponentTypes, components);
+            // Move entity to new archetype
+            archetypeManager.moveEntity(this, newComponentTypes, components);
 
-                // Update component indices to reflect archetype storage
-                this._componentIndices.set(type, ARCHETYPE_STORAGE_INDEX);
-            } else {
-                // Legacy mode: use sparse arrays
-                const componentArray = this.componentManager.getComponentArray(type);
-                const index = componentArray.add(component);
-                this._componentIndices.set(type, index);
-            }
+            // Update component indices to reflect archetype storage
+            this._componentIndices.set(type, ARCHETYPE_STORAGE_INDEX);
+        } else {
+            // Legacy mode: use sparse arrays
+            const componentArray = this.componentManager.getComponentArray(type);
+            const index = componentArray.add(component);
+            this._componentIndices.set(type, index);
+        }
 
-            this._dirty = true;
-            this._changeVersion++;
+        this._dirty = true;
+        this._changeVersion++;
 
-            // Call onCreate lifecycle hook if it exists
-            if (hasOnCreate(component)) {
-                component.onCreate(this);
-            }
+        // Call onCreate lifecycle hook if it exists
+        if (hasOnCreate(component)) {
+            component.onCreate(this);
+        }
+        this.runComponentHooks('onAdd', type);
 
-            this.eventEmitter.emit('onComponentAdded', this, type);
+        this.eventEmitter.emit('onComponentAdded', this, type);
+    }
+
+    /**
+     * Replace a component with a new instance built from the given arguments.
+     *
+     * Unlike removing and re-adding it, the entity keeps its archetype and stays
+     * in its queries. Fires `onComponentReplaced` with the previous component, or
+     * adds the component if the entity does not have it yet.
+     *
+     * @example
+     * ```typescript
+     * entity.replaceComponent(Health, 100);  // Full heal with a fresh instance
+     * ```
+     */
+    replaceComponent<T>(
+        type: ComponentIdentifier<T>,
+        ...args: ConstructorParameters<typeof type>
+    ): this {
+        if (!this._componentIndices.has(type)) {
+            return this.addComponent(type, ...args);
         }
+
+        const component = this.componentManager.acquireComponent(type, ...args);
+        this.validateComponent(type, component);
+        this.swapComponent(type, component);
         return this;
     }
 
+    /**
+     * Add or replace a component with one built from data copied off an earlier
+     * instance, without calling its constructor.
+     *
+     * Used to restore components on rollback, undo and world copies, where the
+     * original constructor arguments are not known.
+     *
+     * @param type - The component class
+     * @param data - Component data from `cloneComponentData`
+     * @internal
+     */
+    restoreComponent<T>(type: ComponentIdentifier<T>, data: object): this {
+        const build = () => this.componentManager.createComponentFromData(type, data);
+        if (!this._componentIndices.has(type)) {
+            this.insertComponent(type, build);
+            return this;
+        }
+        const component = build();
+        this.validateComponent(type, component);
+        this.swapComponent(type, component);
+        return this;
+    }
+
+    /**
+     * Swap a validated component in for the current instance of its type,
+     * running replace hooks and firing `onComponentReplaced`.
+     */
+    private swapComponent<T>(type: ComponentIdentifier<T>, component: T): void {
+        const index = this._componentIndices.get(type) as number;
+        let previous: T = this.getComponent(type);
+        if (hasOnDestroy(previous)) {
+            previous.onDestroy(this);
+        }
+        // Typed-array views are rewritten in place, so listeners get a detached copy of the old values
+        if (isSoAView(previous)) {
+            previous = new (type as new (values: object) => T)(cloneComponentData(type, previous));
+        }
+
+        const archetypeManager = this.componentManager.getArchetypeManager();
+        if (archetypeManager) {
+            archetypeManager.setComponent(this, type, component);
+        } else {
+            this.componentManager.getComponentArray(type).set(index, component);
+        }
+
+        this._dirty = true;
+        this._changeVersion++;
+
+        const current = this.getComponent(type);
+        if (hasOnCreate(current)) {
+            current.onCreate(this);
+        }
+        const hooks = this.componentManager.getHooks(type);
+        if (hooks) {
+            const services = this.componentManager.getServices();
+            for (const hook of hooks) {
+                hook.onReplace?.(this, current, previous, services);
+            }
+        }
+
+        this.eventEmitter.emit('onComponentReplaced', this, type, previous);
+        this.componentManager.releaseComponent(type, previous as object);
+    }
+
+    /**
+     * Run the `onAdd` or `onRemove` hooks registered on the engine for a component type.
+     */
+    private runComponentHooks<T>(stage: 'onAdd' | 'onRemove', type: ComponentIdentifier<T>): void {
+        const hooks = this.componentManager.getHooks(type);
+        if (!hooks) {
+            return;
+        }
+        const component = this.getComponent(type);
+        const services = this.componentManager.getServices();
+        for (const hook of hooks) {
+            hook[stage]?.(this, component, services);
+        }
+    }
+
+    private validateComponent<T>(type: ComponentIdentifier<T>, component: T): void {
+        const fields = this.componentManager.getSchema(type)?.fields;
+        const validator = this.componentManager.getValidator(type);
+        if (!fields && !validator) {
+            return;
+        }
+        // Declared fields are checked before the custom validator runs
+        const fieldResult = fields ? validateFields(fields, component) : true;
+        const validationResult =
+            fieldResult === true && validator ? validator.validate(component) : fieldResult;
+        if (validationResult !== true) {
+            const errorMessage =
+                typeof validationResult === 'string'
+                    ? validationResult
+                    : 'Component validation failed';
+            throw new Error(
+                `[ECS] ${errorMessage} for ${type.name} on entity ${this._name || this._numericId}`
+            );
+        }
+    }
+
     removeComponent<T>(type: ComponentIdentifier<T>): this {
         const index = this._componentIndices.get(type);
         if (index !== undefined) {
+            this.runComponentHooks('onRemove', type);
+
             const archetypeManager = this.componentManager.getArchetypeManager();
             let removedComponent: any = null;
 
@@ -1063,11 +1499,6 @@ export class Entity implements EntityDef {
                     component.onDestroy(this);
                 }
 
-                // Release component to pool
-                if (component) {
-                    this.componentManager.releaseComponent(type, component);
-                }
-
                 // Get new component types (excluding the removed one)
                 const newComponentTypes = Array.from(this._componentIndices.keys()).filter(
                     (t) => t !== type
@@ -1082,37 +1513,264 @@ export class Entity implements EntityDef {
                     }
                 }
 
-                // Move entity to new archetype
-                archetypeManager.moveEntity(this, newComponentTypes, components);
+                // Move entity to new archetype
+                archetypeManager.moveEntity(this, newComponentTypes, components);
+
+                // Remove from component indices
+                this._componentIndices.delete(type);
+            } else {
+                // Legacy mode: use sparse arrays
+                const componentArray = this.componentManager.getComponentArray(type);
+                // Get component before removing to release it to pool
+                const component = componentArray.get(index);
+                removedComponent = component;
+                if (component !== null) {
+                    // Call onDestroy lifecycle hook if it exists
+                    if (hasOnDestroy(component)) {
+                        component.onDestroy(this);
+                    }
+                }
+                componentArray.remove(index);
+                this._componentIndices.delete(type);
+            }
+
+            this._dirty = true;
+            this._changeVersion++;
+            // Emit with component data for listeners to access
+            // Note: removedComponent may be null/undefined in archetype mode,
+            // we emit it as-is to avoid pool depletion from acquiring unused components
+            this.eventEmitter.emit('onComponentRemoved', this, type, removedComponent);
+
+            // Release to the pool only after listeners have seen the component's data
+            if (removedComponent) {
+                this.componentManager.releaseComponent(type, removedComponent);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Add and remove several components with a single archetype transition.
+     *
+     * Dependencies and conflicts are checked against the resulting component set,
+     * and every new component is built before the entity changes, so a failure
+     * leaves it untouched. Removing and adding the same type swaps in a fresh
+     * instance. `onRemove` hooks run for each removal before the move and `onAdd`
+     * hooks for each addition after it; `onComponentRemoved` then fires for each
+     * removal before `onComponentAdded` fires for each addition.
+     *
+     * @param adds - Components to add, with constructor arguments and optional data to assign;
+     *   `restore` builds the component from `data` alone, without calling its constructor
+     * @param removes - Component types to remove
+     * @param archetype - Archetype for the resulting component set, when the caller already resolved it
+     * @param snapshots - Receives the data of each removed component, in the order of the removals
+     *   that apply; the instance itself unless a pool will reset it
+     * @internal
+     */
+    applyComponentChanges(
+        adds: ReadonlyArray<ComponentChange>,
+        removes: ReadonlyArray<ComponentIdentifier>,
+        archetype?: Archetype,
+        snapshots?: unknown[]
+    ): void {
+        const removed =
+            removes.length > 0
+                ? removes.filter((type) => this._componentIndices.has(type))
+                : removes;
+        const added = adds.filter(
+            ({ type }) => !this._componentIndices.has(type) || removed.includes(type)
+        );
+        if (added.length === 0 && removed.length === 0) {
+            return;
+        }
+
+        const components = this.buildComponents(added, removed);
+
+        const removedComponents: unknown[] = [];
+        const archetypeManager = this.componentManager.getArchetypeManager();
+        for (const type of removed) {
+            this.runComponentHooks('onRemove', type);
+            let component = archetypeManager
+                ? archetypeManager.getComponent(this, type)
+                : this.componentManager
+                      .getComponentArray(type)
+                      .get(this._componentIndices.get(type) as number);
+            if (hasOnDestroy(component)) {
+                component.onDestroy(this);
+            }
+            // Typed-array views are rewritten by the move, so listeners get a detached copy
+            if (isSoAView(component)) {
+                component = new (type as new (values: object) => unknown)(
+                    cloneComponentData(type, component)
+                );
+            }
+            removedComponents.push(component);
+            // Pools reset released components, so their snapshot has to be a copy
+            snapshots?.push(
+                this.componentManager.hasComponentPool(type)
+                    ? cloneComponentData(type, component)
+                    : component
+            );
+        }
+
+        if (archetypeManager) {
+            const stored = new Map<ComponentIdentifier, unknown>();
+            for (const type of this._componentIndices.keys()) {
+                const component = removed.includes(type)
+                    ? null
+                    : archetypeManager.getComponent(this, type);
+                if (component !== null) {
+                    stored.set(type, component);
+                }
+            }
+            added.forEach(({ type }, i) => {
+                stored.set(type, components[i]);
+            });
+
+            if (archetype) {
+                archetypeManager.addEntityToArchetype(this, archetype, stored);
+            } else {
+                archetypeManager.moveEntity(this, [...stored.keys()], stored);
+            }
+
+            for (const type of removed) {
+                this._componentIndices.delete(type);
+            }
+            for (const { type } of added) {
+                this._componentIndices.set(type, ARCHETYPE_STORAGE_INDEX);
+            }
+        } else {
+            for (const type of removed) {
+                this.componentManager
+                    .getComponentArray(type)
+                    .remove(this._componentIndices.get(type) as number);
+                this._componentIndices.delete(type);
+            }
+            added.forEach(({ type }, i) => {
+                this._componentIndices.set(
+                    type,
+                    this.componentManager.getComponentArray(type).add(components[i])
+                );
+            });
+        }
+
+        this._dirty = true;
+        this._changeVersion++;
+        this.runAddHooks(
+            added.map(({ type }) => type),
+            components
+        );
+
+        removed.forEach((type, i) => {
+            this.eventEmitter.emit('onComponentRemoved', this, type, removedComponents[i]);
+            if (removedComponents[i]) {
+                this.componentManager.releaseComponent(type, removedComponents[i] as object);
+            }
+        });
+        for (const { type } of added) {
+            this.eventEmitter.emit('onComponentAdded', this, type);
+        }
+    }
+
+    /**
+     * Check the dependencies and conflicts of components about to be added, then
+     * build and validate them without touching the entity.
+     *
+     * @param adds - Components to add, none of which the entity keeps
+     * @param removes - Component types removed alongside
+     * @returns The new components, in the order of `adds`
+     * @internal
+     */
+    buildComponents(
+        adds: ReadonlyArray<ComponentChange>,
+        removes: ReadonlyArray<ComponentIdentifier> = []
+    ): unknown[] {
+        for (const { type } of adds) {
+            const validator = this.componentManager.getValidator(type);
+            if (!validator) {
+                continue;
+            }
+            for (const dep of validator.dependencies ?? []) {
+                if (!this.willHaveComponent(dep, adds, removes)) {
+                    throw new Error(
+                        `[ECS] Component ${type.name} requires ${dep.name} on entity ${this._name || this._numericId}`
+                    );
+                }
+            }
+            for (const conflict of validator.conflicts ?? []) {
+                if (this.willHaveComponent(conflict, adds, removes)) {
+                    throw new Error(
+                        `[ECS] Component ${type.name} conflicts with ${conflict.name} on entity ${this._name || this._numericId}`
+                    );
+                }
+            }
+        }
+
+        return adds.map(({ type, args, data, restore }) => {
+            const component =
+                restore && data
+                    ? this.componentManager.createComponentFromData(type, data)
+                    : this.componentManager.acquireComponent(type, ...args);
+            if (data && !restore) {
+                Object.assign(component as object, data);
+            }
+            this.validateComponent(type, component);
+            return component;
+        });
+    }
 
-                // Remove from component indices
-                this._componentIndices.delete(type);
-            } else {
-                // Legacy mode: use sparse arrays
-                const componentArray = this.componentManager.getComponentArray(type);
-                // Get component before removing to release it to pool
-                const component = componentArray.get(index);
-                removedComponent = component;
-                if (component !== null) {
-                    // Call onDestroy lifecycle hook if it exists
-                    if (hasOnDestroy(component)) {
-                        component.onDestroy(this);
-                    }
+    /**
+     * Finish adding components that were built with `buildComponents` and stored
+     * in the entity's archetype by `ArchetypeManager.addEntitiesToArchetype`:
+     * run their `onCreate` and `onAdd` hooks and fire `onComponentAdded`.
+     *
+     * @param types - The components' types, in the order they were built
+     * @param components - The stored components
+     * @internal
+     */
+    completeStoredComponents(
+        types: ReadonlyArray<ComponentIdentifier>,
+        components: unknown[]
+    ): void {
+        for (const type of types) {
+            this._componentIndices.set(type, ARCHETYPE_STORAGE_INDEX);
+        }
+        this._dirty = true;
+        this._changeVersion++;
+        this.runAddHooks(types, components);
+        for (const type of types) {
+            this.eventEmitter.emit('onComponentAdded', this, type);
+        }
+    }
 
-                    this.componentManager.releaseComponent(type, component);
-                }
-                componentArray.remove(index);
-                this._componentIndices.delete(type);
+    /**
+     * Whether the entity has a component type once the given changes apply.
+     */
+    private willHaveComponent(
+        type: ComponentIdentifier,
+        adds: ReadonlyArray<ComponentChange>,
+        removes: ReadonlyArray<ComponentIdentifier>
+    ): boolean {
+        for (const change of adds) {
+            if (change.type === type) {
+                return true;
             }
+        }
+        return this._componentIndices.has(type) && !removes.includes(type);
+    }
 
-            this._dirty = true;
-            this._changeVersion++;
-            // Emit with component data for listeners to access
-            // Note: removedComponent may be null/undefined in archetype mode,
-            // we emit it as-is to avoid pool depletion from acquiring unused components
-            this.eventEmitter.emit('onComponentRemoved', this, type, removedComponent);
+    /**
+     * Run the `onCreate` lifecycle hooks of newly added components, then their `onAdd` hooks.
+     */
+    private runAddHooks(types: ReadonlyArray<ComponentIdentifier>, components: unknown[]): void {
+        for (const component of components) {
+            if (hasOnCreate(component)) {
+                component.onCreate(this);
+            }
+        }
+        for (const type of types) {
+            this.runComponentHooks('onAdd', type);
         }
-        return this;
     }
 
     hasComponent<T>(type: ComponentIdentifier<T>): boolean {
@@ -1151,7 +1809,7 @@ export class Entity implements EntityDef {
             this._tags.add(tag);
             this._changeVersion++;
             this._dirty = true;
-            this.eventEmitter.emit('onTagChanged', this);
+            this.eventEmitter.emit('onTagChanged', this, tag, true);
         }
         return this;
     }
@@ -1161,7 +1819,7 @@ export class Entity implements EntityDef {
             this._tags.delete(tag);
             this._changeVersion++;
             this._dirty = true;
-            this.eventEmitter.emit('onTagChanged', this);
+            this.eventEmitter.emit('onTagChanged', this, tag, false);
         }
         return this;
     }
@@ -1279,6 +1937,181 @@ export class Entity implements EntityDef {
         return this;
     }
 
+    // ========== Relations ==========
+
+    /**
+     * Add a typed relation from this entity to a target entity.
+     *
+     * Relations are many-to-many: an entity can have the same relation to many
+     * targets, and many entities can relate to the same target. Adding a relation
+     * that already exists replaces its data. Relations are removed automatically
+     * when either entity is destroyed.
+     *
+     * @typeParam T - Type of the relation data
+     * @param relation - Relation type created with `defineRelation()`
+     * @param target - The entity the relation points to
+     * @param data - Optional data stored on the relation
+     * @returns This entity for chaining
+     *
+     * @example
+     * ```typescript
+     * const Targets = defineRelation<{ priority: number }>('Targets');
+     *
+     * turret.addRelation(Targets, enemy, { priority: 2 });
+     * turret.getRelationData(Targets, enemy);  // { priority: 2 }
+     * enemy.getRelationSources(Targets);        // [turret]
+     * ```
+     *
+     * @public
+     */
+    addRelation<T>(relation: RelationType<T>, target: EntityDef, data?: T): this {
+        const targetEntity = Entity.asEntity(target);
+
+        let targets = this._relations.get(relation);
+        if (!targets) {
+            targets = new Map();
+            this._relations.set(relation, targets);
+        }
+        targets.set(targetEntity, data);
+
+        let sources = targetEntity._incomingRelations.get(relation);
+        if (!sources) {
+            sources = new Set();
+            targetEntity._incomingRelations.set(relation, sources);
+        }
+        sources.add(this);
+
+        this.emitRelationChanged(relation, targetEntity, 'add', data);
+        return this;
+    }
+
+    /**
+     * Remove a relation from this entity.
+     *
+     * @param relation - The relation type to remove
+     * @param target - Only remove the relation to this entity (all targets if omitted)
+     * @returns This entity for chaining
+     *
+     * @public
+     */
+    removeRelation(relation: RelationType<unknown>, target?: EntityDef): this {
+        const targets = this._relations.get(relation);
+        if (!targets) return this;
+
+        const toRemove = target ? [Entity.asEntity(target)] : Array.from(targets.keys());
+        for (const targetEntity of toRemove) {
+            if (!targets.has(targetEntity)) continue;
+
+            const data = targets.get(targetEntity);
+            targets.delete(targetEntity);
+
+            const sources = targetEntity._incomingRelations.get(relation);
+            sources?.delete(this);
+            if (sources?.size === 0) {
+                targetEntity._incomingRelations.delete(relation);
+            }
+
+            this.emitRelationChanged(relation, targetEntity, 'remove', data);
+        }
+
+        if (targets.size === 0) {
+            this._relations.delete(relation);
+        }
+        return this;
+    }
+
+    /**
+     * Check whether this entity has a relation to a specific target, or to any target.
+     *
+     * @param relation - The relation type to check
+     * @param target - Only check for the relation to this entity
+     * @returns True if the relation exists
+     *
+     * @public
+     */
+    hasRelation(relation: RelationType<unknown>, target?: EntityDef): boolean {
+        const targets = this._relations.get(relation);
+        if (!targets) return false;
+        return target ? targets.has(Entity.asEntity(target)) : targets.size > 0;
+    }
+
+    /**
+     * Get the data stored on a relation to a target.
+     *
+     * @typeParam T - Type of the relation data
+     * @param relation - The relation type
+     * @param target - The related entity
+     * @returns The relation data, or undefined if the relation has no data or does not exist
+     *
+     * @public
+     */
+    getRelationData<T>(relation: RelationType<T>, target: EntityDef): T | undefined {
+        return this._relations.get(relation)?.get(Entity.asEntity(target)) as T | undefined;
+    }
+
+    /**
+     * Get all entities this entity has the relation to.
+     *
+     * @param relation - The relation type
+     * @returns Array of target entities
+     *
+     * @public
+     */
+    getRelationTargets(relation: RelationType<unknown>): EntityDef[] {
+        const targets = this._relations.get(relation);
+        return targets ? Array.from(targets.keys()) : [];
+    }
+
+    /**
+     * Get all entities that have the relation to this entity.
+     *
+     * @param relation - The relation type
+     * @returns Array of source entities
+     *
+     * @public
+     */
+    getRelationSources(relation: RelationType<unknown>): EntityDef[] {
+        const sources = this._incomingRelations.get(relation);
+        return sources ? Array.from(sources) : [];
+    }
+
+    /**
+     * Remove every relation from and to this entity.
+     * This is an internal method called when the entity is released.
+     *
+     * @internal
+     */
+    clearRelations(): void {
+        for (const relation of Array.from(this._relations.keys())) {
+            this.removeRelation(relation);
+        }
+        for (const [relation, sources] of Array.from(this._incomingRelations)) {
+            for (const source of Array.from(sources)) {
+                source.removeRelation(relation, this);
+            }
+        }
+    }
+
+    private emitRelationChanged(
+        relation: RelationType<unknown>,
+        target: Entity,
+        action: RelationChangedEvent['action'],
+        data: unknown
+    ): void {
+        this._changeVersion++;
+        this._dirty = true;
+
+        const event: RelationChangedEvent = {
+            source: this,
+            relation,
+            target,
+            action,
+            data,
+            timestamp: Date.now(),
+        };
+        this.eventEmitter.emit('onRelationChanged', event);
+    }
+
     // ========== Hierarchy Query Methods ==========
 
     /**
@@ -1687,7 +2520,19 @@ export class Entity implements EntityDef {
     }
 
     queueFree(): void {
-        this._markedForDelete = true;
+        if (!this._markedForDelete) {
+            this._markedForDelete = true;
+            this.eventEmitter.emit('onEntityQueuedForDeletion', this);
+        }
+    }
+
+    /**
+     * Undo a pending `queueFree()` before the entity is cleaned up.
+     * Used by transaction rollback.
+     * @internal
+     */
+    cancelQueueFree(): void {
+        this._markedForDelete = false;
     }
 
     clone(engine: any): Entity {
@@ -1706,10 +2551,19 @@ export class Entity implements EntityDef {
         return version;
     }
 
-    serialize(): SerializedEntity {
+    /**
+     * Serialize this entity and its children.
+     *
+     * The result is cached until components, tags or children change. Mutating
+     * component fields in place does not invalidate the cache.
+     *
+     * @param bypassCache - Re-read all component data even if the cache is current
+     */
+    serialize(bypassCache: boolean = false): SerializedEntity {
         // Check cache validity - use deep version to account for child changes
         const currentDeepVersion = this.getDeepChangeVersion();
         if (
+            !bypassCache &&
             this._cachedSerialization !== null &&
             this._cachedSerializationVersion === currentDeepVersion
         ) {
@@ -1739,17 +2593,23 @@ export class Entity implements EntityDef {
             }
 
             if (component) {
-                components[componentType.name] = { ...component };
+                const fields = this.componentManager.getSchema(
+                    componentType as ComponentIdentifier
+                )?.fields;
+                components[componentType.name] = fields
+                    ? serializeFields(fields, component)
+                    : { ...component };
             }
         }
 
         // Build serialized result and cache it
         this._cachedSerialization = {
             id: this._numericId.toString(),
+            generation: this._generation,
             name: this._name,
             tags: Array.from(this._tags),
             components,
-            children: Array.from(this._children).map((child) => child.serialize()),
+            children: Array.from(this._children).map((child) => child.serialize(bypassCache)),
         };
         this._cachedSerializationVersion = currentDeepVersion;
 
@@ -1764,7 +2624,11 @@ export class Entity implements EntityDef {
         this._parent = undefined;
         this._children.clear();
         this._tags.clear();
+        this._relations.clear();
+        this._incomingRelations.clear();
         this._changeVersion = 0;
+        this._generation++;
+        this._handle = undefined;
         // Clear serialization cache
         this._cachedSerialization = null;
         this._cachedSerializationVersion = -1;
@@ -1869,6 +2733,8 @@ export class System<C extends readonly unknown[] = unknown[]> {
     private _group?: string;
     private _runAfter: string[] = [];
     private _runBefore: string[] = [];
+    private _reads: ComponentIdentifier[];
+    private _writes: ComponentIdentifier[];
     private enableWhenPredicate?: () => boolean;
     private disableWhenPredicate?: () => boolean;
     private runIfPredicate?: () => boolean;
@@ -1881,6 +2747,18 @@ export class System<C extends readonly unknown[] = unknown[]> {
     /** Stores unsubscribe functions for event listeners to enable cleanup */
     private _eventUnsubscribers: Array<() => void> = [];
     private _isDestroyed: boolean = false;
+    // Using ChangeTrackingManager type would cause circular import, so using structural typing
+    private changeTracker?: {
+        getChangeTick(): number;
+        advanceChangeTick(): number;
+        matchesChangeFilters(
+            entity: Entity,
+            options: QueryOptions<ComponentIdentifier[]>,
+            sinceTick: number
+        ): boolean;
+    };
+    private usesChangeFilters: boolean = false;
+    private lastRunTick: number = 0;
 
     constructor(
         public name: string,
@@ -1895,6 +2773,8 @@ export class System<C extends readonly unknown[] = unknown[]> {
         this._group = options.group;
         this._runAfter = options.runAfter || [];
         this._runBefore = options.runBefore || [];
+        this._reads = options.reads || [];
+        this._writes = options.writes || [];
         this._profilingEnabled = profilingEnabled;
 
         if (options.tags) {
@@ -2073,6 +2953,55 @@ export class System<C extends readonly unknown[] = unknown[]> {
         this._eventUnsubscribers = [];
     }
 
+    /**
+     * Replace the system's callbacks in place, e.g. after a hot module reload.
+     *
+     * Callbacks (`act`, `before`, `after`, component, singleton and hierarchy
+     * listeners) and their `watch*` filters are taken from the new options.
+     * The query, scheduling (priority, enabled state, group, tags, ordering),
+     * access declarations and error configuration are kept, as are the
+     * system's profile, run conditions and error-recovery health.
+     *
+     * @param options - The new system options
+     * @throws Error if the system has been destroyed
+     *
+     * @example
+     * ```typescript
+     * engine.getSystem('Movement')?.hotSwap({
+     *   act: (entity, position, velocity) => { position.x += velocity.x * 2; }
+     * });
+     * ```
+     */
+    hotSwap(options: SystemType<C>): void {
+        if (this._isDestroyed) {
+            throw new Error(`[ECS] Cannot hot-swap destroyed system "${this.name}"`);
+        }
+
+        const { priority, enabled, tags, group, runAfter, runBefore, reads, writes, errorConfig } =
+            this.options;
+        this.options = {
+            ...options,
+            priority,
+            enabled,
+            tags,
+            group,
+            runAfter,
+            runBefore,
+            reads,
+            writes,
+            errorConfig,
+        };
+
+        // Re-subscribe so listeners match the callbacks the new options define
+        for (const unsubscribe of this._eventUnsubscribers) {
+            unsubscribe();
+        }
+        this._eventUnsubscribers = [];
+        if (this.eventEmitter) {
+            this.setupComponentChangeListeners();
+        }
+    }
+
     /**
      * Check if the system has been destroyed.
      */
@@ -2108,10 +3037,52 @@ export class System<C extends readonly unknown[] = unknown[]> {
         return [...this._runBefore];
     }
 
+    /**
+     * Components this system reads: its declared reads plus the query's `all`
+     * and `any` components, excluding anything it writes.
+     */
+    get reads(): ComponentIdentifier[] {
+        const { all = [], any = [] } = this.query.options;
+        const reads = new Set<ComponentIdentifier>([...this._reads, ...all, ...any]);
+        for (const type of this._writes) {
+            reads.delete(type);
+        }
+        return Array.from(reads);
+    }
+    get writes(): ComponentIdentifier[] {
+        return [...this._writes];
+    }
+    /**
+     * Whether the system declared `reads` or `writes`. Systems without
+     * declarations are treated as accessing every component.
+     */
+    get declaresAccess(): boolean {
+        return this.options.reads !== undefined || this.options.writes !== undefined;
+    }
+
     hasTag(tag: string): boolean {
         return this._tags.has(tag);
     }
 
+    /**
+     * Set the change tracker used to evaluate the query's `added`, `changed`
+     * and `removed` filters.
+     * @internal
+     */
+    setChangeTracker(tracker: {
+        getChangeTick(): number;
+        advanceChangeTick(): number;
+        matchesChangeFilters(
+            entity: Entity,
+            options: QueryOptions<ComponentIdentifier[]>,
+            sinceTick: number
+        ): boolean;
+    }): void {
+        const { added = [], changed = [], removed = [] } = this.query.options;
+        this.changeTracker = tracker;
+        this.usesChangeFilters = added.length + changed.length + removed.length > 0;
+    }
+
     enableWhen(predicate: () => boolean): this {
         this.enableWhenPredicate = predicate;
         return this;
@@ -2195,7 +3166,21 @@ export class System<C extends readonly unknown[] = unknown[]> {
             this.options.before();
         }
 
-        const entities = this.query.getEntitiesArray();
+        let entities = this.query.getEntitiesArray();
+
+        // Apply change filters against the tick of this system's previous run.
+        // Changes made while the system runs share its run tick, so a system
+        // never sees its own changes on the next run.
+        let runTick = 0;
+        const tracker = this.usesChangeFilters ? this.changeTracker : undefined;
+        if (tracker) {
+            runTick = tracker.getChangeTick();
+            const sinceTick = this.lastRunTick;
+            const options = this.query.options;
+            entities = entities.filter((entity) =>
+                tracker.matchesChangeFilters(entity, options, sinceTick)
+            );
+        }
 
         if (this.options.act) {
             for (const entity of entities) {
@@ -2208,6 +3193,11 @@ export class System<C extends readonly unknown[] = unknown[]> {
             this.options.after();
         }
 
+        if (tracker) {
+            this.lastRunTick = runTick;
+            tracker.advanceChangeTick();
+        }
+
         // Only update profile if profiling is enabled
         if (this._profilingEnabled) {
             const executionTime = performance.now() - startTime;
@@ -2263,22 +3253,100 @@ export class System<C extends readonly unknown[] = unknown[]> {
     }
 }
 
+/**
+ * Double-buffered record of the delivered messages of one type, read by
+ * {@link MessageReader}s through sequence-number cursors.
+ * @internal
+ */
+class DeliveredMessages {
+    /** Messages delivered in the previous frame */
+    private previous: SystemMessage[] = [];
+    /** Messages delivered in the current frame */
+    private current: SystemMessage[] = [];
+    /** Sequence number of the first message in `previous` */
+    private start: number = 0;
+    readers: number = 0;
+
+    /** Sequence number the next delivered message will get */
+    get end(): number {
+        return this.start + this.previous.length + this.current.length;
+    }
+
+    push(message: SystemMessage): void {
+        this.current.push(message);
+    }
+
+    /** Drop the previous frame's messages and start a new frame */
+    swap(): void {
+        this.start += this.previous.length;
+        this.previous = this.current;
+        this.current = [];
+    }
+
+    /** Check for buffered messages from sequence number `cursor` on */
+    hasSince(cursor: number): boolean {
+        return this.end > Math.max(cursor, this.start);
+    }
+
+    /** Get the messages from sequence number `cursor` on that are still buffered */
+    since(cursor: number): SystemMessage[] {
+        const offset = Math.max(cursor - this.start, 0);
+        if (offset >= this.previous.length) {
+            return this.current.slice(offset - this.previous.length);
+        }
+        return [...this.previous.slice(offset), ...this.current];
+    }
+}
+
 /**
  * Message bus for inter-system communication
  *
+ * Messages are keyed by type strings or by typed channels created with
+ * `defineMessage()`; a channel and its name address the same subscribers.
+ * Each message type has a delivery mode: messages are delivered inside
+ * `publish()` by default, or queued and delivered when the engine calls
+ * {@link MessageBus.flush} for the mode.
  * Uses CircularBuffer for O(1) message history insertion instead of O(n) shift operations.
  */
 export class MessageBus {
     private subscribers: Map<string, Set<(message: SystemMessage) => void>> = new Map();
     private messageHistory: CircularBuffer<SystemMessage>;
     private logger?: Logger;
+    private validatePayloads: boolean;
+    private deliveryModes: Map<string, MessageDeliveryMode> = new Map();
+    private queues: Map<Exclude<MessageDeliveryMode, 'immediate'>, SystemMessage[]> = new Map([
+        ['endOfSystem', []],
+        ['endOfFrame', []],
+        ['nextFixedTick', []],
+    ]);
+    // Only message types with open readers are buffered
+    private delivered: Map<string, DeliveredMessages> = new Map();
 
-    constructor(maxHistorySize: number = MAX_MESSAGE_HISTORY, logger?: Logger) {
+    /**
+     * @param maxHistorySize - Maximum number of messages kept in history
+     * @param logger - Logger for subscriber errors
+     * @param validatePayloads - Run channel validators on publish (enabled in debug mode)
+     */
+    constructor(
+        maxHistorySize: number = MAX_MESSAGE_HISTORY,
+        logger?: Logger,
+        validatePayloads: boolean = false
+    ) {
         this.messageHistory = new CircularBuffer<SystemMessage>(maxHistorySize);
         this.logger = logger;
+        this.validatePayloads = validatePayloads;
     }
 
-    subscribe(messageType: string, callback: (message: SystemMessage) => void): () => void {
+    subscribe<T>(
+        channel: MessageChannel<T>,
+        callback: (message: TypedMessage<T>) => void
+    ): () => void;
+    subscribe(messageType: string, callback: (message: SystemMessage) => void): () => void;
+    subscribe(
+        key: string | MessageChannel<unknown>,
+        callback: (message: SystemMessage) => void
+    ): () => void {
+        const messageType = channelName(key);
         if (!this.subscribers.has(messageType)) {
             this.subscribers.set(messageType, new Set());
         }
@@ -2290,7 +3358,25 @@ export class MessageBus {
         };
     }
 
-    publish(messageType: string, data: unknown, sender?: string): void {
+    /**
+     * Publish a message to the subscribers of its type.
+     * @throws Error in debug mode if the channel's validator rejects the payload
+     */
+    publish<T>(channel: MessageChannel<T>, data: T, sender?: string): void;
+    publish(messageType: string, data: unknown, sender?: string): void;
+    publish(key: string | MessageChannel<unknown>, data: unknown, sender?: string): void {
+        this.publishKey(key, data, sender);
+    }
+
+    /**
+     * Publish by message type or channel, for callers forwarding either.
+     * @internal
+     */
+    publishKey(key: string | MessageChannel<unknown>, data: unknown, sender?: string): void {
+        if (this.validatePayloads && typeof key !== 'string') {
+            assertPayload(key, [data]);
+        }
+        const messageType = channelName(key);
         const message: SystemMessage = {
             type: messageType,
             data,
@@ -2298,25 +3384,124 @@ export class MessageBus {
             timestamp: Date.now(),
         };
 
+        const mode = this.getDeliveryMode(messageType);
+        if (mode === 'immediate') {
+            this.deliver(message);
+        } else {
+            this.queues.get(mode)?.push(message);
+        }
+    }
+
+    /**
+     * Set when messages of a type are delivered to their subscribers.
+     *
+     * Changing the mode does not move messages already queued under the old one.
+     */
+    setDeliveryMode(key: string | MessageChannel<unknown>, mode: MessageDeliveryMode): void {
+        if (mode === 'immediate') {
+            this.deliveryModes.delete(channelName(key));
+        } else {
+            this.deliveryModes.set(channelName(key), mode);
+        }
+    }
+
+    getDeliveryMode(key: string | MessageChannel<unknown>): MessageDeliveryMode {
+        return this.deliveryModes.get(channelName(key)) ?? 'immediate';
+    }
+
+    /**
+     * Deliver the messages queued for a delivery mode, in publish order.
+     *
+     * Messages published during delivery are queued for the next flush.
+     */
+    flush(mode: Exclude<MessageDeliveryMode, 'immediate'>): void {
+        const queued = this.queues.get(mode);
+        if (!queued || queued.length === 0) {
+            return;
+        }
+        this.queues.set(mode, []);
+        for (const message of queued) {
+            this.deliver(message);
+        }
+    }
+
+    /**
+     * Create a reader for the messages of a type delivered from now on.
+     */
+    createReader<T>(channel: MessageChannel<T>): MessageReader<T>;
+    createReader(messageType: string): MessageReader<unknown>;
+    createReader(key: string | MessageChannel<unknown>): MessageReader<unknown> {
+        const messageType = channelName(key);
+        let delivered = this.delivered.get(messageType);
+        if (!delivered) {
+            delivered = new DeliveredMessages();
+            this.delivered.set(messageType, delivered);
+        }
+        delivered.readers++;
+
+        const buffer = delivered;
+        let cursor = buffer.end;
+        let closed = false;
+        return {
+            messageType,
+            read: () => {
+                const messages = closed ? [] : buffer.since(cursor);
+                cursor = buffer.end;
+                return messages as TypedMessage<unknown>[];
+            },
+            hasUnread: () => !closed && buffer.hasSince(cursor),
+            clear: () => {
+                cursor = buffer.end;
+            },
+            close: () => {
+                if (closed) {
+                    return;
+                }
+                closed = true;
+                buffer.readers--;
+                if (buffer.readers === 0 && this.delivered.get(messageType) === buffer) {
+                    this.delivered.delete(messageType);
+                }
+            },
+        };
+    }
+
+    /**
+     * Start a new frame for message readers, dropping messages delivered two frames ago.
+     */
+    swapReaderBuffers(): void {
+        for (const delivered of this.delivered.values()) {
+            delivered.swap();
+        }
+    }
+
+    private deliver(message: SystemMessage): void {
         // O(1) insertion using CircularBuffer instead of O(n) shift()
         this.messageHistory.push(message);
+        this.delivered.get(message.type)?.push(message);
 
-        const subscribers = this.subscribers.get(messageType);
+        const subscribers = this.subscribers.get(message.type);
         if (subscribers) {
             for (const callback of subscribers) {
                 try {
                     callback(message);
                 } catch (error) {
                     if (this.logger) {
-                        this.logger.error(`Error in message subscriber for ${messageType}:`, error);
+                        this.logger.error(
+                            `Error in message subscriber for ${message.type}:`,
+                            error
+                        );
                     }
                 }
             }
         }
     }
 
-    getMessageHistory(messageType?: string): SystemMessage[] {
-        if (messageType) {
+    getMessageHistory<T>(channel: MessageChannel<T>): TypedMessage<T>[];
+    getMessageHistory(messageType?: string): SystemMessage[];
+    getMessageHistory(key?: string | MessageChannel<unknown>): SystemMessage[] {
+        if (key) {
+            const messageType = channelName(key);
             return this.messageHistory.filter((msg) => msg.type === messageType);
         }
         return this.messageHistory.toArray();
@@ -2329,6 +3514,10 @@ export class MessageBus {
     clear(): void {
         this.subscribers.clear();
         this.messageHistory.clear();
+        for (const queued of this.queues.values()) {
+            queued.length = 0;
+        }
+        this.delivered.clear();
     }
 }
 
@@ -2615,6 +3804,9 @@ export class EntityManager {
             entity.removeChild(child);
         }
 
+        // Remove relations in both directions so no entity keeps a stale target
+        entity.clearRelations();
+
         this.eventEmitter.emit('onEntityReleased', entity);
         this.entityPool.release(entity);
     }
@@ -2668,6 +3860,14 @@ export class EntityManager {
         return this.entitiesByNumericId.get(id);
     }
 
+    /**
+     * Get the entity a handle refers to, or undefined if it has been destroyed.
+     */
+    resolve(handle: EntityHandle): Entity | undefined {
+        const entity = this.entitiesByNumericId.get(handle.index);
+        return entity?.generation === handle.generation ? entity : undefined;
+    }
+
     findEntity(predicate: (entity: Entity) => boolean): Entity | undefined {
         for (const entity of this.activeEntities.values()) {
             if (predicate(entity)) {
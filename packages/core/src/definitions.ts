@@ -14,6 +14,9 @@ import type {
     SystemMessage as PluginApiSystemMessage,
 } from '@orion-ecs/plugin-api';
 
+import type { EntityHandle } from './handles';
+import type { ServiceContainer } from './services';
+
 // Re-export plugin types from @orion-ecs/plugin-api for backward compatibility
 // Plugin authors can import directly from @orion-ecs/plugin-api for a lighter dependency
 export type {
@@ -24,6 +27,7 @@ export type {
     Logger,
     LogLevel,
     LogProvider,
+    PluginDependencies,
     SystemMessage,
 } from '@orion-ecs/plugin-api';
 
@@ -209,6 +213,31 @@ export interface ComponentLifecycle {
     onChanged?(): void;
 }
 
+/**
+ * Hooks registered on the engine for one component type with
+ * {@link Engine.registerComponentHooks}.
+ *
+ * Hooks run synchronously as part of the structural change, in this order:
+ * - `onAdd` runs after the component is attached and its `onCreate` has run,
+ *   before `onComponentAdded` listeners and system callbacks
+ * - `onRemove` runs while the component is still attached, before its
+ *   `onDestroy` and before `onComponentRemoved` listeners and system callbacks
+ * - `onReplace` runs after `replaceComponent()` swapped in the new instance,
+ *   before `onComponentReplaced` listeners
+ *
+ * Commands queued on the command buffer run their hooks when the buffer is
+ * executed, not when they are queued; within a batch, an entity's `onRemove`
+ * hooks run before its `onAdd` hooks.
+ *
+ * @typeParam T - The component type
+ * @public
+ */
+export interface ComponentHooks<T = unknown> {
+    onAdd?(entity: EntityDef, component: T, services: ServiceContainer): void;
+    onRemove?(entity: EntityDef, component: T, services: ServiceContainer): void;
+    onReplace?(entity: EntityDef, component: T, previous: T, services: ServiceContainer): void;
+}
+
 /**
  * Event emitted when a component's data is modified.
  *
@@ -472,6 +501,153 @@ export type ChildRemovedListener = (event: ChildRemovedEvent) => void;
  */
 export type ParentChangedListener = (event: ParentChangedEvent) => void;
 
+// ========== Relation Types ==========
+
+/**
+ * Identifies a typed, many-to-many relation between entities.
+ *
+ * Relation types are created with `defineRelation()` and compared by identity.
+ * The type parameter describes the optional data stored on each relation.
+ *
+ * @typeParam T - Type of the data attached to each relation
+ *
+ * @example
+ * ```typescript
+ * const Targets = defineRelation<{ priority: number }>('Targets');
+ * const Owns = defineRelation('Owns');
+ *
+ * turret.addRelation(Targets, enemy, { priority: 1 });
+ * player.addRelation(Owns, sword);
+ * ```
+ *
+ * @public
+ */
+export interface RelationType<T = undefined> {
+    /** Relation name, used for debugging and error messages */
+    readonly name: string;
+    /**
+     * Phantom field carrying the relation data type. Never set at runtime.
+     * @internal
+     */
+    readonly __data?: T;
+}
+
+/**
+ * Query filter matching entities that have a relation to any or a specific target.
+ *
+ * @public
+ */
+export interface RelationFilter {
+    /** The relation type to match */
+    relation: RelationType<unknown>;
+    /** Only match relations to this entity (any target if omitted) */
+    target?: EntityDef;
+}
+
+/**
+ * Key a query sorts or groups its entities by: a component field, or a function of the entity.
+ *
+ * Entities without the component get an `undefined` key. Numbers and strings
+ * compare naturally; other values are compared by their string form.
+ *
+ * @public
+ */
+export type QueryKey =
+    | { component: ComponentIdentifier; field: string }
+    | ((entity: EntityDef) => unknown);
+
+/**
+ * Order a query keeps its entities in.
+ *
+ * @public
+ */
+export interface QuerySortOptions {
+    /** Key to sort entities by */
+    by: QueryKey;
+    /** Sort direction (default: 'asc'); entities without a key always come last */
+    order?: 'asc' | 'desc';
+}
+
+/**
+ * One page of a query's entities.
+ *
+ * @public
+ */
+export interface QueryPage<E = EntityDef> {
+    /** Entities on this page, in query order */
+    entities: E[];
+    /** Zero-based page index */
+    page: number;
+    /** Maximum number of entities per page */
+    pageSize: number;
+    /** Number of pages needed for all matching entities */
+    pageCount: number;
+    /** Number of matching entities */
+    total: number;
+}
+
+/**
+ * Event emitted when a relation is added to, updated on or removed from an entity.
+ *
+ * Removals caused by destroying either entity are reported as well.
+ *
+ * @public
+ */
+export interface RelationChangedEvent<T = unknown> {
+    /** The entity the relation points from */
+    source: EntityDef;
+    /** The relation type */
+    relation: RelationType<T>;
+    /** The entity the relation points to */
+    target: EntityDef;
+    /** Whether the relation was added (or its data replaced) or removed */
+    action: 'add' | 'remove';
+    /** Relation data after an add, or the removed data after a remove */
+    data?: T;
+    /** Unix timestamp (milliseconds) when the relation changed */
+    timestamp: number;
+}
+
+// ========== Struct-of-Arrays Component Types ==========
+
+/**
+ * Numeric field types for struct-of-arrays components, each backed by the
+ * matching typed array (`f32` → `Float32Array`, `i32` → `Int32Array`, ...).
+ *
+ * @public
+ */
+export type SoAFieldType = 'f32' | 'f64' | 'i8' | 'i16' | 'i32' | 'u8' | 'u16' | 'u32';
+
+/**
+ * Field layout of a struct-of-arrays component, mapping field names to numeric types.
+ *
+ * @public
+ */
+export type SoASchema = Record<string, SoAFieldType>;
+
+/**
+ * Component-like object shape of a struct-of-arrays schema.
+ *
+ * @typeParam S - The component schema
+ * @public
+ */
+export type SoAValues<S extends SoASchema> = { [K in keyof S]: number };
+
+/**
+ * Component class created by `defineSoAComponent()`.
+ *
+ * Instances are plain objects holding the initial field values; inside an
+ * archetype the values live in typed-array columns and are exposed through views.
+ *
+ * @typeParam S - The component schema
+ * @public
+ */
+export interface SoAComponentClass<S extends SoASchema = SoASchema> {
+    new (values?: Partial<SoAValues<S>>): SoAValues<S>;
+    /** The field layout of this component */
+    readonly schema: Readonly<S>;
+}
+
 // Enhanced system options with profiling and lifecycle hooks
 export interface SystemOptions<C extends readonly unknown[] = unknown[]> {
     act?: (entity: EntityDef, ...components: C) => void;
@@ -484,6 +660,24 @@ export interface SystemOptions<C extends readonly unknown[] = unknown[]> {
     runAfter?: string[];
     runBefore?: string[];
 
+    // ========== Access Declarations ==========
+
+    /**
+     * Components this system reads without modifying.
+     *
+     * The query's `all` and `any` components are always treated as read. Systems
+     * that declare neither `reads` nor `writes` are assumed to access everything
+     * and conflict with every other system in the execution graph.
+     */
+    reads?: ComponentIdentifier[];
+
+    /**
+     * Components this system modifies.
+     *
+     * Two systems conflict when one writes a component the other reads or writes.
+     */
+    writes?: ComponentIdentifier[];
+
     // ========== Error Recovery Options ==========
 
     /**
@@ -584,6 +778,64 @@ export interface SystemOptions<C extends readonly unknown[] = unknown[]> {
 export type SystemType<T extends readonly unknown[] = unknown[]> = SystemOptions<T> &
     Partial<EngineEvents>;
 
+/**
+ * A pair of systems whose declared component access overlaps.
+ *
+ * @public
+ */
+export interface SystemAccessConflict {
+    /** The system that runs first */
+    before: string;
+    /** The system that runs second */
+    after: string;
+    /** `write-write` if both systems write a shared component, `read-write` otherwise */
+    kind: 'write-write' | 'read-write';
+    /** Names of the shared components (empty when a system has no access declarations) */
+    components: string[];
+    /**
+     * Whether the order comes from `runAfter`/`runBefore` or group priority.
+     * Conflicts ordered only by system priority are worth making explicit.
+     */
+    explicitOrder: boolean;
+}
+
+/**
+ * A system in the execution graph.
+ *
+ * @public
+ */
+export interface SystemGraphNode {
+    name: string;
+    /** Names of the components the system reads */
+    reads: string[];
+    /** Names of the components the system writes */
+    writes: string[];
+    /** False when the system declares no access and is treated as exclusive */
+    declaresAccess: boolean;
+    /** Index of the stage the system belongs to */
+    stage: number;
+    /** Earlier systems this system must wait for */
+    dependsOn: string[];
+}
+
+/**
+ * The computed execution graph of a set of systems.
+ *
+ * Systems in the same stage do not conflict with each other, so they could run
+ * in any order (or concurrently) without changing the result. Every system
+ * depends only on systems in earlier stages.
+ *
+ * @public
+ */
+export interface SystemExecutionGraph {
+    /** System names in the order they run */
+    order: string[];
+    /** System names grouped into stages of non-conflicting systems */
+    stages: string[][];
+    nodes: SystemGraphNode[];
+    conflicts: SystemAccessConflict[];
+}
+
 // Enhanced engine events
 export interface EngineEvents {
     onStop: EventCallback;
@@ -601,10 +853,14 @@ export type EngineEventNames =
     | 'onEntityReleased'
     | 'onComponentAdded'
     | 'onComponentRemoved'
+    | 'onComponentReplaced'
+    | 'onEntityQueuedForDeletion'
+    | 'onTagChanged'
     | 'onEntityHierarchyChanged'
     | 'onChildAdded'
     | 'onChildRemoved'
     | 'onParentChanged'
+    | 'onRelationChanged'
     | 'onSingletonSet'
     | 'onSingletonRemoved';
 
@@ -612,6 +868,8 @@ export type EngineEventNames =
 export interface EntityDef {
     id: symbol;
     name?: string;
+    /** Generational handle that stops resolving once the entity is destroyed */
+    readonly handle: EntityHandle;
     parent?: EntityDef;
     children: EntityDef[];
     tags: Set<string>;
@@ -637,7 +895,7 @@ export interface EntityDef {
     removeChild(child: EntityDef): this;
     get isDirty(): boolean;
     get isMarkedForDeletion(): boolean;
-    serialize(): SerializedEntity;
+    serialize(bypassCache?: boolean): SerializedEntity;
 
     // Hierarchy Query Methods
     /** Get all descendants (children, grandchildren, etc.) */
@@ -664,6 +922,20 @@ export interface EntityDef {
     hasChildren(): boolean;
     /** Check if this entity has a parent */
     hasParent(): boolean;
+
+    // Relation Methods
+    /** Add a relation to a target entity, replacing the data of an existing one */
+    addRelation<T>(relation: RelationType<T>, target: EntityDef, data?: T): this;
+    /** Remove the relation to a target, or to every target if omitted */
+    removeRelation(relation: RelationType<unknown>, target?: EntityDef): this;
+    /** Check for a relation to a specific target, or to any target if omitted */
+    hasRelation(relation: RelationType<unknown>, target?: EntityDef): boolean;
+    /** Get the data stored on a relation to a target */
+    getRelationData<T>(relation: RelationType<T>, target: EntityDef): T | undefined;
+    /** Get all entities this entity has the relation to */
+    getRelationTargets(relation: RelationType<unknown>): EntityDef[];
+    /** Get all entities that have the relation to this entity */
+    getRelationSources(relation: RelationType<unknown>): EntityDef[];
 }
 
 /**
@@ -688,6 +960,12 @@ export interface EntityDef {
  *   none: [Dead],
  *   tags: ['hostile']
  * };
+ *
+ * // System query for entities whose Position changed since the system last ran
+ * const movedQuery: QueryOptions = {
+ *   all: [Position],
+ *   changed: [Position]
+ * };
  * ```
  *
  * @public
@@ -698,11 +976,44 @@ export interface QueryOptions<All extends readonly ComponentIdentifier[] = Compo
     none?: ComponentIdentifier[];
     tags?: string[];
     withoutTags?: string[];
+    /** Relations entities must have, each to any target or to a specific one */
+    relations?: RelationFilter[];
+    /** Relations entities must NOT have */
+    withoutRelations?: RelationFilter[];
+    /**
+     * Only match entities that gained every listed component since the system
+     * last ran. Change filters are evaluated per system run.
+     */
+    added?: ComponentIdentifier[];
+    /**
+     * Only match entities where every listed component was added or changed
+     * since the system last ran. In-place mutations are only detected when
+     * reported through `markComponentDirty()` or proxy tracking.
+     */
+    changed?: ComponentIdentifier[];
+    /**
+     * Only match entities that lost every listed component since the system
+     * last ran. Entities that were destroyed are not reported.
+     */
+    removed?: ComponentIdentifier[];
+    /**
+     * Keep matching entities sorted by a key, ties broken by entity ID.
+     * Entities are inserted in place as they start matching; keys are re-read
+     * when results are read and entities whose key changed are moved.
+     */
+    sort?: QuerySortOptions;
+    /** Partition matching entities by a key, read through `Query.getGroup()` */
+    groupBy?: QueryKey;
 }
 
 // Serialization interfaces
 export interface SerializedEntity {
     id: string;
+    /**
+     * Generation of the entity when it was saved, used to remap the
+     * {@link EntityHandle | handles} stored in component data. Absent in older saves.
+     */
+    generation?: number;
     name?: string;
     tags: string[];
     /** Serialized component data keyed by component class name */
@@ -711,12 +1022,281 @@ export interface SerializedEntity {
 }
 
 export interface SerializedWorld {
+    /**
+     * Version of the serialized world layout. Worlds saved before versioning
+     * was introduced have no format version and are treated as version 1.
+     */
+    formatVersion?: number;
     entities: SerializedEntity[];
     /** Serialized singleton component data keyed by component class name */
     singletons?: Record<string, unknown>;
+    /**
+     * Schema version each component was saved with, keyed by component class name.
+     * Components without an entry are treated as version 1.
+     */
+    componentVersions?: Record<string, number>;
     timestamp: number;
 }
 
+/**
+ * Context passed to a scene's `setup` callback while the scene is loading.
+ *
+ * Every entity created while a scene loads is owned by that scene, including
+ * entities created directly through the engine.
+ *
+ * @public
+ */
+export interface SceneContext {
+    /** Name of the scene being loaded */
+    readonly name: string;
+    /** Create an entity owned by the scene */
+    createEntity(name?: string): EntityDef;
+    /** Instantiate a registered prefab owned by the scene */
+    createFromPrefab(prefabName: string, entityName?: string): EntityDef | null;
+}
+
+/**
+ * Definition of a named scene.
+ *
+ * Scene content is created in order: serialized `world` data, then `prefabs`,
+ * then the `setup` callback.
+ *
+ * @example
+ * ```typescript
+ * engine.registerScene('level1', {
+ *   world: JSON.parse(level1Json),
+ *   prefabs: ['Player', { prefab: 'Enemy', name: 'Boss' }],
+ *   setup: (scene) => {
+ *     scene.createEntity('Spawner').addComponent(Spawner, 5);
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface SceneDefinition {
+    /** Serialized entities to load into the scene (singletons are ignored) */
+    world?: SerializedWorld;
+    /** Registered prefabs to instantiate, by name or with an entity name override */
+    prefabs?: Array<string | { prefab: string; name?: string }>;
+    /** Custom setup invoked after `world` and `prefabs` have been created */
+    setup?: (context: SceneContext) => void;
+}
+
+/**
+ * Options for loading a scene.
+ *
+ * @public
+ */
+export interface SceneLoadOptions {
+    /**
+     * Load alongside the currently loaded scenes instead of replacing them.
+     * @defaultValue false
+     */
+    additive?: boolean;
+}
+
+/**
+ * Event emitted as `onSceneChanged` when a scene is loaded or unloaded.
+ *
+ * @public
+ */
+export interface SceneChangedEvent {
+    /** The scene that was loaded or unloaded */
+    scene: string;
+    /** Whether the scene was loaded or unloaded */
+    action: 'load' | 'unload';
+    /** Whether the scene was loaded additively */
+    additive: boolean;
+    /** Active scene after the change, or null if no scene is loaded */
+    activeScene: string | null;
+    /** Active scene before the change */
+    previousActiveScene: string | null;
+    /** Unix timestamp (milliseconds) when the change happened */
+    timestamp: number;
+}
+
+/**
+ * Migrates serialized component data from one schema version to the next.
+ *
+ * @param data - Component data in the previous version's shape
+ * @returns Component data in the next version's shape
+ *
+ * @public
+ */
+export type ComponentMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Value type of a component field declared in a {@link ComponentSchema}.
+ *
+ * - `number` / `integer`: finite numbers, optionally limited by `min` and `max`
+ * - `string` / `boolean`: primitives of that type
+ * - `enum`: one of the field's `values`
+ * - `color`: a CSS hex (`#rgb`, `#rrggbb`, `#rrggbbaa`) or `rgb()`/`rgba()` string
+ * - `vector2` / `vector3`: objects with numeric `x`, `y` (and `z`)
+ * - `entity`: an {@link EntityHandle}, or its serialized form in saved worlds
+ * - `array` / `object`: arrays and plain objects, not checked further
+ *
+ * @public
+ */
+export type ComponentFieldType =
+    | 'number'
+    | 'integer'
+    | 'string'
+    | 'boolean'
+    | 'enum'
+    | 'color'
+    | 'vector2'
+    | 'vector3'
+    | 'entity'
+    | 'array'
+    | 'object';
+
+/**
+ * Metadata for one component field, declared once and used for validation,
+ * default values, serialization and editor tooling.
+ *
+ * @public
+ */
+export interface ComponentField {
+    /** The field's value type */
+    type: ComponentFieldType;
+    /** Human-readable description, shown by the entity inspector and editor hovers */
+    description?: string;
+    /**
+     * Value assigned when a new component leaves the field undefined. Objects and
+     * arrays are deep-cloned per component; a function is called for each component.
+     */
+    default?: unknown;
+    /**
+     * Allow the field to be undefined or null.
+     * @defaultValue false
+     */
+    optional?: boolean;
+    /** Smallest allowed value of `number` and `integer` fields */
+    min?: number;
+    /** Largest allowed value of `number` and `integer` fields */
+    max?: number;
+    /** Editor step for `number` and `integer` fields */
+    step?: number;
+    /** Allowed values of `enum` fields */
+    values?: ReadonlyArray<string | number>;
+    /**
+     * Include the field in serialized worlds and snapshots. Fields that are not
+     * serialized get their default value when a world is loaded.
+     * @defaultValue true
+     */
+    serialize?: boolean;
+}
+
+/**
+ * Field metadata of a component, keyed by field name.
+ *
+ * @public
+ */
+export type ComponentFields = Record<string, ComponentField>;
+
+/**
+ * Schema for a component's data: its serialized version and migrations, and
+ * the metadata of its fields.
+ *
+ * Each entry in `migrations` upgrades data saved at that version to the
+ * following version, so a component at version 3 needs migrations keyed
+ * `1` and `2` to load data saved at version 1.
+ *
+ * Declared `fields` are checked whenever a component is added or replaced,
+ * fill in defaults for fields a new component leaves undefined, and limit
+ * serialization to the declared fields. Tools such as the entity inspector read
+ * them instead of guessing from runtime values.
+ *
+ * @example
+ * ```typescript
+ * engine.registerComponentSchema(Health, {
+ *   version: 3,
+ *   migrations: {
+ *     // v1 -> v2: `hp` renamed to `current`
+ *     1: ({ hp, ...rest }) => ({ ...rest, current: hp }),
+ *     // v2 -> v3: `max` added
+ *     2: (data) => ({ ...data, max: 100 }),
+ *   },
+ *   fields: {
+ *     current: { type: 'number', min: 0, default: 100, description: 'Current hit points' },
+ *     max: { type: 'number', min: 1, default: 100 },
+ *     armor: { type: 'enum', values: ['none', 'light', 'heavy'], default: 'none' },
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface ComponentSchema {
+    /**
+     * Current schema version (integer, starting at 1). Only versioned schemas
+     * are recorded in serialized worlds.
+     * @defaultValue 1
+     */
+    version?: number;
+    /** Migration functions keyed by the version they upgrade from */
+    migrations?: Record<number, ComponentMigration>;
+    /** Metadata of the component's fields */
+    fields?: ComponentFields;
+}
+
+/**
+ * Options controlling how {@link SerializedWorld} data is loaded into an engine.
+ *
+ * @public
+ */
+export interface DeserializeOptions {
+    /**
+     * Remove all existing entities before loading.
+     * When false, loaded entities are added alongside the current world.
+     * @defaultValue true
+     */
+    clearExisting?: boolean;
+    /**
+     * Replace singleton components with the serialized singletons.
+     * @defaultValue true
+     */
+    restoreSingletons?: boolean;
+    /**
+     * Throw before touching the world if any component or singleton name
+     * cannot be resolved through the component registry.
+     * @defaultValue false
+     */
+    strict?: boolean;
+}
+
+/**
+ * A serialized component that could not be resolved by name during deserialization.
+ *
+ * @public
+ */
+export interface UnknownComponentReport {
+    /** Component class name as it appears in the serialized data */
+    componentName: string;
+    /** Serialized ID of the owning entity, or undefined for singletons */
+    entityId?: string;
+    /** Name of the owning entity, if it had one */
+    entityName?: string;
+    /** The raw serialized data that was not loaded */
+    data: unknown;
+}
+
+/**
+ * Result of loading a {@link SerializedWorld} into an engine.
+ *
+ * @public
+ */
+export interface DeserializeResult<E extends EntityDef = EntityDef> {
+    /** Recreated root entities, in serialized order */
+    rootEntities: E[];
+    /** All recreated entities keyed by their serialized ID */
+    entityMap: Map<string, E>;
+    /** Components and singletons whose names were not registered */
+    unknownComponents: UnknownComponentReport[];
+}
+
 /**
  * Factory function for creating parameterized entity prefabs.
  *
@@ -774,13 +1354,86 @@ export type EntityPrefabFactory = (...args: unknown[]) => Omit<EntityPrefab, 'fa
  */
 export interface EntityPrefab {
     name: string;
-    components: { type: ComponentIdentifier; args: unknown[] }[];
+    /**
+     * Components to add, built from constructor `args`; `data` fields are
+     * assigned before the component is validated
+     */
+    components: { type: ComponentIdentifier; args: unknown[]; data?: Record<string, unknown> }[];
     tags: string[];
     children?: EntityPrefab[];
     factory?: EntityPrefabFactory; // Optional factory for parameterized prefabs
     parent?: string; // Optional parent prefab name for inheritance
 }
 
+/**
+ * A prefab as authored in a JSON or YAML prefab file.
+ *
+ * Components are keyed by registered component name and list the fields to set
+ * on a default-constructed instance; `null` or `{}` keeps the defaults.
+ *
+ * A prefab with a `parent` starts from the parent's components, tags and
+ * children: fields listed for a component the parent already has override the
+ * parent's values (a variant), other components are added, tags are merged
+ * and children are appended.
+ *
+ * @public
+ */
+export interface PrefabFileEntry {
+    /** Entity name; defaults to the prefab's key in the file (required for children) */
+    name?: string;
+    /** Prefab to inherit from, either in the same file or already registered */
+    parent?: string;
+    components?: Record<string, Record<string, unknown> | null>;
+    tags?: string[];
+    children?: Omit<PrefabFileEntry, 'parent'>[];
+}
+
+/**
+ * Contents of a JSON or YAML prefab file.
+ *
+ * @example
+ * ```json
+ * {
+ *   "prefabs": {
+ *     "Enemy": {
+ *       "components": { "Position": {}, "Health": { "current": 50, "max": 50 } },
+ *       "tags": ["enemy"]
+ *     },
+ *     "Brute": {
+ *       "parent": "Enemy",
+ *       "components": { "Health": { "current": 200, "max": 200 }, "Armor": { "value": 5 } },
+ *       "children": [{ "name": "Club", "components": { "Weapon": { "damage": 12 } } }]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface PrefabFile {
+    /** Prefabs keyed by the name they are registered under */
+    prefabs: Record<string, PrefabFileEntry>;
+}
+
+/**
+ * Options for loading a prefab file.
+ *
+ * @public
+ */
+export interface PrefabLoadOptions {
+    /**
+     * File name used in error messages. Files ending in `.yaml` or `.yml` are
+     * parsed with `parse`.
+     * @defaultValue 'prefabs'
+     */
+    file?: string;
+    /**
+     * Parser for the file text, e.g. `YAML.parse` from a YAML library.
+     * Defaults to `JSON.parse`.
+     */
+    parse?: (text: string) => unknown;
+}
+
 export interface EntityPrefabOverride {
     components?: { [componentName: string]: unknown };
     tags?: string[];
@@ -838,6 +1491,10 @@ export interface TagComponent {
  * Plugins should use the PluginContext exclusively for engine interaction
  * rather than storing references to the Engine instance.
  *
+ * Systems, queries, prefabs, listeners, subscriptions, extensions and
+ * singletons created through the context are removed automatically when the
+ * plugin is uninstalled; see {@link PluginCleanupReport}.
+ *
  * @example
  * ```typescript
  * class MyPlugin implements EnginePlugin {
@@ -934,6 +1591,69 @@ export interface PluginContext {
 // This allows plugin authors to use the lighter @orion-ecs/plugin-api package
 // while maintaining backward compatibility for existing @orion-ecs/core users.
 
+/**
+ * Options for {@link Engine.uninstallPlugin}.
+ *
+ * @public
+ */
+export interface PluginUninstallOptions {
+    /**
+     * Uninstall installed plugins that depend on this one first, instead of
+     * refusing. Defaults to false.
+     */
+    cascade?: boolean;
+}
+
+/**
+ * Kind of engine resource a plugin created through its {@link PluginContext}.
+ *
+ * @public
+ */
+export type PluginResourceKind =
+    | 'system'
+    | 'query'
+    | 'prefab'
+    | 'listener'
+    | 'subscription'
+    | 'extension'
+    | 'singleton'
+    | 'component'
+    | 'validator';
+
+/**
+ * A resource created by a plugin through its {@link PluginContext}.
+ *
+ * @public
+ */
+export interface PluginResource {
+    /** What kind of resource this is */
+    kind: PluginResourceKind;
+    /** System, prefab, event, message type, extension or component name */
+    name: string;
+    /** Name of the world the plugin was installed from */
+    world: string;
+}
+
+/**
+ * What the engine cleaned up after a plugin was uninstalled, or after its
+ * install failed.
+ *
+ * @public
+ */
+export interface PluginCleanupReport {
+    /** Name of the plugin */
+    plugin: string;
+    /** Resources that were removed */
+    released: PluginResource[];
+    /**
+     * Resources that are deliberately left in place: registered components and
+     * validators, which entities may still use
+     */
+    retained: PluginResource[];
+    /** Resources whose removal threw, with the error */
+    failed: Array<PluginResource & { error: unknown }>;
+}
+
 // Component pooling
 export interface PoolStats {
     available: number;
@@ -948,6 +1668,91 @@ export interface ComponentPoolOptions {
     maxSize?: number;
 }
 
+// ========== Determinism Types ==========
+
+/**
+ * Options for deterministic fixed-step mode.
+ *
+ * @public
+ */
+export interface DeterminismOptions {
+    /** Seed for the engine's random number generator (default: 0) */
+    seed?: number;
+}
+
+/**
+ * Options for recording ticks in deterministic mode.
+ *
+ * @public
+ */
+export interface RecordingOptions {
+    /** Record a world checksum after every tick for desync detection (default: true) */
+    checksums?: boolean;
+}
+
+/**
+ * Inputs and checksum of a single recorded tick.
+ *
+ * @public
+ */
+export interface RecordedTick {
+    /** Tick number after the tick ran (the first tick of a fresh engine is 1) */
+    tick: number;
+    /** Inputs queued for the tick, in queue order */
+    inputs: unknown[];
+    /** World checksum after the tick, if checksums were recorded */
+    checksum?: number;
+}
+
+/**
+ * Recording of a deterministic session, replayable with `engine.replay()`.
+ *
+ * Contains plain data only, so it can be stored with `JSON.stringify` as long
+ * as the recorded inputs can.
+ *
+ * @public
+ */
+export interface InputRecording {
+    /** Seed of the recording engine */
+    seed: number;
+    /** Random number generator state when recording started */
+    randomState: number;
+    /** Tick number when recording started */
+    startTick: number;
+    /** Fixed timestep in milliseconds */
+    fixedTimestep: number;
+    /** World checksum when recording started */
+    initialChecksum: number;
+    /** Recorded ticks in order */
+    ticks: RecordedTick[];
+}
+
+/**
+ * Checksum mismatch found while replaying a recording.
+ *
+ * @public
+ */
+export interface DesyncReport {
+    /** Tick whose resulting world differed (the start tick for a mismatched initial world) */
+    tick: number;
+    /** Checksum stored in the recording */
+    expected: number;
+    /** Checksum of the replayed world */
+    actual: number;
+}
+
+/**
+ * Result of replaying a recording.
+ *
+ * @public
+ */
+export interface ReplayResult {
+    /** Number of ticks replayed */
+    ticksReplayed: number;
+    /** First checksum mismatch, if the replay diverged (replay stops there) */
+    desync?: DesyncReport;
+}
+
 // ========== Error Recovery & Resilience ==========
 
 /**
@@ -0,0 +1,251 @@
+/**
+ * Deterministic Mode Test Suite
+ * Tests for the seeded RNG, stable query order, fixed ticks, recording and replay
+ */
+
+import { computeWorldChecksum, SeededRandom } from './determinism';
+import type { Engine } from './engine';
+import { EngineBuilder } from './engine';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Velocity {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+interface MoveInput {
+    dx: number;
+}
+
+/** Builds the same small game each time, as a replaying client would */
+function createGame(seed: number): Engine {
+    const engine = new EngineBuilder().withFixedUpdateFPS(50).withDeterminism({ seed }).build();
+
+    for (let i = 0; i < 5; i++) {
+        engine.createEntity(`Unit${i}`).addComponent(Position, i, 0).addComponent(Velocity);
+    }
+
+    engine.createSystem(
+        'Steering',
+        { all: [Velocity] },
+        {
+            act: (_entity, velocity: Velocity) => {
+                for (const input of engine.getTickInputs() as MoveInput[]) {
+                    velocity.x += input.dx;
+                }
+                velocity.y = engine.random.range(-1, 1);
+            },
+        },
+        true
+    );
+    engine.createSystem(
+        'Movement',
+        { all: [Position, Velocity] },
+        {
+            act: (_entity, position: Position, velocity: Velocity) => {
+                position.x += velocity.x;
+                position.y += velocity.y;
+            },
+        },
+        true
+    );
+
+    return engine;
+}
+
+describe('Deterministic Mode', () => {
+    describe('SeededRandom', () => {
+        test('should produce the same sequence for the same seed', () => {
+            const a = new SeededRandom(42);
+            const b = new SeededRandom(42);
+            const sequence = Array.from({ length: 5 }, () => a.next());
+
+            expect(Array.from({ length: 5 }, () => b.next())).toEqual(sequence);
+            expect(new SeededRandom(43).next()).not.toBe(sequence[0]);
+            expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+        });
+
+        test('should save and restore its state', () => {
+            const random = new SeededRandom(7);
+            random.next();
+            const state = random.getState();
+            const expected = [random.int(0, 100), random.range(5, 6), random.chance(0.5)];
+
+            random.setState(state);
+
+            expect([random.int(0, 100), random.range(5, 6), random.chance(0.5)]).toEqual(expected);
+            expect(random.seed).toBe(7);
+        });
+
+        test('should pick and shuffle using the sequence', () => {
+            const random = new SeededRandom(1);
+
+            expect(random.pick([])).toBeUndefined();
+            expect(random.shuffle([1, 2, 3, 4, 5]).toSorted()).toEqual([1, 2, 3, 4, 5]);
+        });
+    });
+
+    describe('computeWorldChecksum', () => {
+        test('should ignore timestamps and key order but not values', () => {
+            const world = {
+                entities: [{ id: '1', tags: [], components: { Position: { x: 1, y: 2 } } }],
+                timestamp: 1,
+            };
+
+            expect(
+                computeWorldChecksum({
+                    entities: [{ id: '1', tags: [], components: { Position: { y: 2, x: 1 } } }],
+                    timestamp: 999,
+                })
+            ).toBe(computeWorldChecksum(world));
+            expect(
+                computeWorldChecksum({
+                    ...world,
+                    entities: [{ id: '1', tags: [], components: { Position: { x: 1, y: 3 } } }],
+                })
+            ).not.toBe(computeWorldChecksum(world));
+        });
+    });
+
+    describe('Engine', () => {
+        test('should iterate queries in entity ID order regardless of storage history', () => {
+            const engine = new EngineBuilder().withDeterminism().build();
+            const entities = [0, 1, 2].map(() => engine.createEntity().addComponent(Position));
+            // Moving the first entity to another archetype changes storage order
+            entities[0]!.addComponent(Velocity).removeComponent(Velocity);
+
+            const order: unknown[] = [];
+            engine.createQuery({ all: [Position] }).forEach((entity) => order.push(entity));
+
+            expect(order).toEqual(entities);
+            expect(engine.createQuery({ all: [Position] }).getEntitiesArray()).toEqual(entities);
+            engine.destroy();
+        });
+
+        test('should advance only in whole fixed ticks', () => {
+            const engine = new EngineBuilder()
+                .withFixedUpdateFPS(50)
+                .withDeterminism({ seed: 3 })
+                .build();
+            const ticks: number[] = [];
+            engine.createSystem(
+                'Timing',
+                {},
+                {
+                    before: () => {
+                        ticks.push(engine.getTick());
+                    },
+                }
+            );
+
+            engine.update(15);
+            engine.update(30);
+            engine.update(5);
+
+            expect(engine.isDeterministic()).toBe(true);
+            expect(engine.getTick()).toBe(2);
+            expect(ticks).toEqual([0, 1]);
+            engine.destroy();
+        });
+
+        test('should hand queued inputs to exactly one tick', () => {
+            const engine = new EngineBuilder().withDeterminism().build();
+            const seen: unknown[][] = [];
+            engine.createSystem(
+                'Input',
+                {},
+                { before: () => void seen.push([...engine.getTickInputs()]) }
+            );
+
+            engine.queueInput({ key: 'a' });
+            engine.queueInput({ key: 'b' });
+            engine.tick();
+            engine.tick();
+
+            expect(seen).toEqual([[{ key: 'a' }, { key: 'b' }], []]);
+            expect(engine.getTickInputs()).toEqual([]);
+            engine.destroy();
+        });
+
+        test('should reject recording and replay outside deterministic mode', () => {
+            const engine = new EngineBuilder().build();
+
+            expect(() => engine.startRecording()).toThrow(
+                '[ECS] startRecording() requires deterministic mode'
+            );
+            expect(() => engine.stopRecording()).toThrow(/no recording is in progress/);
+            engine.destroy();
+        });
+    });
+
+    describe('Recording and replay', () => {
+        function recordSession(): {
+            recording: ReturnType<Engine['stopRecording']>;
+            final: number;
+        } {
+            const engine = createGame(99);
+            engine.tick();
+            engine.startRecording();
+            for (let t = 0; t < 20; t++) {
+                if (t % 4 === 0) {
+                    engine.queueInput({ dx: t / 4 } satisfies MoveInput);
+                }
+                engine.tick();
+            }
+            const recording = engine.stopRecording();
+            const final = engine.getChecksum();
+            engine.destroy();
+            return { recording, final };
+        }
+
+        test('should replay a session bit-for-bit', () => {
+            const { recording, final } = recordSession();
+            const replayEngine = createGame(99);
+            replayEngine.tick();
+
+            const result = replayEngine.replay(JSON.parse(JSON.stringify(recording)));
+
+            expect(result).toEqual({ ticksReplayed: 20 });
+            expect(replayEngine.getChecksum()).toBe(final);
+            expect(replayEngine.getTick()).toBe(21);
+            expect(recording.ticks[0]).toEqual(
+                expect.objectContaining({ tick: 2, inputs: [{ dx: 0 }] })
+            );
+            replayEngine.destroy();
+        });
+
+        test('should report the first tick that diverges', () => {
+            const { recording } = recordSession();
+            const tampered = structuredClone(recording);
+            tampered.ticks[8]!.inputs = [{ dx: 100 }];
+            const replayEngine = createGame(99);
+            replayEngine.tick();
+
+            const result = replayEngine.replay(tampered);
+
+            expect(result.ticksReplayed).toBe(9);
+            expect(result.desync?.tick).toBe(recording.ticks[8]!.tick);
+            expect(result.desync?.expected).toBe(recording.ticks[8]!.checksum);
+            replayEngine.destroy();
+        });
+
+        test('should report a mismatched starting world', () => {
+            const { recording } = recordSession();
+            const replayEngine = createGame(99);
+
+            const result = replayEngine.replay(recording);
+
+            expect(result.ticksReplayed).toBe(0);
+            expect(result.desync?.tick).toBe(recording.startTick);
+            replayEngine.destroy();
+        });
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * Determinism utilities: a seeded random number generator and world checksums.
+ *
+ * Used by the engine's deterministic fixed-step mode to make simulations
+ * reproducible and to detect desyncs between runs or peers.
+ */
+
+import type { SerializedEntity, SerializedWorld } from './definitions';
+
+/**
+ * Small, fast seeded pseudo-random number generator (mulberry32).
+ *
+ * The whole state is a single 32-bit integer, so it can be saved, sent over the
+ * network and restored with `getState()` and `setState()`. The same seed always
+ * produces the same sequence on every platform.
+ *
+ * @example
+ * ```typescript
+ * const random = new SeededRandom(42);
+ * const damage = random.int(5, 10);      // 5..9
+ * const crit = random.chance(0.1);
+ * const loot = random.pick(['sword', 'shield', 'potion']);
+ * ```
+ *
+ * @public
+ */
+export class SeededRandom {
+    private _seed: number;
+    private state: number;
+
+    /**
+     * @param seed - Any number; it is truncated to a 32-bit integer
+     */
+    constructor(seed: number = 0) {
+        this._seed = seed >>> 0;
+        this.state = this._seed;
+    }
+
+    /**
+     * The seed this generator was created or last reseeded with
+     */
+    get seed(): number {
+        return this._seed;
+    }
+
+    /**
+     * Restart the sequence from a new seed
+     */
+    reseed(seed: number): void {
+        this._seed = seed >>> 0;
+        this.state = this._seed;
+    }
+
+    /**
+     * Get the current state, e.g. to store in a recording or snapshot
+     */
+    getState(): number {
+        return this.state;
+    }
+
+    /**
+     * Restore a state returned by `getState()`
+     */
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * Next float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Float in [min, max)
+     */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Integer in [min, max)
+     */
+    int(min: number, max: number): number {
+        return Math.floor(this.range(min, max));
+    }
+
+    /**
+     * True with the given probability
+     * @param probability - Probability between 0 and 1
+     */
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * Pick a random element
+     * @returns An element, or undefined for an empty array
+     */
+    pick<T>(items: readonly T[]): T | undefined {
+        return items.length > 0 ? items[this.int(0, items.length)] : undefined;
+    }
+
+    /**
+     * Shuffle an array in place (Fisher-Yates)
+     * @returns The same array
+     */
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = this.int(0, i + 1);
+            [items[i], items[j]] = [items[j] as T, items[i] as T];
+        }
+        return items;
+    }
+}
+
+/**
+ * Compute a 32-bit checksum (FNV-1a) of a serialized world.
+ *
+ * Object keys are hashed in sorted order and the world timestamp is ignored, so
+ * two worlds with the same entities, components, tags and singletons produce
+ * the same checksum. Entity order and IDs are included.
+ *
+ * @param world - A world produced by `engine.serialize()`
+ * @returns An unsigned 32-bit checksum
+ *
+ * @example
+ * ```typescript
+ * // Compare simulation state between peers every tick
+ * const checksum = computeWorldChecksum(engine.serialize());
+ * network.send({ tick: engine.getTick(), checksum });
+ * ```
+ *
+ * @public
+ */
+export function computeWorldChecksum(world: SerializedWorld): number {
+    const { entities, singletons = {} } = world;
+    return hashString(canonicalize({ entities: entities.map(canonicalEntity), singletons }));
+}
+
+function canonicalEntity(entity: SerializedEntity): unknown {
+    return {
+        id: entity.id,
+        name: entity.name ?? null,
+        tags: entity.tags,
+        components: entity.components,
+        children: (entity.children ?? []).map(canonicalEntity),
+    };
+}
+
+// JSON with sorted object keys; numbers use their shortest round-trip form
+function canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalize).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const entries = Object.keys(record)
+            .toSorted()
+            .filter((key) => record[key] !== undefined && typeof record[key] !== 'function')
+            .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    if (typeof value === 'number') {
+        // Keep NaN and infinities distinct, unlike JSON.stringify
+        return Number.isFinite(value) ? JSON.stringify(value) : String(value);
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,169 @@
+/**
+ * World Diff Test Suite
+ * Tests for world patches, applying them in both directions, and delta snapshots
+ */
+
+import { applyPatch, diffWorlds } from './diff';
+import { EngineBuilder } from './engine';
+import { SnapshotManager } from './managers';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Health {
+    constructor(public current: number = 100) {}
+}
+
+class Score {
+    constructor(public points: number = 0) {}
+}
+
+function createEngine() {
+    const engine = new EngineBuilder().build();
+    engine.registerComponent(Position);
+    engine.registerComponent(Health);
+    engine.registerComponent(Score);
+    return engine;
+}
+
+describe('World diffing', () => {
+    test('should record only what changed and apply in both directions', () => {
+        const engine = createEngine();
+        const player = engine.createEntity('player').addComponent(Position, 1, 2);
+        const enemy = engine.createEntity('enemy').addComponent(Health, 50);
+        engine.createEntity('idle').addComponent(Position);
+        engine.setSingleton(Score, 1);
+        const before = engine.serialize();
+
+        player.replaceComponent(Position, 5, 2).addComponent(Health).addTag('hero');
+        enemy.queueFree();
+        engine.update(16);
+        engine.createEntity('pickup');
+        engine.setSingleton(Score, 2);
+        const after = engine.serialize();
+
+        const patch = diffWorlds(before, after);
+
+        expect(patch.removed.map((entity) => entity.name)).toEqual(['enemy']);
+        expect(patch.added.map((entity) => entity.name)).toEqual(['pickup']);
+        expect(patch.changed).toEqual([
+            {
+                id: player.numericId.toString(),
+                tags: { before: [], after: ['hero'] },
+                components: {
+                    Position: { before: { x: 1, y: 2 }, after: { x: 5, y: 2 } },
+                    Health: { after: { current: 100 } },
+                },
+            },
+        ]);
+        expect(patch.singletons).toEqual({
+            Score: { before: { points: 1 }, after: { points: 2 } },
+        });
+        expect(patch.order?.after).toBeUndefined();
+
+        const json = JSON.parse(JSON.stringify(patch));
+        expect(applyPatch(before, json)).toEqual(after);
+        expect(applyPatch(after, json, 'backward')).toEqual(before);
+        engine.destroy();
+    });
+
+    test('should restore hierarchy changes and entity order', () => {
+        const engine = createEngine();
+        const root = engine.createEntity('root');
+        const child = engine.createEntity('child');
+        const other = engine.createEntity('other');
+        root.addChild(child);
+        const before = engine.serialize();
+
+        other.addChild(child);
+        engine.createEntity('late');
+        const after = engine.serialize();
+
+        const patch = diffWorlds(before, after);
+
+        expect(
+            patch.changed.find((change) => change.id === child.numericId.toString())?.parent
+        ).toEqual({
+            before: root.numericId.toString(),
+            after: other.numericId.toString(),
+        });
+        expect(applyPatch(before, patch)).toEqual(after);
+        expect(applyPatch(after, patch, 'backward')).toEqual(before);
+        engine.destroy();
+    });
+
+    test('should treat a reused entity ID as a different entity', () => {
+        const engine = createEngine();
+        const first = engine.createEntity('first').addComponent(Position);
+        const before = engine.serialize();
+
+        first.queueFree();
+        engine.update(16);
+        const second = engine.createEntity('second').addComponent(Position);
+        const after = engine.serialize();
+
+        const patch = diffWorlds(before, after);
+
+        expect(second.numericId).toBe(first.numericId);
+        expect(patch.removed.map((entity) => entity.name)).toEqual(['first']);
+        expect(patch.added.map((entity) => entity.name)).toEqual(['second']);
+        expect(patch.changed).toEqual([]);
+        expect(applyPatch(before, patch)).toEqual(after);
+        expect(() => applyPatch(after, patch)).toThrow(
+            `[ECS] Cannot apply patch: entity ${first.numericId} is not in the world`
+        );
+        engine.destroy();
+    });
+});
+
+describe('Delta snapshots', () => {
+    test('should store deltas between keyframes and restore any snapshot', () => {
+        const engine = new EngineBuilder().withMaxSnapshots(4).withDeltaSnapshots(3).build();
+        engine.registerComponent(Position);
+        const mover = engine.createEntity('mover').addComponent(Position);
+
+        for (let x = 1; x <= 6; x++) {
+            mover.replaceComponent(Position, x, 0);
+            engine.createEntity(`marker-${x}`);
+            engine.createSnapshot();
+        }
+
+        expect(engine.getSnapshotCount()).toBe(4);
+        for (let index = 0; index < 4; index++) {
+            engine.restoreSnapshot(index);
+            const restored = engine.getEntityByName('mover')?.getComponent(Position);
+            expect(restored?.x).toBe(index + 3);
+            expect(engine.getAllEntities()).toHaveLength(index + 4);
+        }
+        engine.destroy();
+    });
+
+    test('should promote the oldest delta to a keyframe when trimming', () => {
+        const snapshots = new SnapshotManager(3, 5);
+        const worlds = [1, 2, 3, 4, 5].map((points) => ({
+            entities: [],
+            singletons: { Score: { points } },
+            timestamp: points,
+        }));
+
+        for (const world of worlds) {
+            snapshots.createSnapshot(world);
+        }
+
+        expect(snapshots.getSnapshotCount()).toBe(3);
+        expect(snapshots.getKeyframeCount()).toBe(1);
+        expect(snapshots.getSnapshot(0)).toEqual(worlds[2]);
+        expect(snapshots.getSnapshot(1)).toEqual(worlds[3]);
+        expect(snapshots.getSnapshot()).toBe(worlds[4]);
+        expect(snapshots.getSnapshotPatch(2)?.singletons).toEqual({
+            Score: { before: { points: 4 }, after: { points: 5 } },
+        });
+        expect(() => new SnapshotManager(10, 0)).toThrow(
+            '[ECS] Snapshot keyframe interval must be a positive integer, got 0'
+        );
+    });
+});
@@ -0,0 +1,456 @@
+/**
+ * World diffing: structured patches between two serialized worlds.
+ *
+ * A {@link WorldPatch} records which entities were added and removed, and for
+ * every other entity only the name, tags, parent and component data that
+ * changed, each with its value before and after. Patches can be applied in
+ * either direction, which is what delta snapshots, rewind, replay scrubbing and
+ * network delta compression are built on.
+ */
+
+import type { SerializedEntity, SerializedWorld } from './definitions';
+
+/**
+ * A value before and after a change. A missing side means the value was absent,
+ * e.g. a component that was added has no `before`.
+ *
+ * @public
+ */
+export interface ValueChange<T = unknown> {
+    before?: T;
+    after?: T;
+}
+
+/**
+ * An entity without its children, as stored in a {@link WorldPatch}. The
+ * hierarchy is recorded through the parent's ID instead.
+ *
+ * @public
+ */
+export interface PatchEntity {
+    id: string;
+    generation?: number;
+    name?: string;
+    tags: string[];
+    /** Serialized component data keyed by component class name */
+    components: Record<string, unknown>;
+    /** ID of the parent entity, absent for root entities */
+    parent?: string;
+}
+
+/**
+ * Changes to an entity that exists in both worlds. Only changed fields are present.
+ *
+ * @public
+ */
+export interface EntityPatch {
+    id: string;
+    name?: ValueChange<string>;
+    tags?: ValueChange<string[]>;
+    parent?: ValueChange<string>;
+    /** Changed, added and removed components keyed by component class name */
+    components?: Record<string, ValueChange>;
+}
+
+/**
+ * Structured difference between two serialized worlds, produced by
+ * {@link diffWorlds} and applied with {@link applyPatch}.
+ *
+ * An entity whose ID was reused with a new generation is recorded as removed
+ * and added, because it is a different entity.
+ *
+ * @public
+ */
+export interface WorldPatch {
+    timestamp: ValueChange<number>;
+    /** Entities only in the newer world, parents before children */
+    added: PatchEntity[];
+    /** Entities only in the older world, parents before children */
+    removed: PatchEntity[];
+    changed: EntityPatch[];
+    /** Changed, added and removed singletons keyed by component class name */
+    singletons?: Record<string, ValueChange>;
+    componentVersions?: ValueChange<Record<string, number>>;
+    /**
+     * Entity IDs in hierarchy order, present only when applying the patch would
+     * otherwise leave entities in a different order than the target world.
+     */
+    order?: ValueChange<string[]>;
+}
+
+/**
+ * Direction to apply a {@link WorldPatch} in: `forward` turns the older world
+ * into the newer one, `backward` the newer into the older.
+ *
+ * @public
+ */
+export type PatchDirection = 'forward' | 'backward';
+
+/**
+ * Compute the patch that turns world `a` into world `b`.
+ *
+ * Entities are matched by ID and generation. Entities whose change version has
+ * not moved serialize to the same cached object, so consecutive
+ * `engine.serialize()` results are diffed without comparing the component data
+ * of unchanged entities. Other component data is compared as JSON-like values.
+ *
+ * @param a - The older world
+ * @param b - The newer world
+ * @returns A patch that {@link applyPatch} applies in either direction
+ *
+ * @example
+ * ```typescript
+ * // Network delta compression: send only what changed since the last acknowledged state
+ * const patch = diffWorlds(lastAcked, engine.serialize());
+ * socket.send(JSON.stringify(patch));
+ *
+ * // Receiver
+ * const world = applyPatch(lastAcked, JSON.parse(message));
+ * client.deserialize(world);
+ * ```
+ *
+ * @public
+ */
+export function diffWorlds(a: SerializedWorld, b: SerializedWorld): WorldPatch {
+    const before = flatten(a.entities);
+    const after = flatten(b.entities);
+    const patch: WorldPatch = {
+        timestamp: { before: a.timestamp, after: b.timestamp },
+        added: [],
+        removed: [],
+        changed: [],
+    };
+
+    for (const [id, previous] of before) {
+        const next = after.get(id);
+        if (!next || !isSameEntity(previous, next)) {
+            patch.removed.push(toPatchEntity(previous));
+        } else if (previous.source !== next.source || previous.parent !== next.parent) {
+            const change = diffEntity(previous, next);
+            if (change) {
+                patch.changed.push(change);
+            }
+        }
+    }
+    const addedIds = new Set<string>();
+    for (const [id, next] of after) {
+        const previous = before.get(id);
+        if (!previous || !isSameEntity(previous, next)) {
+            patch.added.push(toPatchEntity(next));
+            addedIds.add(id);
+        }
+    }
+
+    const singletons = diffRecords(a.singletons ?? {}, b.singletons ?? {});
+    if (singletons) {
+        patch.singletons = singletons;
+    }
+    if (!isEqual(a.componentVersions, b.componentVersions)) {
+        patch.componentVersions = change(a.componentVersions, b.componentVersions);
+    }
+
+    // Record the order only when the default placement would not reproduce it
+    const removedIds = new Set(patch.removed.map((entity) => entity.id));
+    const forward = hierarchyOrder(
+        [...before.keys()].filter((id) => !removedIds.has(id)).concat([...addedIds]),
+        (id) => after.get(id)?.parent
+    );
+    const backward = hierarchyOrder(
+        [...after.keys()].filter((id) => !addedIds.has(id)).concat([...removedIds]),
+        (id) => before.get(id)?.parent
+    );
+    const order: ValueChange<string[]> = {};
+    if (!isEqual(forward, [...after.keys()])) {
+        order.after = [...after.keys()];
+    }
+    if (!isEqual(backward, [...before.keys()])) {
+        order.before = [...before.keys()];
+    }
+    if (order.after || order.before) {
+        patch.order = order;
+    }
+
+    return patch;
+}
+
+/**
+ * Apply a patch produced by {@link diffWorlds}.
+ *
+ * Returns a new world and leaves the input untouched; unchanged component data
+ * is shared with the input rather than copied.
+ *
+ * @param world - The world the patch was computed from (`forward`) or to (`backward`)
+ * @param patch - The patch to apply
+ * @param direction - Which way to apply the patch (default: `forward`)
+ * @returns The other world of the patch
+ * @throws Error if the patch references entities that are not in the world
+ *
+ * @example
+ * ```typescript
+ * const patch = diffWorlds(previous, current);
+ * applyPatch(previous, patch);              // Equivalent to current
+ * applyPatch(current, patch, 'backward');   // Equivalent to previous
+ * ```
+ *
+ * @public
+ */
+export function applyPatch(
+    world: SerializedWorld,
+    patch: WorldPatch,
+    direction: PatchDirection = 'forward'
+): SerializedWorld {
+    const forward = direction === 'forward';
+    const pick = <T>(value: ValueChange<T>): T | undefined =>
+        forward ? value.after : value.before;
+    const entities = new Map<string, PatchEntity>();
+    for (const [id, entry] of flatten(world.entities)) {
+        entities.set(id, toPatchEntity(entry));
+    }
+
+    for (const entity of forward ? patch.removed : patch.added) {
+        const existing = entities.get(entity.id);
+        if (!existing || !isSameEntity(existing, entity)) {
+            throw missingEntity(entity.id);
+        }
+        entities.delete(entity.id);
+    }
+    for (const change of patch.changed) {
+        const entity = entities.get(change.id);
+        if (!entity) {
+            throw missingEntity(change.id);
+        }
+        const updated: PatchEntity = { ...entity };
+        if (change.name) {
+            setOptional(updated, 'name', pick(change.name));
+        }
+        if (change.tags) {
+            updated.tags = pick(change.tags) ?? [];
+        }
+        if (change.parent) {
+            setOptional(updated, 'parent', pick(change.parent));
+        }
+        if (change.components) {
+            updated.components = applyRecord(entity.components, change.components, pick);
+        }
+        entities.set(change.id, updated);
+    }
+    for (const entity of forward ? patch.added : patch.removed) {
+        entities.set(entity.id, entity);
+    }
+
+    const result: SerializedWorld = {
+        ...world,
+        entities: buildHierarchy(entities, patch.order && pick(patch.order)),
+        timestamp: pick(patch.timestamp) ?? world.timestamp,
+    };
+    if (patch.singletons) {
+        result.singletons = applyRecord(world.singletons ?? {}, patch.singletons, pick);
+    }
+    if (patch.componentVersions) {
+        setOptional(result, 'componentVersions', pick(patch.componentVersions));
+    }
+    return result;
+}
+
+interface FlatEntity extends PatchEntity {
+    /** The serialized entity this entry was flattened from */
+    source: SerializedEntity;
+}
+
+/**
+ * Flatten a serialized hierarchy into entries keyed by ID, parents before children.
+ */
+function flatten(roots: SerializedEntity[]): Map<string, FlatEntity> {
+    const entries = new Map<string, FlatEntity>();
+    const visit = (entity: SerializedEntity, parent: string | undefined): void => {
+        const entry: FlatEntity = {
+            id: entity.id,
+            tags: entity.tags,
+            components: entity.components,
+            source: entity,
+        };
+        setOptional(entry, 'generation', entity.generation);
+        setOptional(entry, 'name', entity.name);
+        setOptional(entry, 'parent', parent);
+        entries.set(entity.id, entry);
+        for (const child of entity.children ?? []) {
+            visit(child, entity.id);
+        }
+    };
+    for (const root of roots) {
+        visit(root, undefined);
+    }
+    return entries;
+}
+
+function toPatchEntity(entry: PatchEntity): PatchEntity {
+    const entity: PatchEntity = { id: entry.id, tags: entry.tags, components: entry.components };
+    setOptional(entity, 'generation', entry.generation);
+    setOptional(entity, 'name', entry.name);
+    setOptional(entity, 'parent', entry.parent);
+    return entity;
+}
+
+/**
+ * Rebuild the serialized hierarchy from flat entries.
+ */
+function buildHierarchy(entities: Map<string, PatchEntity>, order?: string[]): SerializedEntity[] {
+    const roots: SerializedEntity[] = [];
+    const built = new Map<string, SerializedEntity>();
+    const ids = hierarchyOrder(order ?? [...entities.keys()], (id) => entities.get(id)?.parent);
+    for (const id of ids) {
+        const entry = entities.get(id);
+        if (!entry) {
+            continue;
+        }
+        const entity: SerializedEntity = {
+            id: entry.id,
+            tags: entry.tags,
+            components: entry.components,
+            children: [],
+        };
+        setOptional(entity, 'generation', entry.generation);
+        setOptional(entity, 'name', entry.name);
+        const parent = entry.parent === undefined ? undefined : built.get(entry.parent);
+        if (parent) {
+            parent.children?.push(entity);
+        } else {
+            roots.push(entity);
+        }
+        built.set(id, entity);
+    }
+    return roots;
+}
+
+/**
+ * Order IDs depth-first: roots in list order, each followed by its children in list order.
+ * IDs whose parent is not in the list are treated as roots.
+ */
+function hierarchyOrder(ids: string[], parentOf: (id: string) => string | undefined): string[] {
+    const known = new Set(ids);
+    const children = new Map<string | undefined, string[]>();
+    for (const id of ids) {
+        const parent = parentOf(id);
+        const key = parent !== undefined && known.has(parent) ? parent : undefined;
+        const siblings = children.get(key);
+        if (siblings) {
+            siblings.push(id);
+        } else {
+            children.set(key, [id]);
+        }
+    }
+
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+    const visit = (id: string): void => {
+        if (visited.has(id)) {
+            return;
+        }
+        visited.add(id);
+        ordered.push(id);
+        for (const child of children.get(id) ?? []) {
+            visit(child);
+        }
+    };
+    for (const root of children.get(undefined) ?? []) {
+        visit(root);
+    }
+    return ordered;
+}
+
+function isSameEntity(a: PatchEntity, b: PatchEntity): boolean {
+    return (a.generation ?? 0) === (b.generation ?? 0);
+}
+
+function diffEntity(a: PatchEntity, b: PatchEntity): EntityPatch | undefined {
+    const patch: EntityPatch = { id: a.id };
+    let changed = false;
+    if (a.name !== b.name) {
+        patch.name = change(a.name, b.name);
+        changed = true;
+    }
+    if (!isEqual(a.tags, b.tags)) {
+        patch.tags = change(a.tags, b.tags);
+        changed = true;
+    }
+    if (a.parent !== b.parent) {
+        patch.parent = change(a.parent, b.parent);
+        changed = true;
+    }
+    const components = diffRecords(a.components, b.components);
+    if (components) {
+        patch.components = components;
+        changed = true;
+    }
+    return changed ? patch : undefined;
+}
+
+function diffRecords(
+    a: Record<string, unknown>,
+    b: Record<string, unknown>
+): Record<string, ValueChange> | undefined {
+    const changes: Record<string, ValueChange> = {};
+    let changed = false;
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        if (!isEqual(a[key], b[key])) {
+            changes[key] = change(a[key], b[key]);
+            changed = true;
+        }
+    }
+    return changed ? changes : undefined;
+}
+
+function applyRecord(
+    record: Record<string, unknown>,
+    changes: Record<string, ValueChange>,
+    pick: (value: ValueChange) => unknown
+): Record<string, unknown> {
+    const result = { ...record };
+    for (const [key, value] of Object.entries(changes)) {
+        setOptional(result, key, pick(value));
+    }
+    return result;
+}
+
+function change<T>(before: T | undefined, after: T | undefined): ValueChange<T> {
+    const value: ValueChange<T> = {};
+    setOptional(value, 'before', before);
+    setOptional(value, 'after', after);
+    return value;
+}
+
+// Set a key, or delete it when the value is undefined, so patches survive JSON round trips
+function setOptional<T extends object, K extends keyof T>(target: T, key: K, value: T[K]): void {
+    if (value === undefined) {
+        delete target[key];
+    } else {
+        target[key] = value;
+    }
+}
+
+function missingEntity(id: string): Error {
+    return new Error(`[ECS] Cannot apply patch: entity ${id} is not in the world`);
+}
+
+/**
+ * Structural equality for JSON-like data: primitives, arrays and objects
+ * compared by their own enumerable keys.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = Object.keys(left);
+    return (
+        keys.length === Object.keys(right).length &&
+        keys.every((key) => Object.hasOwn(right, key) && isEqual(left[key], right[key]))
+    );
+}
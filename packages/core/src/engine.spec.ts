@@ -7,6 +7,7 @@ import type {
     ExtractPluginExtensions,
     ParentChangedEvent,
     PluginContext,
+    SerializedWorld,
     SystemMessage,
 } from './definitions';
 import { Engine, EngineBuilder } from './engine';
@@ -1089,6 +1090,240 @@ describe('Engine v2 - Composition Architecture', () => {
             expect(serialized.entities[0]!.tags).toContain('test');
             expect(serialized.timestamp).toBeGreaterThan(0);
         });
+
+        test('should deserialize world from JSON into a fresh engine', () => {
+            class GameSettings {
+                constructor(public difficulty: string = 'normal') {}
+            }
+
+            const parent = engine.createEntity('Parent');
+            parent.addComponent(Position, 10, 20);
+            parent.addTag('root');
+            const child = engine.createEntity('Child');
+            child.addComponent(Health, 50, 80);
+            parent.addChild(child);
+            engine.setSingleton(GameSettings, 'hard');
+
+            const json = JSON.stringify(engine.serialize());
+
+            const target = new EngineBuilder().build();
+            target.registerComponent(Position);
+            target.registerComponent(Health);
+            target.registerComponent(GameSettings);
+
+            const result = target.deserialize(JSON.parse(json));
+
+            expect(result.unknownComponents).toHaveLength(0);
+            expect(result.rootEntities).toHaveLength(1);
+            expect(result.entityMap.size).toBe(2);
+
+            const restoredParent = target.getEntityByName('Parent')!;
+            const restoredChild = target.getEntityByName('Child')!;
+            expect(restoredParent.getComponent(Position)).toEqual({ x: 10, y: 20 });
+            expect(restoredParent.hasTag('root')).toBe(true);
+            expect(restoredChild.parent).toBe(restoredParent);
+            expect(restoredChild.getComponent(Health).max).toBe(80);
+            expect(target.getSingleton(GameSettings)?.difficulty).toBe('hard');
+
+            const query = target.createQuery({ all: [Position] });
+            expect(query.getEntitiesArray()).toContain(restoredParent);
+        });
+
+        test('should report unknown components on deserialize', () => {
+            class Unregistered {
+                constructor(public value: number = 1) {}
+            }
+
+            const entity = engine.createEntity('Mixed');
+            entity.addComponent(Position, 1, 2);
+            entity.addComponent(Unregistered, 5);
+            const world = JSON.parse(JSON.stringify(engine.serialize()));
+
+            const target = new EngineBuilder().build();
+            target.registerComponent(Position);
+            const result = target.deserialize(world);
+
+            expect(result.unknownComponents).toEqual([
+                {
+                    componentName: 'Unregistered',
+                    entityId: world.entities[0].id,
+                    entityName: 'Mixed',
+                    data: { value: 5 },
+                },
+            ]);
+            const restored = result.rootEntities[0]!;
+            expect(restored.hasComponent(Position)).toBe(true);
+        });
+
+        test('should report unknown components saved with a newer schema version', () => {
+            const world = {
+                entities: [{ id: '1', name: 'Ghost', tags: [], components: { Missing: { v: 2 } } }],
+                componentVersions: { Missing: 2 },
+                timestamp: 0,
+            };
+
+            const result = engine.deserialize(world);
+
+            expect(result.unknownComponents).toEqual([
+                { componentName: 'Missing', entityId: '1', entityName: 'Ghost', data: { v: 2 } },
+            ]);
+            expect(engine.getEntityByName('Ghost')).toBeDefined();
+        });
+
+        test('should throw in strict mode without modifying the world', () => {
+            const world = {
+                entities: [{ id: '1', name: 'Ghost', tags: [], components: { Missing: {} } }],
+                timestamp: 0,
+            };
+            engine.createEntity('Existing');
+
+            expect(() => engine.deserialize(world, { strict: true })).toThrow(
+                /unregistered component type\(s\) Missing/
+            );
+            expect(engine.getEntityByName('Existing')).toBeDefined();
+        });
+
+        test('should keep existing entities when clearExisting is false', () => {
+            engine.createEntity('Existing');
+            const world = engine.serialize();
+
+            engine.deserialize(world, { clearExisting: false });
+
+            expect(engine.getAllEntities()).toHaveLength(2);
+        });
+
+        test('should reject malformed world data', () => {
+            expect(() => engine.deserialize({} as any)).toThrow(/"entities" must be an array/);
+        });
+
+        test('should load entities saved without tags or components', () => {
+            engine.registerComponent(Position);
+            const world = {
+                entities: [
+                    { id: '1', name: 'Bare', children: [{ id: '2', name: 'Child' }] },
+                    { id: '3', name: 'Marker', tags: ['spawn'] },
+                    { id: '4', name: 'Placed', components: { Position: { x: 4, y: 5 } } },
+                ],
+                timestamp: 0,
+            } as unknown as SerializedWorld;
+
+            const result = engine.deserialize(world);
+
+            expect(result.rootEntities.map((entity) => entity.name)).toEqual([
+                'Bare',
+                'Marker',
+                'Placed',
+            ]);
+            expect(engine.getEntityByName('Child')?.parent?.name).toBe('Bare');
+            expect(engine.getEntityByName('Marker')?.hasTag('spawn')).toBe(true);
+            expect(engine.getEntityByName('Placed')?.getComponent(Position)).toEqual({
+                x: 4,
+                y: 5,
+            });
+        });
+    });
+
+    describe('Component Schema Migrations', () => {
+        const legacyWorld = () => ({
+            entities: [
+                {
+                    id: '1',
+                    name: 'Hero',
+                    tags: [],
+                    components: { Health: { hp: 40 } },
+                },
+            ],
+            timestamp: 0,
+        });
+
+        test('should record format and schema versions when serializing', () => {
+            engine.registerComponentSchema(Health, { version: 2, migrations: { 1: (d) => d } });
+
+            const world = engine.serialize();
+
+            expect(world.formatVersion).toBe(1);
+            expect(world.componentVersions).toEqual({ Health: 2 });
+        });
+
+        test('should run the migration chain when deserializing an old save', () => {
+            engine.registerComponentSchema(Health, {
+                version: 3,
+                migrations: {
+                    1: ({ hp, ...rest }) => ({ ...rest, current: hp }),
+                    2: (data) => ({ ...data, max: 50 }),
+                },
+            });
+
+            engine.deserialize(legacyWorld());
+
+            const health = engine.getEntityByName('Hero')!.getComponent(Health);
+            expect(health.current).toBe(40);
+            expect(health.max).toBe(50);
+        });
+
+        test('should start from the saved component version', () => {
+            const migrateV1 = jest.fn((data: Record<string, unknown>) => data);
+            engine.registerComponentSchema(Health, {
+                version: 3,
+                migrations: {
+                    1: migrateV1,
+                    2: (data) => ({ ...data, max: 75 }),
+                },
+            });
+
+            engine.deserialize({
+                ...legacyWorld(),
+                entities: [
+                    { id: '1', name: 'Hero', tags: [], components: { Health: { current: 5 } } },
+                ],
+                componentVersions: { Health: 2 },
+            });
+
+            expect(migrateV1).not.toHaveBeenCalled();
+            expect(engine.getEntityByName('Hero')!.getComponent(Health).max).toBe(75);
+        });
+
+        test('should throw a clear error when a migration is missing', () => {
+            engine.registerComponentSchema(Health, { version: 3, migrations: { 1: (d) => d } });
+            engine.createEntity('Existing');
+
+            expect(() => engine.deserialize(legacyWorld())).toThrow(
+                'Missing migration for component "Health" from version 2 to 3'
+            );
+            expect(engine.getEntityByName('Existing')).toBeDefined();
+        });
+
+        test('should reject data saved with a newer schema version', () => {
+            expect(() =>
+                engine.deserialize({ ...legacyWorld(), componentVersions: { Health: 2 } })
+            ).toThrow(/saved with schema version 2, but the registered version is 1/);
+        });
+
+        test('should reject an unsupported world format version', () => {
+            expect(() => engine.deserialize({ ...legacyWorld(), formatVersion: 99 })).toThrow(
+                /Unsupported serialized world format version 99/
+            );
+        });
+
+        test('should reject invalid schema versions', () => {
+            expect(() => engine.registerComponentSchema(Health, { version: 0 })).toThrow(
+                /Invalid schema version 0/
+            );
+        });
+
+        test('should migrate snapshots taken before a schema change', () => {
+            const entity = engine.createEntity('Snap');
+            entity.addComponent(Position, 3, 4);
+            engine.createSnapshot();
+
+            engine.registerComponentSchema(Position, {
+                version: 2,
+                migrations: { 1: ({ x, y }) => ({ x: (x as number) * 10, y }) },
+            });
+            engine.restoreSnapshot();
+
+            expect(engine.getEntityByName('Snap')!.getComponent(Position).x).toBe(30);
+        });
     });
 
     describe('Integration Tests', () => {
@@ -2621,6 +2856,108 @@ describe('Engine v2 - Composition Architecture', () => {
         });
     });
 
+    describe('System Execution Graph', () => {
+        test('should stage non-conflicting systems together', () => {
+            engine.createSystem(
+                'Movement',
+                { all: [Position, Velocity] },
+                { priority: 30, writes: [Position] }
+            );
+            engine.createSystem('Regen', { all: [Health] }, { priority: 20, writes: [Health] });
+            engine.createSystem(
+                'Render',
+                { all: [Position, Health] },
+                { priority: 10, reads: [Position, Health] }
+            );
+
+            const graph = engine.getSystemExecutionGraph();
+
+            expect(graph.order).toEqual(['Movement', 'Regen', 'Render']);
+            expect(graph.stages).toEqual([['Movement', 'Regen'], ['Render']]);
+            expect(graph.nodes[0]).toEqual({
+                name: 'Movement',
+                reads: ['Velocity'],
+                writes: ['Position'],
+                declaresAccess: true,
+                stage: 0,
+                dependsOn: [],
+            });
+            expect(graph.nodes[2]!.dependsOn).toEqual(['Movement', 'Regen']);
+        });
+
+        test('should report conflicts and whether their order is explicit', () => {
+            engine.createSystem('Damage', { all: [Health] }, { priority: 10, writes: [Health] });
+            engine.createSystem('Heal', { all: [Health] }, { priority: 5, writes: [Health] });
+            engine.createSystem(
+                'Display',
+                { all: [Health] },
+                { reads: [Health], runAfter: ['Heal'] }
+            );
+
+            const { conflicts } = engine.getSystemExecutionGraph();
+
+            expect(conflicts).toEqual([
+                {
+                    before: 'Damage',
+                    after: 'Heal',
+                    kind: 'write-write',
+                    components: ['Health'],
+                    explicitOrder: false,
+                },
+                {
+                    before: 'Damage',
+                    after: 'Display',
+                    kind: 'read-write',
+                    components: ['Health'],
+                    explicitOrder: false,
+                },
+                {
+                    before: 'Heal',
+                    after: 'Display',
+                    kind: 'read-write',
+                    components: ['Health'],
+                    explicitOrder: true,
+                },
+            ]);
+        });
+
+        test('should treat systems without declarations as exclusive', () => {
+            engine.createSystem(
+                'Declared',
+                { all: [Position] },
+                { priority: 10, reads: [Position] }
+            );
+            engine.createSystem('Legacy', { all: [Velocity] }, { priority: 5 });
+
+            const graph = engine.getSystemExecutionGraph();
+
+            expect(graph.stages).toEqual([['Declared'], ['Legacy']]);
+            expect(graph.nodes[1]!.declaresAccess).toBe(false);
+        });
+
+        test('should follow group order and build fixed update graphs separately', () => {
+            engine.createSystemGroup('Late', { priority: 0 });
+            engine.createSystemGroup('Early', { priority: 100 });
+            engine.createSystem(
+                'Writer',
+                { all: [Position] },
+                { group: 'Late', writes: [Position] }
+            );
+            engine.createSystem(
+                'Reader',
+                { all: [Position] },
+                { group: 'Early', reads: [Position] }
+            );
+            engine.createSystem('Physics', { all: [Velocity] }, { writes: [Velocity] }, true);
+
+            const graph = engine.getSystemExecutionGraph();
+
+            expect(graph.order).toEqual(['Reader', 'Writer']);
+            expect(graph.conflicts[0]!.explicitOrder).toBe(true);
+            expect(engine.getSystemExecutionGraph(true).order).toEqual(['Physics']);
+        });
+    });
+
     describe('Conditional System Execution', () => {
         test('should support runIf conditional execution', () => {
             const gameState = { isPlaying: false };
@@ -3533,8 +3870,8 @@ describe('Engine v2 - Composition Architecture', () => {
             // Query should still be empty after rollback
             expect(query.size).toBe(0);
 
-            // Entities exist but aren't in queries
-            expect(engine.getAllEntities().length).toBe(5);
+            // Entities created during the transaction are released
+            expect(engine.getAllEntities().length).toBe(0);
         });
 
         test('should improve performance for bulk operations', () => {
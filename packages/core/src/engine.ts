@@ -7,7 +7,16 @@
  * @module Engine
  */
 
-import { CommandBuffer, type CommandExecutionResult } from './commands';
+import { decodeWorldBinary, encodeWorldBinary } from './binary';
+import {
+    assertPayload,
+    channelName,
+    type EngineMessageBus,
+    type EventChannel,
+    type MessageChannel,
+    type MessageDeliveryMode,
+} from './channels';
+import { CommandBuffer, type CommandExecuteOptions, type CommandExecutionResult } from './commands';
 import {
     ARCHETYPE_STORAGE_INDEX,
     type Entity,
@@ -19,28 +28,53 @@ import {
     System,
 } from './core';
 import type {
+    ComponentHooks,
     ComponentIdentifier,
     ComponentPoolOptions,
+    ComponentSchema,
     ComponentTypes,
     ComponentValidator,
+    DeserializeOptions,
+    DeserializeResult,
+    DeterminismOptions,
     EnginePlugin,
     EntityPrefab,
     ErrorRecoveryConfig,
     ErrorReport,
     ExtractPluginExtensions,
+    InputRecording,
     InstalledPlugin,
     Logger,
     MemoryStats,
+    PluginCleanupReport,
     PluginContext,
+    PluginResource,
+    PluginResourceKind,
+    PluginUninstallOptions,
     PoolStats,
+    PrefabFile,
+    PrefabLoadOptions,
     QueryOptions,
+    RecordedTick,
+    RecordingOptions,
+    RelationChangedEvent,
+    RelationType,
+    ReplayResult,
+    SceneChangedEvent,
+    SceneDefinition,
+    SceneLoadOptions,
     SerializedEntity,
     SerializedWorld,
     SystemError,
+    SystemExecutionGraph,
     SystemHealth,
     SystemProfile,
     SystemType,
+    UnknownComponentReport,
 } from './definitions';
+import { computeWorldChecksum, SeededRandom } from './determinism';
+import { applyFieldDefaults, serializeFields } from './fields';
+import { type EntityHandle, remapEntityHandles } from './handles';
 import { EngineLogger, type LogProvider } from './logger';
 import {
     ChangeTrackingManager,
@@ -49,10 +83,22 @@ import {
     MessageManager,
     PrefabManager,
     QueryManager,
+    SceneManager,
+    SERIALIZED_WORLD_FORMAT_VERSION,
     SnapshotManager,
     SystemManager,
+    TransactionManager,
 } from './managers';
-import { deepCloneComponent } from './utils';
+import {
+    checkPluginDependencies,
+    getOrderingDependencies,
+    getPluginDependents,
+    PluginResourceTracker,
+    resolvePluginOrder,
+} from './plugins';
+import { CoreServices, type ServiceContainer } from './services';
+import { Time } from './time';
+import { cloneComponentData, deepCloneComponent } from './utils';
 
 /**
  * Fluent builder for composing and configuring an ECS Engine instance.
@@ -90,21 +136,15 @@ import { deepCloneComponent } from './utils';
  */
 export class EngineBuilder<TExtensions extends object = object> {
     private componentManager = new ComponentManager();
-    private systemManager?: SystemManager;
     private queryManager = new QueryManager();
     private prefabManager = new PrefabManager();
-    private snapshotManager?: SnapshotManager;
-    private messageManager?: MessageManager;
-    private eventEmitter?: EventEmitter;
-    private entityManager?: EntityManager;
     private performanceMonitor = new PerformanceMonitor();
-    private changeTrackingManager?: ChangeTrackingManager;
-    private errorRecoveryManager?: ErrorRecoveryManager;
 
     private fixedUpdateFPS: number = 60;
     private maxFixedIterations: number = 10;
     private debugMode: boolean = false;
     private maxSnapshots: number = 10;
+    private snapshotKeyframeInterval: number = 1;
     private plugins: EnginePlugin[] = [];
     private enableArchetypeSystem: boolean = true; // Enable archetypes by default
     private profilingEnabled: boolean = true; // Enable profiling by default for backward compatibility
@@ -120,6 +160,7 @@ export class EngineBuilder<TExtensions extends object = object> {
         debounceMs: 0,
     };
     private logProviders: LogProvider[] = [];
+    private determinismOptions?: DeterminismOptions;
 
     /**
      * Enable or disable debug mode for enhanced logging and error messages.
@@ -206,6 +247,30 @@ export class EngineBuilder<TExtensions extends object = object> {
         return this;
     }
 
+    /**
+     * Store snapshots as deltas between periodic full-world keyframes.
+     *
+     * Only every `keyframeInterval`-th snapshot stores the whole world; the
+     * snapshots in between store a patch against the previous one (see `diffWorlds`),
+     * which keeps long snapshot histories for rewind and replay scrubbing cheap.
+     * Restoring a delta snapshot rebuilds it from the nearest keyframe.
+     *
+     * @param keyframeInterval - Snapshots per full-world keyframe (default: 10)
+     * @returns This builder instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * const engine = new EngineBuilder()
+     *   .withMaxSnapshots(600)     // 10 seconds of rewind at 60 snapshots per second
+     *   .withDeltaSnapshots(60)    // One full world per second
+     *   .build();
+     * ```
+     */
+    withDeltaSnapshots(keyframeInterval: number = 10): this {
+        this.snapshotKeyframeInterval = keyframeInterval;
+        return this;
+    }
+
     /**
      * Enable or disable the archetype system for improved performance.
      *
@@ -274,6 +339,36 @@ export class EngineBuilder<TExtensions extends object = object> {
         return this;
     }
 
+    /**
+     * Enable deterministic fixed-step mode.
+     *
+     * In deterministic mode the simulation advances only in fixed ticks: `update()`
+     * accumulates elapsed time and runs whole ticks (see {@link Engine.tick}), and
+     * variable update systems receive the fixed timestep as well. All queries iterate
+     * in stable entity ID order, and `engine.random` is seeded with the given seed,
+     * so the same inputs produce the same world on every run. Ticks can be recorded
+     * and replayed with per-tick checksums for desync detection.
+     *
+     * Systems must take randomness from `engine.random` and external input from
+     * `engine.getTickInputs()` for the guarantee to hold.
+     *
+     * @param options - Determinism options
+     * @param options.seed - Seed for `engine.random` (default: 0)
+     * @returns This builder instance for method chaining
+     *
+     * @example
+     * ```typescript
+     * const engine = new EngineBuilder()
+     *   .withFixedUpdateFPS(30)
+     *   .withDeterminism({ seed: 1234 })
+     *   .build();
+     * ```
+     */
+    withDeterminism(options: DeterminismOptions = {}): this {
+        this.determinismOptions = options;
+        return this;
+    }
+
     /**
      * Configure component change tracking options
      *
@@ -417,7 +512,9 @@ export class EngineBuilder<TExtensions extends object = object> {
      * Register a plugin to extend the engine with additional functionality.
      *
      * Plugins are installed during the build() phase and can register components,
-     * create systems, and extend the engine API with custom methods.
+     * create systems, and extend the engine API with custom methods. Registration
+     * order does not matter for plugins that declare `dependencies`: each is
+     * installed after the plugins it depends on.
      *
      * When a plugin defines type extensions (via the TExtensions generic parameter),
      * those types are accumulated and will be available on the Engine returned by build().
@@ -495,6 +592,77 @@ export class EngineBuilder<TExtensions extends object = object> {
      * ```
      */
     build(): Engine & TExtensions {
+        const engine = this.createEngine();
+
+        // Install registered plugins, each after the plugins it depends on
+        engine.installPlugins(this.plugins);
+
+        // Cast is safe: plugins add their extensions to the engine at runtime
+        // and we've accumulated their types via the TExtensions generic parameter
+        return engine as Engine & TExtensions;
+    }
+
+    /**
+     * Build an Engine and wait for every plugin to finish installing.
+     *
+     * Plugins are installed in dependency order like {@link build}, but each
+     * async install hook is awaited before the next plugin starts, so plugins
+     * may depend on plugins that install asynchronously. Install failures
+     * reject the returned Promise.
+     *
+     * @returns A Promise for the configured Engine with all plugin extension types
+     *
+     * @example
+     * ```typescript
+     * const engine = await new EngineBuilder()
+     *   .use(new AssetPlugin())      // Loads a manifest during install
+     *   .use(new SpritePlugin())     // dependencies: { Assets: '^1.0.0' }
+     *   .buildAsync();
+     * ```
+     */
+    async buildAsync(): Promise<Engine & TExtensions> {
+        const engine = this.createEngine();
+        await engine.installPluginsAsync(this.plugins);
+        return engine as Engine & TExtensions;
+    }
+
+    /**
+     * Create the engine and its world factory, without installing plugins.
+     */
+    private createEngine(): Engine {
+        // Deterministic mode needs iteration order independent of storage history
+        if (this.determinismOptions) {
+            this.queryManager.setStableOrder(true);
+        }
+
+        const engine = this.assemble(
+            this.componentManager,
+            this.queryManager,
+            this.performanceMonitor
+        );
+
+        // Additional worlds share the component registry and prefabs with this engine
+        engine.setWorldFactory(() => {
+            const queryManager = new QueryManager();
+            queryManager.setStableOrder(this.determinismOptions !== undefined);
+            return this.assemble(
+                this.componentManager.createWorldStorage(),
+                queryManager,
+                new PerformanceMonitor()
+            );
+        });
+
+        return engine;
+    }
+
+    /**
+     * Wire up the per-world managers around the given storage and create an engine.
+     */
+    private assemble(
+        componentManager: ComponentManager,
+        queryManager: QueryManager,
+        performanceMonitor: PerformanceMonitor
+    ): Engine {
         // Create logger first so it can be passed to managers
         // Pass custom providers if any were registered, otherwise use default (ConsoleLogProvider)
         const logger = new EngineLogger({
@@ -503,77 +671,70 @@ export class EngineBuilder<TExtensions extends object = object> {
         });
 
         // Create event emitter and message manager with logger
-        this.eventEmitter = new EventEmitter(undefined, logger);
-        this.messageManager = new MessageManager(undefined, logger);
+        const eventEmitter = new EventEmitter(undefined, logger);
+        const messageManager = new MessageManager(undefined, logger, this.debugMode);
 
         // Set logger on component manager for archetype operations
-        this.componentManager.setLogger(logger);
+        componentManager.setLogger(logger);
 
         // Enable archetype system if requested
         if (this.enableArchetypeSystem) {
-            this.componentManager.enableArchetypes();
+            componentManager.enableArchetypes();
             if (this.debugMode) {
                 logger.debug('Archetype system enabled for improved performance');
             }
         }
 
         // Create system manager with configured settings
-        this.systemManager = new SystemManager(this.fixedUpdateFPS, this.maxFixedIterations);
+        const systemManager = new SystemManager(this.fixedUpdateFPS, this.maxFixedIterations);
 
         // Create snapshot manager with configured settings
-        this.snapshotManager = new SnapshotManager(this.maxSnapshots);
+        const snapshotManager = new SnapshotManager(
+            this.maxSnapshots,
+            this.snapshotKeyframeInterval
+        );
 
         // Create entity manager with dependencies
-        this.entityManager = new EntityManager(this.componentManager, this.eventEmitter);
+        const entityManager = new EntityManager(componentManager, eventEmitter);
 
         // Wire up query manager with component manager for archetype support
-        this.queryManager.setComponentManager(this.componentManager);
+        queryManager.setComponentManager(componentManager);
 
         // Create change tracking manager
-        this.changeTrackingManager = new ChangeTrackingManager(
-            this.componentManager,
-            this.eventEmitter,
+        const changeTrackingManager = new ChangeTrackingManager(
+            componentManager,
+            eventEmitter,
             this.changeTrackingOptions
         );
 
         // Create error recovery manager if enabled
+        let errorRecoveryManager: ErrorRecoveryManager | undefined;
         if (this.errorRecoveryEnabled) {
-            this.errorRecoveryManager = new ErrorRecoveryManager(
-                this.errorRecoveryConfig,
-                this.eventEmitter
-            );
-            this.errorRecoveryManager.setDebugMode(this.debugMode);
-            this.systemManager.setErrorRecoveryManager(this.errorRecoveryManager);
+            errorRecoveryManager = new ErrorRecoveryManager(this.errorRecoveryConfig, eventEmitter);
+            errorRecoveryManager.setDebugMode(this.debugMode);
+            systemManager.setErrorRecoveryManager(errorRecoveryManager);
 
             if (this.debugMode) {
                 logger.debug('Error recovery system enabled');
             }
         }
 
-        const engine = new Engine(
-            this.entityManager,
-            this.componentManager,
-            this.systemManager,
-            this.queryManager,
+        return new Engine(
+            entityManager,
+            componentManager,
+            systemManager,
+            queryManager,
             this.prefabManager,
-            this.snapshotManager,
-            this.messageManager,
-            this.changeTrackingManager,
-            this.eventEmitter,
-            this.performanceMonitor,
+            snapshotManager,
+            messageManager,
+            changeTrackingManager,
+            eventEmitter,
+            performanceMonitor,
             this.debugMode,
             this.profilingEnabled,
-            this.errorRecoveryManager
+            errorRecoveryManager,
+            this.determinismOptions
         );
-
-        // Install all registered plugins
-        for (const plugin of this.plugins) {
-            engine.installPlugin(plugin);
-        }
-
-        // Cast is safe: plugins add their extensions to the engine at runtime
-        // and we've accumulated their types via the TExtensions generic parameter
-        return engine as Engine & TExtensions;
     }
 }
 
@@ -631,15 +792,31 @@ export class Engine {
     private running: boolean = false;
     private lastUpdateTime: number = 0;
     private installedPlugins: Map<string, InstalledPlugin> = new Map();
+    // Plugins whose async install hook has not settled yet
+    private pendingPlugins: Map<string, { plugin: EnginePlugin; promise: Promise<void> }> =
+        new Map();
+    // Resources each plugin created through its context, removed on uninstall
+    private pluginResources: Map<string, PluginResourceTracker> = new Map();
+    private pluginCleanupReports: Map<string, PluginCleanupReport> = new Map();
+    // Names of systems swapped in place while hotSwap() runs
+    private hotSwapped?: string[];
     private extensions: Map<string, any> = new Map();
 
     // Transaction state
     private inTransaction: boolean = false;
     private pendingQueryUpdates: Set<Entity> = new Set();
+    // Set while batchQueryUpdates() defers query matching outside a transaction
+    private batchingQueries: boolean = false;
 
     // Command buffer for deferred entity operations
     private commandBuffer: CommandBuffer;
 
+    // Scene registration and entity ownership
+    private sceneManager: SceneManager;
+
+    // Journal of changes made during the current transaction
+    private transactionManager: TransactionManager;
+
     // Control whether commands are automatically executed during update
     private autoExecuteCommands: boolean = true;
 
@@ -655,6 +832,21 @@ export class Engine {
     // Error recovery manager for system resilience
     private errorRecoveryManager?: ErrorRecoveryManager;
 
+    // Deterministic fixed-step mode
+    private readonly deterministic: boolean;
+    private readonly _time: Time;
+    private readonly _random: SeededRandom;
+    private currentTick: number = 0;
+    private queuedInputs: unknown[] = [];
+    private tickInputs: readonly unknown[] = [];
+    private recording?: { data: InputRecording; checksums: boolean };
+
+    // Worlds sharing the component registry, prefabs and plugins of the main world
+    private worldFactory?: () => Engine;
+    private worlds: Map<string, Engine> = new Map();
+    private mainWorld: Engine = this;
+    private worldName: string = 'main';
+
     constructor(
         private entityManager: EntityManager,
         private componentManager: ComponentManager,
@@ -668,20 +860,28 @@ export class Engine {
         private performanceMonitor: PerformanceMonitor,
         private debugMode: boolean,
         private profilingEnabled: boolean = true,
-        errorRecoveryManager?: ErrorRecoveryManager
+        errorRecoveryManager?: ErrorRecoveryManager,
+        determinism?: DeterminismOptions
     ) {
         this.errorRecoveryManager = errorRecoveryManager;
+        this.deterministic = determinism !== undefined;
+        this._random = new SeededRandom(determinism ? (determinism.seed ?? 0) : Date.now());
         // Initialize logger
         this._logger = new EngineLogger({ debugEnabled: debugMode });
         // Set logger on component manager for archetype operations
         this.componentManager.setLogger(this._logger);
+        // World time drives group time scales and pause layers
+        this._time = new Time(this.systemManager.getFixedTimestep());
+        this.systemManager.setTime(this._time);
+        // Systems deliver queued end-of-system and next-fixed-tick messages
+        this.systemManager.setMessageManager(this.messageManager);
         // Subscribe to entity changes to update queries
         // Store unsubscribers for proper cleanup on destroy
         // Event callbacks receive unknown args, so we need to cast the entity type
         this.engineEventUnsubscribers.push(
             this.eventEmitter.on('onComponentAdded', (...args: unknown[]) => {
                 const entity = args[0] as Entity;
-                if (this.inTransaction) {
+                if (this.inTransaction || this.batchingQueries) {
                     this.pendingQueryUpdates.add(entity);
                 } else {
                     this.queryManager.updateQueries(entity);
@@ -691,7 +891,7 @@ export class Engine {
         this.engineEventUnsubscribers.push(
             this.eventEmitter.on('onComponentRemoved', (...args: unknown[]) => {
                 const entity = args[0] as Entity;
-                if (this.inTransaction) {
+                if (this.inTransaction || this.batchingQueries) {
                     this.pendingQueryUpdates.add(entity);
                 } else {
                     this.queryManager.updateQueries(entity);
@@ -701,16 +901,49 @@ export class Engine {
         this.engineEventUnsubscribers.push(
             this.eventEmitter.on('onTagChanged', (...args: unknown[]) => {
                 const entity = args[0] as Entity;
-                if (this.inTransaction) {
+                if (this.inTransaction || this.batchingQueries) {
+                    this.pendingQueryUpdates.add(entity);
+                } else {
+                    this.queryManager.updateQueries(entity);
+                }
+            })
+        );
+        this.engineEventUnsubscribers.push(
+            this.eventEmitter.on('onRelationChanged', (...args: unknown[]) => {
+                const entity = (args[0] as RelationChangedEvent).source as Entity;
+                if (this.inTransaction || this.batchingQueries) {
                     this.pendingQueryUpdates.add(entity);
                 } else {
                     this.queryManager.updateQueries(entity);
                 }
             })
         );
+        this.engineEventUnsubscribers.push(
+            // Released entities lose their components first, which re-matches them against
+            // component-free queries; drop them once they go back to the pool
+            this.eventEmitter.on('onEntityReleased', (...args: unknown[]) => {
+                const entity = args[0] as Entity;
+                this.pendingQueryUpdates.delete(entity);
+                this.queryManager.removeEntity(entity);
+            })
+        );
 
         // Initialize command buffer for deferred entity operations
         this.commandBuffer = new CommandBuffer(this, debugMode, this._logger);
+
+        // Services handed to component hooks
+        this.componentManager
+            .getServices()
+            .provide(CoreServices.Engine, this)
+            .provide(CoreServices.Logger, this._logger)
+            .provide(CoreServices.Commands, this.commandBuffer)
+            .provide(CoreServices.Time, this._time);
+
+        // Track scene ownership of entities as they are created and released
+        this.sceneManager = new SceneManager(this.eventEmitter);
+
+        // Journal structural changes so transactions can be rolled back
+        this.transactionManager = new TransactionManager(this.eventEmitter, this.entityManager);
     }
 
     // ========== Entity Commands / Deferred Operations ==========
@@ -809,7 +1042,7 @@ export class Engine {
      *
      * @public
      */
-    executeCommands(options: { rollbackOnError?: boolean } = {}): CommandExecutionResult {
+    executeCommands(options: CommandExecuteOptions = {}): CommandExecutionResult {
         return this.commandBuffer.execute(options);
     }
 
@@ -892,6 +1125,30 @@ export class Engine {
         return this.entityManager.getEntitiesByTag(tag);
     }
 
+    /**
+     * Find all entities that have a relation, to any target or to a specific one.
+     *
+     * @param relation - Relation type created with `defineRelation()`
+     * @param target - Only return entities related to this entity
+     * @returns Array of source entities
+     *
+     * @example
+     * ```typescript
+     * const Targets = defineRelation('Targets');
+     *
+     * // Every turret aiming at the player
+     * const threats = engine.getEntitiesWithRelation(Targets, player);
+     * ```
+     *
+     * @public
+     */
+    getEntitiesWithRelation(relation: RelationType<unknown>, target?: Entity): Entity[] {
+        if (target) {
+            return target.getRelationSources(relation) as Entity[];
+        }
+        return this.entityManager.getAllEntities().filter((entity) => entity.hasRelation(relation));
+    }
+
     /**
      * Find an entity by its name.
      *
@@ -916,6 +1173,28 @@ export class Engine {
         return this.entityManager.getEntityByNumericId(id);
     }
 
+    /**
+     * Get the entity a handle refers to.
+     *
+     * Entity objects are pooled, so a destroyed entity's object may come back as
+     * a new entity with the same numeric ID. Its handle carries the generation
+     * it was taken at and no longer resolves once the entity is destroyed.
+     *
+     * @param handle - A handle taken with `entity.handle`
+     * @returns The entity, or undefined if it has been destroyed
+     *
+     * @example
+     * ```typescript
+     * const target = enemy.handle;
+     * enemy.queueFree();
+     * engine.update(16);
+     * engine.resolve(target); // undefined, even after the pooled object is reused
+     * ```
+     */
+    resolve(handle: EntityHandle): Entity | undefined {
+        return this.entityManager.resolve(handle);
+    }
+
     /**
      * Find the first entity matching a predicate function.
      *
@@ -1081,6 +1360,106 @@ export class Engine {
         this.componentManager.registerValidator(type, validator);
     }
 
+    /**
+     * Register a schema for a component's data: its version, migrations and field metadata.
+     *
+     * Saved worlds record the schema version of each versioned component. When an
+     * older save is loaded via {@link Engine.deserialize} or a snapshot is restored,
+     * the migration chain upgrades the data before components are created.
+     *
+     * Declared fields are checked whenever the component is added or replaced
+     * (before its validator runs), undefined fields of new components get their
+     * defaults, and only declared fields are serialized. Components with declared
+     * fields are restored by assigning the saved fields instead of passing them to
+     * the constructor.
+     *
+     * @param type - The component class/constructor
+     * @param schema - Current version, migrations keyed by the version they upgrade from, and fields
+     * @throws Error if the version or a field declaration is invalid
+     *
+     * @example
+     * ```typescript
+     * engine.registerComponentSchema(Position, {
+     *   version: 2,
+     *   migrations: {
+     *     1: ({ posX, posY }) => ({ x: posX, y: posY }),
+     *   },
+     *   fields: {
+     *     x: { type: 'number', default: 0 },
+     *     y: { type: 'number', default: 0 },
+     *   },
+     * });
+     * ```
+     */
+    registerComponentSchema<T>(type: ComponentIdentifier<T>, schema: ComponentSchema): void {
+        this.componentManager.registerSchema(type, schema);
+    }
+
+    /**
+     * Get the schema registered for a component type.
+     *
+     * Editors and debugging tools read field metadata from here.
+     *
+     * @param type - The component class/constructor
+     * @returns The schema, or undefined if none is registered
+     *
+     * @example
+     * ```typescript
+     * const fields = engine.getComponentSchema(Health)?.fields ?? {};
+     * for (const [name, field] of Object.entries(fields)) {
+     *   console.log(`${name}: ${field.type}`, field.description ?? '');
+     * }
+     * ```
+     */
+    getComponentSchema(type: ComponentIdentifier): ComponentSchema | undefined {
+        return this.componentManager.getSchema(type);
+    }
+
+    /**
+     * Register hooks that run when components of a type are added, removed or replaced.
+     *
+     * Hooks receive the entity, the component and the world's {@link Engine.services}.
+     * `onAdd` runs before `onComponentAdded` listeners and system callbacks, so
+     * systems see components the hook already initialized; `onRemove` runs while
+     * the component is still attached. Commands queued on {@link Engine.commands}
+     * run their hooks when the buffer executes. Hooks are shared by every world
+     * of the engine and run in registration order.
+     *
+     * @param type - The component class/constructor
+     * @param hooks - `onAdd`, `onRemove` and `onReplace` callbacks
+     * @returns A function that unregisters the hooks
+     *
+     * @example
+     * ```typescript
+     * engine.services.provide(SpatialIndex, new SpatialIndex());
+     *
+     * engine.registerComponentHooks(Collider, {
+     *   onAdd: (entity, collider, services) => services.get(SpatialIndex).insert(entity, collider),
+     *   onRemove: (entity, _collider, services) => services.get(SpatialIndex).remove(entity),
+     * });
+     * ```
+     */
+    registerComponentHooks<T>(type: ComponentIdentifier<T>, hooks: ComponentHooks<T>): () => void {
+        return this.componentManager.registerHooks(type, hooks);
+    }
+
+    /**
+     * Services passed to component hooks.
+     *
+     * Every world provides {@link CoreServices} (the engine, its logger, command
+     * buffer and time); register your own under a class or a token created with
+     * {@link defineService}. Each world has its own services.
+     *
+     * @example
+     * ```typescript
+     * const Assets = defineService<AssetCache>('assets');
+     * engine.services.provide(Assets, new AssetCache());
+     * ```
+     */
+    get services(): ServiceContainer {
+        return this.componentManager.getServices();
+    }
+
     getComponentByName(name: string): ComponentIdentifier | undefined {
         return this.componentManager.getComponentByName(name);
     }
@@ -1143,6 +1522,10 @@ export class Engine {
 
         // Create new component instance
         const component = new type(...args);
+        const fields = this.componentManager.getSchema(type)?.fields;
+        if (fields) {
+            applyFieldDefaults(fields, component as object);
+        }
 
         // Set the singleton
         this.componentManager.setSingleton(type, component);
@@ -1291,8 +1674,32 @@ export class Engine {
 
     // ========== System Management ==========
 
-    createSystemGroup(name: string, options: { priority: number }): any {
-        return this.systemManager.createGroup(name, options.priority);
+    /**
+     * Create a system group.
+     *
+     * @param name - Unique group name
+     * @param options - `priority` (higher runs first), an optional `pauseLayer` that
+     *   skips the group while {@link Time.pause | paused}, and an optional `timeScale`
+     *   applied on top of the global time scale
+     *
+     * @example
+     * ```typescript
+     * engine.createSystemGroup('Gameplay', { priority: 100, pauseLayer: 'gameplay' });
+     * engine.createSystemGroup('Ambient', { priority: 50, timeScale: 0.5 });
+     * ```
+     */
+    createSystemGroup(
+        name: string,
+        options: { priority: number; pauseLayer?: string; timeScale?: number }
+    ): any {
+        const group = this.systemManager.createGroup(name, options.priority);
+        if (options.pauseLayer !== undefined) {
+            this._time.setGroupPauseLayer(name, options.pauseLayer);
+        }
+        if (options.timeScale !== undefined) {
+            this._time.setGroupTimeScale(name, options.timeScale);
+        }
+        return group;
     }
 
     enableSystemGroup(name: string): void {
@@ -1309,6 +1716,15 @@ export class Engine {
         options: SystemType<ComponentTypes<All>>,
         isFixedUpdate: boolean = false
     ): System<ComponentTypes<All>> {
+        // Inside hotSwap(), recreating an existing system swaps its callbacks instead
+        if (this.hotSwapped) {
+            const existing = this.systemManager.getSystem(name);
+            if (existing) {
+                this.hotSwapped.push(name);
+                return this.hotSwapSystem(name, options);
+            }
+        }
+
         const query = this.queryManager.createQuery<ComponentTypes<All>>(queryOptions);
         const system = new System<ComponentTypes<All>>(
             name,
@@ -1317,6 +1733,7 @@ export class Engine {
             this.eventEmitter,
             this.profilingEnabled
         );
+        system.setChangeTracker(this.changeTrackingManager);
 
         // Update new query with all existing entities
         for (const entity of this.entityManager.getAllEntities()) {
@@ -1331,6 +1748,39 @@ export class Engine {
         return this.systemManager.getProfiles();
     }
 
+    /**
+     * Get the execution graph computed from the systems' declared component access.
+     *
+     * Systems declare access with the `reads` and `writes` system options. The
+     * graph lists the execution order, the dependencies between conflicting
+     * systems, stages of systems that do not conflict with each other, and
+     * every conflict found. Systems still run sequentially in `order`.
+     *
+     * @param isFixedUpdate - Build the graph for fixed update systems (default: false)
+     * @returns The execution graph
+     *
+     * @example
+     * ```typescript
+     * engine.createSystem('Movement', { all: [Position, Velocity] }, {
+     *   writes: [Position],
+     *   act: (entity, position, velocity) => { ... }
+     * });
+     * engine.createSystem('Render', { all: [Position, Sprite] }, {
+     *   reads: [Position, Sprite],
+     *   act: (entity, position, sprite) => { ... }
+     * });
+     *
+     * const graph = engine.getSystemExecutionGraph();
+     * graph.stages;     // [['Movement'], ['Render']]
+     * graph.conflicts;  // [{ before: 'Movement', after: 'Render', kind: 'read-write', ... }]
+     * ```
+     *
+     * @public
+     */
+    getSystemExecutionGraph(isFixedUpdate: boolean = false): SystemExecutionGraph {
+        return this.systemManager.getExecutionGraph(isFixedUpdate);
+    }
+
     getAllSystems(): System<any>[] {
         return this.systemManager.getAllSystems();
     }
@@ -1355,6 +1805,67 @@ export class Engine {
         return this.systemManager.getSystem(name);
     }
 
+    /**
+     * Replace a system's callbacks in place without losing world state.
+     *
+     * The system keeps its query and matched entities, priority, enabled
+     * state, group, tags, ordering, profile and error-recovery health; see
+     * {@link System.hotSwap}.
+     *
+     * @param name - Name of the system to update
+     * @param options - The new system options
+     * @returns The updated system
+     * @throws Error if no system has that name
+     *
+     * @example
+     * ```typescript
+     * engine.hotSwapSystem('Movement', {
+     *   act: (entity, position, velocity) => { position.x += velocity.x * 2; }
+     * });
+     * ```
+     */
+    hotSwapSystem<C extends readonly unknown[] = unknown[]>(
+        name: string,
+        options: SystemType<C>
+    ): System<C> {
+        const system = this.systemManager.getSystem(name) as System<C> | undefined;
+        if (!system) {
+            throw new Error(`[ECS] System "${name}" does not exist`);
+        }
+        system.hotSwap(options);
+        return system;
+    }
+
+    /**
+     * Re-run system definitions, hot-swapping systems that already exist.
+     *
+     * While `define` runs, `createSystem()` for a name that is already
+     * registered updates that system's callbacks in place (see
+     * {@link hotSwapSystem}) instead of adding a duplicate. New names create
+     * systems as usual. This lets a hot module reload re-run the code that
+     * created its systems.
+     *
+     * @param define - Code that creates systems, e.g. a module's setup function
+     * @returns Names of the systems that were swapped in place
+     *
+     * @example
+     * ```typescript
+     * // In a reloaded module
+     * engine.hotSwap(() => new MovementSystem(engine)); // ['MovementSystem']
+     * ```
+     */
+    hotSwap(define: () => void): string[] {
+        const outer = this.hotSwapped;
+        const swapped: string[] = [];
+        this.hotSwapped = swapped;
+        try {
+            define();
+        } finally {
+            this.hotSwapped = outer;
+        }
+        return swapped;
+    }
+
     /**
      * Remove a system from the engine and clean up its resources.
      *
@@ -1418,6 +1929,16 @@ export class Engine {
         return query;
     }
 
+    /**
+     * Remove a query so it is no longer updated as entities change.
+     *
+     * @param query - A query created by {@link createQuery}
+     * @returns true if the query was found and removed
+     */
+    removeQuery(query: Query<any>): boolean {
+        return this.queryManager.removeQuery(query);
+    }
+
     /**
      * Create a fluent query builder
      * @returns QueryBuilder instance for constructing queries with a fluent API
@@ -1446,9 +1967,26 @@ export class Engine {
     // ========== Transaction Management ==========
 
     /**
-     * Begin a transaction. All structural changes (add/remove components, create/destroy entities)
-     * will be batched and query updates will be deferred until commit.
-     * @throws Error if a transaction is already in progress
+     * Begin a transaction.
+     *
+     * Until the transaction ends, query updates are deferred and structural
+     * changes are journaled: entity creation, `queueFree()`, component
+     * add/remove/replace, tags and parents. Entities queued for deletion are not
+     * cleaned up until the transaction ends, so their deletion can be undone.
+     *
+     * @throws Error if a transaction is already in progress (use savepoints to nest)
+     *
+     * @example
+     * ```typescript
+     * engine.beginTransaction();
+     * try {
+     *   applyEditorOperation(engine);
+     *   engine.commitTransaction();
+     * } catch (error) {
+     *   engine.rollbackTransaction();  // Undo everything the operation did
+     *   throw error;
+     * }
+     * ```
      */
     beginTransaction(): void {
         if (this.inTransaction) {
@@ -1456,6 +1994,7 @@ export class Engine {
         }
         this.inTransaction = true;
         this.pendingQueryUpdates.clear();
+        this.transactionManager.begin();
 
         if (this.debugMode) {
             this._logger.debug('Transaction started');
@@ -1480,6 +2019,7 @@ export class Engine {
         // Reset transaction state
         this.inTransaction = false;
         this.pendingQueryUpdates.clear();
+        this.transactionManager.commit();
 
         if (this.debugMode) {
             this._logger.debug('Transaction committed');
@@ -1487,9 +2027,12 @@ export class Engine {
     }
 
     /**
-     * Rollback the current transaction. All pending changes will be discarded.
-     * Note: Entities created during the transaction will still exist but won't be
-     * added to queries. Components added/removed will remain but query updates are discarded.
+     * Rollback the current transaction, undoing every journaled change newest
+     * first. Entities created during the transaction are released, and removed
+     * components, tags and parents are restored.
+     *
+     * Relation changes, scene loads and snapshot restores are not journaled.
+     *
      * @throws Error if no transaction is in progress
      */
     rollbackTransaction(): void {
@@ -1497,7 +2040,12 @@ export class Engine {
             throw new Error('[ECS] No transaction in progress');
         }
 
-        // Simply discard all pending changes
+        this.transactionManager.rollback();
+
+        // Undoing touched the same entities again; bring queries in line once
+        for (const entity of this.pendingQueryUpdates) {
+            this.queryManager.updateQueries(entity);
+        }
         this.inTransaction = false;
         this.pendingQueryUpdates.clear();
 
@@ -1514,21 +2062,161 @@ export class Engine {
         return this.inTransaction;
     }
 
-    // ========== Prefab Management ==========
-
-    registerPrefab(name: string, prefab: EntityPrefab): void {
-        this.prefabManager.register(name, prefab);
+    /**
+     * Run a callback with query updates deferred, then match each changed entity once.
+     *
+     * Used by the command buffer so an entity that receives several components is
+     * not re-matched against every query per component. Inside a transaction the
+     * updates are already deferred until it ends.
+     *
+     * @internal
+     */
+    batchQueryUpdates<T>(callback: () => T): T {
+        if (this.inTransaction || this.batchingQueries) {
+            return callback();
+        }
+        this.batchingQueries = true;
+        try {
+            return callback();
+        } finally {
+            this.batchingQueries = false;
+            for (const entity of this.pendingQueryUpdates) {
+                this.queryManager.updateQueries(entity);
+            }
+            this.pendingQueryUpdates.clear();
+        }
     }
 
     /**
-     * Define a parameterized prefab using a factory function
-     * @param name - Prefab name
-     * @param factory - Factory function that returns prefab definition
-     * @returns The registered prefab
-     */
-    definePrefab(
-        name: string,
-        factory: (...args: any[]) => Omit<EntityPrefab, 'factory' | 'parent'>
+     * Create a named savepoint inside the current transaction.
+     *
+     * Savepoints nest: rolling back to one undoes only the changes made after it
+     * and keeps the transaction open.
+     *
+     * @param name - Savepoint name, unique among the open savepoints
+     * @throws Error if no transaction is in progress or the name is already open
+     *
+     * @example
+     * ```typescript
+     * engine.beginTransaction();
+     * moveUnits(selection);
+     * engine.savepoint('before-merge');
+     * if (!tryMergeGroups(selection)) {
+     *   engine.rollbackToSavepoint('before-merge');  // Keep the move, drop the merge
+     * }
+     * engine.commitTransaction();
+     * ```
+     */
+    savepoint(name: string): void {
+        this.assertInTransaction();
+        this.transactionManager.savepoint(name);
+    }
+
+    /**
+     * Undo the changes made since a savepoint. The savepoint stays open and
+     * savepoints created after it are discarded.
+     *
+     * @throws Error if no transaction is in progress or the savepoint does not exist
+     */
+    rollbackToSavepoint(name: string): void {
+        this.assertInTransaction();
+        this.transactionManager.rollbackToSavepoint(name);
+    }
+
+    /**
+     * Discard a savepoint, and those created after it, keeping their changes.
+     *
+     * @throws Error if no transaction is in progress or the savepoint does not exist
+     */
+    releaseSavepoint(name: string): void {
+        this.assertInTransaction();
+        this.transactionManager.releaseSavepoint(name);
+    }
+
+    /**
+     * Get the names of the open savepoints, oldest first.
+     */
+    getSavepoints(): string[] {
+        return this.transactionManager.getSavepoints();
+    }
+
+    private assertInTransaction(): void {
+        if (!this.inTransaction) {
+            throw new Error('[ECS] No transaction in progress');
+        }
+    }
+
+    // ========== Prefab Management ==========
+
+    registerPrefab(name: string, prefab: EntityPrefab): void {
+        this.prefabManager.register(name, prefab);
+    }
+
+    /**
+     * Load and register data-driven prefabs from a JSON or YAML prefab file.
+     *
+     * Prefab files name components and their fields instead of referencing
+     * classes, so they can be authored by designers (see {@link PrefabFile}).
+     * Every component must be registered (see {@link Engine.registerComponent});
+     * field names and value types are checked against a default-constructed
+     * instance and component validators run on the resulting values. Nothing is
+     * registered unless the whole file is valid.
+     *
+     * Reading the file is up to the caller, so the same call works with `fs`,
+     * `fetch` or bundled assets. JSON is parsed with `JSON.parse`; pass a YAML
+     * parser as `options.parse` for YAML files.
+     *
+     * @param source - File text, or the already parsed file contents
+     * @param options - File name for error messages and the parser for the text
+     * @returns The names of the registered prefabs
+     * @throws Error listing every problem in the file with the path of the offending value
+     *
+     * @example
+     * ```typescript
+     * import YAML from 'yaml';
+     *
+     * engine.registerComponent(Position);
+     * engine.registerComponent(Health);
+     *
+     * engine.loadPrefabs(readFileSync('prefabs/enemies.json', 'utf8'), { file: 'enemies.json' });
+     * engine.loadPrefabs(readFileSync('prefabs/bosses.yaml', 'utf8'), {
+     *   file: 'bosses.yaml',
+     *   parse: YAML.parse,
+     * });
+     * // Error: [ECS] Invalid prefab file bosses.yaml:
+     * //   bosses.yaml prefabs.Ogre.components.Health.current: expected number, got string
+     *
+     * const ogre = engine.createFromPrefab('Ogre');
+     * ```
+     */
+    loadPrefabs(source: string | PrefabFile, options: PrefabLoadOptions = {}): string[] {
+        const names = this.prefabManager.load(source, this.componentManager, options);
+        if (this.debugMode) {
+            this._logger.debug(
+                `Loaded ${names.length} prefabs from ${options.file ?? 'prefabs'}: ${names.join(', ')}`
+            );
+        }
+        return names;
+    }
+
+    /**
+     * Remove a registered prefab
+     * @param name - Prefab name
+     * @returns true if the prefab was registered and removed
+     */
+    unregisterPrefab(name: string): boolean {
+        return this.prefabManager.unregister(name);
+    }
+
+    /**
+     * Define a parameterized prefab using a factory function
+     * @param name - Prefab name
+     * @param factory - Factory function that returns prefab definition
+     * @returns The registered prefab
+     */
+    definePrefab(
+        name: string,
+        factory: (...args: any[]) => Omit<EntityPrefab, 'factory' | 'parent'>
     ): EntityPrefab {
         const prefab: EntityPrefab = {
             name,
@@ -1599,9 +2287,13 @@ export class Engine {
 
         const entity = this.createEntity(entityName || prefab.name);
 
-        // Add components
-        for (const component of prefab.components) {
-            entity.addComponent(component.type, ...component.args);
+        // Add components; prefabs with field data add them in one archetype transition
+        if (prefab.components.some((component) => component.data)) {
+            entity.applyComponentChanges(prefab.components, []);
+        } else {
+            for (const component of prefab.components) {
+                entity.addComponent(component.type, ...component.args);
+            }
         }
 
         // Add tags
@@ -1646,15 +2338,16 @@ export class Engine {
             return false;
         }
 
+        const world = this.componentManager.migrateSerializedWorld(snapshot);
+
         this.clearAllEntitiesForRestore();
-        const entityMap = this.recreateEntitiesFromSnapshot(snapshot.entities);
-        this.restoreSnapshotSingletons(snapshot.singletons);
+        const entityMap = this.recreateEntitiesFromSnapshot(world.entities);
+        this.restoreSnapshotSingletons(world.singletons);
+        this.remapRestoredHandles(world, entityMap, true);
         this.updateQueriesForRestoredEntities(entityMap);
 
         if (this.debugMode) {
-            const singletonCount = snapshot.singletons
-                ? Object.keys(snapshot.singletons).length
-                : 0;
+            const singletonCount = world.singletons ? Object.keys(world.singletons).length : 0;
             this._logger.debug(
                 `Snapshot restored (${entityMap.size} entities, ${singletonCount} singletons)`
             );
@@ -1705,9 +2398,10 @@ export class Engine {
     ): Entity {
         const entity = this.createEntity(serializedEntity.name);
 
-        this.restoreEntityComponents(entity, serializedEntity.components);
+        // Older or hand-written snapshots may leave out empty tags and components
+        this.restoreEntityComponents(entity, serializedEntity.components ?? {});
 
-        for (const tag of serializedEntity.tags) {
+        for (const tag of serializedEntity.tags ?? []) {
             entity.addTag(tag);
         }
 
@@ -1736,6 +2430,15 @@ export class Engine {
                 continue;
             }
 
+            // Components with declared fields get saved values by field name, not as constructor arguments
+            if (this.componentManager.getSchema(componentType)?.fields) {
+                entity.applyComponentChanges(
+                    [{ type: componentType, args: [], data: componentData as object }],
+                    []
+                );
+                continue;
+            }
+
             const dataObj = componentData as Record<string, unknown>;
             const values = Object.keys(dataObj).map((key) => dataObj[key]);
 
@@ -1757,6 +2460,51 @@ export class Engine {
         }
     }
 
+    /**
+     * Points the entity handles stored in restored components and singletons at
+     * the recreated entities; handles to entities outside the saved world stop resolving.
+     * @param world - The serialized world that was restored
+     * @param entityMap - The recreated entities keyed by their saved IDs
+     * @param singletons - Whether singletons were restored from the world
+     * @internal
+     */
+    private remapRestoredHandles(
+        world: SerializedWorld,
+        entityMap: Map<string, Entity>,
+        singletons: boolean
+    ): void {
+        const targets = new Map<string, EntityHandle>();
+        const restored: Array<[Entity, Record<string, unknown>]> = [];
+        const collect = (serialized: SerializedEntity): void => {
+            const entity = entityMap.get(serialized.id);
+            if (entity) {
+                targets.set(`${serialized.id}:${serialized.generation ?? 0}`, entity.handle);
+                restored.push([entity, serialized.components ?? {}]);
+            }
+            serialized.children?.forEach(collect);
+        };
+        world.entities.forEach(collect);
+
+        const visited = new Set<object>();
+        const remap = (data: unknown): void => {
+            if (data !== null && typeof data === 'object') {
+                remapEntityHandles(data, targets, visited);
+            }
+        };
+        for (const [entity, components] of restored) {
+            for (const name of Object.keys(components)) {
+                const type = this.componentManager.getComponentByName(name);
+                remap(type && entity.tryGetComponent(type));
+            }
+        }
+        if (singletons) {
+            for (const name of Object.keys(world.singletons ?? {})) {
+                const type = this.componentManager.getComponentByName(name);
+                remap(type && this.componentManager.getSingleton(type));
+            }
+        }
+    }
+
     /**
      * Restores singleton components from serialized snapshot data.
      * @param singletons - The serialized singleton data keyed by component name
@@ -1775,6 +2523,15 @@ export class Engine {
                 continue;
             }
 
+            const fields = this.componentManager.getSchema(componentType)?.fields;
+            if (fields) {
+                const component = new componentType();
+                Object.assign(component as object, componentData);
+                applyFieldDefaults(fields, component as object);
+                this.componentManager.setSingleton(componentType, component);
+                continue;
+            }
+
             const dataObj = componentData as Record<string, unknown>;
             const values = Object.keys(dataObj).map((key) => dataObj[key]);
 
@@ -1808,17 +2565,486 @@ export class Engine {
         this.snapshotManager.clearSnapshots();
     }
 
+    // ========== Scene Management ==========
+
+    /**
+     * Register a named scene that can later be loaded with {@link Engine.loadScene}.
+     *
+     * @param name - Unique scene name
+     * @param definition - Serialized data, prefabs and/or setup callback for the scene
+     *
+     * @example
+     * ```typescript
+     * engine.registerScene('level1', {
+     *   prefabs: ['Player', { prefab: 'Enemy', name: 'Boss' }],
+     *   setup: (scene) => scene.createEntity('Spawner').addComponent(Spawner, 5),
+     * });
+     * ```
+     */
+    registerScene(name: string, definition: SceneDefinition): void {
+        this.sceneManager.register(name, definition);
+    }
+
+    hasScene(name: string): boolean {
+        return this.sceneManager.has(name);
+    }
+
+    /**
+     * Load a registered scene.
+     *
+     * By default all loaded scenes are unloaded first and the new scene becomes
+     * active. With `additive: true` the scene is loaded alongside the others and
+     * only becomes active if no other scene is. Every entity created while the
+     * scene loads is owned by it. Fires `onSceneChanged` for each scene unloaded
+     * and for the loaded scene.
+     *
+     * If creating the scene content throws, the entities created so far are
+     * despawned and the error is rethrown.
+     *
+     * @param name - Scene name
+     * @param options - Load options
+     * @returns The entities owned by the newly loaded scene
+     * @throws Error if the scene is not registered, already loaded additively, or references an unknown prefab
+     *
+     * @example
+     * ```typescript
+     * engine.loadScene('level1');
+     * engine.loadScene('hud', { additive: true });
+     * ```
+     */
+    loadScene(name: string, options: SceneLoadOptions = {}): Entity[] {
+        const definition = this.sceneManager.get(name);
+        if (!definition) {
+            throw new Error(`[ECS] Scene "${name}" is not registered`);
+        }
+        const additive = options.additive ?? false;
+        if (additive && this.sceneManager.isLoaded(name)) {
+            throw new Error(`[ECS] Scene "${name}" is already loaded`);
+        }
+
+        const previousActiveScene = this.sceneManager.getActiveScene();
+        if (!additive) {
+            for (const loaded of this.sceneManager.getLoadedScenes()) {
+                this.unloadScene(loaded);
+            }
+        }
+
+        this.sceneManager.beginLoading(name);
+        try {
+            this.createSceneContent(name, definition);
+        } catch (error) {
+            this.sceneManager.endLoading(name);
+            this.despawnSceneEntities(this.sceneManager.markUnloaded(name));
+            throw error;
+        }
+        this.sceneManager.endLoading(name);
+
+        if (this.sceneManager.getActiveScene() === null) {
+            this.sceneManager.setActiveScene(name);
+        }
+
+        const entities = this.sceneManager.getSceneEntities(name);
+        if (this.debugMode) {
+            this._logger.debug(
+                `Scene "${name}" loaded${additive ? ' additively' : ''} (${entities.length} entities)`
+            );
+        }
+        this.emitSceneChanged(name, 'load', additive, previousActiveScene);
+
+        return entities;
+    }
+
+    /**
+     * Unload a scene, despawning exactly the entities it owns.
+     *
+     * Persistent entities and entities owned by other scenes are kept; if one of
+     * them is a child of a despawned entity it is detached and becomes a root.
+     *
+     * @param name - Scene name
+     * @returns True if the scene was loaded
+     */
+    unloadScene(name: string): boolean {
+        if (!this.sceneManager.isLoaded(name)) {
+            return false;
+        }
+
+        const previousActiveScene = this.sceneManager.getActiveScene();
+        const entities = this.sceneManager.markUnloaded(name);
+        this.despawnSceneEntities(entities);
+
+        if (this.debugMode) {
+            this._logger.debug(`Scene "${name}" unloaded (${entities.length} entities)`);
+        }
+        this.emitSceneChanged(name, 'unload', false, previousActiveScene);
+
+        return true;
+    }
+
+    isSceneLoaded(name: string): boolean {
+        return this.sceneManager.isLoaded(name);
+    }
+
+    getLoadedScenes(): string[] {
+        return this.sceneManager.getLoadedScenes();
+    }
+
+    /**
+     * Get the active scene. Entities created outside of scene loading are owned by it.
+     */
+    getActiveScene(): string | null {
+        return this.sceneManager.getActiveScene();
+    }
+
+    setActiveScene(name: string | null): void {
+        this.sceneManager.setActiveScene(name);
+    }
+
+    getSceneEntities(name: string): Entity[] {
+        return this.sceneManager.getSceneEntities(name);
+    }
+
+    getEntityScene(entity: Entity): string | undefined {
+        return this.sceneManager.getEntityScene(entity);
+    }
+
+    moveEntityToScene(entity: Entity, sceneName: string): void {
+        this.sceneManager.moveToScene(entity, sceneName);
+    }
+
+    /**
+     * Mark an entity and its descendants as persistent so they survive scene changes.
+     *
+     * @param entity - The entity to update
+     * @param persistent - Whether the entity should persist (default: true)
+     *
+     * @example
+     * ```typescript
+     * const player = engine.createEntity('Player');
+     * engine.setEntityPersistent(player);
+     * engine.loadScene('level2'); // player is kept
+     * ```
+     */
+    setEntityPersistent(entity: Entity, persistent: boolean = true): void {
+        this.sceneManager.setPersistent(entity, persistent);
+    }
+
+    isEntityPersistent(entity: Entity): boolean {
+        return this.sceneManager.isPersistent(entity);
+    }
+
+    /**
+     * Creates the serialized entities, prefabs and custom setup of a scene.
+     * @internal
+     */
+    private createSceneContent(name: string, definition: SceneDefinition): void {
+        if (definition.world) {
+            this.deserialize(definition.world, { clearExisting: false, restoreSingletons: false });
+        }
+
+        for (const entry of definition.prefabs ?? []) {
+            const prefabName = typeof entry === 'string' ? entry : entry.prefab;
+            const entityName = typeof entry === 'string' ? undefined : entry.name;
+            if (!this.createFromPrefab(prefabName, entityName)) {
+                throw new Error(`[ECS] Scene "${name}" references unknown prefab "${prefabName}"`);
+            }
+        }
+
+        definition.setup?.({
+            name,
+            createEntity: (entityName?: string) => this.createEntity(entityName),
+            createFromPrefab: (prefabName: string, entityName?: string) =>
+                this.createFromPrefab(prefabName, entityName),
+        });
+    }
+
+    /**
+     * Despawns scene-owned entities immediately, detaching children that are not
+     * part of the despawned set so they are not destroyed with their parent.
+     * @internal
+     */
+    private despawnSceneEntities(entities: Entity[]): void {
+        const despawned = new Set(entities);
+        for (const entity of entities) {
+            for (const child of entity.children) {
+                if (!despawned.has(child as Entity)) {
+                    child.setParent(null);
+                }
+            }
+        }
+        for (const entity of entities) {
+            entity.queueFree();
+        }
+        this.entityManager.cleanup();
+    }
+
+    /**
+     * Emits the onSceneChanged event.
+     * @internal
+     */
+    private emitSceneChanged(
+        scene: string,
+        action: SceneChangedEvent['action'],
+        additive: boolean,
+        previousActiveScene: string | null
+    ): void {
+        const event: SceneChangedEvent = {
+            scene,
+            action,
+            additive,
+            activeScene: this.sceneManager.getActiveScene(),
+            previousActiveScene,
+            timestamp: Date.now(),
+        };
+        this.eventEmitter.emit('onSceneChanged', event);
+    }
+
+    // ========== World Management ==========
+
+    /**
+     * Set the factory used to create additional worlds.
+     * @internal
+     */
+    setWorldFactory(factory: () => Engine): void {
+        this.worldFactory = factory;
+    }
+
+    /**
+     * Create an isolated world that shares this engine's setup.
+     *
+     * A world is an engine of its own: it has separate entities, singletons,
+     * queries and systems, and is stepped with its own `update()` or `tick()`.
+     * Registered components, validators, pools and prefabs are shared with
+     * every other world of the engine.
+     *
+     * Plugins belong to the world they were installed into. Other worlds share
+     * the components, validators, pools and prefabs a plugin registered, but do
+     * not report the plugin as installed, have none of its systems, queries,
+     * singletons or subscriptions, and do not expose its extensions. Give a
+     * world its own plugin systems by creating them on that world.
+     *
+     * @param name - Unique world name; the engine itself is the `'main'` world
+     * @returns The new world
+     * @throws Error if a world with the same name already exists
+     *
+     * @example
+     * ```typescript
+     * const match = engine.createWorld('match-42');
+     * match.createSystem('Movement', { all: [Position, Velocity] }, { act: move });
+     * match.createEntity('Player').addComponent(Position);
+     *
+     * // Step each world independently
+     * match.update(16);
+     * ```
+     */
+    createWorld(name: string): this {
+        if (!this.worldFactory) {
+            throw new Error('[ECS] createWorld() requires an engine created by EngineBuilder');
+        }
+        if (this.getWorld(name)) {
+            throw new Error(`[ECS] World "${name}" already exists`);
+        }
+
+        const world = this.worldFactory();
+        world.worldName = name;
+        world.worldFactory = this.worldFactory;
+        world.worlds = this.worlds;
+        world.mainWorld = this.mainWorld;
+        this.worlds.set(name, world);
+
+        if (this.debugMode) {
+            this._logger.debug(`Created world "${name}"`);
+        }
+        return world as this;
+    }
+
+    /**
+     * Get a world by name, including the `'main'` world.
+     */
+    getWorld(name: string): this | undefined {
+        if (name === this.mainWorld.worldName) {
+            return this.mainWorld as this;
+        }
+        return this.worlds.get(name) as this | undefined;
+    }
+
+    /**
+     * Get every world of this engine, starting with the main world.
+     *
+     * @example
+     * ```typescript
+     * for (const world of engine.getWorlds()) {
+     *   world.update(deltaTime);
+     * }
+     * ```
+     */
+    getWorlds(): this[] {
+        return [this.mainWorld, ...this.worlds.values()] as this[];
+    }
+
+    getWorldName(): string {
+        return this.worldName;
+    }
+
+    /**
+     * Destroy a world created with {@link Engine.createWorld}.
+     *
+     * @returns true if the world existed
+     * @throws Error if asked to destroy the main world; destroy the engine instead
+     */
+    destroyWorld(name: string): boolean {
+        if (name === this.mainWorld.worldName) {
+            throw new Error('[ECS] Cannot destroy the main world; destroy the engine instead');
+        }
+        const world = this.worlds.get(name);
+        if (!world) {
+            return false;
+        }
+        world.destroy();
+        return true;
+    }
+
+    /**
+     * Copy an entity, with its components, tags and children, into another world.
+     *
+     * Components are deep-copied. Relations are not copied because their targets
+     * live in the source world.
+     *
+     * @param entity - An entity of this world
+     * @param target - The world to copy into (may be this world)
+     * @returns The new entity in the target world
+     * @throws Error if the entity or target world does not belong to this engine
+     *
+     * @example
+     * ```typescript
+     * const preview = engine.createWorld('preview');
+     * const ghost = engine.copyEntityToWorld(building, preview);
+     * ```
+     */
+    copyEntityToWorld(entity: Entity, target: Engine): Entity {
+        this.assertTransferable(entity, target);
+        return target.spawnWorldCopy(entity);
+    }
+
+    /**
+     * Move an entity, with its components, tags and children, into another world.
+     *
+     * The entity is recreated in the target world and released from this one
+     * immediately, so the returned entity has a new ID. Relations are dropped.
+     * Call this between updates rather than from inside a system.
+     *
+     * @param entity - An entity of this world
+     * @param target - The world to move into
+     * @returns The entity in the target world (the same entity if target is this world)
+     * @throws Error if the entity or target world does not belong to this engine, or
+     * this world is in a transaction
+     *
+     * @example
+     * ```typescript
+     * const lobby = engine.getWorld('lobby');
+     * const match = engine.createWorld('match-1');
+     * for (const player of lobby.getEntitiesByTag('ready')) {
+     *   lobby.moveEntityToWorld(player, match);
+     * }
+     * ```
+     */
+    moveEntityToWorld(entity: Entity, target: Engine): Entity {
+        this.assertTransferable(entity, target);
+        if (this.inTransaction) {
+            throw new Error('[ECS] Cannot move entities out of a world during a transaction');
+        }
+        if (target === this) {
+            return entity;
+        }
+
+        const moved = target.spawnWorldCopy(entity);
+        for (const descendant of entity.getDescendants().toReversed()) {
+            this.entityManager.releaseEntity(descendant);
+        }
+        this.entityManager.releaseEntity(entity);
+        return moved;
+    }
+
+    private assertTransferable(entity: Entity, target: Engine): void {
+        if (this.entityManager.getEntity(entity.id) !== entity) {
+            throw new Error(
+                `[ECS] Entity ${entity.name || entity.numericId} does not belong to world "${this.worldName}"`
+            );
+        }
+        if (target.worlds !== this.worlds || target._isDestroyed) {
+            throw new Error(`[ECS] World "${target.worldName}" is not a world of this engine`);
+        }
+    }
+
+    private spawnWorldCopy(source: Entity): Entity {
+        const entity = this.createEntity(source.name);
+
+        // Built from the copied data, since the original constructor arguments are unknown
+        entity.applyComponentChanges(
+            source.getComponentTypes().map((componentType) => {
+                const type = componentType as ComponentIdentifier;
+                const data = cloneComponentData(type, source.getComponent(type));
+                return { type, args: [], data, restore: true };
+            }),
+            []
+        );
+
+        for (const tag of source.tags) {
+            entity.addTag(tag);
+        }
+
+        for (const child of source.children) {
+            entity.addChild(this.spawnWorldCopy(child as Entity));
+        }
+
+        return entity;
+    }
+
     // ========== Messaging ==========
 
-    get messageBus() {
+    /**
+     * The world's message bus for inter-system messages.
+     *
+     * Accepts message type strings or typed channels from `defineMessage()`. In
+     * debug mode, publishing on a channel runs its payload validator. Messages are
+     * delivered inside `publish()` unless their type has a queued delivery mode
+     * (see `setDeliveryMode`); `createReader` reads delivered messages from a system.
+     */
+    get messageBus(): EngineMessageBus {
+        const messageManager = this.messageManager;
         return {
-            subscribe: (messageType: string, callback: (message: any) => void) =>
-                this.messageManager.subscribe(messageType, callback),
-            publish: (messageType: string, data: any, sender?: string) =>
-                this.messageManager.publish(messageType, data, sender),
-            getMessageHistory: (messageType?: string) =>
-                this.messageManager.getHistory(messageType),
-        };
+            subscribe: (key: string | MessageChannel<unknown>, callback: (message: any) => void) =>
+                messageManager.subscribe(channelName(key), callback),
+            publish: (key: string | MessageChannel<unknown>, data: unknown, sender?: string) =>
+                messageManager.publishKey(key, data, sender),
+            getMessageHistory: (key?: string | MessageChannel<unknown>) =>
+                messageManager.getHistory(key === undefined ? undefined : channelName(key)),
+            setDeliveryMode: (key: string | MessageChannel<unknown>, mode: MessageDeliveryMode) =>
+                messageManager.setDeliveryMode(key, mode),
+            getDeliveryMode: (key: string | MessageChannel<unknown>) =>
+                messageManager.getDeliveryMode(key),
+            createReader: (key: string | MessageChannel<unknown>) =>
+                messageManager.createReader(channelName(key)),
+        } as EngineMessageBus;
+    }
+
+    // ========== Time ==========
+
+    /**
+     * The world's time: scaled and unscaled frame timing, the global and per-group
+     * time scales, pause layers and timers.
+     *
+     * Systems receive the scaled delta time (times their group's scale) from
+     * `update()`; timers fire in the command phase at the end of the update.
+     *
+     * @example
+     * ```typescript
+     * engine.time.timeScale = 0.5;          // Slow motion
+     * engine.time.pause('gameplay');        // Skip groups with pauseLayer 'gameplay'
+     * engine.time.after(2000, () => engine.commands.despawn(explosion));
+     * ```
+     */
+    get time(): Time {
+        return this._time;
     }
 
     // ========== Logging ==========
@@ -2104,16 +3330,39 @@ export class Engine {
 
     // ========== Events ==========
 
-    on(event: string, callback: (...args: any[]) => void): () => void {
-        return this.eventEmitter.on(event, callback);
+    /**
+     * Listen to an engine event by name or through a typed channel from `defineEvent()`.
+     * @returns A function that removes the listener
+     */
+    on<Args extends unknown[]>(
+        event: EventChannel<Args>,
+        callback: (...args: Args) => void
+    ): () => void;
+    on(event: string, callback: (...args: any[]) => void): () => void;
+    on(
+        event: string | EventChannel<unknown[]>,
+        callback: (...args: unknown[]) => void
+    ): () => void {
+        return this.eventEmitter.on(channelName(event), callback);
     }
 
-    off(event: string, callback: (...args: any[]) => void): void {
-        this.eventEmitter.off(event, callback);
+    off<Args extends unknown[]>(event: EventChannel<Args>, callback: (...args: Args) => void): void;
+    off(event: string, callback: (...args: any[]) => void): void;
+    off(event: string | EventChannel<unknown[]>, callback: (...args: unknown[]) => void): void {
+        this.eventEmitter.off(channelName(event), callback);
     }
 
-    emit(event: string, ...args: any[]): void {
-        this.eventEmitter.emit(event, ...args);
+    /**
+     * Emit an engine event by name or through a typed channel from `defineEvent()`.
+     * @throws Error in debug mode if the channel's validator rejects the arguments
+     */
+    emit<Args extends unknown[]>(event: EventChannel<Args>, ...args: Args): void;
+    emit(event: string, ...args: any[]): void;
+    emit(event: string | EventChannel<unknown[]>, ...args: unknown[]): void {
+        if (this.debugMode && typeof event !== 'string') {
+            assertPayload(event, args);
+        }
+        this.eventEmitter.emit(channelName(event), ...args);
     }
 
     // ========== Engine Lifecycle ==========
@@ -2169,6 +3418,15 @@ export class Engine {
 
         this._isDestroyed = true;
 
+        // Destroying the main world destroys every other world with it
+        if (this.mainWorld === this) {
+            for (const world of this.worlds.values()) {
+                world.destroy();
+            }
+        } else {
+            this.worlds.delete(this.worldName);
+        }
+
         // Stop the engine if running
         if (this.running) {
             this.stop();
@@ -2183,6 +3441,12 @@ export class Engine {
         // Dispose of entity manager event listeners
         this.entityManager.dispose();
 
+        // Dispose of scene manager event listeners
+        this.sceneManager.dispose();
+
+        // Dispose of transaction journal event listeners
+        this.transactionManager.dispose();
+
         // Dispose of change tracking manager (clears debounce timers)
         this.changeTrackingManager.dispose();
 
@@ -2209,51 +3473,365 @@ export class Engine {
         }
     }
 
-    update(deltaTime?: number): void {
-        const now = performance.now();
-        const dt = deltaTime !== undefined ? deltaTime : now - this.lastUpdateTime;
-        this.lastUpdateTime = now;
-
-        this.performanceMonitor.addSample(dt);
-
-        // Execute fixed update systems
-        this.systemManager.executeFixedSystems(dt, this.debugMode);
+    update(deltaTime?: number): void {
+        const now = performance.now();
+        const dt = deltaTime !== undefined ? deltaTime : now - this.lastUpdateTime;
+        this.lastUpdateTime = now;
+
+        this.performanceMonitor.addSample(dt);
+
+        // Deterministic mode only advances in whole fixed ticks
+        if (this.deterministic) {
+            const ticks = this.systemManager.advanceFixedTime(
+                dt * this._time.timeScale,
+                this.debugMode
+            );
+            for (let i = 0; i < ticks; i++) {
+                this.tick();
+            }
+            return;
+        }
+
+        const scaledDelta = this._time.advance(dt);
+
+        // Execute fixed update systems
+        this.systemManager.executeFixedSystems(scaledDelta, this.debugMode);
+
+        // Execute variable update systems
+        this.systemManager.executeVariableSystems(scaledDelta);
+
+        this.finishUpdate();
+    }
+
+    /**
+     * Delivers end-of-frame messages, fires due timers, runs deferred commands,
+     * refreshes queries for dirty entities and removes entities queued for
+     * deletion at the end of an update.
+     * @internal
+     */
+    private finishUpdate(): void {
+        // Messages published outside a system are still waiting in the end-of-system queue
+        this.messageManager.flush('endOfSystem');
+        this.messageManager.flush('endOfFrame');
+
+        // Timers fire in the command phase, so the commands they queue run below
+        this._time.runTimers();
+
+        // Execute deferred commands (if auto-execute is enabled)
+        if (this.autoExecuteCommands && this.commandBuffer.hasPendingCommands) {
+            this.commandBuffer.execute();
+        }
+
+        // Update queries for all dirty entities
+        for (const entity of this.entityManager.getAllEntities()) {
+            if (entity.isDirty) {
+                this.queryManager.updateQueries(entity);
+                entity.clearDirty();
+            }
+        }
+
+        // Clean up deleted entities, unless a transaction may still undo their deletion
+        if (!this.inTransaction) {
+            this.entityManager.cleanup();
+        }
+
+        this.messageManager.swapReaderBuffers();
+    }
+
+    // ========== Deterministic Simulation ==========
+
+    /**
+     * The engine's seeded random number generator.
+     *
+     * Seeded from {@link EngineBuilder.withDeterminism} in deterministic mode and
+     * from the current time otherwise. Its state is part of recordings, so systems
+     * should use it instead of `Math.random()`.
+     *
+     * @example
+     * ```typescript
+     * engine.createSystem('Spawner', { all: [Spawner] }, {
+     *   act: (entity, spawner) => {
+     *     if (engine.random.chance(spawner.rate)) {
+     *       engine.commands.spawn().with(Position, engine.random.range(0, 800), 0);
+     *     }
+     *   }
+     * });
+     * ```
+     */
+    get random(): SeededRandom {
+        return this._random;
+    }
+
+    /**
+     * Check whether the engine runs in deterministic fixed-step mode.
+     */
+    isDeterministic(): boolean {
+        return this.deterministic;
+    }
+
+    /**
+     * Get the number of ticks run so far (see {@link Engine.tick}).
+     */
+    getTick(): number {
+        return this.currentTick;
+    }
+
+    /**
+     * Queue an input for the next tick.
+     *
+     * Inputs are handed to systems through {@link Engine.getTickInputs} and are
+     * stored in recordings, so everything that influences the simulation from the
+     * outside (player commands, network messages) should enter through here.
+     * Inputs should be plain data for recordings to survive `JSON.stringify`.
+     *
+     * @param input - Input data, e.g. `{ player: 1, action: 'jump' }`
+     *
+     * @example
+     * ```typescript
+     * window.addEventListener('keydown', (e) => engine.queueInput({ key: e.key }));
+     *
+     * engine.createSystem('PlayerInput', { all: [Player, Velocity] }, {
+     *   act: (entity, player, velocity) => {
+     *     for (const input of engine.getTickInputs() as KeyInput[]) {
+     *       if (input.key === 'ArrowUp') velocity.y = -1;
+     *     }
+     *   }
+     * });
+     * ```
+     */
+    queueInput(input: unknown): void {
+        this.queuedInputs.push(input);
+    }
+
+    /**
+     * Get the inputs of the tick currently running.
+     *
+     * @returns Inputs queued before the tick started, in queue order (empty outside a tick)
+     */
+    getTickInputs(): readonly unknown[] {
+        return this.tickInputs;
+    }
+
+    /**
+     * Advance the simulation by exactly one fixed tick.
+     *
+     * Consumes the queued inputs, runs every fixed update system once and every
+     * variable update system with the fixed timestep, then executes deferred
+     * commands and entity cleanup like {@link Engine.update}. In deterministic
+     * mode `update()` drives the simulation through this method; it can also be
+     * called directly, e.g. by a lockstep network loop.
+     */
+    tick(): void {
+        this.tickInputs = this.queuedInputs;
+        this.queuedInputs = [];
+
+        const timestep = this.systemManager.getFixedTimestep();
+        // Each tick advances time by exactly one timestep
+        this._time.advance(timestep, timestep);
+        this.systemManager.executeFixedStep();
+        this.systemManager.executeVariableSystems(timestep);
+        this.finishUpdate();
+        this.currentTick++;
+
+        if (this.recording) {
+            const record: RecordedTick = {
+                tick: this.currentTick,
+                inputs: this.tickInputs.map((input) => deepCloneComponent(input)),
+            };
+            if (this.recording.checksums) {
+                record.checksum = this.getChecksum();
+            }
+            this.recording.data.ticks.push(record);
+        }
+
+        this.tickInputs = [];
+    }
+
+    /**
+     * Compute a checksum of the current world state.
+     *
+     * Covers entities, components, tags, hierarchy and singletons (see
+     * {@link computeWorldChecksum}). Peers running the same deterministic
+     * simulation can exchange checksums to detect desyncs.
+     *
+     * @returns An unsigned 32-bit checksum
+     */
+    getChecksum(): number {
+        // Systems mutate components in place, which cached serializations don't see
+        return computeWorldChecksum(this.serializeWorld(true));
+    }
+
+    /**
+     * Start recording ticks for later replay.
+     *
+     * The recording captures the random number generator state, the current tick
+     * and a checksum of the current world, followed by the inputs (and optionally a
+     * checksum) of every tick until {@link Engine.stopRecording} is called.
+     *
+     * @param options - Recording options
+     * @throws Error if the engine is not in deterministic mode or already recording
+     *
+     * @example
+     * ```typescript
+     * engine.startRecording();
+     * // ... play ...
+     * const recording = engine.stopRecording();
+     * localStorage.setItem('replay', JSON.stringify(recording));
+     * ```
+     */
+    startRecording(options: RecordingOptions = {}): void {
+        this.assertDeterministic('startRecording');
+        if (this.recording) {
+            throw new Error('[ECS] Cannot start recording: a recording is already in progress');
+        }
+
+        this.recording = {
+            checksums: options.checksums ?? true,
+            data: {
+                seed: this._random.seed,
+                randomState: this._random.getState(),
+                startTick: this.currentTick,
+                fixedTimestep: this.systemManager.getFixedTimestep(),
+                initialChecksum: this.getChecksum(),
+                ticks: [],
+            },
+        };
+    }
+
+    /**
+     * Stop recording and return the recorded session.
+     *
+     * @returns The recording
+     * @throws Error if no recording is in progress
+     */
+    stopRecording(): InputRecording {
+        if (!this.recording) {
+            throw new Error('[ECS] Cannot stop recording: no recording is in progress');
+        }
+        const { data } = this.recording;
+        this.recording = undefined;
+        return data;
+    }
+
+    /**
+     * Check whether ticks are currently being recorded.
+     */
+    isRecording(): boolean {
+        return this.recording !== undefined;
+    }
 
-        // Execute variable update systems
-        this.systemManager.executeVariableSystems(dt);
+    /**
+     * Replay a recorded session on this engine.
+     *
+     * The engine must be in the state the recording started from, with the same
+     * systems created — typically a fresh engine set up by the same code. The
+     * random number generator and tick counter are restored from the recording,
+     * then every recorded tick is run with its inputs. Replay stops at the first
+     * checksum mismatch, which is reported in the result.
+     *
+     * @param recording - A recording from {@link Engine.stopRecording}
+     * @returns The number of replayed ticks and the first desync, if any
+     * @throws Error if the engine is not in deterministic mode, is recording, or
+     * uses a different fixed timestep than the recording
+     *
+     * @example
+     * ```typescript
+     * const replayEngine = createGame({ seed: recording.seed });
+     * const result = replayEngine.replay(recording);
+     * if (result.desync) {
+     *   console.error(`Desync at tick ${result.desync.tick}`);
+     * }
+     * ```
+     */
+    replay(recording: InputRecording): ReplayResult {
+        this.assertDeterministic('replay');
+        if (this.recording) {
+            throw new Error('[ECS] Cannot replay while recording');
+        }
+        const timestep = this.systemManager.getFixedTimestep();
+        if (recording.fixedTimestep !== timestep) {
+            throw new Error(
+                `[ECS] Cannot replay: recording uses a ${recording.fixedTimestep}ms fixed timestep, engine uses ${timestep}ms`
+            );
+        }
 
-        // Execute deferred commands (if auto-execute is enabled)
-        if (this.autoExecuteCommands && this.commandBuffer.hasPendingCommands) {
-            this.commandBuffer.execute();
+        const initialChecksum = this.getChecksum();
+        if (initialChecksum !== recording.initialChecksum) {
+            return {
+                ticksReplayed: 0,
+                desync: {
+                    tick: recording.startTick,
+                    expected: recording.initialChecksum,
+                    actual: initialChecksum,
+                },
+            };
         }
 
-        // Update queries for all dirty entities
-        for (const entity of this.entityManager.getAllEntities()) {
-            if (entity.isDirty) {
-                this.queryManager.updateQueries(entity);
-                entity.clearDirty();
+        this._random.setState(recording.randomState);
+        this.currentTick = recording.startTick;
+        this.queuedInputs = [];
+
+        let ticksReplayed = 0;
+        for (const recorded of recording.ticks) {
+            for (const input of recorded.inputs) {
+                this.queueInput(deepCloneComponent(input));
+            }
+            this.tick();
+            ticksReplayed++;
+
+            if (recorded.checksum !== undefined) {
+                const checksum = this.getChecksum();
+                if (checksum !== recorded.checksum) {
+                    return {
+                        ticksReplayed,
+                        desync: {
+                            tick: recorded.tick,
+                            expected: recorded.checksum,
+                            actual: checksum,
+                        },
+                    };
+                }
             }
         }
 
-        // Clean up deleted entities
-        this.entityManager.cleanup();
+        return { ticksReplayed };
+    }
+
+    private assertDeterministic(operation: string): void {
+        if (!this.deterministic) {
+            throw new Error(
+                `[ECS] ${operation}() requires deterministic mode; enable it with EngineBuilder.withDeterminism()`
+            );
+        }
     }
 
     // ========== Serialization ==========
 
     serialize(): SerializedWorld {
+        return this.serializeWorld(false);
+    }
+
+    /**
+     * Serializes root entities (with their children) and singletons.
+     * @param bypassCache - Re-read component data instead of using cached entity serializations
+     * @internal
+     */
+    private serializeWorld(bypassCache: boolean): SerializedWorld {
         const entities = this.entityManager
             .getAllEntities()
             .filter((entity) => !entity.parent) // Only serialize root entities
-            .map((entity) => entity.serialize());
+            .map((entity) => entity.serialize(bypassCache));
 
         // Serialize singleton components
         const singletons: Record<string, unknown> = {};
         const allSingletons = this.componentManager.getAllSingletons();
 
         for (const [componentType, component] of allSingletons) {
+            const fields = this.componentManager.getSchema(componentType)?.fields;
             // Spread object components or wrap primitives
-            if (component !== null && typeof component === 'object') {
+            if (fields) {
+                singletons[componentType.name] = serializeFields(fields, component);
+            } else if (component !== null && typeof component === 'object') {
                 singletons[componentType.name] = { ...(component as object) };
             } else {
                 singletons[componentType.name] = component;
@@ -2261,12 +3839,168 @@ export class Engine {
         }
 
         return {
+            formatVersion: SERIALIZED_WORLD_FORMAT_VERSION,
             entities,
             singletons,
+            componentVersions: this.componentManager.getComponentVersions(),
             timestamp: Date.now(),
         };
     }
 
+    /**
+     * Load a serialized world into this engine.
+     *
+     * Rebuilds entities, hierarchies, tags and singletons from data produced by
+     * {@link Engine.serialize} — typically in a previous process via `JSON.stringify`.
+     * Component names are resolved through the component registry, so every component
+     * type must be registered (see {@link Engine.registerComponent}) before loading.
+     * Names that cannot be resolved are reported in the result rather than dropped silently.
+     * Component data saved with an older schema version is migrated first
+     * (see {@link Engine.registerComponentSchema}).
+     *
+     * @param serializedWorld - The serialized world data
+     * @param options - Deserialization options
+     * @returns The recreated entities and any components that could not be resolved
+     * @throws Error if the world format is unsupported or a component migration is missing
+     *
+     * @example
+     * ```typescript
+     * engine.registerComponent(Position);
+     * engine.registerComponent(Health);
+     *
+     * const result = engine.deserialize(JSON.parse(saveFile));
+     * for (const unknown of result.unknownComponents) {
+     *   console.warn(`Skipped ${unknown.componentName} on entity ${unknown.entityName}`);
+     * }
+     * ```
+     */
+    deserialize(
+        serializedWorld: SerializedWorld,
+        options: DeserializeOptions = {}
+    ): DeserializeResult<Entity> {
+        const { clearExisting = true, restoreSingletons = true, strict = false } = options;
+
+        if (!serializedWorld || !Array.isArray(serializedWorld.entities)) {
+            throw new Error('[ECS] Cannot deserialize world: "entities" must be an array');
+        }
+
+        const world = this.componentManager.migrateSerializedWorld(serializedWorld);
+
+        const unknownComponents = this.findUnknownComponents(world, restoreSingletons);
+        if (strict && unknownComponents.length > 0) {
+            const names = [...new Set(unknownComponents.map((report) => report.componentName))];
+            throw new Error(
+                `[ECS] Cannot deserialize world: unregistered component type(s) ${names.join(', ')}`
+            );
+        }
+
+        if (clearExisting) {
+            this.clearAllEntitiesForRestore();
+        }
+
+        const entityMap = new Map<string, Entity>();
+        const rootEntities = world.entities.map((serializedEntity) =>
+            this.recreateEntityFromSnapshot(serializedEntity, entityMap)
+        );
+
+        if (restoreSingletons) {
+            this.restoreSnapshotSingletons(world.singletons);
+        }
+        this.remapRestoredHandles(world, entityMap, restoreSingletons);
+        this.updateQueriesForRestoredEntities(entityMap);
+
+        if (this.debugMode) {
+            this._logger.debug(
+                `World deserialized (${entityMap.size} entities, ${unknownComponents.length} unknown components)`
+            );
+            for (const report of unknownComponents) {
+                this._logger.warn(
+                    report.entityId === undefined
+                        ? `Unknown singleton component "${report.componentName}" was not loaded`
+                        : `Unknown component "${report.componentName}" on entity ${report.entityName ?? report.entityId} was not loaded`
+                );
+            }
+        }
+
+        return { rootEntities, entityMap, unknownComponents };
+    }
+
+    /**
+     * Serialize the world into the compact binary format.
+     *
+     * Equivalent to `encodeWorldBinary(engine.serialize())`; considerably smaller and
+     * faster than JSON for large worlds.
+     *
+     * @returns The binary world data
+     *
+     * @example
+     * ```typescript
+     * const bytes = engine.serializeBinary();
+     * socket.send(bytes);
+     * ```
+     */
+    serializeBinary(): Uint8Array {
+        return encodeWorldBinary(this.serialize());
+    }
+
+    /**
+     * Load a world from data produced by {@link Engine.serializeBinary}.
+     *
+     * @param bytes - The binary world data
+     * @param options - Deserialization options (see {@link Engine.deserialize})
+     * @returns The recreated entities and any components that could not be resolved
+     */
+    deserializeBinary(
+        bytes: Uint8Array,
+        options: DeserializeOptions = {}
+    ): DeserializeResult<Entity> {
+        return this.deserialize(decodeWorldBinary(bytes), options);
+    }
+
+    /**
+     * Collects serialized components and singletons whose names are not registered.
+     * @param world - The serialized world data
+     * @param includeSingletons - Whether singleton components should be checked
+     * @returns A report entry for each unresolved component
+     * @internal
+     */
+    private findUnknownComponents(
+        world: SerializedWorld,
+        includeSingletons: boolean
+    ): UnknownComponentReport[] {
+        const reports: UnknownComponentReport[] = [];
+
+        const visit = (serializedEntity: SerializedEntity): void => {
+            for (const [componentName, data] of Object.entries(serializedEntity.components ?? {})) {
+                if (!this.componentManager.getComponentByName(componentName)) {
+                    reports.push({
+                        componentName,
+                        entityId: serializedEntity.id,
+                        entityName: serializedEntity.name,
+                        data,
+                    });
+                }
+            }
+            for (const child of serializedEntity.children ?? []) {
+                visit(child);
+            }
+        };
+
+        for (const serializedEntity of world.entities) {
+            visit(serializedEntity);
+        }
+
+        if (includeSingletons && world.singletons) {
+            for (const [componentName, data] of Object.entries(world.singletons)) {
+                if (!this.componentManager.getComponentByName(componentName)) {
+                    reports.push({ componentName, data });
+                }
+            }
+        }
+
+        return reports;
+    }
+
     // ========== Statistics and Debugging ==========
 
     getMemoryStats(): MemoryStats {
@@ -2511,21 +4245,53 @@ export class Engine {
     // ========== Plugin System ==========
 
     /**
-     * Create a plugin context for a plugin to use during installation
+     * Create a plugin context for a plugin to use during installation.
+     *
+     * Everything the plugin creates through the context is recorded in the
+     * tracker, so it can be removed when the plugin is uninstalled. When a
+     * plugin is hot-swapped, systems, singletons and extensions it recreates are
+     * taken over from the previous version's tracker instead of being replaced.
      */
-    private createPluginContext(): PluginContext {
+    private createPluginContext(
+        tracker: PluginResourceTracker,
+        previous?: PluginResourceTracker
+    ): PluginContext {
+        const world = this.worldName;
+        const track = (kind: PluginResourceKind, name: string, release?: () => void) =>
+            tracker.track({ kind, name, world }, release);
+        const trackPrefab = (name: string, prefab: EntityPrefab): void => {
+            track('prefab', name, () => {
+                if (this.prefabManager.get(name) === prefab) {
+                    this.unregisterPrefab(name);
+                }
+            });
+        };
+
         return {
             registerComponent: <T>(type: ComponentIdentifier<T>): void => {
                 this.registerComponent(type);
+                track('component', type.name);
             },
             registerComponentValidator: <T>(
                 type: ComponentIdentifier<T>,
                 validator: ComponentValidator<T>
             ): void => {
                 this.registerComponentValidator(type, validator);
+                track('validator', type.name);
             },
             setSingleton: <T>(type: ComponentIdentifier<T>, ...args: any[]): T => {
-                return this.setSingleton(type, ...args);
+                // Keep the running value of a singleton the previous version created
+                const kept =
+                    this.hasSingleton(type) && previous?.claim('singleton', type.name)
+                        ? this.getSingleton(type)
+                        : undefined;
+                const singleton = kept ?? this.setSingleton(type, ...args);
+                track('singleton', type.name, () => {
+                    if (this.getSingleton(type) === singleton) {
+                        this.removeSingleton(type);
+                    }
+                });
+                return singleton;
             },
             getSingleton: <T>(type: ComponentIdentifier<T>): T | undefined => {
                 return this.getSingleton(type);
@@ -2542,28 +4308,50 @@ export class Engine {
                 options: SystemType<ComponentTypes<All>>,
                 isFixedUpdate?: boolean
             ): System<ComponentTypes<All>> => {
-                return this.createSystem(name, queryOptions, options, isFixedUpdate ?? false);
+                const existing = this.getSystem(name);
+                const system =
+                    existing && previous?.claim('system', name)
+                        ? this.hotSwapSystem(name, options)
+                        : this.createSystem(name, queryOptions, options, isFixedUpdate ?? false);
+                track('system', name, () => {
+                    if (this.getSystem(name) === system) {
+                        this.removeSystem(name);
+                    }
+                });
+                return system;
             },
             createQuery: <All extends readonly ComponentIdentifier[]>(
                 options: QueryOptions<All>
             ): Query<ComponentTypes<All>> => {
-                return this.createQuery(options);
+                const query = this.createQuery(options);
+                const components = (options.all ?? []).map((type) => type.name).join(', ');
+                track('query', `Query(${components})`, () => {
+                    this.removeQuery(query);
+                });
+                return query;
             },
             registerPrefab: (name: string, prefab: EntityPrefab): void => {
                 this.registerPrefab(name, prefab);
+                trackPrefab(name, prefab);
             },
             definePrefab: (
                 name: string,
                 factory: (...args: any[]) => Omit<EntityPrefab, 'factory' | 'parent'>
             ): EntityPrefab => {
-                return this.definePrefab(name, factory);
+                const prefab = this.definePrefab(name, factory);
+                trackPrefab(name, prefab);
+                return prefab;
             },
             extendPrefab: (
                 baseName: string,
                 overrides: Partial<EntityPrefab>,
                 newName?: string
             ): EntityPrefab => {
-                return this.extendPrefab(baseName, overrides, newName);
+                const extended = this.extendPrefab(baseName, overrides, newName);
+                if (newName) {
+                    trackPrefab(newName, extended);
+                }
+                return extended;
             },
             variantOfPrefab: (
                 baseName: string,
@@ -2574,10 +4362,19 @@ export class Engine {
                 },
                 newName?: string
             ): EntityPrefab => {
-                return this.variantOfPrefab(baseName, overrides, newName);
+                const variant = this.variantOfPrefab(baseName, overrides, newName);
+                if (newName) {
+                    trackPrefab(newName, variant);
+                }
+                return variant;
             },
             on: (event: string, callback: (...args: any[]) => void): (() => void) => {
-                return this.on(event, callback);
+                const unsubscribe = this.on(event, callback);
+                const untrack = track('listener', event, unsubscribe);
+                return () => {
+                    untrack();
+                    unsubscribe();
+                };
             },
             emit: (event: string, ...args: any[]): void => {
                 this.emit(event, ...args);
@@ -2587,19 +4384,32 @@ export class Engine {
                     messageType: string,
                     callback: (message: any) => void
                 ): (() => void) => {
-                    return this.messageBus.subscribe(messageType, callback);
+                    const unsubscribe = this.messageBus.subscribe(messageType, callback);
+                    const untrack = track('subscription', messageType, unsubscribe);
+                    return () => {
+                        untrack();
+                        unsubscribe();
+                    };
                 },
                 publish: (messageType: string, data: any, sender?: string): void => {
                     this.messageBus.publish(messageType, data, sender);
                 },
             },
             extend: <T extends object>(extensionName: string, api: T): void => {
-                if (this.extensions.has(extensionName)) {
+                const replacing = previous?.claim('extension', extensionName) ?? false;
+                if (this.extensions.has(extensionName) && !replacing) {
                     throw new Error(`[ECS] Extension '${extensionName}' already exists`);
                 }
                 this.extensions.set(extensionName, api);
                 // Dynamically add extension to engine instance
-                (this as any)[extensionName] = api;
+                Object.assign(this, { [extensionName]: api });
+                track('extension', extensionName, () => {
+                    if (this.extensions.get(extensionName) !== api) {
+                        return;
+                    }
+                    this.extensions.delete(extensionName);
+                    Reflect.deleteProperty(this, extensionName);
+                });
             },
             logger: this._logger,
             getEngine: (): Engine => {
@@ -2609,51 +4419,275 @@ export class Engine {
     }
 
     /**
-     * Install a plugin into the engine
+     * Install a plugin into the engine.
+     *
+     * The plugin's required and peer dependencies must already be installed and
+     * match their declared version ranges. A plugin whose install hook returns a
+     * Promise finishes installing in the background; use
+     * {@link installPluginAsync} to wait for it.
+     *
+     * @param plugin - The plugin to install
+     * @throws Error if a dependency is missing, has an unsuitable version or is still installing
      */
     installPlugin(plugin: EnginePlugin): void {
-        if (this.installedPlugins.has(plugin.name)) {
-            if (this.debugMode) {
-                this._logger.warn(`Plugin '${plugin.name}' is already installed`);
+        this.installPlugins([plugin]);
+    }
+
+    /**
+     * Install several plugins, each after the plugins it depends on.
+     *
+     * Plugins are ordered by their `dependencies` and present
+     * `optionalDependencies`; otherwise they keep the given order. All
+     * dependencies are validated before any plugin is installed.
+     *
+     * @param plugins - The plugins to install
+     * @throws Error on a missing dependency, a version mismatch, a dependency cycle,
+     *   or a dependency whose async install has not finished
+     *
+     * @example
+     * ```typescript
+     * engine.installPlugins([ragdollPlugin, physicsPlugin]); // physics installs first
+     * ```
+     */
+    installPlugins(plugins: readonly EnginePlugin[]): void {
+        for (const plugin of this.resolvePluginOrder(plugins)) {
+            for (const name of getOrderingDependencies(plugin)) {
+                if (this.pendingPlugins.has(name)) {
+                    throw new Error(
+                        `[ECS] Plugin "${plugin.name}" depends on "${name}", which is still installing; ` +
+                            'use installPluginAsync() or EngineBuilder.buildAsync()'
+                    );
+                }
             }
-            return;
+
+            const context = this.createPluginContext(this.trackPluginResources(plugin));
+            let result: void | Promise<void>;
+            try {
+                result = plugin.install(context);
+            } catch (error) {
+                this.releasePluginResources(plugin.name);
+                throw error;
+            }
+
+            // Async installs finish in the background; installPluginAsync() awaits them
+            if (result instanceof Promise) {
+                const pending = result
+                    .then(() => this.recordInstalledPlugin(plugin))
+                    .catch((error) => {
+                        this.releasePluginResources(plugin.name);
+                        this._logger.error(`Failed to install plugin '${plugin.name}':`, error);
+                    })
+                    .finally(() => this.pendingPlugins.delete(plugin.name));
+                this.pendingPlugins.set(plugin.name, { plugin, promise: pending });
+            } else {
+                this.recordInstalledPlugin(plugin);
+            }
+        }
+    }
+
+    /**
+     * Install a plugin and wait for its install hook to finish.
+     *
+     * Unlike {@link installPlugin}, a failing async install rejects the
+     * returned Promise instead of only being logged.
+     *
+     * @param plugin - The plugin to install
+     * @returns A Promise that resolves once the plugin is installed
+     *
+     * @example
+     * ```typescript
+     * await engine.installPluginAsync(new AssetPlugin());
+     * engine.assets.get('player.png'); // Ready to use
+     * ```
+     */
+    installPluginAsync(plugin: EnginePlugin): Promise<void> {
+        return this.installPluginsAsync([plugin]);
+    }
+
+    /**
+     * Install several plugins in dependency order, awaiting each install hook
+     * before starting the next.
+     *
+     * Async installs started earlier with {@link installPlugin} are awaited first.
+     *
+     * @param plugins - The plugins to install
+     * @returns A Promise that resolves once every plugin is installed
+     */
+    async installPluginsAsync(plugins: readonly EnginePlugin[]): Promise<void> {
+        await Promise.all(Array.from(this.pendingPlugins.values(), ({ promise }) => promise));
+
+        for (const plugin of this.resolvePluginOrder(plugins)) {
+            const context = this.createPluginContext(this.trackPluginResources(plugin));
+            try {
+                // eslint-disable-next-line no-await-in-loop -- Each install finishes before its dependents start
+                await plugin.install(context);
+            } catch (error) {
+                this.releasePluginResources(plugin.name);
+                throw error;
+            }
+            this.recordInstalledPlugin(plugin);
         }
+    }
 
-        const context = this.createPluginContext();
-        const result = plugin.install(context);
+    /**
+     * Order plugins for installation, skipping those already installed or installing.
+     */
+    private resolvePluginOrder(plugins: readonly EnginePlugin[]): EnginePlugin[] {
+        const known = new Map<string, EnginePlugin>();
+        for (const [name, { plugin }] of this.installedPlugins) {
+            known.set(name, plugin);
+        }
 
-        // Handle async installation
-        if (result instanceof Promise) {
-            result
-                .then(() => {
-                    this.installedPlugins.set(plugin.name, {
-                        plugin,
-                        installedAt: Date.now(),
-                    });
-                    this.eventEmitter.emit('onPluginInstalled', plugin);
-                    if (this.debugMode) {
-                        this._logger.debug(`Plugin '${plugin.name}' installed successfully`);
-                    }
-                })
-                .catch((error) => {
-                    this._logger.error(`Failed to install plugin '${plugin.name}':`, error);
-                });
-        } else {
-            this.installedPlugins.set(plugin.name, {
-                plugin,
-                installedAt: Date.now(),
-            });
-            this.eventEmitter.emit('onPluginInstalled', plugin);
-            if (this.debugMode) {
-                this._logger.debug(`Plugin '${plugin.name}' installed successfully`);
+        const toInstall: EnginePlugin[] = [];
+        for (const plugin of plugins) {
+            if (this.installedPlugins.has(plugin.name) || this.pendingPlugins.has(plugin.name)) {
+                if (this.debugMode) {
+                    this._logger.warn(`Plugin '${plugin.name}' is already installed`);
+                }
+                continue;
             }
+            toInstall.push(plugin);
+        }
+
+        // Plugins still installing count as present so their dependents fail with a clear message
+        for (const [name, { plugin }] of this.pendingPlugins) {
+            known.set(name, plugin);
+        }
+
+        return resolvePluginOrder(toInstall, known);
+    }
+
+    /**
+     * Replace an installed plugin with a new version without losing world state.
+     *
+     * The previous version's `uninstall()` hook runs, then the new version's
+     * `install()`. Systems the new version creates under names the previous
+     * version used are hot-swapped in place (see {@link hotSwapSystem}),
+     * singletons it sets keep their running values, and its extensions replace
+     * the previous ones. Anything else the previous version created and the new
+     * one does not is removed, as on uninstall. A plugin that is not installed
+     * is simply installed.
+     *
+     * @param plugin - The new version of the plugin
+     * @returns A Promise that resolves once the new version is installed
+     * @throws Error if the new version's dependencies are not satisfied, or if
+     *   it no longer satisfies the ranges of plugins that depend on it
+     *
+     * @remarks
+     * If the new install fails, the plugin is uninstalled: everything both
+     * versions created is removed and the error is rethrown.
+     *
+     * @example
+     * ```typescript
+     * // From a hot module reload of physics-plugin.ts
+     * await engine.hotSwapPlugin(new PhysicsPlugin());
+     * ```
+     */
+    async hotSwapPlugin(plugin: EnginePlugin): Promise<void> {
+        const installed = this.installedPlugins.get(plugin.name);
+        if (!installed) {
+            await this.installPluginAsync(plugin);
+            return;
+        }
+
+        const lookup = (name: string): EnginePlugin | undefined =>
+            name === plugin.name ? plugin : this.installedPlugins.get(name)?.plugin;
+        checkPluginDependencies(plugin, lookup);
+        const plugins = Array.from(this.installedPlugins.values(), (entry) => entry.plugin);
+        for (const dependent of getPluginDependents(plugin.name, plugins)) {
+            checkPluginDependencies(dependent, lookup);
+        }
+
+        await installed.plugin.uninstall?.();
+
+        const previous =
+            this.pluginResources.get(plugin.name) ?? new PluginResourceTracker(plugin.name);
+        const context = this.createPluginContext(this.trackPluginResources(plugin), previous);
+        try {
+            await plugin.install(context);
+        } catch (error) {
+            this.releasePluginResources(plugin.name);
+            this.releasePluginResources(plugin.name, previous);
+            this.installedPlugins.delete(plugin.name);
+            this.eventEmitter.emit('onPluginUninstalled', installed.plugin);
+            throw error;
+        }
+
+        this.releasePluginResources(plugin.name, previous);
+        this.installedPlugins.set(plugin.name, { plugin, installedAt: Date.now() });
+        if (this.debugMode) {
+            this._logger.debug(`Plugin '${plugin.name}' hot-swapped successfully`);
+        }
+    }
+
+    /**
+     * Start recording the resources a plugin creates.
+     */
+    private trackPluginResources(plugin: EnginePlugin): PluginResourceTracker {
+        const tracker = new PluginResourceTracker(plugin.name);
+        this.pluginResources.set(plugin.name, tracker);
+        return tracker;
+    }
+
+    /**
+     * Remove the resources a plugin created and keep the report.
+     */
+    private releasePluginResources(
+        pluginName: string,
+        tracker: PluginResourceTracker | undefined = this.pluginResources.get(pluginName)
+    ): PluginCleanupReport {
+        if (tracker === this.pluginResources.get(pluginName)) {
+            this.pluginResources.delete(pluginName);
+        }
+
+        const report = (tracker ?? new PluginResourceTracker(pluginName)).release();
+        this.pluginCleanupReports.set(pluginName, report);
+        for (const { kind, name, error } of report.failed) {
+            this._logger.warn(
+                `Failed to remove ${kind} '${name}' of plugin '${pluginName}':`,
+                error
+            );
+        }
+        return report;
+    }
+
+    /**
+     * Record a plugin as installed and notify listeners.
+     */
+    private recordInstalledPlugin(plugin: EnginePlugin): void {
+        this.installedPlugins.set(plugin.name, {
+            plugin,
+            installedAt: Date.now(),
+        });
+        this.eventEmitter.emit('onPluginInstalled', plugin);
+        if (this.debugMode) {
+            this._logger.debug(`Plugin '${plugin.name}' installed successfully`);
         }
     }
 
     /**
-     * Uninstall a plugin from the engine
+     * Uninstall a plugin from the engine.
+     *
+     * A plugin that other installed plugins list in their `dependencies` or
+     * `peerDependencies` cannot be uninstalled unless `cascade` is set, in
+     * which case its dependents are uninstalled first, newest first.
+     *
+     * @param pluginName - Name of the plugin to uninstall
+     * @param options - Uninstall options
+     * @returns true if the plugin was uninstalled, false if it was not installed
+     *   or an uninstall hook failed
+     * @throws Error if other installed plugins depend on it and `cascade` is not set
+     *
+     * @example
+     * ```typescript
+     * await engine.uninstallPlugin('Physics');                    // Throws if Ragdoll is installed
+     * await engine.uninstallPlugin('Physics', { cascade: true }); // Removes Ragdoll, then Physics
+     * ```
      */
-    async uninstallPlugin(pluginName: string): Promise<boolean> {
+    async uninstallPlugin(
+        pluginName: string,
+        options: PluginUninstallOptions = {}
+    ): Promise<boolean> {
         const installedPlugin = this.installedPlugins.get(pluginName);
         if (!installedPlugin) {
             if (this.debugMode) {
@@ -2664,6 +4698,29 @@ export class Engine {
 
         const { plugin } = installedPlugin;
 
+        const dependents = getPluginDependents(
+            pluginName,
+            Array.from(this.installedPlugins.values(), (installed) => installed.plugin)
+        );
+        if (dependents.length > 0) {
+            if (!options.cascade) {
+                const names = dependents.map((dependent) => `"${dependent.name}"`).join(', ');
+                throw new Error(
+                    `[ECS] Cannot uninstall plugin "${pluginName}": required by ${names}`
+                );
+            }
+            for (let i = dependents.length - 1; i >= 0; i--) {
+                const dependent = dependents[i] as EnginePlugin;
+                if (
+                    this.installedPlugins.has(dependent.name) &&
+                    // eslint-disable-next-line no-await-in-loop -- Dependents uninstall one at a time, newest first
+                    !(await this.uninstallPlugin(dependent.name, options))
+                ) {
+                    return false;
+                }
+            }
+        }
+
         // Call uninstall hook if it exists
         if (plugin.uninstall) {
             try {
@@ -2677,8 +4734,9 @@ export class Engine {
             }
         }
 
+        const report = this.releasePluginResources(pluginName);
         this.installedPlugins.delete(pluginName);
-        this.eventEmitter.emit('onPluginUninstalled', plugin);
+        this.eventEmitter.emit('onPluginUninstalled', plugin, report);
         if (this.debugMode) {
             this._logger.debug(`Plugin '${pluginName}' uninstalled successfully`);
         }
@@ -2693,6 +4751,38 @@ export class Engine {
         return this.installedPlugins.get(pluginName);
     }
 
+    /**
+     * Get the resources a plugin created through its context: systems,
+     * queries, prefabs, event listeners, message subscriptions, extensions,
+     * singletons, and registered components and validators.
+     *
+     * @param pluginName - Name of the plugin
+     * @returns The plugin's resources, oldest first; empty if it is not installed
+     */
+    getPluginResources(pluginName: string): PluginResource[] {
+        return this.pluginResources.get(pluginName)?.getResources() ?? [];
+    }
+
+    /**
+     * Get the report of the last cleanup after a plugin was uninstalled or
+     * failed to install.
+     *
+     * @param pluginName - Name of the plugin
+     * @returns The cleanup report, or undefined if the plugin was never cleaned up
+     *
+     * @example
+     * ```typescript
+     * await engine.uninstallPlugin('Physics');
+     * const report = engine.getPluginCleanupReport('Physics');
+     * for (const failure of report?.failed ?? []) {
+     *   console.warn(`Could not remove ${failure.kind} ${failure.name}`, failure.error);
+     * }
+     * ```
+     */
+    getPluginCleanupReport(pluginName: string): PluginCleanupReport | undefined {
+        return this.pluginCleanupReports.get(pluginName);
+    }
+
     /**
      * Get all installed plugins
      */
@@ -0,0 +1,176 @@
+/**
+ * Component Fields Test Suite
+ * Tests for field metadata: validation, defaults, serialization and prefab checks
+ */
+
+import { EngineBuilder } from './engine';
+
+class Health {
+    constructor(
+        public current?: number,
+        public max?: number,
+        public armor?: string
+    ) {}
+}
+
+class Inventory {
+    declare items: string[];
+    declare owner: unknown;
+    // Lookup rebuilt at runtime, not saved
+    declare index: Map<string, number>;
+}
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+function createEngine() {
+    const engine = new EngineBuilder().build();
+    engine.registerComponentSchema(Health, {
+        fields: {
+            current: { type: 'number', min: 0, default: 100, description: 'Current hit points' },
+            max: { type: 'integer', min: 1, default: 100 },
+            armor: { type: 'enum', values: ['none', 'light', 'heavy'], default: 'none' },
+        },
+    });
+    engine.registerComponentSchema(Inventory, {
+        fields: {
+            items: { type: 'array', default: [] },
+            owner: { type: 'entity', optional: true },
+            index: { type: 'object', default: () => new Map(), serialize: false },
+        },
+    });
+    return engine;
+}
+
+describe('Component fields', () => {
+    test('should fill in defaults for fields a new component leaves undefined', () => {
+        const engine = createEngine();
+
+        const first = engine.createEntity('first').addComponent(Health, 40);
+        first.addComponent(Inventory);
+        const second = engine.createEntity('second').addComponent(Inventory);
+
+        expect(first.getComponent(Health)).toEqual({ current: 40, max: 100, armor: 'none' });
+        expect(first.getComponent(Inventory).items).toEqual([]);
+        expect(first.getComponent(Inventory).items).not.toBe(second.getComponent(Inventory).items);
+        expect(first.getComponent(Inventory).index).toBeInstanceOf(Map);
+        expect(first.getComponent(Inventory).index).not.toBe(second.getComponent(Inventory).index);
+        engine.destroy();
+    });
+
+    test('should validate declared fields before the component validator', () => {
+        const engine = createEngine();
+        const validate = jest.fn(
+            (health: Health) => (health.current ?? 0) <= (health.max ?? 0) || 'current exceeds max'
+        );
+        engine.registerComponentValidator(Health, { validate });
+        const hero = engine.createEntity('hero');
+
+        expect(() => hero.addComponent(Health, -5)).toThrow(
+            '[ECS] Invalid field current (expected >= 0, got -5) for Health on entity hero'
+        );
+        expect(() => hero.addComponent(Health, 5, 1.5)).toThrow(
+            'Invalid field max (expected integer, got 1.5)'
+        );
+        expect(() => hero.addComponent(Health, 5, 10, 'plate')).toThrow(
+            'Invalid field armor (expected one of "none", "light", "heavy", got "plate")'
+        );
+        expect(validate).not.toHaveBeenCalled();
+        expect(() => hero.addComponent(Health, 150)).toThrow(
+            '[ECS] current exceeds max for Health on entity hero'
+        );
+
+        hero.addComponent(Health, 50);
+        expect(() => hero.replaceComponent(Health, 50, 0)).toThrow(
+            'Invalid field max (expected >= 1, got 0)'
+        );
+        expect(hero.getComponent(Health).max).toBe(100);
+        engine.destroy();
+    });
+
+    test('should serialize declared fields and restore them by field name', () => {
+        const engine = createEngine();
+        const owner = engine.createEntity('owner');
+        const chest = engine.createEntity('chest').addComponent(Inventory);
+        Object.assign(chest.getComponent(Inventory), { items: ['sword'], owner: owner.handle });
+        chest.getComponent(Inventory).index.set('sword', 0);
+        engine.setSingleton(Health, 80);
+
+        const world = engine.serialize();
+        const saved = world.entities.find((entity) => entity.name === 'chest');
+
+        expect(Object.keys(saved?.components.Inventory ?? {})).toEqual(['items', 'owner']);
+        expect(world.singletons?.Health).toEqual({ current: 80, max: 100, armor: 'none' });
+        expect(world.componentVersions).toEqual({});
+
+        const restored = createEngine();
+        restored.deserialize(JSON.parse(JSON.stringify(world)));
+        const loaded = restored.getEntityByName('chest')?.getComponent(Inventory);
+
+        expect(loaded?.items).toEqual(['sword']);
+        expect(loaded?.index).toEqual(new Map());
+        expect(restored.resolve(loaded?.owner as never)?.name).toBe('owner');
+        expect(restored.getSingleton(Health)).toEqual({ current: 80, max: 100, armor: 'none' });
+        engine.destroy();
+        restored.destroy();
+    });
+
+    test('should reject invalid field declarations', () => {
+        const engine = createEngine();
+
+        expect(() =>
+            engine.registerComponentSchema(Position, {
+                // @ts-expect-error - unknown field type
+                fields: { x: { type: 'float' } },
+            })
+        ).toThrow('[ECS] Unknown field type "float" for Position.x');
+        expect(() =>
+            engine.registerComponentSchema(Position, { fields: { x: { type: 'enum' } } })
+        ).toThrow('[ECS] Enum field Position.x needs a non-empty values list');
+        expect(() =>
+            engine.registerComponentSchema(Position, {
+                fields: { x: { type: 'number', min: 0, default: -1 } },
+            })
+        ).toThrow('[ECS] Invalid default for Position.x: expected >= 0, got -1');
+        expect(engine.getComponentSchema(Position)).toBeUndefined();
+        expect(engine.getComponentSchema(Health)?.fields?.current?.description).toBe(
+            'Current hit points'
+        );
+        engine.destroy();
+    });
+
+    test('should check prefab files against declared fields', () => {
+        const engine = createEngine();
+
+        expect(() =>
+            engine.loadPrefabs(
+                {
+                    prefabs: {
+                        Knight: { components: { Health: { armor: 'plate', max: 200 } } },
+                        Ghost: { components: { Health: { current: '5' } } },
+                    },
+                },
+                { file: 'units.json' }
+            )
+        ).toThrow(
+            [
+                '[ECS] Invalid prefab file units.json:',
+                '  units.json prefabs.Knight.components.Health.armor: expected one of "none", "light", "heavy", got "plate"',
+                '  units.json prefabs.Ghost.components.Health.current: expected number, got string',
+            ].join('\n')
+        );
+        expect(
+            engine.loadPrefabs({ prefabs: { Squire: { components: { Health: { max: 50 } } } } })
+        ).toEqual(['Squire']);
+        expect(engine.createFromPrefab('Squire')?.getComponent(Health)).toEqual({
+            current: 100,
+            max: 50,
+            armor: 'none',
+        });
+        engine.destroy();
+    });
+});
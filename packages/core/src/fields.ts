@@ -0,0 +1,175 @@
+/**
+ * Component field metadata.
+ *
+ * A component schema can declare its fields with a type, range, allowed values,
+ * default and description. Validation, default construction and serialization
+ * are derived from these declarations, and tools read them instead of guessing
+ * field types from runtime values.
+ */
+
+import type { ComponentField, ComponentFields, ComponentFieldType } from './definitions';
+import { isHandleValue } from './handles';
+import { deepCloneComponent, describeValueType } from './utils';
+
+const FIELD_TYPES: ReadonlySet<ComponentFieldType> = new Set<ComponentFieldType>([
+    'number',
+    'integer',
+    'string',
+    'boolean',
+    'enum',
+    'color',
+    'vector2',
+    'vector3',
+    'entity',
+    'array',
+    'object',
+]);
+
+const COLOR_PATTERN = /^(#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\(.*\))$/i;
+
+/**
+ * Check field declarations, including that declared defaults are valid values.
+ *
+ * @param componentName - Component name for error messages
+ * @param fields - The declared fields
+ * @throws Error describing the first invalid declaration
+ * @internal
+ */
+export function checkFieldSchemas(componentName: string, fields: ComponentFields): void {
+    for (const [name, field] of Object.entries(fields)) {
+        if (!FIELD_TYPES.has(field.type)) {
+            throw new Error(
+                `[ECS] Unknown field type "${field.type}" for ${componentName}.${name}`
+            );
+        }
+        if (field.type === 'enum' && (!field.values || field.values.length === 0)) {
+            throw new Error(
+                `[ECS] Enum field ${componentName}.${name} needs a non-empty values list`
+            );
+        }
+        if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+            throw new Error(
+                `[ECS] Field ${componentName}.${name} has min ${field.min} greater than max ${field.max}`
+            );
+        }
+        if (field.default !== undefined && typeof field.default !== 'function') {
+            const problem = checkFieldValue(field, field.default);
+            if (problem) {
+                throw new Error(`[ECS] Invalid default for ${componentName}.${name}: ${problem}`);
+            }
+        }
+    }
+}
+
+/**
+ * Check a value against a field declaration.
+ *
+ * @returns A description of the problem, or undefined if the value is valid
+ * @internal
+ */
+export function checkFieldValue(field: ComponentField, value: unknown): string | undefined {
+    if (value === undefined || value === null) {
+        return field.optional
+            ? undefined
+            : `expected ${field.type}, got ${describeValueType(value)}`;
+    }
+
+    switch (field.type) {
+        case 'number':
+        case 'integer': {
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return `expected ${field.type}, got ${describeValueType(value)}`;
+            }
+            if (field.type === 'integer' && !Number.isInteger(value)) {
+                return `expected integer, got ${value}`;
+            }
+            if (field.min !== undefined && value < field.min) {
+                return `expected >= ${field.min}, got ${value}`;
+            }
+            if (field.max !== undefined && value > field.max) {
+                return `expected <= ${field.max}, got ${value}`;
+            }
+            return undefined;
+        }
+        case 'enum':
+            return field.values?.includes(value as string | number)
+                ? undefined
+                : `expected one of ${field.values?.map((v) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`;
+        case 'color':
+            return typeof value === 'string' && COLOR_PATTERN.test(value)
+                ? undefined
+                : `expected color, got ${typeof value === 'string' ? JSON.stringify(value) : describeValueType(value)}`;
+        case 'vector2':
+        case 'vector3': {
+            const axes = field.type === 'vector2' ? ['x', 'y'] : ['x', 'y', 'z'];
+            const vector = value as Record<string, unknown>;
+            return typeof value === 'object' &&
+                axes.every((axis) => typeof vector[axis] === 'number')
+                ? undefined
+                : `expected ${field.type}, got ${describeValueType(value)}`;
+        }
+        case 'entity':
+            // Loaded worlds hold the JSON form of handles until they are remapped
+            return isHandleValue(value)
+                ? undefined
+                : `expected entity handle, got ${describeValueType(value)}`;
+        default:
+            return describeValueType(value) === field.type
+                ? undefined
+                : `expected ${field.type}, got ${describeValueType(value)}`;
+    }
+}
+
+/**
+ * Check every declared field of a component.
+ *
+ * @returns True, or a message naming the first invalid field
+ * @internal
+ */
+export function validateFields(fields: ComponentFields, component: unknown): true | string {
+    const values = component as Record<string, unknown>;
+    for (const [name, field] of Object.entries(fields)) {
+        const problem = checkFieldValue(field, values[name]);
+        if (problem) {
+            return `Invalid field ${name} (${problem})`;
+        }
+    }
+    return true;
+}
+
+/**
+ * Assign declared defaults to the fields a new component left undefined.
+ * @internal
+ */
+export function applyFieldDefaults(fields: ComponentFields, component: object): void {
+    const values = component as Record<string, unknown>;
+    for (const [name, field] of Object.entries(fields)) {
+        if (values[name] !== undefined || field.default === undefined) {
+            continue;
+        }
+        values[name] =
+            typeof field.default === 'function'
+                ? field.default()
+                : deepCloneComponent(field.default);
+    }
+}
+
+/**
+ * Copy the declared, serialized fields of a component.
+ *
+ * @returns The field values, omitting undefined optional fields
+ * @internal
+ */
+export function serializeFields(
+    fields: ComponentFields,
+    component: unknown
+): Record<string, unknown> {
+    const values = component as Record<string, unknown>;
+    const data: Record<string, unknown> = {};
+    for (const [name, field] of Object.entries(fields)) {
+        if (field.serialize !== false && values[name] !== undefined) {
+            data[name] = values[name];
+        }
+    }
+    return data;
+}
@@ -0,0 +1,101 @@
+/**
+ * Entity Handle Test Suite
+ * Tests for generational handles, stale-handle detection and handle remapping on load
+ */
+
+import { EngineBuilder } from './engine';
+import { EntityHandle } from './handles';
+
+class Homing {
+    constructor(public target: EntityHandle = EntityHandle.NONE) {}
+}
+
+class Squad {
+    constructor(public members: EntityHandle[] = []) {}
+}
+
+class Leader {
+    constructor(public entity: EntityHandle = EntityHandle.NONE) {}
+}
+
+describe('Entity handles', () => {
+    test('should stop resolving once the entity is destroyed and its object reused', () => {
+        const engine = new EngineBuilder().build();
+        const enemy = engine.createEntity('enemy');
+        const handle = enemy.handle;
+
+        expect(engine.resolve(handle)).toBe(enemy);
+        expect(enemy.handle).toBe(handle);
+
+        enemy.queueFree();
+        engine.update(16);
+        const reused = engine.createEntity('ally');
+
+        expect(reused).toBe(enemy);
+        expect(reused.handle.index).toBe(handle.index);
+        expect(reused.handle.equals(handle)).toBe(false);
+        expect(engine.resolve(handle)).toBeUndefined();
+        expect(engine.resolve(reused.handle)).toBe(reused);
+        expect(engine.resolve(EntityHandle.NONE)).toBeUndefined();
+        expect(`${handle}`).toBe(`${handle.index}v0`);
+        engine.destroy();
+    });
+
+    test('should remap handles in components and singletons when loading a save', () => {
+        const source = new EngineBuilder().build();
+        const gone = source.createEntity('gone');
+        const goneHandle = gone.handle;
+        gone.queueFree();
+        source.update(16);
+        source.createEntity('padding');
+        const target = source.createEntity('target');
+        const wing = source.createEntity('wing');
+        source
+            .createEntity('missile')
+            .addComponent(Homing, target.handle)
+            .addComponent(Squad, [wing.handle, goneHandle]);
+        source.setSingleton(Leader, target.handle);
+        const save = JSON.stringify(source.serialize());
+
+        const engine = new EngineBuilder().build();
+        engine.registerComponent(Homing);
+        engine.registerComponent(Squad);
+        engine.registerComponent(Leader);
+        engine.createEntity('existing');
+        engine.deserialize(JSON.parse(save));
+        const missile = engine.getEntityByName('missile');
+        const members = missile?.getComponent(Squad).members ?? [];
+
+        expect(engine.resolve(missile?.getComponent(Homing).target ?? EntityHandle.NONE)).toBe(
+            engine.getEntityByName('target')
+        );
+        expect(engine.resolve(members[0] ?? EntityHandle.NONE)).toBe(
+            engine.getEntityByName('wing')
+        );
+        expect(members[1]).toBe(EntityHandle.NONE);
+        expect(engine.resolve(engine.getSingleton(Leader)?.entity ?? EntityHandle.NONE)?.name).toBe(
+            'target'
+        );
+        source.destroy();
+        engine.destroy();
+    });
+
+    test('should keep handles across snapshots and binary saves', () => {
+        const engine = new EngineBuilder().build();
+        engine.registerComponent(Homing);
+        const target = engine.createEntity('target');
+        engine.createEntity('missile').addComponent(Homing, target.handle);
+
+        engine.createSnapshot();
+        engine.restoreSnapshot();
+        const homing = engine.getEntityByName('missile')?.getComponent(Homing);
+        expect(engine.resolve(homing?.target ?? EntityHandle.NONE)?.name).toBe('target');
+
+        const bytes = engine.serializeBinary();
+        engine.deserializeBinary(bytes);
+        const restored = engine.getEntityByName('missile')?.getComponent(Homing);
+        expect(restored?.target).toBeInstanceOf(EntityHandle);
+        expect(engine.resolve(restored?.target ?? EntityHandle.NONE)?.name).toBe('target');
+        engine.destroy();
+    });
+});
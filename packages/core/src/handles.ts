@@ -0,0 +1,131 @@
+/**
+ * Generational entity handles.
+ *
+ * Entity objects are pooled and keep their numeric ID when they are reused, so a
+ * plain reference to a destroyed entity can silently point at the next entity
+ * created from the same pooled object. A handle pairs the numeric ID (the index)
+ * with the generation the entity had when the handle was taken; the generation
+ * advances every time the entity is destroyed, so a handle to a destroyed entity
+ * never resolves again.
+ */
+
+/**
+ * JSON form of an {@link EntityHandle}, as written by `JSON.stringify` and the
+ * binary world encoder.
+ *
+ * @public
+ */
+export interface SerializedEntityHandle {
+    /** Numeric ID of the entity when the world was saved */
+    $entity: number;
+    generation: number;
+}
+
+/**
+ * Reference to an entity that detects when the entity has been destroyed.
+ *
+ * Take a handle with `entity.handle` and turn it back into the entity with
+ * `engine.resolve(handle)`, which returns undefined once the entity is gone,
+ * even if its pooled object was reused. Handles stored in component fields are
+ * remapped to the recreated entities when a world is deserialized or a
+ * snapshot is restored.
+ *
+ * @example
+ * ```typescript
+ * class Homing {
+ *   constructor(public target: EntityHandle = EntityHandle.NONE) {}
+ * }
+ *
+ * missile.addComponent(Homing, enemy.handle);
+ *
+ * const target = engine.resolve(missile.getComponent(Homing).target);
+ * if (!target) {
+ *   missile.queueFree(); // Target was destroyed
+ * }
+ * ```
+ *
+ * @public
+ */
+export class EntityHandle {
+    /** A handle that never resolves, for fields that do not reference an entity yet */
+    static readonly NONE = new EntityHandle(0, 0);
+
+    constructor(
+        readonly index: number,
+        readonly generation: number
+    ) {
+        Object.freeze(this);
+    }
+
+    /**
+     * Check whether two handles reference the same entity generation.
+     */
+    equals(other: EntityHandle): boolean {
+        return this.index === other.index && this.generation === other.generation;
+    }
+
+    toString(): string {
+        return `${this.index}v${this.generation}`;
+    }
+
+    toJSON(): SerializedEntityHandle {
+        return { $entity: this.index, generation: this.generation };
+    }
+}
+
+/**
+ * Check whether a value is a handle or the JSON form of one.
+ * @internal
+ */
+export function isHandleValue(value: unknown): value is EntityHandle | SerializedEntityHandle {
+    if (value instanceof EntityHandle) {
+        return true;
+    }
+    return (
+        value !== null &&
+        typeof value === 'object' &&
+        typeof (value as SerializedEntityHandle).$entity === 'number' &&
+        typeof (value as SerializedEntityHandle).generation === 'number'
+    );
+}
+
+/**
+ * Replace the saved handles found in component data with handles to the
+ * recreated entities.
+ *
+ * Walks own fields, arrays and plain objects. Handles whose entity was not part
+ * of the saved world become {@link EntityHandle.NONE}.
+ *
+ * @param data - A restored component or singleton
+ * @param targets - Recreated entity handles keyed by `index:generation` of the saved entity
+ * @internal
+ */
+export function remapEntityHandles(
+    data: object,
+    targets: ReadonlyMap<string, EntityHandle>,
+    visited: Set<object> = new Set()
+): void {
+    if (visited.has(data)) {
+        return;
+    }
+    visited.add(data);
+
+    const record = data as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+        const value = record[key];
+        if (isHandleValue(value)) {
+            const index = value instanceof EntityHandle ? value.index : value.$entity;
+            record[key] = targets.get(`${index}:${value.generation}`) ?? EntityHandle.NONE;
+        } else if (Array.isArray(value) || isPlainObject(value)) {
+            remapEntityHandles(value as object, targets, visited);
+        }
+    }
+}
+
+function isPlainObject(value: unknown): boolean {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
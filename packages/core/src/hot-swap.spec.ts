@@ -0,0 +1,217 @@
+/**
+ * Hot Swap Test Suite
+ * Tests for replacing system callbacks and plugin installs without losing world state
+ */
+
+import type { EnginePlugin } from './definitions';
+import { EngineBuilder } from './engine';
+
+class Position {
+    constructor(public x: number = 0) {}
+}
+
+class Velocity {
+    constructor(public x: number = 1) {}
+}
+
+class Score {
+    constructor(public value: number = 0) {}
+}
+
+describe('Hot Swap', () => {
+    describe('systems', () => {
+        test('should replace callbacks and keep query, scheduling and health', () => {
+            const engine = new EngineBuilder().withErrorRecovery().build();
+            engine.createSystemGroup('Physics', { priority: 10 });
+            const entity = engine.createEntity().addComponent(Position).addComponent(Velocity);
+            let fail = true;
+            const system = engine.createSystem(
+                'Movement',
+                { all: [Position, Velocity] },
+                {
+                    priority: 5,
+                    group: 'Physics',
+                    tags: ['physics'],
+                    act: (_entity, position, velocity) => {
+                        if (fail) {
+                            throw new Error('Bug');
+                        }
+                        position.x += velocity.x;
+                    },
+                }
+            );
+            engine.update(16);
+            system.priority = 7;
+
+            const swapped = engine.hotSwapSystem('Movement', {
+                priority: 1,
+                act: (_entity, position: Position, velocity: Velocity) => {
+                    position.x += velocity.x * 10;
+                },
+            });
+            fail = false;
+            engine.update(16);
+
+            expect(swapped).toBe(system);
+            expect(entity.getComponent(Position).x).toBe(10);
+            expect(system.priority).toBe(7);
+            expect(system.group).toBe('Physics');
+            expect(system.hasTag('physics')).toBe(true);
+            expect(engine.getSystemHealth('Movement')?.totalErrors).toBe(1);
+            expect(engine.getAllSystems()).toHaveLength(1);
+            engine.destroy();
+        });
+
+        test('should re-subscribe change listeners to the new callbacks', () => {
+            const engine = new EngineBuilder().build();
+            const seen: string[] = [];
+            engine.createSystem(
+                'Watcher',
+                { all: [Position] },
+                { onComponentAdded: () => void seen.push('old') }
+            );
+
+            engine.hotSwapSystem('Watcher', {
+                onComponentRemoved: () => void seen.push('removed'),
+            });
+            const entity = engine.createEntity().addComponent(Position);
+            entity.removeComponent(Position);
+
+            expect(seen).toEqual(['removed']);
+            engine.destroy();
+        });
+
+        test('should swap existing systems when definitions re-run inside hotSwap()', () => {
+            const engine = new EngineBuilder().build();
+            const entity = engine.createEntity().addComponent(Position);
+            const define = (step: number) => {
+                engine.createSystem(
+                    'Step',
+                    { all: [Position] },
+                    { act: (_entity, position: Position) => void (position.x += step) }
+                );
+                engine.createSystem('Extra', { all: [Position] }, {});
+            };
+            define(1);
+            engine.removeSystem('Extra');
+
+            const swapped = engine.hotSwap(() => define(5));
+            engine.update(16);
+
+            expect(swapped).toEqual(['Step']);
+            expect(engine.getAllSystems().map((system) => system.name)).toEqual(['Step', 'Extra']);
+            expect(entity.getComponent(Position).x).toBe(5);
+            expect(() => engine.hotSwapSystem('Missing', {})).toThrow(
+                '[ECS] System "Missing" does not exist'
+            );
+            engine.destroy();
+        });
+    });
+
+    describe('plugins', () => {
+        const scoring = (points: number, extra: Partial<EnginePlugin> = {}): EnginePlugin => ({
+            name: 'Scoring',
+            version: '1.0.0',
+            install: (context) => {
+                const score = context.setSingleton(Score);
+                context.createSystem(
+                    'AddPoints',
+                    { all: [Position] },
+                    {
+                        act: () => {
+                            score.value += points;
+                        },
+                    }
+                );
+                context.extend('scoring', { points });
+            },
+            ...extra,
+        });
+
+        test('should swap systems, keep singletons and replace extensions', async () => {
+            const engine = new EngineBuilder().use(scoring(1)).build();
+            engine.createEntity().addComponent(Position);
+            engine.update(16);
+            const system = engine.getSystem('AddPoints');
+
+            await engine.hotSwapPlugin(scoring(100));
+            engine.update(16);
+
+            expect(engine.getSystem('AddPoints')).toBe(system);
+            expect(engine.getSingleton(Score)?.value).toBe(101);
+            expect(engine.getExtension('scoring')).toEqual({ points: 100 });
+            expect(engine.getPluginResources('Scoring').map(({ kind }) => kind)).toEqual([
+                'singleton',
+                'system',
+                'extension',
+            ]);
+            engine.destroy();
+        });
+
+        test('should remove what the new version no longer creates', async () => {
+            const engine = new EngineBuilder()
+                .use(
+                    scoring(1, {
+                        install: (context) => {
+                            context.createSystem('Legacy', { all: [Position] }, {});
+                            context.on('onEntityCreated', () => {});
+                        },
+                    })
+                )
+                .build();
+            const uninstalled: string[] = [];
+            const next = scoring(2, { uninstall: () => void uninstalled.push('next') });
+
+            await engine.hotSwapPlugin(next);
+
+            expect(engine.getSystem('Legacy')).toBeUndefined();
+            expect(engine.getSystem('AddPoints')).toBeDefined();
+            expect(engine.getPlugin('Scoring')?.plugin).toBe(next);
+            expect(engine.getPluginCleanupReport('Scoring')?.released.map((r) => r.name)).toEqual([
+                'onEntityCreated',
+                'Legacy',
+            ]);
+            expect(uninstalled).toEqual([]);
+            engine.destroy();
+        });
+
+        test('should check versions against dependents and uninstall on failure', async () => {
+            const engine = new EngineBuilder()
+                .use(scoring(1))
+                .use({
+                    name: 'Leaderboard',
+                    dependencies: { Scoring: '^1.0.0' },
+                    install: () => {},
+                })
+                .build();
+
+            await expect(engine.hotSwapPlugin(scoring(1, { version: '2.0.0' }))).rejects.toThrow(
+                '[ECS] Plugin "Leaderboard" requires "Scoring@^1.0.0", but version 2.0.0 is available'
+            );
+            expect(engine.getExtension('scoring')).toEqual({ points: 1 });
+
+            await expect(
+                engine.hotSwapPlugin(
+                    scoring(1, {
+                        install: () => {
+                            throw new Error('Syntax error');
+                        },
+                    })
+                )
+            ).rejects.toThrow('Syntax error');
+            expect(engine.hasPlugin('Scoring')).toBe(false);
+            expect(engine.getSystem('AddPoints')).toBeUndefined();
+            expect(engine.hasSingleton(Score)).toBe(false);
+            engine.destroy();
+        });
+
+        test('should install plugins that are not installed yet', async () => {
+            const engine = new EngineBuilder().build();
+
+            await engine.hotSwapPlugin(scoring(1));
+
+            expect(engine.hasPlugin('Scoring')).toBe(true);
+            engine.destroy();
+        });
+    });
+});
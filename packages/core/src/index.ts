@@ -13,8 +13,29 @@ export {
     DEFAULT_MEMORY_ESTIMATION_CONFIG,
     detectMemoryEnvironment,
 } from './archetype';
+// Export binary world serialization
+export {
+    BINARY_WORLD_FORMAT_VERSION,
+    decodeWorldBinary,
+    encodeWorldBinary,
+    isBinaryWorld,
+} from './binary';
+// Export typed event and message channels
+export type {
+    EngineMessageBus,
+    EventChannel,
+    MessageChannel,
+    MessageDeliveryMode,
+    MessageReader,
+    PayloadValidator,
+    TypedMessage,
+} from './channels';
+export { defineEvent, defineMessage } from './channels';
 export type {
+    CommandExecuteOptions,
     CommandExecutionResult,
+    CommandHistoryEntry,
+    CommandHistoryOptions,
     CommandType,
     EntityCommand,
 } from './commands';
@@ -58,12 +79,19 @@ export type {
     ComponentArgs,
     ComponentChangeEvent,
     ComponentChangeListener,
+    ComponentHooks,
     ComponentIdentifier,
     ComponentLifecycle,
+    ComponentMigration,
     ComponentPoolOptions,
     ComponentRemovedEvent,
     ComponentRemovedListener,
+    ComponentSchema,
     ComponentValidator,
+    DeserializeOptions,
+    DeserializeResult,
+    DesyncReport,
+    DeterminismOptions,
     EngineEventNames,
     EngineEvents,
     EngineHealthEvent,
@@ -79,6 +107,7 @@ export type {
     ExtractPluginExtensions,
     // Strict component typing utilities
     InferStrictComponentClass,
+    InputRecording,
     InstalledPlugin,
     LogEntry,
     Logger,
@@ -87,25 +116,62 @@ export type {
     MemoryStats,
     ParentChangedEvent,
     ParentChangedListener,
+    PluginCleanupReport,
     PluginContext,
+    PluginDependencies,
+    PluginResource,
+    PluginResourceKind,
+    PluginUninstallOptions,
     PoolStats,
+    PrefabFile,
+    PrefabFileEntry,
+    PrefabLoadOptions,
+    QueryKey,
     QueryOptions,
+    QueryPage,
+    QuerySortOptions,
     QueryStats,
+    RecordedTick,
+    RecordingOptions,
     RecoveryStrategy,
+    RelationChangedEvent,
+    RelationFilter,
+    RelationType,
+    ReplayResult,
+    SceneChangedEvent,
+    SceneContext,
+    SceneDefinition,
+    SceneLoadOptions,
     SerializedEntity,
     SerializedWorld,
+    SoAComponentClass,
+    SoAFieldType,
+    SoASchema,
+    SoAValues,
     StrictComponentClass,
+    SystemAccessConflict,
     SystemError,
     SystemErrorConfig,
+    SystemExecutionGraph,
+    SystemGraphNode,
     SystemHealth,
     SystemMessage,
     SystemOptions,
     SystemProfile,
     SystemType,
     TagComponent,
+    UnknownComponentReport,
 } from './definitions';
+// Export determinism utilities
+export { computeWorldChecksum, SeededRandom } from './determinism';
+// Export world diffing
+export type { EntityPatch, PatchDirection, PatchEntity, ValueChange, WorldPatch } from './diff';
+export { applyPatch, diffWorlds } from './diff';
 // Export the new Engine and Builder
 export { Engine, EngineBuilder } from './engine';
+// Export generational entity handles
+export type { SerializedEntityHandle } from './handles';
+export { EntityHandle } from './handles';
 // Export logger utilities and providers
 // Note: LogEntry and LogProvider types are exported from definitions.ts (via plugin-api)
 export type { EngineLoggerOptions } from './logger';
@@ -118,12 +184,28 @@ export {
     MessageManager,
     PrefabManager,
     QueryManager,
+    SceneManager,
+    SERIALIZED_WORLD_FORMAT_VERSION,
     SnapshotManager,
     SystemManager,
+    TransactionManager,
 } from './managers';
+// Export plugin dependency resolution
+export { getPluginDependents, resolvePluginOrder, satisfiesVersion } from './plugins';
+// Export the service container passed to component hooks
+export type { ServiceKey, ServiceToken } from './services';
+export { CoreServices, defineService, ServiceContainer } from './services';
+// Export struct-of-arrays component storage
+export type { SoAColumn } from './soa';
+export { defineSoAComponent, getSoASchema, isSoAView, SoAColumns } from './soa';
+// Export world time
+export type { TimerOptions } from './time';
+export { Time } from './time';
 // Export utility functions
 export {
+    cloneComponentData,
     createTagComponent,
     deepCloneComponent,
     defineComponent,
+    defineRelation,
 } from './utils';
@@ -4,10 +4,18 @@
  */
 
 import { ArchetypeManager } from './archetype';
+import {
+    channelName,
+    type MessageChannel,
+    type MessageDeliveryMode,
+    type MessageReader,
+    type TypedMessage,
+} from './channels';
 import {
     type AnySystemTuple,
     ComponentArray,
     type Entity,
+    type EntityManager,
     type EventEmitter,
     MessageBus,
     Pool,
@@ -18,8 +26,10 @@ import {
 import type {
     CircuitBreakerConfig,
     CircuitBreakerState,
+    ComponentHooks,
     ComponentIdentifier,
     ComponentPoolOptions,
+    ComponentSchema,
     ComponentValidator,
     EngineHealthEvent,
     EntityPrefab,
@@ -28,20 +38,40 @@ import type {
     ErrorSeverity,
     Logger,
     PoolStats,
+    PrefabFile,
+    PrefabLoadOptions,
     QueryOptions,
     RecoveryStrategy,
+    SceneDefinition,
+    SerializedEntity,
     SerializedWorld,
+    SystemAccessConflict,
     SystemError,
     SystemErrorConfig,
+    SystemExecutionGraph,
+    SystemGraphNode,
     SystemHealth,
     SystemMessage,
     SystemProfile,
 } from './definitions';
+import { applyPatch, diffWorlds, type WorldPatch } from './diff';
+import { applyFieldDefaults, checkFieldSchemas } from './fields';
+import { loadPrefabFile } from './prefab-loader';
+import { ServiceContainer } from './services';
+import { getSoASchema } from './soa';
+import type { Time } from './time';
+import { cloneComponentData, deepCloneComponent } from './utils';
 
 // Constants
 const MAX_MESSAGE_HISTORY = 1000;
 const MAX_SNAPSHOTS = 10;
 
+/**
+ * Current version of the {@link SerializedWorld} layout written by `Engine.serialize()`.
+ * @public
+ */
+export const SERIALIZED_WORLD_FORMAT_VERSION = 1;
+
 /**
  * Manages component storage, validation, and registration
  *
@@ -56,6 +86,7 @@ export class ComponentManager {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private validators: Map<ComponentIdentifier, ComponentValidator<any>> = new Map();
     private registry: Map<string, ComponentIdentifier> = new Map();
+    private schemas: Map<ComponentIdentifier, ComponentSchema> = new Map();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private componentPools: Map<ComponentIdentifier, Pool<any>> = new Map();
     private archetypeManager?: ArchetypeManager;
@@ -65,6 +96,10 @@ export class ComponentManager {
     private singletonComponents: Map<ComponentIdentifier, any> = new Map();
     // Optional logger for component operations
     private logger?: Logger;
+    // Hooks are shared by every world; each world passes its own services
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private hooks: Map<ComponentIdentifier, ComponentHooks<any>[]> = new Map();
+    private services = new ServiceContainer();
 
     /**
      * Set the logger for this component manager.
@@ -140,6 +175,47 @@ export class ComponentManager {
         return this.validators.get(type) as ComponentValidator<T>;
     }
 
+    /**
+     * Register lifecycle hooks for a component type.
+     *
+     * Several hook sets can be registered for the same type; they run in
+     * registration order.
+     *
+     * @typeParam T - The component type
+     * @param type - The component class/constructor
+     * @param hooks - The hooks to run when components of this type are added, removed or replaced
+     * @returns A function that unregisters the hooks
+     */
+    registerHooks<T>(type: ComponentIdentifier<T>, hooks: ComponentHooks<T>): () => void {
+        const registered = this.hooks.get(type) ?? [];
+        // Copy on write so hooks registered by a running hook only apply to later changes
+        this.hooks.set(type, [...registered, hooks]);
+        return () => {
+            const current = this.hooks.get(type)?.filter((entry) => entry !== hooks) ?? [];
+            if (current.length > 0) {
+                this.hooks.set(type, current);
+            } else {
+                this.hooks.delete(type);
+            }
+        };
+    }
+
+    /**
+     * Get the hooks registered for a component type, in registration order.
+     * @internal
+     */
+    getHooks<T>(type: ComponentIdentifier<T>): readonly ComponentHooks<T>[] | undefined {
+        return this.hooks.get(type);
+    }
+
+    /**
+     * Get the services passed to component hooks.
+     * @internal
+     */
+    getServices(): ServiceContainer {
+        return this.services;
+    }
+
     /**
      * Manually register a component type in the registry.
      *
@@ -180,6 +256,160 @@ export class ComponentManager {
         return this.registry.get(name);
     }
 
+    /**
+     * Register a schema for a component's data.
+     *
+     * The component is also registered by name. When a world saved with an
+     * older version is loaded, the schema's migrations are applied in order
+     * to bring the data up to the current version. Declared fields are
+     * validated, defaulted and serialized from their metadata.
+     *
+     * @typeParam T - The component type
+     * @param type - The component class/constructor
+     * @param schema - Current version, migration chain and field metadata
+     * @throws Error if the version or a field declaration is invalid
+     *
+     * @example
+     * ```typescript
+     * componentManager.registerSchema(Position, {
+     *   version: 2,
+     *   migrations: { 1: ({ px, py }) => ({ x: px, y: py }) },
+     *   fields: { x: { type: 'number', default: 0 }, y: { type: 'number', default: 0 } },
+     * });
+     * ```
+     */
+    registerSchema<T>(type: ComponentIdentifier<T>, schema: ComponentSchema): void {
+        if (
+            schema.version !== undefined &&
+            (!Number.isInteger(schema.version) || schema.version < 1)
+        ) {
+            throw new Error(
+                `[ECS] Invalid schema version ${schema.version} for component "${type.name}": must be an integer >= 1`
+            );
+        }
+        if (schema.fields) {
+            checkFieldSchemas(type.name, schema.fields);
+        }
+        this.registerComponent(type);
+        this.schemas.set(type, schema);
+    }
+
+    /**
+     * Get the registered schema for a component type.
+     *
+     * @param type - The component class/constructor
+     * @returns The schema if registered, undefined otherwise
+     */
+    getSchema(type: ComponentIdentifier): ComponentSchema | undefined {
+        return this.schemas.get(type);
+    }
+
+    /**
+     * Get the current schema version of every component with a registered schema.
+     *
+     * @returns Schema versions keyed by component class name
+     */
+    getComponentVersions(): Record<string, number> {
+        const versions: Record<string, number> = {};
+        for (const [type, schema] of this.schemas) {
+            if (schema.version !== undefined) {
+                versions[type.name] = schema.version;
+            }
+        }
+        return versions;
+    }
+
+    /**
+     * Upgrade serialized component data to the current schema version.
+     *
+     * Components that are unknown or have no schema are returned unchanged.
+     *
+     * @param componentName - The component class name
+     * @param data - Serialized component data
+     * @param fromVersion - Schema version the data was saved with
+     * @returns The data migrated to the current schema version
+     * @throws Error if the data is newer than the registered schema or a migration step is missing
+     */
+    migrateComponentData(componentName: string, data: unknown, fromVersion: number): unknown {
+        const type = this.registry.get(componentName);
+        if (!type) {
+            // Unknown components are reported by deserialize, not migrated
+            return data;
+        }
+        const schema = this.schemas.get(type);
+        const targetVersion = schema?.version ?? 1;
+
+        if (fromVersion > targetVersion) {
+            throw new Error(
+                `[ECS] Component "${componentName}" was saved with schema version ${fromVersion}, ` +
+                    `but the registered version is ${targetVersion}`
+            );
+        }
+
+        let migrated = data;
+        for (let version = fromVersion; version < targetVersion; version++) {
+            const migration = schema?.migrations?.[version];
+            if (!migration) {
+                throw new Error(
+                    `[ECS] Missing migration for component "${componentName}" from version ${version} to ${version + 1}`
+                );
+            }
+            migrated = migration(migrated as Record<string, unknown>);
+        }
+        return migrated;
+    }
+
+    /**
+     * Upgrade a serialized world to the current format and component schema versions.
+     *
+     * The input is not modified; a migrated copy is returned.
+     *
+     * @param world - The serialized world data
+     * @returns A copy of the world with all component data at the current schema versions
+     * @throws Error if the world format is unsupported or a component migration is missing
+     */
+    migrateSerializedWorld(world: SerializedWorld): SerializedWorld {
+        const formatVersion = world.formatVersion ?? 1;
+        if (
+            !Number.isInteger(formatVersion) ||
+            formatVersion < 1 ||
+            formatVersion > SERIALIZED_WORLD_FORMAT_VERSION
+        ) {
+            throw new Error(
+                `[ECS] Unsupported serialized world format version ${formatVersion} ` +
+                    `(supported: 1-${SERIALIZED_WORLD_FORMAT_VERSION})`
+            );
+        }
+
+        const savedVersions = world.componentVersions ?? {};
+        const migrateComponents = (
+            components: Record<string, unknown>
+        ): Record<string, unknown> => {
+            const result: Record<string, unknown> = {};
+            for (const [componentName, data] of Object.entries(components)) {
+                result[componentName] = this.migrateComponentData(
+                    componentName,
+                    data,
+                    savedVersions[componentName] ?? 1
+                );
+            }
+            return result;
+        };
+        const migrateEntity = (entity: SerializedEntity): SerializedEntity => ({
+            ...entity,
+            components: migrateComponents(entity.components ?? {}),
+            children: entity.children?.map(migrateEntity),
+        });
+
+        return {
+            ...world,
+            formatVersion: SERIALIZED_WORLD_FORMAT_VERSION,
+            entities: world.entities.map(migrateEntity),
+            singletons: world.singletons ? migrateComponents(world.singletons) : undefined,
+            componentVersions: this.getComponentVersions(),
+        };
+    }
+
     /**
      * Get all component arrays managed by this manager.
      *
@@ -251,7 +481,8 @@ export class ComponentManager {
      *
      * If a pool is registered for this component type, an instance will be
      * acquired from the pool and initialized with the provided arguments.
-     * Otherwise, a new instance is created directly.
+     * Otherwise, a new instance is created directly. Fields declared in the
+     * component's schema that are still undefined get their default values.
      *
      * @typeParam T - The component type (must be an object)
      * @param type - The component class/constructor
@@ -268,17 +499,51 @@ export class ComponentManager {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     acquireComponent<T extends object>(type: ComponentIdentifier<T>, ...args: any[]): T {
         const pool = this.componentPools.get(type);
+        let component: T;
         if (pool) {
-            const component = pool.acquire();
+            component = pool.acquire();
             // Apply constructor arguments if provided
             if (args.length > 0) {
                 const tempInstance = new type(...args);
                 Object.assign(component, tempInstance);
             }
-            return component;
+        } else {
+            // No pool registered, create normally
+            component = new type(...args);
+        }
+
+        const fields = this.schemas.get(type)?.fields;
+        if (fields) {
+            applyFieldDefaults(fields, component);
+        }
+        return component;
+    }
+
+    /**
+     * Build a component from data copied off another instance with
+     * `cloneComponentData`, without calling its constructor.
+     *
+     * Restoring a removed component this way works for constructors and
+     * validators that need arguments. Typed-array components receive the data
+     * through their constructor, since their values live in columns.
+     *
+     * @param type - The component class
+     * @param data - The copied component data; it is cloned, not kept
+     * @returns A new or pooled instance holding the data
+     * @internal
+     */
+    createComponentFromData<T extends object>(type: ComponentIdentifier<T>, data: object): T {
+        if (getSoASchema(type)) {
+            return new (type as new (values: object) => T)(data);
         }
-        // No pool registered, create normally
-        return new type(...args);
+        const component: T =
+            this.componentPools.get(type)?.acquire() ?? (Object.create(type.prototype) as T);
+        Object.assign(component, deepCloneComponent(data));
+        const fields = this.schemas.get(type)?.fields;
+        if (fields) {
+            applyFieldDefaults(fields, component);
+        }
+        return component;
     }
 
     /**
@@ -420,6 +685,32 @@ export class ComponentManager {
         return this.archetypeManager;
     }
 
+    /**
+     * Create a component manager for another world.
+     *
+     * The new manager shares this manager's component registry, validators,
+     * schemas and pools, but has its own component storage, archetypes and
+     * singletons.
+     *
+     * @returns A component manager with empty storage
+     * @internal
+     */
+    createWorldStorage(): ComponentManager {
+        const storage = new ComponentManager();
+        storage.validators = this.validators;
+        storage.registry = this.registry;
+        storage.schemas = this.schemas;
+        storage.componentPools = this.componentPools;
+        storage.hooks = this.hooks;
+        if (this.logger) {
+            storage.setLogger(this.logger);
+        }
+        if (this.archetypesEnabled) {
+            storage.enableArchetypes();
+        }
+        return storage;
+    }
+
     // ========== Singleton Component Management ==========
 
     /**
@@ -561,6 +852,10 @@ export class SystemManager {
     private errorRecoveryManager?: ErrorRecoveryManager;
     // Whether error recovery is enabled
     private errorRecoveryEnabled: boolean = false;
+    // Group time scales and pause layers
+    private time?: Time;
+    // Queued messages delivered after each system and before each fixed tick
+    private messages?: MessageManager;
 
     constructor(fixedUpdateFPS: number = 60, maxFixedIterations: number = 10) {
         this.fixedUpdateInterval = 1000 / fixedUpdateFPS;
@@ -580,6 +875,23 @@ export class SystemManager {
         this.errorRecoveryEnabled = true;
     }
 
+    /**
+     * Set the world time whose group time scales and pause layers apply to system groups.
+     * @internal
+     */
+    setTime(time: Time): void {
+        this.time = time;
+    }
+
+    /**
+     * Set the message manager whose `endOfSystem` and `nextFixedTick` queues are
+     * delivered by system execution.
+     * @internal
+     */
+    setMessageManager(messages: MessageManager): void {
+        this.messages = messages;
+    }
+
     /**
      * Enable or disable error recovery for system execution.
      *
@@ -885,7 +1197,8 @@ export class SystemManager {
         const sortedGroups = this.getSortedGroups();
 
         for (const group of sortedGroups) {
-            if (!group.enabled) continue;
+            if (!group.enabled || this.time?.isGroupPaused(group.name)) continue;
+            const timeScale = this.time?.getGroupTimeScale(group.name) ?? 1;
 
             // Execute systems in this group that are variable update systems (sorted by system priority)
             // Use cached sorted arrays to reduce GC pressure in hot path
@@ -906,7 +1219,7 @@ export class SystemManager {
             }
 
             for (const system of groupSystems) {
-                this.executeSystemWithRecovery(system, deltaTime);
+                this.executeSystemWithRecovery(system, deltaTime * timeScale);
             }
         }
 
@@ -943,6 +1256,8 @@ export class SystemManager {
             // No error recovery - execute directly
             system.step(deltaTime);
         }
+
+        this.messages?.flush('endOfSystem');
     }
 
     /**
@@ -964,62 +1279,261 @@ export class SystemManager {
      * ```
      */
     executeFixedSystems(deltaTime: number, debugMode: boolean = false): void {
-        this.ensureSorted();
+        const steps = this.advanceFixedTime(deltaTime, debugMode);
+        for (let step = 0; step < steps; step++) {
+            this.executeFixedStep();
+        }
+    }
 
+    /**
+     * Add elapsed time to the fixed-update accumulator and consume whole steps.
+     *
+     * Includes the same "spiral of death" protection as {@link executeFixedSystems}:
+     * at most `maxFixedIterations` steps are returned, after which the accumulator resets.
+     *
+     * @param deltaTime - Time elapsed since last frame in milliseconds
+     * @param debugMode - If true, logs warnings about spiral of death (default: false)
+     * @returns The number of fixed steps that are due
+     */
+    advanceFixedTime(deltaTime: number, debugMode: boolean = false): number {
         this.fixedUpdateAccumulator += deltaTime;
-        let iterations = 0;
+        let steps = 0;
 
         while (
             this.fixedUpdateAccumulator >= this.fixedUpdateInterval &&
-            iterations < this.maxFixedIterations
+            steps < this.maxFixedIterations
         ) {
-            // First, execute systems in groups (sorted by group priority)
-            const sortedGroups = this.getSortedGroups();
-
-            for (const group of sortedGroups) {
-                if (!group.enabled) continue;
-
-                // Execute systems in this group that are fixed update systems (sorted by system priority)
-                // Use cached sorted arrays to reduce GC pressure in hot path
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                let groupSystems: System<AnySystemTuple>[];
-                if (this.groupSystemsCacheValid && this.groupFixedSystemsCache.has(group.name)) {
-                    groupSystems = this.groupFixedSystemsCache.get(group.name)!;
-                } else {
-                    groupSystems = group.systems
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                        .filter((s: System<AnySystemTuple>) => this.fixedUpdateSystems.includes(s))
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                        .sort(
-                            (a: System<AnySystemTuple>, b: System<AnySystemTuple>) =>
-                                b.priority - a.priority
-                        );
-                    this.groupFixedSystemsCache.set(group.name, groupSystems);
-                }
-
-                for (const system of groupSystems) {
-                    this.executeSystemWithRecovery(system, this.fixedUpdateInterval);
-                }
-            }
-
-            // Then, execute systems without a group
-            for (const system of this.fixedUpdateSystems) {
-                if (!system.group) {
-                    this.executeSystemWithRecovery(system, this.fixedUpdateInterval);
-                }
-            }
-
             this.fixedUpdateAccumulator -= this.fixedUpdateInterval;
-            iterations++;
+            steps++;
         }
 
         // Spiral of death protection
-        if (iterations >= this.maxFixedIterations) {
+        if (steps >= this.maxFixedIterations) {
             this.fixedUpdateAccumulator = 0;
             if (debugMode) {
                 console.warn('[ECS] Fixed update spiral of death detected, accumulator reset');
             }
         }
+
+        return steps;
+    }
+
+    /**
+     * Run every fixed update system exactly once with the fixed timestep,
+     * regardless of the accumulator.
+     */
+    executeFixedStep(): void {
+        this.ensureSorted();
+        this.messages?.flush('nextFixedTick');
+
+        // First, execute systems in groups (sorted by group priority)
+        const sortedGroups = this.getSortedGroups();
+
+        for (const group of sortedGroups) {
+            if (!group.enabled || this.time?.isGroupPaused(group.name)) continue;
+            const timeScale = this.time?.getGroupTimeScale(group.name) ?? 1;
+
+            // Execute systems in this group that are fixed update systems (sorted by system priority)
+            // Use cached sorted arrays to reduce GC pressure in hot path
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            let groupSystems: System<AnySystemTuple>[];
+            if (this.groupSystemsCacheValid && this.groupFixedSystemsCache.has(group.name)) {
+                groupSystems = this.groupFixedSystemsCache.get(group.name)!;
+            } else {
+                groupSystems = group.systems
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    .filter((s: System<AnySystemTuple>) => this.fixedUpdateSystems.includes(s))
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    .sort(
+                        (a: System<AnySystemTuple>, b: System<AnySystemTuple>) =>
+                            b.priority - a.priority
+                    );
+                this.groupFixedSystemsCache.set(group.name, groupSystems);
+            }
+
+            for (const system of groupSystems) {
+                this.executeSystemWithRecovery(system, this.fixedUpdateInterval * timeScale);
+            }
+        }
+
+        // Then, execute systems without a group
+        for (const system of this.fixedUpdateSystems) {
+            if (!system.group) {
+                this.executeSystemWithRecovery(system, this.fixedUpdateInterval);
+            }
+        }
+    }
+
+    /**
+     * Get the fixed update timestep.
+     * @returns The interval between fixed updates in milliseconds
+     */
+    getFixedTimestep(): number {
+        return this.fixedUpdateInterval;
+    }
+
+    /**
+     * Compute the execution graph for variable or fixed update systems.
+     *
+     * Systems are listed in the order they run. Each system depends on every
+     * earlier system it conflicts with, and is placed in the first stage after
+     * all of its dependencies. Systems that share a stage do not conflict, so
+     * running them in a different order or concurrently gives the same result.
+     *
+     * Conflicts are reported so ambiguous orderings can be spotted: a conflict
+     * with `explicitOrder: false` is ordered only by system priority.
+     *
+     * @param isFixedUpdate - Build the graph for fixed update systems (default: false)
+     * @returns The execution graph
+     *
+     * @example
+     * ```typescript
+     * const graph = systemManager.getExecutionGraph();
+     * for (const conflict of graph.conflicts.filter((c) => !c.explicitOrder)) {
+     *   console.warn(`${conflict.before} and ${conflict.after} both touch ${conflict.components}`);
+     * }
+     * ```
+     */
+    getExecutionGraph(isFixedUpdate: boolean = false): SystemExecutionGraph {
+        const order = this.getExecutionOrder(isFixedUpdate);
+        const explicitEdges = this.getExplicitOrderEdges(order);
+
+        const nodes: SystemGraphNode[] = [];
+        const conflicts: SystemAccessConflict[] = [];
+
+        for (const system of order) {
+            const node: SystemGraphNode = {
+                name: system.name,
+                reads: system.reads.map((type) => type.name),
+                writes: system.writes.map((type) => type.name),
+                declaresAccess: system.declaresAccess,
+                stage: 0,
+                dependsOn: [],
+            };
+
+            for (const [j, earlierNode] of nodes.entries()) {
+                const earlier = order[j] as System<AnySystemTuple>;
+                const conflict = this.findAccessConflict(earlier, system);
+                if (!conflict) continue;
+
+                node.dependsOn.push(earlier.name);
+                node.stage = Math.max(node.stage, earlierNode.stage + 1);
+                conflicts.push({
+                    before: earlier.name,
+                    after: system.name,
+                    ...conflict,
+                    explicitOrder:
+                        earlier.group !== system.group ||
+                        this.isReachable(explicitEdges, earlier.name, system.name),
+                });
+            }
+
+            nodes.push(node);
+        }
+
+        const stages: string[][] = [];
+        for (const node of nodes) {
+            (stages[node.stage] ??= []).push(node.name);
+        }
+
+        return { order: order.map((system) => system.name), stages, nodes, conflicts };
+    }
+
+    /**
+     * Get systems in the order they execute: grouped systems by group priority
+     * first, then ungrouped systems. Disabled systems and groups are included.
+     */
+    private getExecutionOrder(isFixedUpdate: boolean): System<AnySystemTuple>[] {
+        this.ensureSorted();
+        const systems = isFixedUpdate ? this.fixedUpdateSystems : this.systems;
+        const order: System<AnySystemTuple>[] = [];
+
+        for (const group of this.getSortedGroups()) {
+            const groupSystems = group.systems
+                .filter((system) => systems.includes(system))
+                .toSorted((a, b) => b.priority - a.priority);
+            order.push(...groupSystems);
+        }
+        for (const system of systems) {
+            if (!system.group) {
+                order.push(system);
+            }
+        }
+        return order;
+    }
+
+    /**
+     * Build the runAfter/runBefore edges between the given systems.
+     */
+    private getExplicitOrderEdges(systems: System<AnySystemTuple>[]): Map<string, Set<string>> {
+        const names = new Set(systems.map((system) => system.name));
+        const edges = new Map<string, Set<string>>();
+        const addEdge = (from: string, to: string): void => {
+            if (!names.has(from) || !names.has(to)) return;
+            let targets = edges.get(from);
+            if (!targets) {
+                targets = new Set();
+                edges.set(from, targets);
+            }
+            targets.add(to);
+        };
+
+        for (const system of systems) {
+            for (const dep of system.runAfter) {
+                addEdge(dep, system.name);
+            }
+            for (const dep of system.runBefore) {
+                addEdge(system.name, dep);
+            }
+        }
+        return edges;
+    }
+
+    private isReachable(edges: Map<string, Set<string>>, from: string, to: string): boolean {
+        const visited = new Set<string>();
+        const stack = [from];
+        while (stack.length > 0) {
+            const current = stack.pop();
+            if (current === undefined) continue;
+            if (current === to) return true;
+            if (visited.has(current)) continue;
+            visited.add(current);
+            stack.push(...(edges.get(current) ?? []));
+        }
+        return false;
+    }
+
+    /**
+     * Check whether two systems have overlapping component access.
+     * Systems without access declarations conflict with everything.
+     */
+    private findAccessConflict(
+        a: System<AnySystemTuple>,
+        b: System<AnySystemTuple>
+    ): Pick<SystemAccessConflict, 'kind' | 'components'> | null {
+        if (!a.declaresAccess || !b.declaresAccess) {
+            return { kind: 'write-write', components: [] };
+        }
+
+        const aWrites = new Set(a.writes);
+        const bWrites = new Set(b.writes);
+
+        const writeWrite = a.writes.filter((type) => bWrites.has(type));
+        if (writeWrite.length > 0) {
+            return { kind: 'write-write', components: writeWrite.map((type) => type.name) };
+        }
+
+        const readWrite = [
+            ...a.reads.filter((type) => bWrites.has(type)),
+            ...b.reads.filter((type) => aWrites.has(type)),
+        ];
+        if (readWrite.length > 0) {
+            return {
+                kind: 'read-write',
+                components: Array.from(new Set(readWrite.map((type) => type.name))),
+            };
+        }
+        return null;
     }
 
     /**
@@ -1292,6 +1806,7 @@ export class QueryManager {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private queries: Query<any>[] = [];
     private componentManager?: ComponentManager;
+    private stableOrder: boolean = false;
 
     /**
      * Set the component manager reference for archetype support.
@@ -1330,21 +1845,64 @@ export class QueryManager {
     createQuery<C extends readonly any[] = any[]>(options: QueryOptions<any>): Query<C> {
         const archetypeManager = this.componentManager?.getArchetypeManager();
         const query = new Query<C>(options, archetypeManager);
+        if (this.stableOrder) {
+            query.setStableOrder(true);
+        }
         this.queries.push(query);
         return query;
     }
 
     /**
-     * Update all queries to re-evaluate a specific entity.
-     *
-     * Called automatically when an entity's components change to ensure
-     * all queries reflect the current state.
+     * Stop updating a query and forget it.
      *
-     * @param entity - The entity to re-evaluate against all queries
+     * @param query - The query to remove
+     * @returns true if the query was managed by this manager and removed
      */
-    updateQueries(entity: Entity): void {
-        for (const query of this.queries) {
-            query.match(entity);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    removeQuery(query: Query<any>): boolean {
+        const index = this.queries.indexOf(query);
+        if (index === -1) {
+            return false;
+        }
+        this.queries.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Make all existing and future queries iterate in stable entity ID order.
+     *
+     * @param enabled - Whether queries should iterate in stable order
+     * @see Query.setStableOrder
+     */
+    setStableOrder(enabled: boolean): void {
+        this.stableOrder = enabled;
+        for (const query of this.queries) {
+            query.setStableOrder(enabled);
+        }
+    }
+
+    /**
+     * Update all queries to re-evaluate a specific entity.
+     *
+     * Called automatically when an entity's components change to ensure
+     * all queries reflect the current state.
+     *
+     * @param entity - The entity to re-evaluate against all queries
+     */
+    updateQueries(entity: Entity): void {
+        for (const query of this.queries) {
+            query.match(entity);
+        }
+    }
+
+    /**
+     * Remove a released entity from every query.
+     *
+     * @param entity - The entity being returned to the pool
+     */
+    removeEntity(entity: Entity): void {
+        for (const query of this.queries) {
+            query.removeEntity(entity);
         }
     }
 
@@ -1420,6 +1978,16 @@ export class PrefabManager {
         this.prefabs.set(name, prefab);
     }
 
+    /**
+     * Remove a registered prefab.
+     *
+     * @param name - The prefab name to remove
+     * @returns true if the prefab was registered and removed
+     */
+    unregister(name: string): boolean {
+        return this.prefabs.delete(name);
+    }
+
     /**
      * Get a prefab by name.
      *
@@ -1449,6 +2017,47 @@ export class PrefabManager {
         return new Map(this.prefabs);
     }
 
+    /**
+     * Load and register the prefabs of a JSON or YAML prefab file.
+     *
+     * Component names are resolved through the component registry and every
+     * component is checked against a default-constructed instance and its
+     * validator. Nothing is registered unless the whole file is valid.
+     *
+     * @param source - File text, or the already parsed file contents
+     * @param components - Registry used to resolve component names and validators
+     * @param options - File name for error messages and the parser for the text
+     * @returns The names of the registered prefabs, parents first
+     * @throws Error listing every problem in the file with the path of the offending value
+     *
+     * @example
+     * ```typescript
+     * prefabManager.load(readFileSync('enemies.json', 'utf8'), componentManager, {
+     *   file: 'enemies.json',
+     * });
+     * ```
+     */
+    load(
+        source: string | PrefabFile,
+        components: ComponentManager,
+        options: PrefabLoadOptions = {}
+    ): string[] {
+        const prefabs = loadPrefabFile(
+            source,
+            {
+                getComponentByName: (name) => components.getComponentByName(name),
+                getValidator: (type) => components.getValidator(type),
+                getFields: (type) => components.getSchema(type)?.fields,
+                getPrefab: (name) => this.prefabs.get(name),
+            },
+            options
+        );
+        for (const [name, prefab] of prefabs) {
+            this.prefabs.set(name, prefab);
+        }
+        return [...prefabs.keys()];
+    }
+
     /**
      * Extend a base prefab with additional components and tags.
      *
@@ -1623,6 +2232,14 @@ export class PrefabManager {
     }
 }
 
+/**
+ * A stored snapshot: either a full world (keyframe) or a patch against the previous snapshot.
+ */
+interface StoredSnapshot {
+    world?: SerializedWorld;
+    patch?: WorldPatch;
+}
+
 /**
  * Manages world snapshots and restoration.
  *
@@ -1630,9 +2247,14 @@ export class PrefabManager {
  * save/load functionality, undo/redo, or debugging. It maintains a fixed-size
  * history with automatic cleanup of old snapshots.
  *
+ * With a keyframe interval above 1, only every n-th snapshot stores the full
+ * world; the snapshots in between store a {@link WorldPatch} against the
+ * previous snapshot and are rebuilt from the nearest keyframe when read.
+ *
  * @example
  * ```typescript
  * const snapshotManager = new SnapshotManager(5); // Keep last 5 snapshots
+ * const rewindBuffer = new SnapshotManager(600, 60); // Full world every 60 snapshots
  *
  * // Save current state
  * const worldState = engine.serialize();
@@ -1646,30 +2268,60 @@ export class PrefabManager {
  * ```
  */
 export class SnapshotManager {
-    private snapshots: SerializedWorld[] = [];
+    private snapshots: StoredSnapshot[] = [];
     private maxSnapshots: number;
+    private keyframeInterval: number;
+    private sinceKeyframe: number = 0;
+    private latest?: SerializedWorld;
 
     /**
      * Create a new SnapshotManager.
      *
      * @param maxSnapshots - Maximum number of snapshots to keep (default: 10)
+     * @param keyframeInterval - Store the full world every n-th snapshot and deltas
+     *   in between (default: 1, every snapshot is a full world)
+     * @throws Error if the keyframe interval is not a positive integer
      */
-    constructor(maxSnapshots: number = MAX_SNAPSHOTS) {
+    constructor(maxSnapshots: number = MAX_SNAPSHOTS, keyframeInterval: number = 1) {
+        if (!Number.isInteger(keyframeInterval) || keyframeInterval < 1) {
+            throw new Error(
+                `[ECS] Snapshot keyframe interval must be a positive integer, got ${keyframeInterval}`
+            );
+        }
         this.maxSnapshots = maxSnapshots;
+        this.keyframeInterval = keyframeInterval;
     }
 
     /**
      * Store a world snapshot.
      *
      * If the maximum number of snapshots is exceeded, the oldest snapshot
-     * will be removed automatically.
+     * will be removed automatically. Between keyframes only the difference to
+     * the previous snapshot is stored.
      *
      * @param world - The serialized world state to store
      */
     createSnapshot(world: SerializedWorld): void {
-        this.snapshots.push(world);
+        if (
+            this.latest &&
+            this.snapshots.length > 0 &&
+            this.sinceKeyframe < this.keyframeInterval
+        ) {
+            this.snapshots.push({ patch: diffWorlds(this.latest, world) });
+            this.sinceKeyframe++;
+        } else {
+            this.snapshots.push({ world });
+            this.sinceKeyframe = 1;
+        }
+        this.latest = world;
+
         while (this.snapshots.length > this.maxSnapshots) {
-            this.snapshots.shift();
+            const oldest = this.snapshots.shift();
+            const next = this.snapshots[0];
+            // The oldest snapshot is always a keyframe; promote its successor
+            if (oldest?.world && next?.patch) {
+                this.snapshots[0] = { world: applyPatch(oldest.world, next.patch) };
+            }
         }
     }
 
@@ -1689,10 +2341,55 @@ export class SnapshotManager {
      * ```
      */
     getSnapshot(index: number = -1): SerializedWorld | undefined {
-        if (index === -1) {
-            return this.snapshots[this.snapshots.length - 1];
+        const position = index === -1 ? this.snapshots.length - 1 : index;
+        if (!this.snapshots[position]) {
+            return undefined;
+        }
+        if (position === this.snapshots.length - 1) {
+            return this.latest;
+        }
+
+        let keyframe = position;
+        while (keyframe > 0 && !this.snapshots[keyframe]?.world) {
+            keyframe--;
+        }
+        let world = this.snapshots[keyframe]?.world;
+        for (let i = keyframe + 1; world && i <= position; i++) {
+            const patch = this.snapshots[i]?.patch;
+            if (patch) {
+                world = applyPatch(world, patch);
+            }
+        }
+        return world;
+    }
+
+    /**
+     * Get the patch from the previous snapshot to a snapshot.
+     *
+     * Delta snapshots return their stored patch; for keyframes the patch is computed.
+     *
+     * @param index - Snapshot index (0 = oldest, -1 = most recent, default: -1)
+     * @returns The patch, or undefined for the oldest snapshot or an unknown index
+     */
+    getSnapshotPatch(index: number = -1): WorldPatch | undefined {
+        const position = index === -1 ? this.snapshots.length - 1 : index;
+        const stored = this.snapshots[position];
+        if (!stored || position === 0) {
+            return undefined;
         }
-        return this.snapshots[index];
+        if (stored.patch) {
+            return stored.patch;
+        }
+        const previous = this.getSnapshot(position - 1);
+        const current = this.getSnapshot(position);
+        return previous && current ? diffWorlds(previous, current) : undefined;
+    }
+
+    /**
+     * Get the number of stored snapshots that hold a full world.
+     */
+    getKeyframeCount(): number {
+        return this.snapshots.filter((snapshot) => snapshot.world).length;
     }
 
     /**
@@ -1709,6 +2406,499 @@ export class SnapshotManager {
      */
     clearSnapshots(): void {
         this.snapshots = [];
+        this.latest = undefined;
+        this.sinceKeyframe = 0;
+    }
+}
+
+/**
+ * Tracks registered scenes, which scenes are loaded, and which entities each scene owns.
+ *
+ * Entities created while a scene is loading are owned by that scene; entities
+ * created at any other time are owned by the active scene. Persistent entities
+ * are never owned by a scene and survive scene changes.
+ *
+ * The SceneManager only tracks ownership; the Engine creates and despawns entities.
+ *
+ * @example
+ * ```typescript
+ * const sceneManager = new SceneManager(eventEmitter);
+ * sceneManager.register('menu', { prefabs: ['MenuCamera'] });
+ * ```
+ */
+export class SceneManager {
+    private scenes: Map<string, SceneDefinition> = new Map();
+    private loadedScenes: Map<string, Set<Entity>> = new Map();
+    private entityScenes: Map<Entity, string> = new Map();
+    private persistentEntities: Set<Entity> = new Set();
+    private activeScene: string | null = null;
+    private loadingScenes: string[] = [];
+    private unsubscribers: Array<() => void> = [];
+
+    constructor(eventEmitter: EventEmitter) {
+        this.unsubscribers.push(
+            eventEmitter.on('onEntityCreated', (...args: unknown[]) => {
+                const sceneName = this.loadingScenes.at(-1) ?? this.activeScene;
+                if (sceneName !== null) {
+                    this.assign(args[0] as Entity, sceneName);
+                }
+            })
+        );
+        this.unsubscribers.push(
+            eventEmitter.on('onEntityReleased', (...args: unknown[]) => {
+                const entity = args[0] as Entity;
+                this.unassign(entity);
+                this.persistentEntities.delete(entity);
+            })
+        );
+    }
+
+    /**
+     * Register a named scene definition, replacing any existing one.
+     *
+     * @param name - Unique scene name
+     * @param definition - Scene content
+     */
+    register(name: string, definition: SceneDefinition): void {
+        this.scenes.set(name, definition);
+    }
+
+    /**
+     * Get a registered scene definition.
+     *
+     * @param name - Scene name
+     * @returns The definition if registered, undefined otherwise
+     */
+    get(name: string): SceneDefinition | undefined {
+        return this.scenes.get(name);
+    }
+
+    /**
+     * Check whether a scene is registered.
+     */
+    has(name: string): boolean {
+        return this.scenes.has(name);
+    }
+
+    /**
+     * Check whether a scene is currently loaded.
+     */
+    isLoaded(name: string): boolean {
+        return this.loadedScenes.has(name);
+    }
+
+    /**
+     * Get the names of all loaded scenes, in load order.
+     */
+    getLoadedScenes(): string[] {
+        return Array.from(this.loadedScenes.keys());
+    }
+
+    /**
+     * Get the active scene, which owns entities created outside of scene loading.
+     */
+    getActiveScene(): string | null {
+        return this.activeScene;
+    }
+
+    /**
+     * Set the active scene.
+     *
+     * @param name - A loaded scene, or null to stop assigning new entities to a scene
+     * @throws Error if the scene is not loaded
+     */
+    setActiveScene(name: string | null): void {
+        if (name !== null && !this.loadedScenes.has(name)) {
+            throw new Error(`[ECS] Cannot activate scene "${name}": scene is not loaded`);
+        }
+        this.activeScene = name;
+    }
+
+    /**
+     * Mark a scene as loaded and start assigning newly created entities to it.
+     * Must be paired with {@link SceneManager.endLoading}.
+     * @internal
+     */
+    beginLoading(name: string): void {
+        this.loadedScenes.set(name, new Set());
+        this.loadingScenes.push(name);
+    }
+
+    /**
+     * Stop assigning newly created entities to the scene being loaded.
+     * @internal
+     */
+    endLoading(name: string): void {
+        const index = this.loadingScenes.lastIndexOf(name);
+        if (index !== -1) {
+            this.loadingScenes.splice(index, 1);
+        }
+    }
+
+    /**
+     * Forget a loaded scene and release ownership of its entities.
+     *
+     * @param name - Scene name
+     * @returns The entities the scene owned
+     * @internal
+     */
+    markUnloaded(name: string): Entity[] {
+        const owned = this.loadedScenes.get(name);
+        if (!owned) {
+            return [];
+        }
+        for (const entity of owned) {
+            this.entityScenes.delete(entity);
+        }
+        this.loadedScenes.delete(name);
+        if (this.activeScene === name) {
+            this.activeScene = this.getLoadedScenes().at(-1) ?? null;
+        }
+        return Array.from(owned);
+    }
+
+    /**
+     * Get the entities owned by a scene.
+     *
+     * @param name - Scene name
+     * @returns Owned entities, or an empty array if the scene is not loaded
+     */
+    getSceneEntities(name: string): Entity[] {
+        const owned = this.loadedScenes.get(name);
+        return owned ? Array.from(owned) : [];
+    }
+
+    /**
+     * Get the scene that owns an entity.
+     *
+     * @returns The scene name, or undefined for persistent or unowned entities
+     */
+    getEntityScene(entity: Entity): string | undefined {
+        return this.entityScenes.get(entity);
+    }
+
+    /**
+     * Move an entity (and its descendants) into a loaded scene.
+     *
+     * @param entity - The entity to move
+     * @param name - Target scene name
+     * @throws Error if the scene is not loaded
+     */
+    moveToScene(entity: Entity, name: string): void {
+        if (!this.loadedScenes.has(name)) {
+            throw new Error(`[ECS] Cannot move entity to scene "${name}": scene is not loaded`);
+        }
+        for (const target of [entity, ...entity.getDescendants()]) {
+            this.persistentEntities.delete(target);
+            this.assign(target, name);
+        }
+    }
+
+    /**
+     * Mark an entity (and its descendants) as persistent across scene changes.
+     *
+     * Persistent entities are not owned by any scene. Clearing persistence assigns
+     * the entity to the active scene, if there is one.
+     *
+     * @param entity - The entity to update
+     * @param persistent - Whether the entity should persist
+     */
+    setPersistent(entity: Entity, persistent: boolean): void {
+        for (const target of [entity, ...entity.getDescendants()]) {
+            if (persistent) {
+                this.persistentEntities.add(target);
+                this.unassign(target);
+            } else if (this.persistentEntities.delete(target) && this.activeScene !== null) {
+                this.assign(target, this.activeScene);
+            }
+        }
+    }
+
+    /**
+     * Check whether an entity is persistent.
+     */
+    isPersistent(entity: Entity): boolean {
+        return this.persistentEntities.has(entity);
+    }
+
+    /**
+     * Unsubscribe from engine events and forget all scene state.
+     */
+    dispose(): void {
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+        this.loadedScenes.clear();
+        this.entityScenes.clear();
+        this.persistentEntities.clear();
+        this.loadingScenes = [];
+        this.activeScene = null;
+    }
+
+    private assign(entity: Entity, name: string): void {
+        if (this.persistentEntities.has(entity)) {
+            return;
+        }
+        this.unassign(entity);
+        this.loadedScenes.get(name)?.add(entity);
+        this.entityScenes.set(entity, name);
+    }
+
+    private unassign(entity: Entity): void {
+        const current = this.entityScenes.get(entity);
+        if (current !== undefined) {
+            this.loadedScenes.get(current)?.delete(entity);
+            this.entityScenes.delete(entity);
+        }
+    }
+}
+
+/**
+ * A change recorded during a transaction, with the data needed to undo it.
+ */
+type JournalEntry =
+    | { kind: 'entityCreated'; entity: Entity }
+    | { kind: 'entityQueuedForDeletion'; entity: Entity }
+    | { kind: 'componentAdded'; entity: Entity; type: ComponentIdentifier }
+    | { kind: 'componentRemoved'; entity: Entity; type: ComponentIdentifier; data: object }
+    | { kind: 'componentReplaced'; entity: Entity; type: ComponentIdentifier; data: object }
+    | { kind: 'tagChanged'; entity: Entity; tag: string; added: boolean }
+    | { kind: 'parentChanged'; entity: Entity; previousParent: Entity | undefined };
+
+/**
+ * Journals structural changes made during a transaction so they can be undone.
+ *
+ * While a transaction is active, entity creation, `queueFree()`, component
+ * add/remove/replace, tag changes and parent changes are recorded from entity
+ * events. Rolling back undoes them newest first. Named savepoints mark
+ * positions in the journal that can be rolled back to without ending the
+ * transaction.
+ *
+ * The TransactionManager only records and undoes changes; the Engine decides
+ * when transactions begin and end and defers entity cleanup while one is open.
+ *
+ * @example
+ * ```typescript
+ * const transactions = new TransactionManager(eventEmitter, entityManager);
+ * transactions.begin();
+ * entity.addComponent(Shield);
+ * transactions.rollback(); // Shield is removed again
+ * ```
+ */
+export class TransactionManager {
+    private journal: JournalEntry[] = [];
+    private savepoints: Array<{ name: string; position: number }> = [];
+    private active: boolean = false;
+    private undoing: boolean = false;
+    private unsubscribers: Array<() => void> = [];
+
+    constructor(
+        eventEmitter: EventEmitter,
+        private entityManager: EntityManager
+    ) {
+        this.unsubscribers.push(
+            eventEmitter.on('onEntityCreated', (...args: unknown[]) => {
+                this.record({ kind: 'entityCreated', entity: args[0] as Entity });
+            }),
+            eventEmitter.on('onEntityQueuedForDeletion', (...args: unknown[]) => {
+                this.record({ kind: 'entityQueuedForDeletion', entity: args[0] as Entity });
+            }),
+            eventEmitter.on('onComponentAdded', (...args: unknown[]) => {
+                this.record({
+                    kind: 'componentAdded',
+                    entity: args[0] as Entity,
+                    type: args[1] as ComponentIdentifier,
+                });
+            }),
+            eventEmitter.on('onComponentRemoved', (...args: unknown[]) => {
+                if (this.isRecording()) {
+                    const type = args[1] as ComponentIdentifier;
+                    this.journal.push({
+                        kind: 'componentRemoved',
+                        entity: args[0] as Entity,
+                        type,
+                        data: cloneComponentData(type, args[2]),
+                    });
+                }
+            }),
+            eventEmitter.on('onComponentReplaced', (...args: unknown[]) => {
+                if (this.isRecording()) {
+                    const type = args[1] as ComponentIdentifier;
+                    this.journal.push({
+                        kind: 'componentReplaced',
+                        entity: args[0] as Entity,
+                        type,
+                        data: cloneComponentData(type, args[2]),
+                    });
+                }
+            }),
+            eventEmitter.on('onTagChanged', (...args: unknown[]) => {
+                this.record({
+                    kind: 'tagChanged',
+                    entity: args[0] as Entity,
+                    tag: args[1] as string,
+                    added: args[2] as boolean,
+                });
+            }),
+            eventEmitter.on('onParentChanged', (...args: unknown[]) => {
+                const event = args[0] as { entity: Entity; previousParent?: Entity };
+                this.record({
+                    kind: 'parentChanged',
+                    entity: event.entity,
+                    previousParent: event.previousParent,
+                });
+            })
+        );
+    }
+
+    /**
+     * Start journaling changes, discarding any previous journal.
+     */
+    begin(): void {
+        this.active = true;
+        this.journal = [];
+        this.savepoints = [];
+    }
+
+    /**
+     * Keep all journaled changes and stop journaling.
+     */
+    commit(): void {
+        this.active = false;
+        this.journal = [];
+        this.savepoints = [];
+    }
+
+    /**
+     * Undo every journaled change, newest first, and stop journaling.
+     */
+    rollback(): void {
+        this.undoTo(0);
+        this.commit();
+    }
+
+    /**
+     * Check if changes are currently being journaled.
+     */
+    isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * Mark the current journal position with a name.
+     *
+     * @param name - Savepoint name, unique among the open savepoints
+     * @throws Error if a savepoint with this name is already open
+     */
+    savepoint(name: string): void {
+        if (this.savepoints.some((savepoint) => savepoint.name === name)) {
+            throw new Error(`[ECS] Savepoint "${name}" already exists`);
+        }
+        this.savepoints.push({ name, position: this.journal.length });
+    }
+
+    /**
+     * Undo the changes made since a savepoint.
+     *
+     * The savepoint stays open; savepoints created after it are discarded.
+     *
+     * @throws Error if the savepoint does not exist
+     */
+    rollbackToSavepoint(name: string): void {
+        const index = this.findSavepoint(name);
+        this.undoTo((this.savepoints[index] as { position: number }).position);
+        this.savepoints.length = index + 1;
+    }
+
+    /**
+     * Discard a savepoint and those created after it, keeping their changes.
+     *
+     * @throws Error if the savepoint does not exist
+     */
+    releaseSavepoint(name: string): void {
+        this.savepoints.length = this.findSavepoint(name);
+    }
+
+    /**
+     * Get the names of the open savepoints, oldest first.
+     */
+    getSavepoints(): string[] {
+        return this.savepoints.map((savepoint) => savepoint.name);
+    }
+
+    /**
+     * Get the number of changes journaled in the current transaction.
+     */
+    getJournalLength(): number {
+        return this.journal.length;
+    }
+
+    dispose(): void {
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+        this.commit();
+    }
+
+    private isRecording(): boolean {
+        return this.active && !this.undoing;
+    }
+
+    private record(entry: JournalEntry): void {
+        if (this.isRecording()) {
+            this.journal.push(entry);
+        }
+    }
+
+    private findSavepoint(name: string): number {
+        const index = this.savepoints.findLastIndex((savepoint) => savepoint.name === name);
+        if (index === -1) {
+            throw new Error(`[ECS] Savepoint "${name}" does not exist`);
+        }
+        return index;
+    }
+
+    private undoTo(position: number): void {
+        // Undoing changes fires the same events; don't journal them
+        this.undoing = true;
+        try {
+            while (this.journal.length > position) {
+                this.undo(this.journal.pop() as JournalEntry);
+            }
+        } finally {
+            this.undoing = false;
+        }
+    }
+
+    private undo(entry: JournalEntry): void {
+        const { entity } = entry;
+        switch (entry.kind) {
+            case 'entityCreated':
+                this.entityManager.releaseEntity(entity);
+                break;
+            case 'entityQueuedForDeletion':
+                entity.cancelQueueFree();
+                break;
+            case 'componentAdded':
+                entity.removeComponent(entry.type);
+                break;
+            case 'componentRemoved':
+            case 'componentReplaced':
+                entity.restoreComponent(entry.type, entry.data);
+                break;
+            case 'tagChanged':
+                if (entry.added) {
+                    entity.removeTag(entry.tag);
+                } else {
+                    entity.addTag(entry.tag);
+                }
+                break;
+            case 'parentChanged':
+                entity.setParent(entry.previousParent ?? null);
+                break;
+        }
     }
 }
 
@@ -1744,9 +2934,14 @@ export class MessageManager {
      *
      * @param maxHistory - Maximum number of messages to keep in history (default: 1000)
      * @param logger - Optional logger for message bus operations
+     * @param validatePayloads - Run channel validators on publish (default: false)
      */
-    constructor(maxHistory: number = MAX_MESSAGE_HISTORY, logger?: Logger) {
-        this.bus = new MessageBus(maxHistory, logger);
+    constructor(
+        maxHistory: number = MAX_MESSAGE_HISTORY,
+        logger?: Logger,
+        validatePayloads: boolean = false
+    ) {
+        this.bus = new MessageBus(maxHistory, logger, validatePayloads);
     }
 
     /**
@@ -1763,18 +2958,30 @@ export class MessageManager {
      * const unsubscribe = messageManager.subscribe('playerDied', (msg) => {
      *   showGameOverScreen();
      * });
+     *
+     * // Typed channel: msg.data is a PlayerDiedData
+     * messageManager.subscribe(PlayerDied, (msg) => showGameOverScreen(msg.data.cause));
      * ```
      */
-    subscribe(messageType: string, callback: (message: SystemMessage) => void): () => void {
-        return this.bus.subscribe(messageType, callback);
+    subscribe<T>(
+        channel: MessageChannel<T>,
+        callback: (message: TypedMessage<T>) => void
+    ): () => void;
+    subscribe(messageType: string, callback: (message: SystemMessage) => void): () => void;
+    subscribe(
+        key: string | MessageChannel<unknown>,
+        callback: (message: SystemMessage) => void
+    ): () => void {
+        return this.bus.subscribe(channelName(key), callback);
     }
 
     /**
      * Publish a message to all subscribers.
      *
-     * @param messageType - The message type identifier
-     * @param data - The message payload (any data)
+     * @param messageType - The message type identifier, or a channel from `defineMessage()`
+     * @param data - The message payload (any data, or the channel's payload type)
      * @param sender - Optional sender identifier for debugging
+     * @throws Error if payload validation is enabled and the channel's validator rejects the payload
      *
      * @example
      * ```typescript
@@ -1786,18 +2993,107 @@ export class MessageManager {
      * }, 'PhysicsSystem');
      * ```
      */
-    publish(messageType: string, data: unknown, sender?: string): void {
-        this.bus.publish(messageType, data, sender);
+    publish<T>(channel: MessageChannel<T>, data: T, sender?: string): void;
+    publish(messageType: string, data: unknown, sender?: string): void;
+    publish(key: string | MessageChannel<unknown>, data: unknown, sender?: string): void {
+        this.bus.publishKey(key, data, sender);
+    }
+
+    /**
+     * Publish by message type or channel, for callers forwarding either.
+     * @internal
+     */
+    publishKey(key: string | MessageChannel<unknown>, data: unknown, sender?: string): void {
+        this.bus.publishKey(key, data, sender);
     }
 
     /**
      * Get message history for debugging or late subscribers.
      *
-     * @param messageType - Optional filter by message type
+     * @param messageType - Optional filter by message type or channel
      * @returns Array of messages (all messages if no type specified)
      */
-    getHistory(messageType?: string): SystemMessage[] {
-        return this.bus.getMessageHistory(messageType);
+    getHistory<T>(channel: MessageChannel<T>): TypedMessage<T>[];
+    getHistory(messageType?: string): SystemMessage[];
+    getHistory(messageType?: string | MessageChannel<unknown>): SystemMessage[] {
+        return this.bus.getMessageHistory(
+            messageType === undefined ? undefined : channelName(messageType)
+        );
+    }
+
+    /**
+     * Set when messages of a type are delivered to their subscribers.
+     *
+     * Queued modes avoid re-entrancy and make delivery independent of system
+     * priority: subscribers run after the publishing system (`endOfSystem`), once
+     * every system has run (`endOfFrame`), or at the start of the next fixed tick
+     * (`nextFixedTick`).
+     *
+     * @param messageType - The message type or channel
+     * @param mode - The delivery mode (default for every type: `'immediate'`)
+     *
+     * @example
+     * ```typescript
+     * // Damage is applied after all systems have moved and collided entities
+     * messageManager.setDeliveryMode(Damage, 'endOfFrame');
+     * ```
+     */
+    setDeliveryMode<T>(messageType: string | MessageChannel<T>, mode: MessageDeliveryMode): void {
+        this.bus.setDeliveryMode(channelName(messageType), mode);
+    }
+
+    /**
+     * Get when messages of a type are delivered.
+     */
+    getDeliveryMode<T>(messageType: string | MessageChannel<T>): MessageDeliveryMode {
+        return this.bus.getDeliveryMode(channelName(messageType));
+    }
+
+    /**
+     * Create a reader that returns the messages of a type delivered since it last read.
+     *
+     * Readers let a system process messages when it runs instead of inside
+     * subscriber callbacks. Delivered messages stay readable for the rest of the
+     * frame and the next frame, so a system that runs every frame sees every
+     * message exactly once. Call `close()` when the reader is no longer needed.
+     *
+     * @param messageType - The message type or channel to read
+     * @returns A reader starting after the messages delivered so far
+     *
+     * @example
+     * ```typescript
+     * const collisions = messageManager.createReader(Collision);
+     *
+     * engine.createSystem('Damage', { all: [Health] }, {
+     *   before: () => {
+     *     for (const message of collisions.read()) {
+     *       applyDamage(message.data);
+     *     }
+     *   }
+     * });
+     * ```
+     */
+    createReader<T>(channel: MessageChannel<T>): MessageReader<T>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    createReader(messageType: string): MessageReader<any>;
+    createReader(messageType: string | MessageChannel<unknown>): MessageReader<unknown> {
+        return this.bus.createReader(channelName(messageType));
+    }
+
+    /**
+     * Deliver the messages queued for a delivery mode.
+     * @internal
+     */
+    flush(mode: Exclude<MessageDeliveryMode, 'immediate'>): void {
+        this.bus.flush(mode);
+    }
+
+    /**
+     * Start a new frame for message readers.
+     * @internal
+     */
+    swapReaderBuffers(): void {
+        this.bus.swapReaderBuffers();
     }
 
     /**
@@ -1824,6 +3120,15 @@ interface ChangeTrackingOptions {
     debounceMs?: number;
 }
 
+/**
+ * Ticks at which a component was added to an entity and last changed.
+ * @internal
+ */
+interface ComponentChangeTicks {
+    added: number;
+    changed: number;
+}
+
 /**
  * Manages component change tracking and events
  */
@@ -1837,6 +3142,12 @@ export class ChangeTrackingManager {
     private debounceMs: number = 0;
     // Track dirty components per entity (for archetype mode)
     private dirtyComponentsMap: Map<number, Set<ComponentIdentifier>> = new Map();
+    // Change tick bookkeeping for change-detection query filters.
+    // Starts at 1 so a system that has never run (last run tick 0) sees everything.
+    private changeTick: number = 1;
+    private componentTicks: Map<Entity, Map<ComponentIdentifier, ComponentChangeTicks>> = new Map();
+    private removedTicks: Map<Entity, Map<ComponentIdentifier, number>> = new Map();
+    private eventUnsubscribers: Array<() => void> = [];
 
     constructor(
         componentManager: ComponentManager,
@@ -1848,6 +3159,24 @@ export class ChangeTrackingManager {
         this.proxyTrackingEnabled = options.enableProxyTracking ?? false;
         this.batchMode = options.batchMode ?? false;
         this.debounceMs = options.debounceMs ?? 0;
+
+        this.eventUnsubscribers.push(
+            eventEmitter.on('onComponentAdded', (...args: unknown[]) => {
+                this.recordComponentAdded(args[0] as Entity, args[1] as ComponentIdentifier);
+            }),
+            eventEmitter.on('onComponentRemoved', (...args: unknown[]) => {
+                this.recordComponentRemoved(args[0] as Entity, args[1] as ComponentIdentifier);
+            }),
+            // A replaced component counts as changed
+            eventEmitter.on('onComponentReplaced', (...args: unknown[]) => {
+                this.markComponentDirty(args[0] as Entity, args[1] as ComponentIdentifier);
+            }),
+            eventEmitter.on('onEntityReleased', (...args: unknown[]) => {
+                const entity = args[0] as Entity;
+                this.componentTicks.delete(entity);
+                this.removedTicks.delete(entity);
+            })
+        );
     }
 
     /**
@@ -1910,6 +3239,11 @@ export class ChangeTrackingManager {
                 componentArray.markDirty(index);
             }
 
+            const ticks = this.componentTicks.get(entity)?.get(componentType);
+            if (ticks) {
+                ticks.changed = this.changeTick;
+            }
+
             // Emit change event if not in batch mode
             if (!this.batchMode) {
                 this.emitComponentChanged(entity, componentType);
@@ -2072,6 +3406,71 @@ export class ChangeTrackingManager {
         }
     }
 
+    /**
+     * Get the current change tick.
+     *
+     * Additions, changes and removals are stamped with the tick that is current
+     * when they happen. A system remembers the tick of its last run and only
+     * matches stamps newer than it.
+     */
+    getChangeTick(): number {
+        return this.changeTick;
+    }
+
+    /**
+     * Advance the change tick after a system run, so changes made from then on
+     * are newer than that run.
+     */
+    advanceChangeTick(): number {
+        return ++this.changeTick;
+    }
+
+    /**
+     * Check an entity against the `added`, `changed` and `removed` filters of a
+     * query, counting only stamps newer than `sinceTick`.
+     */
+    matchesChangeFilters(
+        entity: Entity,
+        options: QueryOptions<ComponentIdentifier[]>,
+        sinceTick: number
+    ): boolean {
+        const { added = [], changed = [], removed = [] } = options;
+        const ticks = this.componentTicks.get(entity);
+        const removedTicks = this.removedTicks.get(entity);
+
+        for (const type of added) {
+            if ((ticks?.get(type)?.added ?? 0) <= sinceTick) return false;
+        }
+        for (const type of changed) {
+            if ((ticks?.get(type)?.changed ?? 0) <= sinceTick) return false;
+        }
+        for (const type of removed) {
+            if (entity.hasComponent(type)) return false;
+            if ((removedTicks?.get(type) ?? 0) <= sinceTick) return false;
+        }
+        return true;
+    }
+
+    private recordComponentAdded(entity: Entity, componentType: ComponentIdentifier): void {
+        let ticks = this.componentTicks.get(entity);
+        if (!ticks) {
+            ticks = new Map();
+            this.componentTicks.set(entity, ticks);
+        }
+        ticks.set(componentType, { added: this.changeTick, changed: this.changeTick });
+    }
+
+    private recordComponentRemoved(entity: Entity, componentType: ComponentIdentifier): void {
+        this.componentTicks.get(entity)?.delete(componentType);
+
+        let ticks = this.removedTicks.get(entity);
+        if (!ticks) {
+            ticks = new Map();
+            this.removedTicks.set(entity, ticks);
+        }
+        ticks.set(componentType, this.changeTick);
+    }
+
     /**
      * Clean up all pending timers and resources.
      * Call this when disposing the ChangeTrackingManager.
@@ -2085,6 +3484,14 @@ export class ChangeTrackingManager {
 
         // Clear dirty components tracking
         this.dirtyComponentsMap.clear();
+
+        // Clear change tick tracking
+        for (const unsubscribe of this.eventUnsubscribers) {
+            unsubscribe();
+        }
+        this.eventUnsubscribers = [];
+        this.componentTicks.clear();
+        this.removedTicks.clear();
     }
 }
 
@@ -0,0 +1,321 @@
+/**
+ * Plugin Dependencies Test Suite
+ * Tests for semver ranges, dependency-ordered install, async install and uninstall guards
+ */
+
+import type { EnginePlugin } from './definitions';
+import { EngineBuilder } from './engine';
+import { resolvePluginOrder, satisfiesVersion } from './plugins';
+
+function plugin(
+    name: string,
+    options: Partial<EnginePlugin> = {},
+    log: string[] = []
+): EnginePlugin {
+    return {
+        name,
+        version: '1.0.0',
+        install: () => void log.push(name),
+        ...options,
+    };
+}
+
+describe('Plugin Dependencies', () => {
+    describe('satisfiesVersion', () => {
+        test.each([
+            ['1.2.3', '1.2.3', true],
+            ['1.2.4', '1.2.3', false],
+            ['1.9.0', '^1.2.0', true],
+            ['2.0.0', '^1.2.0', false],
+            ['0.2.9', '^0.2.1', true],
+            ['0.3.0', '^0.2.1', false],
+            ['1.2.9', '~1.2.0', true],
+            ['1.3.0', '~1.2.0', false],
+            ['1.5.0', '>=1.2.0 <2.0.0', true],
+            ['2.0.0', '>=1.2.0 <2.0.0', false],
+            ['1.4.7', '1.x', true],
+            ['1.4.7', '1.4', true],
+            ['1.5.0', '1.2.0 - 1.4', false],
+            ['1.4.9', '1.2.0 - 1.4', true],
+            ['3.1.0', '^1.0.0 || ^3.0.0', true],
+            ['2.0.0-beta.1', '^1.0.0', false],
+            ['1.0.0-beta.2', '>1.0.0-beta.1', true],
+            ['5.0.0', '*', true],
+            ['not-a-version', '*', false],
+        ])('%s satisfies %s: %s', (version, range, expected) => {
+            expect(satisfiesVersion(version, range)).toBe(expected);
+        });
+
+        test('should reject malformed ranges', () => {
+            expect(() => satisfiesVersion('1.0.0', '^one')).toThrow(
+                '[ECS] Invalid version range "^one"'
+            );
+        });
+    });
+
+    describe('resolvePluginOrder', () => {
+        test('should order dependencies first and keep registration order otherwise', () => {
+            const ragdoll = plugin('Ragdoll', { dependencies: { Physics: '^1.0.0' } });
+            const audio = plugin('Audio');
+            const physics = plugin('Physics');
+            const debug = plugin('Debug', { optionalDependencies: { Audio: '*', Net: '*' } });
+
+            const order = resolvePluginOrder([debug, ragdoll, audio, physics]);
+
+            expect(order.map((p) => p.name)).toEqual(['Audio', 'Debug', 'Physics', 'Ragdoll']);
+        });
+
+        test('should report missing dependencies, version mismatches and cycles', () => {
+            expect(() =>
+                resolvePluginOrder([plugin('Ragdoll', { dependencies: { Physics: '*' } })])
+            ).toThrow(
+                '[ECS] Plugin "Ragdoll" depends on "Physics", which is not installed or registered'
+            );
+            expect(() =>
+                resolvePluginOrder([
+                    plugin('Physics', { version: '2.1.0' }),
+                    plugin('Ragdoll', { dependencies: { Physics: '^1.0.0' } }),
+                ])
+            ).toThrow(
+                '[ECS] Plugin "Ragdoll" requires "Physics@^1.0.0", but version 2.1.0 is available'
+            );
+            expect(() =>
+                resolvePluginOrder([
+                    plugin('A', { dependencies: { B: '*' } }),
+                    plugin('B', { dependencies: { C: '*' } }),
+                    plugin('C', { optionalDependencies: { A: '*' } }),
+                ])
+            ).toThrow('[ECS] Circular plugin dependency: A -> B -> C -> A');
+        });
+    });
+
+    describe('EngineBuilder', () => {
+        test('should install plugins after their dependencies', () => {
+            const log: string[] = [];
+            const engine = new EngineBuilder()
+                .use(plugin('Ragdoll', { dependencies: { Physics: '^1.0.0' } }, log))
+                .use(plugin('Physics', {}, log))
+                .build();
+
+            expect(log).toEqual(['Physics', 'Ragdoll']);
+            expect(engine.getInstalledPlugins().map(({ plugin }) => plugin.name)).toEqual([
+                'Physics',
+                'Ragdoll',
+            ]);
+            engine.destroy();
+        });
+
+        test('should check peer dependencies against the whole plugin set', () => {
+            const log: string[] = [];
+            const editor = plugin('Editor', { peerDependencies: { Renderer: '>=2.0.0' } }, log);
+
+            const engine = new EngineBuilder()
+                .use(editor)
+                .use(plugin('Renderer', { version: '2.3.0' }, log))
+                .build();
+
+            expect(log).toEqual(['Editor', 'Renderer']);
+            expect(() => new EngineBuilder().use(editor).build()).toThrow(
+                '[ECS] Plugin "Editor" depends on "Renderer", which is not installed or registered'
+            );
+            engine.destroy();
+        });
+
+        test('should refuse sync builds that depend on an async install', () => {
+            const assets = plugin('Assets', { install: () => Promise.resolve() });
+            const sprites = plugin('Sprites', { dependencies: { Assets: '*' } });
+
+            expect(() => new EngineBuilder().use(assets).use(sprites).build()).toThrow(
+                /Plugin "Sprites" depends on "Assets", which is still installing/
+            );
+        });
+
+        test('should await async installs in order with buildAsync', async () => {
+            const log: string[] = [];
+            const assets = plugin('Assets', {
+                install: async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 10));
+                    log.push('Assets');
+                },
+            });
+
+            const engine = await new EngineBuilder()
+                .use(plugin('Sprites', { dependencies: { Assets: '^1.0.0' } }, log))
+                .use(assets)
+                .buildAsync();
+
+            expect(log).toEqual(['Assets', 'Sprites']);
+            expect(engine.hasPlugin('Assets')).toBe(true);
+            engine.destroy();
+        });
+
+        test('should reject buildAsync when an install fails', async () => {
+            const broken = plugin('Broken', {
+                install: () => Promise.reject(new Error('No manifest')),
+            });
+
+            await expect(new EngineBuilder().use(broken).buildAsync()).rejects.toThrow(
+                'No manifest'
+            );
+        });
+    });
+
+    describe('Engine', () => {
+        test('should wait for background installs before installing dependents', async () => {
+            const engine = new EngineBuilder().build();
+            engine.installPlugin(plugin('Assets', { install: () => Promise.resolve() }));
+
+            expect(engine.hasPlugin('Assets')).toBe(false);
+            await engine.installPluginAsync(plugin('Sprites', { dependencies: { Assets: '*' } }));
+
+            expect(engine.hasPlugin('Assets')).toBe(true);
+            expect(engine.hasPlugin('Sprites')).toBe(true);
+            engine.destroy();
+        });
+
+        test('should refuse to uninstall a plugin others depend on', async () => {
+            const uninstalled: string[] = [];
+            const withUninstall = (name: string, options: Partial<EnginePlugin> = {}) =>
+                plugin(name, { ...options, uninstall: () => void uninstalled.push(name) });
+            const engine = new EngineBuilder()
+                .use(withUninstall('Physics'))
+                .use(withUninstall('Ragdoll', { dependencies: { Physics: '*' } }))
+                .use(withUninstall('Editor', { peerDependencies: { Ragdoll: '*' } }))
+                .build();
+
+            await expect(engine.uninstallPlugin('Physics')).rejects.toThrow(
+                '[ECS] Cannot uninstall plugin "Physics": required by "Ragdoll"'
+            );
+            expect(engine.hasPlugin('Physics')).toBe(true);
+
+            expect(await engine.uninstallPlugin('Physics', { cascade: true })).toBe(true);
+            expect(uninstalled).toEqual(['Editor', 'Ragdoll', 'Physics']);
+            expect(engine.getInstalledPlugins()).toEqual([]);
+            engine.destroy();
+        });
+    });
+
+    describe('resource tracking', () => {
+        class Gravity {
+            constructor(public y: number = -9.8) {}
+        }
+
+        class Body {
+            mass = 1;
+        }
+
+        const physics = (log: string[] = []): EnginePlugin =>
+            plugin('Physics', {
+                install: (context) => {
+                    context.registerComponent(Body);
+                    context.setSingleton(Gravity);
+                    context.createSystem('Integrate', { all: [Body] }, {});
+                    context.createQuery({ all: [Body] });
+                    context.registerPrefab('Crate', { name: 'Crate', components: [], tags: [] });
+                    context.on('onEntityCreated', () => log.push('created'));
+                    context.messageBus.subscribe('impulse', () => log.push('impulse'));
+                    context.extend('physics', { gravity: () => 9.8 });
+                },
+            });
+
+        test('should remove everything a plugin created on uninstall', async () => {
+            const log: string[] = [];
+            const engine = new EngineBuilder().use(physics(log)).build();
+            const queries = engine.getQueryStats().length;
+            expect(engine.getPluginResources('Physics').map(({ kind }) => kind)).toEqual([
+                'component',
+                'singleton',
+                'system',
+                'query',
+                'prefab',
+                'listener',
+                'subscription',
+                'extension',
+            ]);
+
+            await engine.uninstallPlugin('Physics');
+            engine.createEntity();
+            engine.messageBus.publish('impulse', {});
+
+            expect(log).toEqual([]);
+            expect(engine.getSystem('Integrate')).toBeUndefined();
+            expect(engine.hasSingleton(Gravity)).toBe(false);
+            expect(engine.createFromPrefab('Crate')).toBeNull();
+            expect(engine.getExtension('physics')).toBeUndefined();
+            expect('physics' in engine).toBe(false);
+            expect(engine.getQueryStats()).toHaveLength(queries - 1);
+            expect(engine.getPluginResources('Physics')).toEqual([]);
+
+            const report = engine.getPluginCleanupReport('Physics');
+            expect(report?.released).toHaveLength(7);
+            expect(report?.retained).toEqual([{ kind: 'component', name: 'Body', world: 'main' }]);
+            expect(report?.failed).toEqual([]);
+            engine.destroy();
+        });
+
+        test('should leave resources replaced by others and forget manual unsubscribes', async () => {
+            const engine = new EngineBuilder()
+                .use(
+                    plugin('Stats', {
+                        install: (context) => {
+                            context.createSystem('Shared', { all: [Body] }, {});
+                            context.setSingleton(Gravity, -1);
+                            const off = context.on('onEntityCreated', () => {});
+                            off();
+                        },
+                    })
+                )
+                .build();
+            engine.removeSystem('Shared');
+            const replacement = engine.createSystem('Shared', { all: [Body] }, {});
+            engine.setSingleton(Gravity, -2);
+
+            expect(engine.getPluginResources('Stats').map(({ kind }) => kind)).toEqual([
+                'system',
+                'singleton',
+            ]);
+            await engine.uninstallPlugin('Stats');
+
+            expect(engine.getSystem('Shared')).toBe(replacement);
+            expect(engine.getSingleton(Gravity)?.y).toBe(-2);
+            engine.destroy();
+        });
+
+        test('should clean up after a failed install and report failures', async () => {
+            const engine = new EngineBuilder().build();
+
+            await expect(
+                engine.installPluginAsync(
+                    plugin('Broken', {
+                        install: async (context) => {
+                            context.createSystem('Half', { all: [Body] }, {});
+                            throw new Error('No manifest');
+                        },
+                    })
+                )
+            ).rejects.toThrow('No manifest');
+            expect(engine.getSystem('Half')).toBeUndefined();
+            expect(engine.getPluginCleanupReport('Broken')?.released).toEqual([
+                { kind: 'system', name: 'Half', world: 'main' },
+            ]);
+
+            engine.installPlugin(
+                plugin('Fragile', {
+                    install: (context) => {
+                        context.createSystem('Locked', { all: [Body] }, {});
+                    },
+                })
+            );
+            jest.spyOn(engine, 'removeSystem').mockImplementation(() => {
+                throw new Error('System locked');
+            });
+            await engine.uninstallPlugin('Fragile');
+
+            const [failure] = engine.getPluginCleanupReport('Fragile')?.failed ?? [];
+            expect(failure).toMatchObject({ kind: 'system', name: 'Locked' });
+            expect(failure?.error).toEqual(new Error('System locked'));
+            expect(engine.hasPlugin('Fragile')).toBe(false);
+            engine.destroy();
+        });
+    });
+});
@@ -0,0 +1,463 @@
+/**
+ * Plugin dependency resolution: semver range matching, install ordering and
+ * dependent lookup.
+ *
+ * Used by the engine to install plugins after the plugins they depend on, to
+ * refuse uninstalling a plugin that others still need, and to remove what a
+ * plugin created once it is uninstalled.
+ */
+
+import type {
+    EnginePlugin,
+    PluginCleanupReport,
+    PluginDependencies,
+    PluginResource,
+} from './definitions';
+
+interface Version {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+}
+
+interface Comparator {
+    operator: '<' | '<=' | '>' | '>=' | '=';
+    version: Version;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN =
+    /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*(.*)$/;
+
+/**
+ * Check whether a version satisfies a semver range.
+ *
+ * Supports exact versions, `^`, `~`, comparison operators, `x` wildcards,
+ * hyphen ranges and `||` alternatives. An empty range or `*` matches any
+ * valid version.
+ *
+ * @param version - A semantic version such as `"1.4.2"`
+ * @param range - A range such as `"^1.2.0"` or `">=1.0.0 <2.0.0 || 3.x"`
+ * @returns true if the version is valid and inside the range
+ * @throws Error if the range cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * satisfiesVersion('1.4.2', '^1.2.0');  // true
+ * satisfiesVersion('2.0.0', '~1.4');    // false
+ * ```
+ *
+ * @public
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+    const parsed = parseVersion(version);
+    if (!parsed) {
+        return false;
+    }
+    return parseRange(range).some((comparators) =>
+        comparators.every((comparator) => testComparator(parsed, comparator))
+    );
+}
+
+/**
+ * Order plugins so that every plugin comes after its dependencies and the
+ * optional dependencies that are present, keeping registration order otherwise.
+ *
+ * Required and peer dependencies must be among the plugins or already
+ * installed, and every present dependency must satisfy its declared range.
+ * Plugins that are already installed, and repeated names, are left out.
+ *
+ * @param plugins - Plugins to install
+ * @param installed - Plugins already installed, by name
+ * @returns The plugins to install, in install order
+ * @throws Error on a missing dependency, a version mismatch or a dependency cycle
+ *
+ * @example
+ * ```typescript
+ * const order = resolvePluginOrder([ragdollPlugin, physicsPlugin]);
+ * // [physicsPlugin, ragdollPlugin]
+ * ```
+ *
+ * @public
+ */
+export function resolvePluginOrder(
+    plugins: readonly EnginePlugin[],
+    installed: ReadonlyMap<string, EnginePlugin> = new Map()
+): EnginePlugin[] {
+    const pending = new Map<string, EnginePlugin>();
+    for (const plugin of plugins) {
+        if (!installed.has(plugin.name) && !pending.has(plugin.name)) {
+            pending.set(plugin.name, plugin);
+        }
+    }
+
+    const lookup = (name: string): EnginePlugin | undefined =>
+        pending.get(name) ?? installed.get(name);
+    for (const plugin of pending.values()) {
+        checkPluginDependencies(plugin, lookup);
+    }
+
+    const order: EnginePlugin[] = [];
+    const visited = new Set<string>();
+    const path: string[] = [];
+    const visit = (plugin: EnginePlugin): void => {
+        if (visited.has(plugin.name)) {
+            return;
+        }
+        if (path.includes(plugin.name)) {
+            const cycle = [...path.slice(path.indexOf(plugin.name)), plugin.name];
+            throw new Error(`[ECS] Circular plugin dependency: ${cycle.join(' -> ')}`);
+        }
+        path.push(plugin.name);
+        for (const name of getOrderingDependencies(plugin)) {
+            const dependency = pending.get(name);
+            if (dependency) {
+                visit(dependency);
+            }
+        }
+        path.pop();
+        visited.add(plugin.name);
+        order.push(plugin);
+    };
+    for (const plugin of pending.values()) {
+        visit(plugin);
+    }
+    return order;
+}
+
+/**
+ * Get the plugins that declare a plugin as a required or peer dependency.
+ *
+ * @param name - Name of the plugin depended on
+ * @param plugins - Plugins to search
+ * @returns The dependent plugins, in the order given
+ *
+ * @public
+ */
+export function getPluginDependents(name: string, plugins: Iterable<EnginePlugin>): EnginePlugin[] {
+    const dependents: EnginePlugin[] = [];
+    for (const plugin of plugins) {
+        if (
+            plugin.dependencies?.[name] !== undefined ||
+            plugin.peerDependencies?.[name] !== undefined
+        ) {
+            dependents.push(plugin);
+        }
+    }
+    return dependents;
+}
+
+interface TrackedResource {
+    resource: PluginResource;
+    // Undefined for resources that stay registered after uninstall
+    release?: () => void;
+}
+
+/**
+ * Records the resources a plugin creates through its context so they can be
+ * removed when the plugin is uninstalled.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new PluginResourceTracker('Physics');
+ * const untrack = tracker.track({ kind: 'listener', name: 'onEntityCreated', world: 'main' }, off);
+ * const report = tracker.release(); // Calls off()
+ * ```
+ *
+ * @internal
+ */
+export class PluginResourceTracker {
+    private resources: TrackedResource[] = [];
+
+    constructor(private readonly pluginName: string) {}
+
+    /**
+     * Record a resource.
+     *
+     * @param resource - The resource to record
+     * @param release - Removes the resource; omit for resources that are retained
+     * @returns A function that forgets the resource without releasing it
+     */
+    track(resource: PluginResource, release?: () => void): () => void {
+        const entry: TrackedResource = { resource, release };
+        this.resources.push(entry);
+        return () => {
+            const index = this.resources.indexOf(entry);
+            if (index !== -1) {
+                this.resources.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Forget a recorded resource without releasing it, so another owner can
+     * take it over.
+     *
+     * @param kind - Kind of the resource
+     * @param name - Name of the resource
+     * @returns true if such a resource was recorded
+     */
+    claim(kind: PluginResource['kind'], name: string): boolean {
+        const index = this.resources.findIndex(
+            ({ resource }) => resource.kind === kind && resource.name === name
+        );
+        if (index === -1) {
+            return false;
+        }
+        this.resources.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Get the recorded resources, oldest first.
+     */
+    getResources(): PluginResource[] {
+        return this.resources.map(({ resource }) => ({ ...resource }));
+    }
+
+    /**
+     * Release every recorded resource, newest first, and forget them all.
+     *
+     * Errors thrown while releasing are collected in the report instead of
+     * stopping the cleanup.
+     */
+    release(): PluginCleanupReport {
+        const report: PluginCleanupReport = {
+            plugin: this.pluginName,
+            released: [],
+            retained: [],
+            failed: [],
+        };
+        const resources = this.resources;
+        this.resources = [];
+        for (let i = resources.length - 1; i >= 0; i--) {
+            const { resource, release } = resources[i] as TrackedResource;
+            if (!release) {
+                report.retained.push(resource);
+                continue;
+            }
+            try {
+                release();
+                report.released.push(resource);
+            } catch (error) {
+                report.failed.push({ ...resource, error });
+            }
+        }
+        return report;
+    }
+}
+
+/**
+ * Check that a plugin's required and peer dependencies are present and that
+ * every present dependency satisfies its declared range.
+ * @internal
+ */
+export function checkPluginDependencies(
+    plugin: EnginePlugin,
+    lookup: (name: string) => EnginePlugin | undefined
+): void {
+    checkDependencies(plugin, plugin.dependencies, lookup, true);
+    checkDependencies(plugin, plugin.peerDependencies, lookup, true);
+    checkDependencies(plugin, plugin.optionalDependencies, lookup, false);
+}
+
+/**
+ * Names a plugin must be installed after: required and optional dependencies.
+ * @internal
+ */
+export function getOrderingDependencies(plugin: EnginePlugin): string[] {
+    return [
+        ...Object.keys(plugin.dependencies ?? {}),
+        ...Object.keys(plugin.optionalDependencies ?? {}),
+    ];
+}
+
+function checkDependencies(
+    plugin: EnginePlugin,
+    dependencies: PluginDependencies | undefined,
+    lookup: (name: string) => EnginePlugin | undefined,
+    required: boolean
+): void {
+    for (const [name, range] of Object.entries(dependencies ?? {})) {
+        const dependency = lookup(name);
+        if (!dependency) {
+            if (required) {
+                throw new Error(
+                    `[ECS] Plugin "${plugin.name}" depends on "${name}", which is not installed or registered`
+                );
+            }
+            continue;
+        }
+        if (isAnyRange(range)) {
+            continue;
+        }
+        if (dependency.version === undefined) {
+            throw new Error(
+                `[ECS] Plugin "${plugin.name}" requires "${name}@${range}", but "${name}" has no version`
+            );
+        }
+        if (!satisfiesVersion(dependency.version, range)) {
+            throw new Error(
+                `[ECS] Plugin "${plugin.name}" requires "${name}@${range}", but version ${dependency.version} is available`
+            );
+        }
+    }
+}
+
+function isAnyRange(range: string): boolean {
+    const trimmed = range.trim();
+    return trimmed === '' || trimmed === '*' || trimmed === 'x' || trimmed === 'X';
+}
+
+function parseVersion(text: string): Version | undefined {
+    const match = VERSION_PATTERN.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split('.') : [],
+    };
+}
+
+function compareVersions(a: Version, b: Version): number {
+    const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (core !== 0) {
+        return core;
+    }
+    // A release is greater than any of its prereleases
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        const left = a.prerelease[i];
+        const right = b.prerelease[i];
+        if (left === undefined || right === undefined) {
+            return left === undefined ? -1 : 1;
+        }
+        if (left !== right) {
+            const numeric = /^\d+$/.test(left) && /^\d+$/.test(right);
+            return numeric ? Number(left) - Number(right) : left < right ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+function testComparator(version: Version, { operator, version: bound }: Comparator): boolean {
+    const order = compareVersions(version, bound);
+    switch (operator) {
+        case '<':
+            return order < 0;
+        case '<=':
+            return order <= 0;
+        case '>':
+            return order > 0;
+        case '>=':
+            return order >= 0;
+        case '=':
+            return order === 0;
+    }
+}
+
+// Each alternative is a set of comparators that must all hold
+function parseRange(range: string): Comparator[][] {
+    return range.split('||').map((alternative) => {
+        const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(alternative);
+        if (hyphen) {
+            return [
+                ...desugar('>=', hyphen[1] as string, range),
+                ...desugar('<=', hyphen[2] as string, range),
+            ];
+        }
+        const tokens = alternative
+            .trim()
+            // Allow a space between an operator and its version, e.g. ">= 1.2.0"
+            .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+            .split(/\s+/)
+            .filter((token) => token !== '');
+        if (tokens.length === 0) {
+            return [];
+        }
+        return tokens.flatMap((token) => {
+            const [, operator = '', partial = ''] = COMPARATOR_PATTERN.exec(token) ?? [];
+            return desugar(operator, partial, range);
+        });
+    });
+}
+
+function desugar(operator: string, partial: string, range: string): Comparator[] {
+    const match = PARTIAL_PATTERN.exec(partial);
+    if (!match) {
+        throw new Error(`[ECS] Invalid version range "${range}"`);
+    }
+    const major = parsePart(match[1]);
+    const minor = major === undefined ? undefined : parsePart(match[2]);
+    const patch = minor === undefined ? undefined : parsePart(match[3]);
+    const prerelease = patch !== undefined && match[4] ? match[4].split('.') : [];
+
+    const lower: Version = { major: major ?? 0, minor: minor ?? 0, patch: patch ?? 0, prerelease };
+    // The first version after the partial, e.g. 1.3.0 for 1.2 or 2.0.0 for 1
+    const next = (): [number, number, number] =>
+        minor === undefined
+            ? [(major ?? 0) + 1, 0, 0]
+            : patch === undefined
+              ? [major ?? 0, minor + 1, 0]
+              : [major ?? 0, minor, patch + 1];
+
+    if (major === undefined) {
+        return operator === '<' || operator === '>' ? [below(0, 0, 0)] : [];
+    }
+
+    switch (operator) {
+        case '^': {
+            const upper: [number, number, number] =
+                major > 0 || minor === undefined
+                    ? [major + 1, 0, 0]
+                    : minor > 0 || patch === undefined
+                      ? [0, minor + 1, 0]
+                      : [0, 0, patch + 1];
+            return [{ operator: '>=', version: lower }, below(...upper)];
+        }
+        case '~': {
+            const upper: [number, number, number] =
+                minor === undefined ? [major + 1, 0, 0] : [major, minor + 1, 0];
+            return [{ operator: '>=', version: lower }, below(...upper)];
+        }
+        case '>':
+            return patch === undefined
+                ? [{ operator: '>=', version: toVersion(next()) }]
+                : [{ operator: '>', version: lower }];
+        case '>=':
+            return [{ operator: '>=', version: lower }];
+        case '<':
+            return [
+                patch === undefined
+                    ? below(lower.major, lower.minor, 0)
+                    : { operator: '<', version: lower },
+            ];
+        case '<=':
+            return [patch === undefined ? below(...next()) : { operator: '<=', version: lower }];
+        default:
+            return patch === undefined
+                ? [{ operator: '>=', version: lower }, below(...next())]
+                : [{ operator: '=', version: lower }];
+    }
+}
+
+// A version part, or undefined for a wildcard or missing part
+function parsePart(value: string | undefined): number | undefined {
+    return value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value);
+}
+
+// Exclusive upper bound below every prerelease of the given version
+function below(major: number, minor: number, patch: number): Comparator {
+    return { operator: '<', version: { major, minor, patch, prerelease: ['0'] } };
+}
+
+function toVersion([major, minor, patch]: [number, number, number]): Version {
+    return { major, minor, patch, prerelease: [] };
+}
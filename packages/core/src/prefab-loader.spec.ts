@@ -0,0 +1,185 @@
+/**
+ * Prefab File Test Suite
+ * Tests for loading data-driven prefabs, inheritance, variants and validation errors
+ */
+
+import { EngineBuilder } from './engine';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Health {
+    current: number = 100;
+    max: number = 100;
+}
+
+class Armor {
+    value: number = 0;
+}
+
+class Weapon {
+    damage: number = 1;
+    kind: string = 'melee';
+}
+
+function createEngine() {
+    const engine = new EngineBuilder().build();
+    engine.registerComponent(Position);
+    engine.registerComponent(Health);
+    engine.registerComponent(Armor);
+    engine.registerComponent(Weapon);
+    engine.registerComponentValidator(Health, {
+        validate: (health) => health.current <= health.max || 'current exceeds max',
+    });
+    engine.registerComponentValidator(Armor, { validate: () => true, dependencies: [Health] });
+    return engine;
+}
+
+const enemies = JSON.stringify({
+    prefabs: {
+        Brute: {
+            parent: 'Enemy',
+            components: { Health: { current: 200, max: 200 }, Armor: { value: 5 } },
+            tags: ['heavy'],
+            children: [{ name: 'Club', components: { Weapon: { damage: 12 } } }],
+        },
+        Enemy: {
+            components: { Position: { y: 4 }, Health: { current: 50, max: 50 } },
+            tags: ['enemy'],
+        },
+    },
+});
+
+describe('Prefab files', () => {
+    test('should load prefabs with parent inheritance, variant overrides and children', () => {
+        const engine = createEngine();
+
+        const names = engine.loadPrefabs(enemies, { file: 'enemies.json' });
+        const brute = engine.createFromPrefab('Brute');
+
+        expect(names).toEqual(['Enemy', 'Brute']);
+        expect(brute?.name).toBe('Brute');
+        expect(brute?.getComponent(Position)).toEqual({ x: 0, y: 4 });
+        expect(brute?.getComponent(Health)).toEqual({ current: 200, max: 200 });
+        expect(brute?.getComponent(Armor).value).toBe(5);
+        expect([...(brute?.tags ?? [])]).toEqual(['enemy', 'heavy']);
+        const [club] = brute?.children ?? [];
+        expect(club?.name).toBe('Club');
+        expect(club?.getComponent(Weapon)).toEqual({ damage: 12, kind: 'melee' });
+        expect(engine.createFromPrefab('Enemy')?.getComponent(Health).current).toBe(50);
+        engine.destroy();
+    });
+
+    test('should report every problem with its file and path and register nothing', () => {
+        const engine = createEngine();
+        const file = {
+            prefabs: {
+                Goblin: {
+                    components: {
+                        Helth: {},
+                        Health: { current: 'full' },
+                        Position: { z: 1 },
+                        Armor: {},
+                    },
+                    tags: ['enemy', 3],
+                },
+                Orc: { components: { Health: { current: 150 } } },
+                Ghost: { parent: 'Spirit', colour: 'white' },
+                Squad: { children: [{ components: { Weapon: { damage: [1] } } }] },
+            },
+        };
+
+        let message = '';
+        try {
+            engine.loadPrefabs(JSON.parse(JSON.stringify(file)), { file: 'goblins.json' });
+        } catch (error) {
+            message = (error as Error).message;
+        }
+
+        expect(message.split('\n')).toEqual([
+            '[ECS] Invalid prefab file goblins.json:',
+            '  goblins.json prefabs.Goblin.components.Helth: unknown component "Helth"',
+            '  goblins.json prefabs.Goblin.components.Health.current: expected number, got string',
+            '  goblins.json prefabs.Goblin.components.Position.z: unknown field "z" on Position',
+            '  goblins.json prefabs.Goblin.components.Armor: requires component Health',
+            '  goblins.json prefabs.Goblin.tags[1]: expected a string, got number',
+            '  goblins.json prefabs.Orc.components.Health: current exceeds max',
+            '  goblins.json prefabs.Ghost.colour: unknown key "colour"',
+            '  goblins.json prefabs.Ghost.parent: unknown prefab "Spirit"',
+            '  goblins.json prefabs.Squad.children[0].name: expected a string, got undefined',
+            '  goblins.json prefabs.Squad.children[0].components.Weapon.damage: expected number, got array',
+        ]);
+        expect(engine.createFromPrefab('Orc')).toBeNull();
+        engine.destroy();
+    });
+
+    test('should keep checking a prefab whose parent is unusable', () => {
+        const engine = createEngine();
+        const file = {
+            prefabs: {
+                Ghost: { parent: 'Spirit', components: { Helth: {} } },
+                Wraith: { parent: 'Ghost', name: 7, tags: [false] },
+                Shade: { parent: 3, components: { Health: { current: 'full' } } },
+            },
+        };
+
+        expect(() =>
+            engine.loadPrefabs(JSON.parse(JSON.stringify(file)), { file: 'undead.json' })
+        ).toThrow(
+            [
+                '[ECS] Invalid prefab file undead.json:',
+                '  undead.json prefabs.Ghost.parent: unknown prefab "Spirit"',
+                '  undead.json prefabs.Ghost.components.Helth: unknown component "Helth"',
+                '  undead.json prefabs.Wraith.name: expected a string, got number',
+                '  undead.json prefabs.Wraith.tags[0]: expected a string, got boolean',
+                '  undead.json prefabs.Shade.parent: expected a prefab name, got number',
+                '  undead.json prefabs.Shade.components.Health.current: expected number, got string',
+            ].join('\n')
+        );
+        expect(engine.createFromPrefab('Wraith')).toBeNull();
+        engine.destroy();
+    });
+
+    test('should inherit from registered prefabs and reject circular inheritance', () => {
+        const engine = createEngine();
+        engine.registerPrefab('Marker', {
+            name: 'Marker',
+            components: [{ type: Position, args: [7, 8] }],
+            tags: ['marker'],
+        });
+
+        engine.loadPrefabs({
+            prefabs: { Flag: { parent: 'Marker', components: { Position: { y: 1 } } } },
+        });
+
+        expect(engine.createFromPrefab('Flag')?.getComponent(Position)).toEqual({ x: 7, y: 1 });
+        expect(() =>
+            engine.loadPrefabs({ prefabs: { A: { parent: 'B' }, B: { parent: 'A' } } })
+        ).toThrow('prefabs prefabs.A.parent: circular inheritance A -> B -> A');
+        engine.destroy();
+    });
+
+    test('should parse YAML files with the given parser and report syntax errors', () => {
+        const engine = createEngine();
+        const parse = jest.fn(() => ({ prefabs: { Crate: { components: { Position: {} } } } }));
+
+        expect(() => engine.loadPrefabs('prefabs:\n  Crate: {}', { file: 'crates.yaml' })).toThrow(
+            '[ECS] Cannot load prefab file crates.yaml: YAML files need a parser, pass one as options.parse'
+        );
+        expect(engine.loadPrefabs('prefabs: ...', { file: 'crates.yml', parse })).toEqual([
+            'Crate',
+        ]);
+        expect(parse).toHaveBeenCalledWith('prefabs: ...');
+        expect(() => engine.loadPrefabs('{ "prefabs": ', { file: 'broken.json' })).toThrow(
+            '[ECS] Invalid prefab file broken.json:'
+        );
+        expect(() => engine.loadPrefabs('[]')).toThrow(
+            '[ECS] Invalid prefab file prefabs: expected an object with a "prefabs" object'
+        );
+        engine.destroy();
+    });
+});
@@ -0,0 +1,387 @@
+/**
+ * Loading of data-driven prefabs from JSON or YAML prefab files.
+ *
+ * A prefab file names components and their fields instead of referencing
+ * classes, so prefabs can be authored without TypeScript. Loading resolves the
+ * names against the registered components, checks field names and types
+ * against the fields declared in the component's schema (or, for undeclared
+ * fields, a default-constructed instance), runs the components' validators and
+ * reports every problem with the file and the path of the offending value.
+ */
+
+import type {
+    ComponentFields,
+    ComponentIdentifier,
+    ComponentValidator,
+    EntityPrefab,
+    PrefabLoadOptions,
+} from './definitions';
+import { applyFieldDefaults, checkFieldValue } from './fields';
+import { describeValueType } from './utils';
+
+/**
+ * Lookups needed to turn a prefab file into prefab definitions.
+ * @internal
+ */
+export interface PrefabLoadContext {
+    getComponentByName(name: string): ComponentIdentifier | undefined;
+    getValidator<T>(type: ComponentIdentifier<T>): ComponentValidator<T> | undefined;
+    /** Get the fields declared in a component's schema */
+    getFields(type: ComponentIdentifier): ComponentFields | undefined;
+    /** Get an already registered prefab, for parents outside the file */
+    getPrefab(name: string): EntityPrefab | undefined;
+}
+
+type PrefabComponent = EntityPrefab['components'][number];
+
+const ENTRY_KEYS = new Set(['name', 'parent', 'components', 'tags', 'children']);
+
+/**
+ * Parse and validate a prefab file.
+ *
+ * @param source - File text, or the already parsed file contents
+ * @param context - Component and prefab lookups
+ * @param options - File name for error messages and the parser for the text
+ * @returns The prefabs keyed by name, parents before the prefabs that inherit from them
+ * @throws Error listing every problem in the file, each with its path
+ * @internal
+ */
+export function loadPrefabFile(
+    source: unknown,
+    context: PrefabLoadContext,
+    options: PrefabLoadOptions = {}
+): Map<string, EntityPrefab> {
+    const file = options.file ?? 'prefabs';
+    const contents = typeof source === 'string' ? parsePrefabText(source, file, options) : source;
+    if (!isRecord(contents) || !isRecord(contents.prefabs)) {
+        throw new Error(
+            `[ECS] Invalid prefab file ${file}: expected an object with a "prefabs" object`
+        );
+    }
+
+    const loader = new PrefabFileLoader(contents.prefabs, context);
+    const prefabs = loader.load();
+    if (loader.errors.length > 0) {
+        throw new Error(
+            `[ECS] Invalid prefab file ${file}:\n${loader.errors.map((error) => `  ${file} ${error}`).join('\n')}`
+        );
+    }
+    return prefabs;
+}
+
+function parsePrefabText(text: string, file: string, options: PrefabLoadOptions): unknown {
+    if (!options.parse && /\.ya?ml$/i.test(file)) {
+        throw new Error(
+            `[ECS] Cannot load prefab file ${file}: YAML files need a parser, pass one as options.parse`
+        );
+    }
+    try {
+        return (options.parse ?? JSON.parse)(text);
+    } catch (error) {
+        throw new Error(
+            `[ECS] Invalid prefab file ${file}: ${error instanceof Error ? error.message : String(error)}`,
+            { cause: error }
+        );
+    }
+}
+
+class PrefabFileLoader {
+    readonly errors: string[] = [];
+    private loaded: Map<string, EntityPrefab> = new Map();
+    private failed: Set<string> = new Set();
+    private resolving: string[] = [];
+
+    constructor(
+        private entries: Record<string, unknown>,
+        private context: PrefabLoadContext
+    ) {}
+
+    load(): Map<string, EntityPrefab> {
+        for (const name of Object.keys(this.entries)) {
+            this.resolve(name);
+        }
+        return this.loaded;
+    }
+
+    private fail(path: string, message: string): void {
+        this.errors.push(`${path}: ${message}`);
+    }
+
+    /**
+     * Build a prefab of the file by name, building its parents first.
+     * @returns The prefab, or undefined if it or one of its parents is invalid
+     */
+    private resolve(name: string): EntityPrefab | undefined {
+        const existing = this.loaded.get(name);
+        if (existing || this.failed.has(name)) {
+            return existing;
+        }
+        if (this.resolving.includes(name)) {
+            const cycle = [...this.resolving.slice(this.resolving.indexOf(name)), name];
+            this.fail(`prefabs.${name}.parent`, `circular inheritance ${cycle.join(' -> ')}`);
+            this.failed.add(name);
+            return undefined;
+        }
+
+        this.resolving.push(name);
+        const errorCount = this.errors.length;
+        const prefab = this.build(this.entries[name], `prefabs.${name}`, name, true);
+        this.resolving.pop();
+
+        if (!prefab || this.errors.length > errorCount) {
+            this.failed.add(name);
+            return undefined;
+        }
+        this.loaded.set(name, prefab);
+        return prefab;
+    }
+
+    private build(
+        entry: unknown,
+        path: string,
+        defaultName: string | undefined,
+        topLevel: boolean
+    ): EntityPrefab | undefined {
+        if (!isRecord(entry)) {
+            this.fail(path, `expected a prefab object, got ${describeValueType(entry)}`);
+            return undefined;
+        }
+        for (const key of Object.keys(entry)) {
+            if (!ENTRY_KEYS.has(key) || (key === 'parent' && !topLevel)) {
+                this.fail(`${path}.${key}`, `unknown key "${key}"`);
+            }
+        }
+
+        const parent = topLevel ? this.buildParent(entry.parent, `${path}.parent`) : undefined;
+
+        const name = entry.name ?? defaultName;
+        if (typeof name !== 'string') {
+            this.fail(`${path}.name`, `expected a string, got ${describeValueType(entry.name)}`);
+        }
+
+        const components = this.buildComponents(
+            entry.components,
+            `${path}.components`,
+            parent?.components ?? []
+        );
+        const tags = this.buildTags(entry.tags, `${path}.tags`);
+        const children = this.buildChildren(entry.children, `${path}.children`);
+
+        const prefab: EntityPrefab = {
+            name: typeof name === 'string' ? name : '',
+            components,
+            tags: [...new Set([...(parent?.tags ?? []), ...tags])],
+            children: [...(parent?.children ?? []), ...children],
+        };
+        if (typeof entry.parent === 'string') {
+            prefab.parent = entry.parent;
+        }
+        // An unusable parent fails the prefab once the rest of the entry is checked
+        return parent === null ? undefined : prefab;
+    }
+
+    /**
+     * @returns The parent prefab, undefined without a parent, or null if the parent is unusable
+     */
+    private buildParent(parentName: unknown, path: string): EntityPrefab | undefined | null {
+        if (parentName === undefined) {
+            return undefined;
+        }
+        if (typeof parentName !== 'string') {
+            this.fail(path, `expected a prefab name, got ${describeValueType(parentName)}`);
+            return null;
+        }
+
+        if (Object.hasOwn(this.entries, parentName)) {
+            // Problems in the parent are reported at the parent
+            return this.resolve(parentName) ?? null;
+        }
+        const registered = this.context.getPrefab(parentName);
+        if (!registered) {
+            this.fail(path, `unknown prefab "${parentName}"`);
+            return null;
+        }
+        if (registered.factory) {
+            this.fail(path, `prefab "${parentName}" is built by a factory and cannot be a parent`);
+            return null;
+        }
+        return registered;
+    }
+
+    private buildComponents(
+        value: unknown,
+        path: string,
+        inherited: PrefabComponent[]
+    ): PrefabComponent[] {
+        const components = [...inherited];
+        if (value === undefined) {
+            return components;
+        }
+        if (!isRecord(value)) {
+            this.fail(
+                path,
+                `expected an object keyed by component name, got ${describeValueType(value)}`
+            );
+            return components;
+        }
+
+        for (const [componentName, fields] of Object.entries(value)) {
+            const componentPath = `${path}.${componentName}`;
+            const type = this.context.getComponentByName(componentName);
+            if (!type) {
+                this.fail(componentPath, `unknown component "${componentName}"`);
+                continue;
+            }
+            if (fields !== null && !isRecord(fields)) {
+                this.fail(
+                    componentPath,
+                    `expected an object of field values, got ${describeValueType(fields)}`
+                );
+                continue;
+            }
+
+            const index = components.findIndex((component) => component.type === type);
+            const base = components[index];
+            const component: PrefabComponent = {
+                type,
+                args: base?.args ?? [],
+                data: { ...base?.data, ...fields },
+            };
+            if (this.checkComponent(component, fields ?? {}, componentPath)) {
+                if (base) {
+                    components[index] = component;
+                } else {
+                    components.push(component);
+                }
+            }
+        }
+
+        for (const { type } of components) {
+            const validator = this.context.getValidator(type);
+            const has = (other: ComponentIdentifier) =>
+                components.some((component) => component.type === other);
+            for (const dependency of validator?.dependencies ?? []) {
+                if (!has(dependency)) {
+                    this.fail(`${path}.${type.name}`, `requires component ${dependency.name}`);
+                }
+            }
+            for (const conflict of validator?.conflicts ?? []) {
+                if (has(conflict)) {
+                    this.fail(`${path}.${type.name}`, `conflicts with component ${conflict.name}`);
+                }
+            }
+        }
+        return components;
+    }
+
+    /**
+     * Check field names and types against the declared fields or a default
+     * instance, then run the validator.
+     * @returns Whether the component is valid
+     */
+    private checkComponent(
+        { type, args, data }: PrefabComponent,
+        fields: Record<string, unknown>,
+        path: string
+    ): boolean {
+        let instance: Record<string, unknown>;
+        try {
+            instance = new (type as new (...values: unknown[]) => Record<string, unknown>)(...args);
+        } catch (error) {
+            this.fail(
+                path,
+                `could not construct ${type.name}: ${error instanceof Error ? error.message : String(error)}`
+            );
+            return false;
+        }
+
+        const declared = this.context.getFields(type);
+        let valid = true;
+        for (const [field, value] of Object.entries(fields)) {
+            const declaredField = declared?.[field];
+            if (declaredField) {
+                const problem = checkFieldValue(declaredField, value);
+                if (problem) {
+                    this.fail(`${path}.${field}`, problem);
+                    valid = false;
+                }
+                continue;
+            }
+            if (!(field in instance)) {
+                this.fail(`${path}.${field}`, `unknown field "${field}" on ${type.name}`);
+                valid = false;
+                continue;
+            }
+            const expected = describeValueType(instance[field]);
+            const defaultIsTyped = instance[field] !== null && instance[field] !== undefined;
+            if (defaultIsTyped && value !== null && describeValueType(value) !== expected) {
+                this.fail(
+                    `${path}.${field}`,
+                    `expected ${expected}, got ${describeValueType(value)}`
+                );
+                valid = false;
+            }
+        }
+        if (!valid) {
+            return false;
+        }
+
+        Object.assign(instance, data);
+        if (declared) {
+            // Required fields without a default must be set by the prefab
+            applyFieldDefaults(declared, instance);
+            for (const [field, declaredField] of Object.entries(declared)) {
+                const problem = checkFieldValue(declaredField, instance[field]);
+                if (problem) {
+                    this.fail(`${path}.${field}`, problem);
+                    return false;
+                }
+            }
+        }
+        const result = this.context.getValidator(type)?.validate(instance) ?? true;
+        if (result !== true) {
+            this.fail(path, typeof result === 'string' ? result : 'component validation failed');
+            return false;
+        }
+        return true;
+    }
+
+    private buildTags(value: unknown, path: string): string[] {
+        if (value === undefined) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.fail(path, `expected an array of strings, got ${describeValueType(value)}`);
+            return [];
+        }
+        return value.filter((tag, i) => {
+            if (typeof tag !== 'string') {
+                this.fail(`${path}[${i}]`, `expected a string, got ${describeValueType(tag)}`);
+                return false;
+            }
+            return true;
+        });
+    }
+
+    private buildChildren(value: unknown, path: string): EntityPrefab[] {
+        if (value === undefined) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.fail(path, `expected an array of prefabs, got ${describeValueType(value)}`);
+            return [];
+        }
+        const children: EntityPrefab[] = [];
+        value.forEach((child, i) => {
+            const prefab = this.build(child, `${path}[${i}]`, undefined, false);
+            if (prefab) {
+                children.push(prefab);
+            }
+        });
+        return children;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
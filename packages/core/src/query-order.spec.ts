@@ -0,0 +1,150 @@
+/**
+ * Query Ordering Test Suite
+ * Tests for sorted, grouped and paginated queries with incremental maintenance
+ */
+
+import { EngineBuilder } from './engine';
+
+class Sprite {
+    constructor(public z: number = 0) {}
+}
+
+class Team {
+    constructor(public id: number = 0) {}
+}
+
+class Label {
+    constructor(public text: string = '') {}
+}
+
+function names(entities: { name?: string }[]): (string | undefined)[] {
+    return entities.map((entity) => entity.name);
+}
+
+describe('Query ordering', () => {
+    describe('sort', () => {
+        test('should keep entities sorted as they enter and leave', () => {
+            const engine = new EngineBuilder().build();
+            const back = engine.createEntity('back').addComponent(Sprite, 1);
+            engine.createEntity('front').addComponent(Sprite, 9);
+            const query = engine.createQuery({
+                all: [Sprite],
+                sort: { by: { component: Sprite, field: 'z' } },
+            });
+
+            engine.createEntity('middle').addComponent(Sprite, 5);
+            engine.createEntity('tie').addComponent(Sprite, 5);
+            expect(names(query.getEntitiesArray())).toEqual(['back', 'middle', 'tie', 'front']);
+
+            back.removeComponent(Sprite);
+            expect(names([...query])).toEqual(['middle', 'tie', 'front']);
+            engine.destroy();
+        });
+
+        test('should move entities whose key changed when results are read', () => {
+            const engine = new EngineBuilder().build();
+            const query = engine
+                .query<[Sprite]>()
+                .withAll(Sprite)
+                .sortBy(Sprite, 'z', 'desc')
+                .build();
+            const entities = ['a', 'b', 'c', 'd', 'e'].map((name, i) =>
+                engine.createEntity(name).addComponent(Sprite, i)
+            );
+            const first = entities[0] as (typeof entities)[number];
+            const before = query.getEntitiesArray();
+            expect(names(before)).toEqual(['e', 'd', 'c', 'b', 'a']);
+
+            first.getComponent(Sprite).z = 10;
+            const visited: (string | undefined)[] = [];
+            query.forEach((entity) => visited.push(entity.name));
+
+            expect(visited).toEqual(['a', 'e', 'd', 'c', 'b']);
+            expect(names(before)).toEqual(['e', 'd', 'c', 'b', 'a']);
+
+            for (const entity of entities) {
+                entity.getComponent(Sprite).z = -entity.getComponent(Sprite).z;
+            }
+            expect(names(query.getEntitiesArray())).toEqual(['b', 'c', 'd', 'e', 'a']);
+            engine.destroy();
+        });
+
+        test('should sort by key functions, strings and missing keys', () => {
+            const engine = new EngineBuilder().build();
+            const query = engine.createQuery({
+                all: [Sprite],
+                sort: { by: (entity) => entity.tryGetComponent(Label)?.text },
+            });
+
+            engine.createEntity('c').addComponent(Sprite).addComponent(Label, 'cherry');
+            engine.createEntity('none').addComponent(Sprite);
+            engine.createEntity('a').addComponent(Sprite).addComponent(Label, 'apple');
+
+            expect(names(query.getEntitiesArray())).toEqual(['a', 'c', 'none']);
+            engine.destroy();
+        });
+    });
+
+    describe('groupBy', () => {
+        test('should partition entities and follow key changes', () => {
+            const engine = new EngineBuilder().build();
+            const query = engine.createQuery({
+                all: [Team, Sprite],
+                groupBy: { component: Team, field: 'id' },
+                sort: { by: { component: Sprite, field: 'z' } },
+            });
+            const red = engine.createEntity('red').addComponent(Team, 1).addComponent(Sprite, 2);
+            engine.createEntity('red2').addComponent(Team, 1).addComponent(Sprite, 1);
+            engine.createEntity('blue').addComponent(Team, 2).addComponent(Sprite, 0);
+
+            expect(names(query.getGroup(1))).toEqual(['red2', 'red']);
+            expect(query.getGroup(3)).toEqual([]);
+
+            red.getComponent(Team).id = 2;
+            const groups = query.getGroups();
+
+            expect([...groups.keys()]).toEqual([1, 2]);
+            expect(names(groups.get(2) ?? [])).toEqual(['blue', 'red']);
+
+            red.removeComponent(Sprite);
+            expect(names(query.getGroup(2))).toEqual(['blue']);
+            engine.destroy();
+        });
+
+        test('should require the groupBy option', () => {
+            const engine = new EngineBuilder().build();
+            const query = engine.createQuery({ all: [Team] });
+
+            expect(() => query.getGroup(1)).toThrow(
+                '[ECS] Query was created without a groupBy option'
+            );
+            engine.destroy();
+        });
+    });
+
+    describe('page', () => {
+        test('should slice results in query order', () => {
+            const engine = new EngineBuilder().build();
+            const query = engine.createQuery({
+                all: [Sprite],
+                sort: { by: { component: Sprite, field: 'z' }, order: 'desc' },
+            });
+            for (let z = 0; z < 5; z++) {
+                engine.createEntity(`z${z}`).addComponent(Sprite, z);
+            }
+
+            const second = query.page(1, 2);
+
+            expect(names(second.entities)).toEqual(['z2', 'z1']);
+            expect(second).toMatchObject({ page: 1, pageSize: 2, pageCount: 3, total: 5 });
+            expect(query.page(3, 2).entities).toEqual([]);
+            expect(() => query.page(0, 0)).toThrow(
+                '[ECS] Page size must be a positive integer, got 0'
+            );
+            expect(() => query.page(-1, 2)).toThrow(
+                '[ECS] Page index must be a non-negative integer, got -1'
+            );
+            engine.destroy();
+        });
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * Sorted and grouped query results.
+ *
+ * Queries created with a `sort` or `groupBy` option keep their matching
+ * entities in these indexes. Entities are inserted in place as they start
+ * matching and removed as they stop, so results never need a full re-sort.
+ * Keys are plain component fields or functions whose values can change without
+ * any event, so they are re-read when results are read and only the entities
+ * whose key changed are moved.
+ */
+
+import type { Entity } from './core';
+import type { QueryKey, QuerySortOptions } from './definitions';
+
+/**
+ * Re-sort everything instead of moving entities one by one once more than
+ * this fraction of them changed key.
+ */
+const FULL_SORT_RATIO = 0.25;
+
+/**
+ * Read the key of an entity; entities without the keyed component get `undefined`.
+ * @internal
+ */
+export function readQueryKey(key: QueryKey, entity: Entity): unknown {
+    if (typeof key === 'function') {
+        return key(entity);
+    }
+    if (!entity.hasComponent(key.component)) {
+        return undefined;
+    }
+    return (entity.getComponent(key.component) as Record<string, unknown>)[key.field];
+}
+
+/**
+ * Order two keys; numbers and strings compare naturally, other values by their string form.
+ */
+function compareKeys(a: unknown, b: unknown): number {
+    const natural = typeof a === typeof b && (typeof a === 'number' || typeof a === 'string');
+    const left = (natural ? a : String(a)) as number;
+    const right = (natural ? b : String(b)) as number;
+    if (left < right) {
+        return -1;
+    }
+    return left > right ? 1 : 0;
+}
+
+/**
+ * Entities of a query kept sorted by a key, ties broken by entity ID.
+ * @internal
+ */
+export class SortedEntityIndex {
+    private entities: Entity[] = [];
+    private keys: Map<Entity, unknown> = new Map();
+    private readonly direction: number;
+    // The array was handed out by refresh(), so the next change must copy it
+    private shared: boolean = false;
+
+    constructor(private readonly options: QuerySortOptions) {
+        this.direction = options.order === 'desc' ? -1 : 1;
+    }
+
+    get size(): number {
+        return this.entities.length;
+    }
+
+    add(entity: Entity): void {
+        if (this.keys.has(entity)) {
+            return;
+        }
+        const key = readQueryKey(this.options.by, entity);
+        this.keys.set(entity, key);
+        this.writable().splice(this.search(entity, key), 0, entity);
+    }
+
+    delete(entity: Entity): void {
+        if (!this.keys.has(entity)) {
+            return;
+        }
+        const index = this.search(entity, this.keys.get(entity));
+        this.writable().splice(index, 1);
+        this.keys.delete(entity);
+    }
+
+    /**
+     * Move entities whose key changed since the last read.
+     * @returns The sorted entities; the array is not modified afterwards
+     */
+    refresh(): Entity[] {
+        const moved: Entity[] = [];
+        for (const entity of this.entities) {
+            if (!Object.is(readQueryKey(this.options.by, entity), this.keys.get(entity))) {
+                moved.push(entity);
+            }
+        }
+
+        if (moved.length > this.entities.length * FULL_SORT_RATIO) {
+            for (const entity of moved) {
+                this.keys.set(entity, readQueryKey(this.options.by, entity));
+            }
+            this.entities = this.entities.toSorted((a, b) =>
+                this.compare(a, this.keys.get(a), b, this.keys.get(b))
+            );
+        } else {
+            for (const entity of moved) {
+                this.delete(entity);
+                this.add(entity);
+            }
+        }
+
+        this.shared = true;
+        return this.entities;
+    }
+
+    private writable(): Entity[] {
+        if (this.shared) {
+            this.entities = this.entities.slice();
+            this.shared = false;
+        }
+        return this.entities;
+    }
+
+    /**
+     * Find the position of an entry, or where it belongs if it is not in the index.
+     */
+    private search(entity: Entity, key: unknown): number {
+        let low = 0;
+        let high = this.entities.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            const other = this.entities[middle] as Entity;
+            if (this.compare(other, this.keys.get(other), entity, key) < 0) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    private compare(a: Entity, aKey: unknown, b: Entity, bKey: unknown): number {
+        // Entities without a key go last in either direction
+        if (aKey === undefined || bKey === undefined) {
+            if (aKey !== bKey) {
+                return aKey === undefined ? 1 : -1;
+            }
+        } else {
+            const order = compareKeys(aKey, bKey) * this.direction;
+            if (order !== 0) {
+                return order;
+            }
+        }
+        return a.numericId - b.numericId;
+    }
+}
+
+/**
+ * Entities of a query partitioned by a key, each group in query order.
+ * @internal
+ */
+export class GroupedEntityIndex {
+    private groups: Map<unknown, SortedEntityIndex | Set<Entity>> = new Map();
+    private keys: Map<Entity, unknown> = new Map();
+
+    constructor(
+        private readonly key: QueryKey,
+        private readonly sort?: QuerySortOptions
+    ) {}
+
+    add(entity: Entity): void {
+        if (!this.keys.has(entity)) {
+            this.insert(entity, readQueryKey(this.key, entity));
+        }
+    }
+
+    delete(entity: Entity): void {
+        if (!this.keys.has(entity)) {
+            return;
+        }
+        const key = this.keys.get(entity);
+        const group = this.groups.get(key);
+        group?.delete(entity);
+        if (group?.size === 0) {
+            this.groups.delete(key);
+        }
+        this.keys.delete(entity);
+    }
+
+    /**
+     * Move entities whose group key changed since the last read.
+     */
+    refresh(): void {
+        for (const [entity, previous] of this.keys) {
+            const key = readQueryKey(this.key, entity);
+            if (!Object.is(key, previous)) {
+                this.delete(entity);
+                this.insert(entity, key);
+            }
+        }
+    }
+
+    /**
+     * Get the entities of a group, in query order.
+     */
+    get(key: unknown): Entity[] {
+        const group = this.groups.get(key);
+        if (!group) {
+            return [];
+        }
+        return group instanceof Set ? [...group] : group.refresh();
+    }
+
+    /**
+     * Get the entities of every group, in query order.
+     */
+    getAll(): Map<unknown, Entity[]> {
+        const groups = new Map<unknown, Entity[]>();
+        for (const key of this.groups.keys()) {
+            groups.set(key, this.get(key));
+        }
+        return groups;
+    }
+
+    private insert(entity: Entity, key: unknown): void {
+        let group = this.groups.get(key);
+        if (!group) {
+            group = this.sort ? new SortedEntityIndex(this.sort) : new Set();
+            this.groups.set(key, group);
+        }
+        group.add(entity);
+        this.keys.set(entity, key);
+    }
+}
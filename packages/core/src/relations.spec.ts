@@ -0,0 +1,171 @@
+/**
+ * Entity Relations Test Suite
+ * Tests for typed many-to-many relations, relation queries and cleanup
+ */
+
+import type { RelationChangedEvent } from './definitions';
+import type { Engine } from './engine';
+import { EngineBuilder } from './engine';
+import { defineRelation } from './utils';
+
+class Turret {
+    constructor(public range: number = 10) {}
+}
+
+const Targets = defineRelation<{ priority: number }>('Targets');
+const Owns = defineRelation('Owns');
+
+describe('Entity Relations', () => {
+    let engine: Engine;
+
+    beforeEach(() => {
+        engine = new EngineBuilder().build();
+    });
+
+    afterEach(() => {
+        engine.destroy();
+    });
+
+    describe('Entity API', () => {
+        test('should store relations with data and expose both sides', () => {
+            const turret = engine.createEntity('Turret');
+            const enemyA = engine.createEntity('EnemyA');
+            const enemyB = engine.createEntity('EnemyB');
+
+            turret.addRelation(Targets, enemyA, { priority: 1 });
+            turret.addRelation(Targets, enemyB, { priority: 2 });
+            turret.addRelation(Targets, enemyA, { priority: 5 });
+
+            expect(turret.hasRelation(Targets)).toBe(true);
+            expect(turret.hasRelation(Targets, enemyB)).toBe(true);
+            expect(turret.hasRelation(Owns)).toBe(false);
+            expect(turret.getRelationData(Targets, enemyA)).toEqual({ priority: 5 });
+            expect(turret.getRelationTargets(Targets)).toEqual([enemyA, enemyB]);
+            expect(enemyA.getRelationSources(Targets)).toEqual([turret]);
+            expect(enemyA.hasRelation(Targets)).toBe(false);
+        });
+
+        test('should keep relation types with the same name distinct', () => {
+            const OtherTargets = defineRelation('Targets');
+            const a = engine.createEntity();
+            const b = engine.createEntity();
+
+            a.addRelation(Targets, b, { priority: 1 });
+
+            expect(a.hasRelation(OtherTargets)).toBe(false);
+        });
+
+        test('should remove relations to one or all targets', () => {
+            const player = engine.createEntity('Player');
+            const sword = engine.createEntity('Sword');
+            const shield = engine.createEntity('Shield');
+            player.addRelation(Owns, sword).addRelation(Owns, shield);
+
+            player.removeRelation(Owns, sword);
+            expect(player.getRelationTargets(Owns)).toEqual([shield]);
+            expect(sword.getRelationSources(Owns)).toEqual([]);
+
+            player.removeRelation(Owns);
+            expect(player.hasRelation(Owns)).toBe(false);
+            expect(shield.getRelationSources(Owns)).toEqual([]);
+        });
+    });
+
+    describe('Cleanup', () => {
+        test('should remove relations when the target is destroyed', () => {
+            const turret = engine.createEntity('Turret');
+            const enemy = engine.createEntity('Enemy');
+            turret.addRelation(Targets, enemy, { priority: 1 });
+
+            enemy.queueFree();
+            engine.update(0);
+
+            expect(turret.hasRelation(Targets)).toBe(false);
+        });
+
+        test('should remove relations when the source is destroyed', () => {
+            const turret = engine.createEntity('Turret');
+            const enemy = engine.createEntity('Enemy');
+            turret.addRelation(Targets, enemy, { priority: 1 });
+
+            turret.queueFree();
+            engine.update(0);
+
+            expect(enemy.getRelationSources(Targets)).toEqual([]);
+        });
+
+        test('should emit onRelationChanged for adds and cleanup removals', () => {
+            const events: RelationChangedEvent[] = [];
+            engine.on('onRelationChanged', (event: RelationChangedEvent) => events.push(event));
+            const player = engine.createEntity('Player');
+            const sword = engine.createEntity('Sword');
+
+            player.addRelation(Owns, sword);
+            sword.queueFree();
+            engine.update(0);
+
+            expect(events.map((e) => [e.action, e.source, e.target])).toEqual([
+                ['add', player, sword],
+                ['remove', player, sword],
+            ]);
+        });
+    });
+
+    describe('Queries', () => {
+        test('should filter on relations to any or a specific target', () => {
+            const enemy = engine.createEntity('Enemy');
+            const other = engine.createEntity('Other');
+            const aimingAtEnemy = engine.createEntity('A');
+            const aimingAtOther = engine.createEntity('B');
+            const idle = engine.createEntity('C');
+            for (const turret of [aimingAtEnemy, aimingAtOther, idle]) {
+                turret.addComponent(Turret);
+            }
+            aimingAtEnemy.addRelation(Targets, enemy, { priority: 1 });
+            aimingAtOther.addRelation(Targets, other, { priority: 1 });
+
+            const anyTarget = engine.createQuery({
+                all: [Turret],
+                relations: [{ relation: Targets }],
+            });
+            const enemyTarget = engine.createQuery({
+                all: [Turret],
+                relations: [{ relation: Targets, target: enemy }],
+            });
+            const withoutTarget = engine.createQuery({
+                all: [Turret],
+                withoutRelations: [{ relation: Targets }],
+            });
+
+            expect(anyTarget.getEntitiesArray()).toEqual([aimingAtEnemy, aimingAtOther]);
+            expect(enemyTarget.getEntitiesArray()).toEqual([aimingAtEnemy]);
+            expect(withoutTarget.getEntitiesArray()).toEqual([idle]);
+        });
+
+        test('should update query results as relations change', () => {
+            const turret = engine.createEntity('Turret');
+            const enemy = engine.createEntity('Enemy');
+            turret.addComponent(Turret);
+            const query = engine.query().withAll(Turret).withRelation(Targets, enemy).build();
+
+            expect(query.size).toBe(0);
+            turret.addRelation(Targets, enemy, { priority: 1 });
+            expect(query.size).toBe(1);
+
+            enemy.queueFree();
+            engine.update(0);
+            expect(query.size).toBe(0);
+        });
+
+        test('should find entities with a relation from the engine', () => {
+            const player = engine.createEntity('Player');
+            const merchant = engine.createEntity('Merchant');
+            const sword = engine.createEntity('Sword');
+            player.addRelation(Owns, sword);
+            merchant.addRelation(Owns, engine.createEntity('Coin'));
+
+            expect(engine.getEntitiesWithRelation(Owns)).toEqual([player, merchant]);
+            expect(engine.getEntitiesWithRelation(Owns, sword)).toEqual([player]);
+        });
+    });
+});
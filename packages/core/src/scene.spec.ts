@@ -0,0 +1,227 @@
+/**
+ * Scene Management Test Suite
+ * Tests for scene loading, unloading, additive scenes and entity ownership
+ */
+
+import type { SceneChangedEvent } from './definitions';
+import type { Engine } from './engine';
+import { EngineBuilder } from './engine';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+describe('Scene Management', () => {
+    let engine: Engine;
+
+    beforeEach(() => {
+        engine = new EngineBuilder().build();
+        engine.registerComponent(Position);
+        engine.registerPrefab('Enemy', {
+            name: 'Enemy',
+            components: [{ type: Position, args: [5, 5] }],
+            tags: ['enemy'],
+        });
+    });
+
+    afterEach(() => {
+        engine.destroy();
+    });
+
+    describe('Loading', () => {
+        test('should create scene content from world data, prefabs and setup', () => {
+            engine.registerScene('level1', {
+                world: {
+                    entities: [
+                        {
+                            id: '1',
+                            name: 'Ground',
+                            tags: [],
+                            components: { Position: { x: 0, y: 100 } },
+                        },
+                    ],
+                    timestamp: 0,
+                },
+                prefabs: ['Enemy', { prefab: 'Enemy', name: 'Boss' }],
+                setup: (scene) => {
+                    scene.createEntity('Spawner');
+                },
+            });
+
+            const entities = engine.loadScene('level1');
+
+            expect(entities.map((e) => e.name).toSorted()).toEqual([
+                'Boss',
+                'Enemy',
+                'Ground',
+                'Spawner',
+            ]);
+            expect(engine.getActiveScene()).toBe('level1');
+            expect(engine.getEntityByName('Ground')!.getComponent(Position).y).toBe(100);
+            expect(engine.getEntityScene(engine.getEntityByName('Boss')!)).toBe('level1');
+        });
+
+        test('should throw for unregistered scenes and unknown prefabs', () => {
+            expect(() => engine.loadScene('missing')).toThrow(
+                '[ECS] Scene "missing" is not registered'
+            );
+
+            engine.registerScene('broken', {
+                setup: (scene) => {
+                    scene.createEntity('Partial');
+                },
+                prefabs: ['Nope'],
+            });
+            expect(() => engine.loadScene('broken')).toThrow(/unknown prefab "Nope"/);
+            expect(engine.isSceneLoaded('broken')).toBe(false);
+            expect(engine.getAllEntities()).toHaveLength(0);
+        });
+
+        test('should replace loaded scenes on non-additive load', () => {
+            engine.registerScene('a', { setup: (scene) => void scene.createEntity('A') });
+            engine.registerScene('b', { setup: (scene) => void scene.createEntity('B') });
+
+            engine.loadScene('a');
+            engine.loadScene('b');
+
+            expect(engine.getLoadedScenes()).toEqual(['b']);
+            expect(engine.getEntityByName('A')).toBeUndefined();
+            expect(engine.getEntityByName('B')).toBeDefined();
+        });
+
+        test('should keep other scenes when loading additively', () => {
+            engine.registerScene('world', { setup: (scene) => void scene.createEntity('W') });
+            engine.registerScene('hud', { setup: (scene) => void scene.createEntity('H') });
+
+            engine.loadScene('world');
+            engine.loadScene('hud', { additive: true });
+
+            expect(engine.getLoadedScenes()).toEqual(['world', 'hud']);
+            expect(engine.getActiveScene()).toBe('world');
+            expect(() => engine.loadScene('hud', { additive: true })).toThrow(/already loaded/);
+        });
+    });
+
+    describe('Ownership', () => {
+        test('should unload exactly the entities owned by a scene', () => {
+            engine.registerScene('world', { setup: (scene) => void scene.createEntity('W') });
+            engine.registerScene('hud', {
+                setup: (scene) => {
+                    const panel = scene.createEntity('Panel');
+                    panel.addChild(scene.createEntity('Button'));
+                },
+            });
+            const unowned = engine.createEntity('Unowned');
+
+            engine.loadScene('world');
+            engine.loadScene('hud', { additive: true });
+            expect(engine.unloadScene('hud')).toBe(true);
+
+            expect(engine.getEntityByName('Panel')).toBeUndefined();
+            expect(engine.getEntityByName('Button')).toBeUndefined();
+            expect(engine.getEntityByName('W')).toBeDefined();
+            expect(engine.getEntityByName('Unowned')).toBe(unowned);
+            expect(engine.unloadScene('hud')).toBe(false);
+        });
+
+        test('should assign entities created at runtime to the active scene', () => {
+            engine.registerScene('level', {});
+            engine.loadScene('level');
+
+            const bullet = engine.createEntity('Bullet');
+            expect(engine.getEntityScene(bullet)).toBe('level');
+
+            engine.unloadScene('level');
+            expect(engine.getEntityByName('Bullet')).toBeUndefined();
+            expect(engine.getActiveScene()).toBeNull();
+        });
+
+        test('should move entities between scenes', () => {
+            engine.registerScene('a', {});
+            engine.registerScene('b', {});
+            engine.loadScene('a');
+            engine.loadScene('b', { additive: true });
+
+            const entity = engine.createEntity('Mover');
+            engine.moveEntityToScene(entity, 'b');
+            engine.unloadScene('a');
+
+            expect(engine.getEntityByName('Mover')).toBe(entity);
+            expect(engine.getSceneEntities('b')).toContain(entity);
+            expect(() => engine.moveEntityToScene(entity, 'a')).toThrow(/scene is not loaded/);
+        });
+    });
+
+    describe('Persistent entities', () => {
+        test('should survive scene switches', () => {
+            engine.registerScene('level1', {
+                setup: (scene) => {
+                    const player = scene.createEntity('Player');
+                    player.addChild(scene.createEntity('Weapon'));
+                },
+            });
+            engine.registerScene('level2', {});
+
+            engine.loadScene('level1');
+            const player = engine.getEntityByName('Player')!;
+            engine.setEntityPersistent(player);
+            engine.loadScene('level2');
+
+            expect(engine.getEntityByName('Player')).toBe(player);
+            expect(engine.getEntityByName('Weapon')!.parent).toBe(player);
+            expect(engine.isEntityPersistent(player)).toBe(true);
+            expect(engine.getEntityScene(player)).toBeUndefined();
+        });
+
+        test('should detach persistent children of unloaded entities', () => {
+            engine.registerScene('level', {
+                setup: (scene) => {
+                    const ship = scene.createEntity('Ship');
+                    ship.addChild(scene.createEntity('Pilot'));
+                },
+            });
+            engine.loadScene('level');
+            const pilot = engine.getEntityByName('Pilot')!;
+            engine.setEntityPersistent(pilot);
+
+            engine.unloadScene('level');
+
+            expect(engine.getEntityByName('Pilot')).toBe(pilot);
+            expect(pilot.parent).toBeUndefined();
+        });
+
+        test('should return to the active scene when persistence is cleared', () => {
+            engine.registerScene('level', {});
+            engine.loadScene('level');
+            const entity = engine.createEntity('Temp');
+
+            engine.setEntityPersistent(entity);
+            engine.setEntityPersistent(entity, false);
+
+            expect(engine.getEntityScene(entity)).toBe('level');
+        });
+    });
+
+    describe('onSceneChanged', () => {
+        test('should fire for loads and unloads', () => {
+            const events: SceneChangedEvent[] = [];
+            engine.on('onSceneChanged', (event: SceneChangedEvent) => events.push(event));
+            engine.registerScene('a', {});
+            engine.registerScene('b', {});
+
+            engine.loadScene('a');
+            engine.loadScene('b');
+
+            expect(events.map((e) => [e.action, e.scene, e.activeScene])).toEqual([
+                ['load', 'a', 'a'],
+                ['unload', 'a', null],
+                ['load', 'b', 'b'],
+            ]);
+            expect(events[2]!.previousActiveScene).toBe('a');
+            expect(events[2]!.additive).toBe(false);
+        });
+    });
+});
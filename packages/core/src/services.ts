@@ -0,0 +1,143 @@
+/**
+ * Engine service container.
+ *
+ * Services are shared objects such as the logger, a resource cache or a spatial
+ * index that component hooks and systems look up by key instead of reaching for
+ * globals. Keys are either classes, for services that are instances of a class,
+ * or tokens created with `defineService()`, for anything else. Each world of an
+ * engine has its own container.
+ */
+
+import type { CommandBuffer } from './commands';
+import type { Logger } from './definitions';
+import type { Engine } from './engine';
+import type { Time } from './time';
+
+/**
+ * Typed key for a service that is not looked up by its class.
+ *
+ * @typeParam T - The type of the service
+ * @public
+ */
+export interface ServiceToken<T> {
+    readonly name: string;
+    /** Carries the service type; never set at runtime */
+    readonly __service?: T;
+}
+
+/**
+ * Key a service is registered under: its class or a {@link ServiceToken}.
+ *
+ * @typeParam T - The type of the service
+ * @public
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ServiceKey<T> = ServiceToken<T> | (abstract new (...args: any[]) => T);
+
+/**
+ * Create a typed key for a service.
+ *
+ * @param name - Name used in error messages and {@link ServiceContainer.keys}
+ *
+ * @example
+ * ```typescript
+ * const Assets = defineService<Map<string, ImageBitmap>>('assets');
+ * engine.services.provide(Assets, new Map());
+ * ```
+ *
+ * @public
+ */
+export function defineService<T>(name: string): ServiceToken<T> {
+    return Object.freeze({ name });
+}
+
+/**
+ * Keys of the services every engine provides.
+ *
+ * @example
+ * ```typescript
+ * engine.registerComponentHooks(Sprite, {
+ *   onAdd: (entity, sprite, services) => {
+ *     services.get(CoreServices.Logger).debug(`Sprite added to ${entity.name}`);
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export const CoreServices = {
+    /** The engine (world) the service container belongs to */
+    Engine: defineService<Engine>('engine'),
+    /** The engine logger */
+    Logger: defineService<Logger>('logger'),
+    /** The engine command buffer, for structural changes that should not happen mid-hook */
+    Commands: defineService<CommandBuffer>('commands'),
+    /** The world time, with time scales, pause layers and timers */
+    Time: defineService<Time>('time'),
+} as const;
+
+/**
+ * Typed registry of engine services.
+ *
+ * @example
+ * ```typescript
+ * class SpatialIndex { insert(entity: EntityDef) { ... } }
+ *
+ * engine.services.provide(SpatialIndex, new SpatialIndex());
+ * engine.services.get(SpatialIndex).insert(entity);
+ * ```
+ *
+ * @public
+ */
+export class ServiceContainer {
+    private services: Map<ServiceKey<unknown>, unknown> = new Map();
+
+    /**
+     * Register a service, replacing any service registered under the same key.
+     *
+     * @returns The container, for chaining
+     */
+    provide<T>(key: ServiceKey<T>, service: T): this {
+        this.services.set(key, service);
+        return this;
+    }
+
+    /**
+     * Get a service.
+     *
+     * @throws Error if no service is registered under the key
+     */
+    get<T>(key: ServiceKey<T>): T {
+        if (!this.services.has(key)) {
+            throw new Error(`[ECS] Service "${key.name}" is not registered`);
+        }
+        return this.services.get(key) as T;
+    }
+
+    /**
+     * Get a service, or undefined if none is registered under the key.
+     */
+    tryGet<T>(key: ServiceKey<T>): T | undefined {
+        return this.services.get(key) as T | undefined;
+    }
+
+    has(key: ServiceKey<unknown>): boolean {
+        return this.services.has(key);
+    }
+
+    /**
+     * Unregister a service.
+     *
+     * @returns true if a service was registered under the key
+     */
+    remove(key: ServiceKey<unknown>): boolean {
+        return this.services.delete(key);
+    }
+
+    /**
+     * Get the names of all registered services.
+     */
+    keys(): string[] {
+        return [...this.services.keys()].map((key) => key.name);
+    }
+}
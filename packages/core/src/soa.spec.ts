@@ -0,0 +1,186 @@
+/**
+ * Struct-of-Arrays Component Test Suite
+ * Tests for typed-array component storage, views and archetype moves
+ */
+
+import { Archetype, ComponentTypeRegistry } from './archetype';
+import type { ComponentIdentifier } from './definitions';
+import type { Engine } from './engine';
+import { EngineBuilder } from './engine';
+import { defineSoAComponent, getSoASchema, isSoAView } from './soa';
+
+const Particle = defineSoAComponent('Particle', { x: 'f32', y: 'f32', life: 'u8' }, { life: 255 });
+const Team = defineSoAComponent('Team', { id: 'i32' });
+
+class Label {
+    constructor(public text: string = '') {}
+}
+
+describe('Struct-of-Arrays Components', () => {
+    let engine: Engine;
+
+    beforeEach(() => {
+        engine = new EngineBuilder().build();
+    });
+
+    afterEach(() => {
+        engine.destroy();
+    });
+
+    describe('defineSoAComponent', () => {
+        test('should create a named class with defaults and a schema', () => {
+            const particle = new Particle({ x: 1 });
+
+            expect(Particle.name).toBe('Particle');
+            expect(Particle.schema).toEqual({ x: 'f32', y: 'f32', life: 'u8' });
+            expect(getSoASchema(Particle)).toBe(Particle.schema);
+            expect(getSoASchema(Label)).toBeUndefined();
+            expect(particle).toEqual({ x: 1, y: 0, life: 255 });
+        });
+
+        test('should reject unknown field types', () => {
+            expect(() => defineSoAComponent('Bad', { x: 'float' as 'f32' })).toThrow(
+                '[ECS] Unknown SoA field type "float" for Bad.x'
+            );
+        });
+    });
+
+    describe('Archetype storage', () => {
+        test('should store values in typed-array columns and expose views', () => {
+            const entity = engine.createEntity();
+            entity.addComponent(Particle, { x: 1.5, y: 2, life: 300 });
+
+            const particle = entity.getComponent(Particle);
+
+            expect(isSoAView(particle)).toBe(true);
+            expect(particle).toBeInstanceOf(Particle);
+            // u8 wraps like a Uint8Array
+            expect({ ...particle }).toEqual({ x: 1.5, y: 2, life: 44 });
+
+            particle.x = 0.1;
+            expect(particle.x).toBeCloseTo(0.1, 6);
+            expect(particle.x).not.toBe(0.1);
+        });
+
+        test('should hand out views to Query.forEach and systems', () => {
+            for (let i = 0; i < 3; i++) {
+                engine.createEntity().addComponent(Particle, { x: i });
+            }
+            engine.createSystem(
+                'Fade',
+                { all: [Particle] },
+                {
+                    act: (_entity, particle) => {
+                        particle.life -= 5;
+                        particle.x += 1;
+                    },
+                }
+            );
+
+            engine.update(0);
+
+            const values: number[][] = [];
+            engine.createQuery({ all: [Particle] }).forEach((_entity, particle) => {
+                values.push([particle.x, particle.life]);
+            });
+            expect(values).toEqual([
+                [1, 250],
+                [2, 250],
+                [3, 250],
+            ]);
+        });
+
+        test('should keep rows aligned after swap-and-pop removal', () => {
+            const entities = [0, 1, 2, 3].map((i) =>
+                engine.createEntity(`P${i}`).addComponent(Particle, { x: i })
+            );
+            const lastView = entities[3]!.getComponent(Particle);
+
+            entities[1]!.queueFree();
+            engine.update(0);
+
+            expect(entities[3]!.getComponent(Particle)).toBe(lastView);
+            expect(lastView.x).toBe(3);
+            expect(entities[0]!.getComponent(Particle).x).toBe(0);
+            expect(entities[2]!.getComponent(Particle).x).toBe(2);
+        });
+
+        test('should keep view identity when moving between archetypes', () => {
+            const entity = engine.createEntity();
+            entity.addComponent(Particle, { x: 4 });
+            const view = entity.getComponent(Particle);
+
+            entity.addComponent(Label, 'spark');
+            view.y = 7;
+            entity.addComponent(Team, { id: -3 });
+
+            expect(entity.getComponent(Particle)).toBe(view);
+            expect({ ...entity.getComponent(Particle) }).toEqual({ x: 4, y: 7, life: 255 });
+            expect(entity.getComponent(Team).id).toBe(-3);
+        });
+
+        test('should leave removed views holding their last values', () => {
+            const entity = engine.createEntity();
+            entity.addComponent(Particle, { x: 9 });
+            const other = engine.createEntity().addComponent(Particle, { x: 1 });
+            const view = entity.getComponent(Particle);
+
+            entity.removeComponent(Particle);
+            other.getComponent(Particle).x = 2;
+
+            expect(view.x).toBe(9);
+            view.x = 10;
+            expect(other.getComponent(Particle).x).toBe(2);
+        });
+
+        test('should expose raw columns aligned with the entity array', () => {
+            const archetype = new Archetype([Particle, Label], new ComponentTypeRegistry());
+            const entities = [0, 1, 2].map((i) => {
+                const entity = engine.createEntity();
+                archetype.addEntity(
+                    entity,
+                    new Map<ComponentIdentifier, unknown>([
+                        [Particle, new Particle({ x: i })],
+                        [Label, new Label()],
+                    ])
+                );
+                return entity;
+            });
+
+            archetype.removeEntity(entities[0]!);
+            const columns = archetype.getSoAColumns(Particle)!;
+
+            expect(columns.length).toBe(2);
+            expect(Array.from(columns.getColumn('x')!.subarray(0, columns.length))).toEqual([2, 1]);
+            expect(archetype.getEntities()).toEqual([entities[2], entities[1]]);
+            expect(archetype.getSoAColumns(Label)).toBeUndefined();
+        });
+    });
+
+    describe('Engine integration', () => {
+        test('should serialize and clone SoA components as plain data', () => {
+            const entity = engine.createEntity('Spark');
+            entity.addComponent(Particle, { x: 1, y: 2 });
+
+            const clone = engine.cloneEntity(entity);
+            clone.getComponent(Particle).x = 5;
+
+            expect(engine.serialize().entities[0]!.components.Particle).toEqual({
+                x: 1,
+                y: 2,
+                life: 255,
+            });
+            expect(clone.getComponent(Particle)).toEqual({ x: 5, y: 2, life: 255 });
+        });
+
+        test('should store plain objects when archetypes are disabled', () => {
+            const legacy = new EngineBuilder().withArchetypes(false).build();
+            const entity = legacy.createEntity();
+            entity.addComponent(Particle, { x: 0.1 });
+
+            expect(isSoAView(entity.getComponent(Particle))).toBe(false);
+            expect(entity.getComponent(Particle).x).toBe(0.1);
+            legacy.destroy();
+        });
+    });
+});
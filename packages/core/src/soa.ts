@@ -0,0 +1,367 @@
+/**
+ * Struct-of-arrays component storage.
+ *
+ * Components defined with `defineSoAComponent()` keep their numeric fields in
+ * typed-array columns inside each archetype instead of one object per entity.
+ * Archetypes hand out lightweight views whose properties read and write those
+ * columns, so `getComponent()`, `Query.forEach` and system callbacks keep working
+ * with component-like objects.
+ */
+
+import type {
+    ComponentIdentifier,
+    SoAComponentClass,
+    SoAFieldType,
+    SoASchema,
+    SoAValues,
+} from './definitions';
+
+/**
+ * Typed array backing a single struct-of-arrays field.
+ * @public
+ */
+export type SoAColumn =
+    | Float32Array
+    | Float64Array
+    | Int8Array
+    | Int16Array
+    | Int32Array
+    | Uint8Array
+    | Uint16Array
+    | Uint32Array;
+
+const COLUMN_CONSTRUCTORS: Record<SoAFieldType, new (length: number) => SoAColumn> = {
+    f32: Float32Array,
+    f64: Float64Array,
+    i8: Int8Array,
+    i16: Int16Array,
+    i32: Int32Array,
+    u8: Uint8Array,
+    u16: Uint16Array,
+    u32: Uint32Array,
+};
+
+// Brand carried by classes created with defineSoAComponent
+const SOA_SCHEMA = Symbol('SoASchema');
+
+// Field accessors shared by every view of a component class
+const VIEW_DESCRIPTORS = Symbol('SoAViewDescriptors');
+
+// Per-view state: the row the view reads from, or its last values once detached
+const VIEW_STATE = Symbol('SoAViewState');
+
+interface SoAViewState {
+    columns: SoAColumns | null;
+    index: number;
+    detached: Record<string, number>;
+}
+
+type SoAView = Record<string, number> & { [VIEW_STATE]: SoAViewState };
+
+const DEFAULT_INITIAL_CAPACITY = 16;
+
+/**
+ * Define a component whose numeric fields are stored in typed-array columns.
+ *
+ * In archetype mode every archetype containing the component keeps one typed
+ * array per field, and entities get views that read and write those arrays.
+ * Values are converted on write just like typed arrays do, so `f32` fields lose
+ * precision and integer fields truncate and wrap.
+ *
+ * Views keep their identity while an entity moves between archetypes. Once the
+ * component is removed or the entity is destroyed, a view held elsewhere turns
+ * into a plain object holding its last values.
+ *
+ * Without archetypes the component is stored as a plain object.
+ *
+ * @typeParam S - The component schema
+ * @param name - The component name, used for debugging and serialization
+ * @param schema - Field names mapped to numeric field types
+ * @param defaults - Values for fields not passed to the constructor (0 otherwise)
+ * @returns A component class for use with `entity.addComponent()` and queries
+ *
+ * @example
+ * ```typescript
+ * const Particle = defineSoAComponent('Particle', { x: 'f32', y: 'f32', life: 'u8' }, { life: 255 });
+ *
+ * entity.addComponent(Particle, { x: 10, y: 20 });
+ *
+ * engine.createSystem('Fade', { all: [Particle] }, {
+ *   act: (entity, particle) => {
+ *     particle.life -= 1;
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export function defineSoAComponent<S extends SoASchema>(
+    name: string,
+    schema: S,
+    defaults: Partial<SoAValues<S>> = {}
+): SoAComponentClass<S> {
+    for (const [field, fieldType] of Object.entries(schema)) {
+        if (!Object.hasOwn(COLUMN_CONSTRUCTORS, fieldType)) {
+            throw new Error(`[ECS] Unknown SoA field type "${fieldType}" for ${name}.${field}`);
+        }
+    }
+
+    const frozenSchema = Object.freeze({ ...schema });
+    const fields = Object.keys(frozenSchema);
+
+    const ComponentClass = class {
+        static readonly schema = frozenSchema;
+        static readonly [SOA_SCHEMA] = frozenSchema;
+        static readonly [VIEW_DESCRIPTORS] = createViewDescriptors(fields);
+
+        constructor(values: Partial<Record<string, number>> = {}) {
+            const target = this as unknown as Record<string, number>;
+            const fallback = defaults as Partial<Record<string, number>>;
+            for (const field of fields) {
+                target[field] = values[field] ?? fallback[field] ?? 0;
+            }
+        }
+    } as unknown as SoAComponentClass<S>;
+
+    Object.defineProperty(ComponentClass, 'name', {
+        value: name,
+        writable: false,
+        configurable: true,
+    });
+
+    return ComponentClass;
+}
+
+// Accessors are defined once per view and stay in place, keeping view shapes stable
+function createViewDescriptors(fields: readonly string[]): PropertyDescriptorMap {
+    const descriptors: PropertyDescriptorMap = {};
+    for (const [fieldIndex, field] of fields.entries()) {
+        descriptors[field] = {
+            get(this: SoAView): number {
+                const state = this[VIEW_STATE];
+                return state.columns === null
+                    ? (state.detached[field] as number)
+                    : state.columns.readAt(fieldIndex, state.index);
+            },
+            set(this: SoAView, value: number): void {
+                const state = this[VIEW_STATE];
+                if (state.columns === null) {
+                    state.detached[field] = value;
+                } else {
+                    state.columns.writeAt(fieldIndex, state.index, value);
+                }
+            },
+            enumerable: true,
+            configurable: true,
+        };
+    }
+    return descriptors;
+}
+
+/**
+ * Get the field layout of a struct-of-arrays component.
+ *
+ * @param type - Any component class
+ * @returns The schema, or undefined for regular components
+ * @public
+ */
+export function getSoASchema(type: ComponentIdentifier): Readonly<SoASchema> | undefined {
+    return (type as unknown as { [SOA_SCHEMA]?: Readonly<SoASchema> })[SOA_SCHEMA];
+}
+
+/**
+ * Check whether a value is a view onto struct-of-arrays columns.
+ *
+ * Detached views (of removed components) still count as views.
+ *
+ * @public
+ */
+export function isSoAView(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && VIEW_STATE in value;
+}
+
+/**
+ * Typed-array columns for one struct-of-arrays component inside an archetype.
+ *
+ * Rows line up with the archetype's dense entity array. Column arrays are
+ * replaced when capacity grows, so fetch them again with `getColumn()` after
+ * entities are added rather than holding on to them.
+ *
+ * @example
+ * ```typescript
+ * const columns = archetype.getSoAColumns(Particle);
+ * if (columns) {
+ *   const x = columns.getColumn('x') as Float32Array;
+ *   for (let i = 0; i < columns.length; i++) x[i] += 1;
+ * }
+ * ```
+ *
+ * @public
+ */
+export class SoAColumns {
+    /** The field layout of the stored component */
+    public readonly schema: Readonly<SoASchema>;
+
+    // Field names and their columns, in schema order
+    private readonly fields: string[];
+    private columns: SoAColumn[] = [];
+    private _length = 0;
+    private capacity: number;
+
+    constructor(schema: Readonly<SoASchema>, initialCapacity = DEFAULT_INITIAL_CAPACITY) {
+        this.schema = schema;
+        this.fields = Object.keys(schema);
+        this.capacity = Math.max(1, initialCapacity);
+
+        for (const field of this.fields) {
+            this.columns.push(this.allocate(field, this.capacity));
+        }
+    }
+
+    /**
+     * Number of rows in use
+     */
+    get length(): number {
+        return this._length;
+    }
+
+    /**
+     * Bytes allocated by all columns, including unused capacity
+     */
+    get byteLength(): number {
+        let bytes = 0;
+        for (const column of this.columns) {
+            bytes += column.byteLength;
+        }
+        return bytes;
+    }
+
+    /**
+     * Get the typed array backing a field
+     * @param field - Field name from the schema
+     * @returns The column, or undefined for unknown fields
+     */
+    getColumn(field: string): SoAColumn | undefined {
+        return this.columns[this.fields.indexOf(field)];
+    }
+
+    /**
+     * Read one field of a row by its position in the schema
+     * @internal
+     */
+    readAt(fieldIndex: number, index: number): number {
+        return (this.columns[fieldIndex] as SoAColumn)[index] as number;
+    }
+
+    /**
+     * Write one field of a row by its position in the schema
+     * @internal
+     */
+    writeAt(fieldIndex: number, index: number, value: number): void {
+        (this.columns[fieldIndex] as SoAColumn)[index] = value;
+    }
+
+    /**
+     * Append a row with the values of a component and return the view for it.
+     *
+     * Views of the same component type (e.g. from the entity's previous
+     * archetype) are re-pointed at the new row so they keep their identity.
+     *
+     * @param source - Component instance or view providing the field values
+     * @param type - Component class, used as the prototype of new views
+     * @internal
+     */
+    add(source: object, type: ComponentIdentifier): object {
+        if (this._length === this.capacity) {
+            this.grow();
+        }
+        const index = this._length++;
+        this.write(index, source);
+
+        if (isSoAView(source) && source instanceof type) {
+            const state = (source as SoAView)[VIEW_STATE];
+            state.columns = this;
+            state.index = index;
+            return source;
+        }
+
+        const view = Object.create(type.prototype) as SoAView;
+        Object.defineProperty(view, VIEW_STATE, {
+            value: { columns: this, index, detached: {} } satisfies SoAViewState,
+        });
+        const descriptors = (type as unknown as { [VIEW_DESCRIPTORS]?: PropertyDescriptorMap })[
+            VIEW_DESCRIPTORS
+        ];
+        return Object.defineProperties(view, descriptors ?? {});
+    }
+
+    /**
+     * Copy the field values of a component into a row
+     * @internal
+     */
+    write(index: number, source: object): void {
+        const values = source as Record<string, unknown>;
+        for (const [fieldIndex, field] of this.fields.entries()) {
+            this.writeAt(fieldIndex, index, Number(values[field] ?? 0));
+        }
+    }
+
+    /**
+     * Swap-and-pop a row, mirroring the archetype's dense arrays.
+     *
+     * The removed row's view is detached unless it was already moved to other
+     * columns, and the view of the former last row is re-pointed at `index`.
+     * Must run before the archetype swaps its own arrays.
+     *
+     * @param index - Row to remove
+     * @param views - The archetype's views for this component, indexed by row
+     * @internal
+     */
+    swapRemove(index: number, views: readonly unknown[]): void {
+        const lastIndex = this._length - 1;
+        const removed = views[index] as SoAView | undefined;
+        if (removed && this.owns(removed, index)) {
+            this.detach(removed);
+        }
+
+        if (index !== lastIndex) {
+            for (const column of this.columns) {
+                column[index] = column[lastIndex] as number;
+            }
+            const moved = views[lastIndex] as SoAView | undefined;
+            if (moved && this.owns(moved, lastIndex)) {
+                moved[VIEW_STATE].index = index;
+            }
+        }
+
+        this._length--;
+    }
+
+    private owns(view: SoAView, index: number): boolean {
+        const state = view[VIEW_STATE];
+        return state.columns === this && state.index === index;
+    }
+
+    // Keep the view's last values so it stays readable after its row is reused
+    private detach(view: SoAView): void {
+        const state = view[VIEW_STATE];
+        for (const [fieldIndex, field] of this.fields.entries()) {
+            state.detached[field] = this.readAt(fieldIndex, state.index);
+        }
+        state.columns = null;
+    }
+
+    private grow(): void {
+        this.capacity *= 2;
+        this.columns = this.columns.map((previous, fieldIndex) => {
+            const column = this.allocate(this.fields[fieldIndex] as string, this.capacity);
+            column.set(previous);
+            return column;
+        });
+    }
+
+    private allocate(field: string, length: number): SoAColumn {
+        const fieldType = this.schema[field] as SoAFieldType;
+        return new COLUMN_CONSTRUCTORS[fieldType](length);
+    }
+}
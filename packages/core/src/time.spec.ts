@@ -0,0 +1,131 @@
+/**
+ * Time Test Suite
+ * Tests for time scales, pause layers, frame timing and timers
+ */
+
+import { EngineBuilder } from './engine';
+import { CoreServices } from './services';
+
+class Spawned {}
+
+describe('Time', () => {
+    test('should scale delta time and track unscaled time and frames', () => {
+        const engine = new EngineBuilder().build();
+        const time = engine.time;
+
+        engine.update(20);
+        time.timeScale = 0.5;
+        engine.update(20);
+
+        expect(time.deltaTime).toBe(10);
+        expect(time.unscaledDeltaTime).toBe(20);
+        expect(time.elapsed).toBe(30);
+        expect(time.unscaledElapsed).toBe(40);
+        expect(time.frame).toBe(2);
+        expect(engine.services.get(CoreServices.Time)).toBe(time);
+        expect(() => {
+            time.timeScale = -1;
+        }).toThrow('[ECS] Time scale must be a non-negative finite number, got -1');
+        engine.destroy();
+    });
+
+    test('should skip paused layers and apply group time scales', () => {
+        const engine = new EngineBuilder().build();
+        engine.createSystemGroup('Gameplay', { priority: 100, pauseLayer: 'gameplay' });
+        engine.createSystemGroup('UI', { priority: 10, timeScale: 2 });
+        const runs: string[] = [];
+        for (const group of ['Gameplay', 'UI']) {
+            engine.createSystem(
+                group,
+                { all: [] },
+                {
+                    group,
+                    before: () =>
+                        void runs.push(`${group} ${engine.time.getGroupDeltaTime(group)}`),
+                }
+            );
+        }
+
+        engine.update(10);
+        engine.time.pause('gameplay');
+        engine.update(10);
+        engine.time.resume('gameplay');
+        engine.time.setGroupTimeScale('Gameplay', 0.5);
+        engine.update(10);
+
+        expect(runs).toEqual(['Gameplay 10', 'UI 20', 'UI 20', 'Gameplay 5', 'UI 20']);
+        expect(engine.time.getGroupPauseLayer('Gameplay')).toBe('gameplay');
+        expect(engine.time.getPausedLayers()).toEqual([]);
+        engine.destroy();
+    });
+
+    test('should fire timers in the command phase after systems run', () => {
+        const engine = new EngineBuilder().build();
+        const order: string[] = [];
+        engine.createSystem('Logic', { all: [] }, { before: () => void order.push('system') });
+
+        engine.time.after(25, () => {
+            order.push('after');
+            engine.commands.spawn().with(Spawned);
+        });
+        const stop = engine.time.every(10, (time) => void order.push(`every ${time.frame}`));
+
+        engine.update(10);
+        engine.update(10);
+        engine.update(10);
+        stop();
+        engine.update(10);
+
+        expect(order).toEqual([
+            'system',
+            'every 1',
+            'system',
+            'every 2',
+            'system',
+            'after',
+            'every 3',
+            'system',
+        ]);
+        expect(engine.createQuery({ all: [Spawned] }).size).toBe(1);
+        expect(engine.time.timerCount).toBe(0);
+        engine.destroy();
+    });
+
+    test('should count timers down on scaled, unscaled or group time', () => {
+        const engine = new EngineBuilder().build();
+        engine.createSystemGroup('Gameplay', { priority: 0, pauseLayer: 'gameplay' });
+        const fired: string[] = [];
+        engine.time.after(10, () => void fired.push('scaled'));
+        engine.time.after(10, () => void fired.push('unscaled'), { unscaled: true });
+        engine.time.after(10, () => void fired.push('group'), { group: 'Gameplay' });
+
+        engine.time.timeScale = 0;
+        engine.time.pause('gameplay');
+        engine.update(10);
+        engine.time.timeScale = 1;
+        engine.update(10);
+        engine.time.resume('gameplay');
+        engine.update(10);
+
+        expect(fired).toEqual(['unscaled', 'scaled', 'group']);
+        expect(() => engine.time.every(0, () => {})).toThrow(
+            '[ECS] Timer interval must be a positive finite number, got 0'
+        );
+        expect(() => engine.time.after(Number.NaN, () => {})).toThrow(
+            '[ECS] Timer delay must be a non-negative finite number, got NaN'
+        );
+        engine.destroy();
+    });
+
+    test('should advance by one timestep per deterministic tick', () => {
+        const engine = new EngineBuilder().withFixedUpdateFPS(50).withDeterminism().build();
+        engine.time.timeScale = 0.5;
+
+        engine.update(80);
+
+        expect(engine.time.frame).toBe(2);
+        expect(engine.time.elapsed).toBe(40);
+        expect(engine.time.fixedDeltaTime).toBe(20);
+        engine.destroy();
+    });
+});
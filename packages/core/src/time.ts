@@ -0,0 +1,293 @@
+/**
+ * Engine time: time scale, pause layers, frame timing and timers.
+ *
+ * Every world owns one {@link Time}. Each update scales the raw delta time by the
+ * global time scale before systems see it, and system groups can run slower or
+ * faster with their own scale. Groups assigned to a pause layer are skipped while
+ * that layer is paused, so gameplay can freeze while UI systems keep running.
+ * Timers count down on scaled, unscaled or group time and fire in the command
+ * phase at the end of the update, together with deferred commands.
+ */
+
+/**
+ * Options for {@link Time.after} and {@link Time.every}.
+ *
+ * @public
+ */
+export interface TimerOptions {
+    /**
+     * Count down on this system group's time: its time scale applies and the
+     * timer stops while the group's pause layer is paused.
+     */
+    group?: string;
+    /** Count down on real time, ignoring time scales and pause layers */
+    unscaled?: boolean;
+}
+
+interface ScheduledTimer {
+    remaining: number;
+    interval?: number;
+    callback: (time: Time) => void;
+    options: TimerOptions;
+    active: boolean;
+}
+
+function assertTimeScale(scale: number): void {
+    if (!Number.isFinite(scale) || scale < 0) {
+        throw new Error(`[ECS] Time scale must be a non-negative finite number, got ${scale}`);
+    }
+}
+
+/**
+ * Frame timing, time scales, pause layers and timers of a world.
+ *
+ * Available as `engine.time` and as the `CoreServices.Time` service. Times are in
+ * milliseconds, like the delta time passed to `engine.update()`.
+ *
+ * @example
+ * ```typescript
+ * engine.createSystemGroup('Gameplay', { priority: 100, pauseLayer: 'gameplay' });
+ * engine.createSystemGroup('UI', { priority: 10 });
+ *
+ * engine.time.pause('gameplay');             // Gameplay freezes, UI keeps running
+ * engine.time.timeScale = 0.25;              // Bullet time
+ * engine.time.setGroupTimeScale('UI', 1);
+ *
+ * engine.time.after(3000, () => engine.commands.spawn().with(Boss));
+ * const stop = engine.time.every(1000, (time) => console.log(`frame ${time.frame}`), {
+ *   unscaled: true,
+ * });
+ * ```
+ *
+ * @public
+ */
+export class Time {
+    private _timeScale: number = 1;
+    private _deltaTime: number = 0;
+    private _unscaledDeltaTime: number = 0;
+    private _elapsed: number = 0;
+    private _unscaledElapsed: number = 0;
+    private _frame: number = 0;
+    private groupScales: Map<string, number> = new Map();
+    private groupLayers: Map<string, string> = new Map();
+    private paused: Set<string> = new Set();
+    private timers: ScheduledTimer[] = [];
+
+    /**
+     * @param fixedDeltaTime - The fixed update timestep in milliseconds
+     */
+    constructor(readonly fixedDeltaTime: number = 1000 / 60) {}
+
+    /** Multiplier applied to the delta time of every update; 0 freezes scaled time */
+    get timeScale(): number {
+        return this._timeScale;
+    }
+    set timeScale(scale: number) {
+        assertTimeScale(scale);
+        this._timeScale = scale;
+    }
+
+    /** Scaled time elapsed during the current frame */
+    get deltaTime(): number {
+        return this._deltaTime;
+    }
+
+    /** Real time elapsed during the current frame */
+    get unscaledDeltaTime(): number {
+        return this._unscaledDeltaTime;
+    }
+
+    /** Scaled time elapsed since the world was created */
+    get elapsed(): number {
+        return this._elapsed;
+    }
+
+    /** Real time elapsed since the world was created */
+    get unscaledElapsed(): number {
+        return this._unscaledElapsed;
+    }
+
+    /** Number of updates (or deterministic ticks) run so far */
+    get frame(): number {
+        return this._frame;
+    }
+
+    /**
+     * Set the time scale of a system group, applied on top of the global time scale.
+     */
+    setGroupTimeScale(group: string, scale: number): void {
+        assertTimeScale(scale);
+        this.groupScales.set(group, scale);
+    }
+
+    getGroupTimeScale(group: string): number {
+        return this.groupScales.get(group) ?? 1;
+    }
+
+    /**
+     * Get the delta time the systems of a group receive this frame: 0 while the
+     * group is paused, otherwise the scaled delta time times the group's scale.
+     */
+    getGroupDeltaTime(group: string): number {
+        return this.isGroupPaused(group) ? 0 : this._deltaTime * this.getGroupTimeScale(group);
+    }
+
+    /**
+     * Assign a system group to a pause layer, or remove it from its layer.
+     */
+    setGroupPauseLayer(group: string, layer: string | undefined): void {
+        if (layer === undefined) {
+            this.groupLayers.delete(group);
+        } else {
+            this.groupLayers.set(group, layer);
+        }
+    }
+
+    getGroupPauseLayer(group: string): string | undefined {
+        return this.groupLayers.get(group);
+    }
+
+    /**
+     * Pause a layer: groups assigned to it are skipped and their timers stop.
+     */
+    pause(layer: string): void {
+        this.paused.add(layer);
+    }
+
+    resume(layer: string): void {
+        this.paused.delete(layer);
+    }
+
+    isPaused(layer: string): boolean {
+        return this.paused.has(layer);
+    }
+
+    /**
+     * Check whether a system group's pause layer is paused.
+     */
+    isGroupPaused(group: string): boolean {
+        const layer = this.groupLayers.get(group);
+        return layer !== undefined && this.paused.has(layer);
+    }
+
+    /**
+     * Get the names of the paused layers.
+     */
+    getPausedLayers(): string[] {
+        return [...this.paused];
+    }
+
+    /**
+     * Run a callback once after a delay.
+     *
+     * The callback runs in the command phase at the end of the update in which
+     * the delay elapses, before deferred commands are executed, so it can queue
+     * structural changes on `engine.commands`.
+     *
+     * @param delay - Delay in milliseconds; 0 runs the callback at the end of the current update
+     * @param callback - Called with this Time
+     * @param options - Which clock the timer counts down on
+     * @returns A function that cancels the timer
+     */
+    after(delay: number, callback: (time: Time) => void, options: TimerOptions = {}): () => void {
+        if (!Number.isFinite(delay) || delay < 0) {
+            throw new Error(`[ECS] Timer delay must be a non-negative finite number, got ${delay}`);
+        }
+        return this.schedule({ remaining: delay, callback, options, active: true });
+    }
+
+    /**
+     * Run a callback repeatedly.
+     *
+     * Like {@link Time.after}, but the callback runs every `interval`
+     * milliseconds until cancelled. An interval fires at most once per update;
+     * intervals missed during a long frame are dropped.
+     *
+     * @param interval - Interval in milliseconds
+     * @param callback - Called with this Time
+     * @param options - Which clock the timer counts down on
+     * @returns A function that cancels the timer
+     */
+    every(
+        interval: number,
+        callback: (time: Time) => void,
+        options: TimerOptions = {}
+    ): () => void {
+        if (!Number.isFinite(interval) || interval <= 0) {
+            throw new Error(
+                `[ECS] Timer interval must be a positive finite number, got ${interval}`
+            );
+        }
+        return this.schedule({ remaining: interval, interval, callback, options, active: true });
+    }
+
+    /**
+     * Get the number of scheduled timers.
+     */
+    get timerCount(): number {
+        return this.timers.length;
+    }
+
+    /**
+     * Start a new frame and count down timers.
+     * @param unscaledDelta - Real time elapsed since the last frame
+     * @param scaledDelta - Scaled time elapsed; defaults to the real time times the time scale
+     * @returns The scaled delta time
+     * @internal
+     */
+    advance(unscaledDelta: number, scaledDelta: number = unscaledDelta * this._timeScale): number {
+        this._unscaledDeltaTime = unscaledDelta;
+        this._deltaTime = scaledDelta;
+        this._unscaledElapsed += unscaledDelta;
+        this._elapsed += scaledDelta;
+        this._frame++;
+
+        for (const timer of this.timers) {
+            const { group, unscaled } = timer.options;
+            if (unscaled) {
+                timer.remaining -= unscaledDelta;
+            } else if (group === undefined) {
+                timer.remaining -= scaledDelta;
+            } else {
+                timer.remaining -= this.getGroupDeltaTime(group);
+            }
+        }
+        return scaledDelta;
+    }
+
+    /**
+     * Fire timers that are due, in the order they were scheduled.
+     * @internal
+     */
+    runTimers(): void {
+        if (this.timers.length === 0) {
+            return;
+        }
+        // Timers scheduled by callbacks wait for the next update
+        for (const timer of this.timers.slice()) {
+            if (!timer.active || timer.remaining > 0) {
+                continue;
+            }
+            if (timer.interval === undefined) {
+                timer.active = false;
+            } else {
+                timer.remaining += timer.interval;
+                if (timer.remaining <= 0) {
+                    timer.remaining = timer.interval;
+                }
+            }
+            timer.callback(this);
+        }
+        this.timers = this.timers.filter((timer) => timer.active);
+    }
+
+    private schedule(timer: ScheduledTimer): () => void {
+        this.timers.push(timer);
+        return () => {
+            if (timer.active) {
+                timer.active = false;
+                this.timers = this.timers.filter((entry) => entry !== timer);
+            }
+        };
+    }
+}
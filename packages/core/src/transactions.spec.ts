@@ -0,0 +1,265 @@
+/**
+ * Transaction Journal Test Suite
+ * Tests for rollback of structural changes, savepoints and component replacement
+ */
+
+import { EngineBuilder } from './engine';
+import { defineSoAComponent } from './soa';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Health {
+    constructor(public current: number = 100) {}
+}
+
+class Inventory {
+    items: string[] = [];
+}
+
+class Label {
+    constructor(public text: string) {
+        if (typeof text !== 'string') {
+            throw new Error('Label needs text');
+        }
+    }
+}
+
+class Dead {}
+
+const Particle = defineSoAComponent('Particle', { x: 'f32' });
+
+describe('Transactions', () => {
+    describe('rollback', () => {
+        test('should undo component adds, removals and replacements', () => {
+            const engine = new EngineBuilder().build();
+            engine.registerComponentPool(Inventory);
+            const entity = engine.createEntity('Hero').addComponent(Position, 1, 2);
+            entity.addComponent(Inventory).getComponent(Inventory).items.push('sword');
+            entity.addComponent(Health, 40);
+            const healthQuery = engine.createQuery({ all: [Health] });
+
+            engine.beginTransaction();
+            entity.addComponent(Particle, { x: 3 });
+            entity.removeComponent(Inventory);
+            entity.removeComponent(Health);
+            entity.replaceComponent(Position, 9, 9);
+            engine.rollbackTransaction();
+
+            expect(entity.hasComponent(Particle)).toBe(false);
+            expect(entity.getComponent(Inventory).items).toEqual(['sword']);
+            expect(entity.getComponent(Health).current).toBe(40);
+            expect(entity.getComponent(Position)).toEqual({ x: 1, y: 2 });
+            expect(healthQuery.getEntitiesArray()).toEqual([entity]);
+            engine.destroy();
+        });
+
+        test('should release created entities and restore tags and parents', () => {
+            const engine = new EngineBuilder().build();
+            const parent = engine.createEntity('Parent');
+            const child = engine.createEntity('Child').addTag('keep');
+            parent.addChild(child);
+
+            engine.beginTransaction();
+            const spawned = engine.createEntity('Spawned').addComponent(Position).addTag('new');
+            spawned.addChild(child);
+            child.removeTag('keep').addTag('moved');
+            engine.rollbackTransaction();
+
+            expect(engine.getAllEntities()).toHaveLength(2);
+            expect(engine.getEntityByName('Spawned')).toBeUndefined();
+            expect(child.parent).toBe(parent);
+            expect([...child.tags]).toEqual(['keep']);
+            expect(engine.getEntitiesByTag('new')).toEqual([]);
+            engine.destroy();
+        });
+
+        test('should remove released entities from every query', () => {
+            const engine = new EngineBuilder().build();
+            const positioned = engine.createQuery({ all: [Position] });
+            const alive = engine.createQuery({ none: [Dead] });
+
+            engine.beginTransaction();
+            engine.createEntity('Spawned').addComponent(Position).addTag('new');
+            engine.rollbackTransaction();
+
+            expect(engine.getAllEntities()).toEqual([]);
+            expect(positioned.size).toBe(0);
+            expect(alive.size).toBe(0);
+            engine.destroy();
+        });
+
+        test('should restore components whose constructor and validator need arguments', () => {
+            const engine = new EngineBuilder().build();
+            engine.registerComponentValidator(Label, {
+                validate: (label) => label.text.length > 0 || 'text must not be empty',
+            });
+            const entity = engine.createEntity('Sign').addComponent(Label, 'north');
+            const other = engine.createEntity('Post').addComponent(Label, 'south');
+
+            engine.beginTransaction();
+            entity.removeComponent(Label);
+            other.replaceComponent(Label, 'east');
+            engine.rollbackTransaction();
+
+            expect(entity.getComponent(Label)).toBeInstanceOf(Label);
+            expect(entity.getComponent(Label).text).toBe('north');
+            expect(other.getComponent(Label).text).toBe('south');
+            engine.destroy();
+        });
+
+        test('should defer cleanup of deleted entities until the transaction ends', () => {
+            const engine = new EngineBuilder().build();
+            const doomed = engine.createEntity('Doomed');
+            const kept = engine.createEntity('Kept');
+
+            engine.beginTransaction();
+            doomed.queueFree();
+            kept.queueFree();
+            engine.update(16);
+            expect(engine.getAllEntities()).toHaveLength(2);
+            engine.rollbackTransaction();
+
+            expect(kept.isMarkedForDeletion).toBe(false);
+
+            engine.beginTransaction();
+            doomed.queueFree();
+            engine.commitTransaction();
+            engine.update(16);
+
+            expect(engine.getAllEntities()).toEqual([kept]);
+            engine.destroy();
+        });
+
+        test('should keep changes made outside the transaction', () => {
+            const engine = new EngineBuilder().build();
+            const entity = engine.createEntity().addComponent(Position);
+
+            engine.beginTransaction();
+            entity.addTag('inside');
+            engine.rollbackTransaction();
+            entity.addTag('outside');
+            engine.beginTransaction();
+            engine.rollbackTransaction();
+
+            expect([...entity.tags]).toEqual(['outside']);
+            expect(entity.hasComponent(Position)).toBe(true);
+            engine.destroy();
+        });
+    });
+
+    describe('savepoints', () => {
+        test('should roll back to nested savepoints without ending the transaction', () => {
+            const engine = new EngineBuilder().build();
+            const entity = engine.createEntity();
+
+            engine.beginTransaction();
+            entity.addTag('a');
+            engine.savepoint('first');
+            entity.addTag('b');
+            engine.savepoint('second');
+            entity.addTag('c');
+
+            engine.rollbackToSavepoint('second');
+            expect([...entity.tags]).toEqual(['a', 'b']);
+            expect(engine.getSavepoints()).toEqual(['first', 'second']);
+
+            engine.rollbackToSavepoint('first');
+            expect([...entity.tags]).toEqual(['a']);
+            expect(engine.getSavepoints()).toEqual(['first']);
+            expect(engine.isInTransaction()).toBe(true);
+
+            entity.addTag('d');
+            engine.commitTransaction();
+            expect([...entity.tags]).toEqual(['a', 'd']);
+            expect(engine.getSavepoints()).toEqual([]);
+            engine.destroy();
+        });
+
+        test('should keep changes of released savepoints for the outer rollback', () => {
+            const engine = new EngineBuilder().build();
+            const entity = engine.createEntity();
+
+            engine.beginTransaction();
+            engine.savepoint('outer');
+            engine.savepoint('inner');
+            entity.addComponent(Position);
+            engine.releaseSavepoint('outer');
+
+            expect(engine.getSavepoints()).toEqual([]);
+            expect(entity.hasComponent(Position)).toBe(true);
+
+            engine.rollbackTransaction();
+            expect(entity.hasComponent(Position)).toBe(false);
+            engine.destroy();
+        });
+
+        test('should validate savepoint usage', () => {
+            const engine = new EngineBuilder().build();
+
+            expect(() => engine.savepoint('x')).toThrow('[ECS] No transaction in progress');
+            engine.beginTransaction();
+            engine.savepoint('x');
+            expect(() => engine.savepoint('x')).toThrow('[ECS] Savepoint "x" already exists');
+            expect(() => engine.rollbackToSavepoint('y')).toThrow(
+                '[ECS] Savepoint "y" does not exist'
+            );
+            engine.rollbackTransaction();
+            engine.destroy();
+        });
+    });
+
+    describe('replaceComponent', () => {
+        test('should swap the instance in place and report the previous one', () => {
+            const engine = new EngineBuilder().build();
+            const entity = engine.createEntity().addComponent(Health, 10);
+            const query = engine.createQuery({ all: [Health] });
+            const replaced: unknown[] = [];
+            engine.on('onComponentReplaced', (_entity, _type, previous) => replaced.push(previous));
+            const previous = entity.getComponent(Health);
+
+            entity.replaceComponent(Health, 100);
+
+            expect(entity.getComponent(Health)).not.toBe(previous);
+            expect(entity.getComponent(Health).current).toBe(100);
+            expect(replaced).toEqual([previous]);
+            expect(query.getEntitiesArray()).toEqual([entity]);
+            engine.destroy();
+        });
+
+        test('should add the component when missing and keep SoA views', () => {
+            const engine = new EngineBuilder().build();
+            const entity = engine.createEntity().replaceComponent(Particle, { x: 1 });
+            const view = entity.getComponent(Particle);
+            let previousX: number | undefined;
+            engine.on('onComponentReplaced', (_entity, _type, previous) => {
+                previousX = (previous as { x: number }).x;
+            });
+
+            entity.replaceComponent(Particle, { x: 2 });
+
+            expect(entity.getComponent(Particle)).toBe(view);
+            expect(view.x).toBe(2);
+            expect(previousX).toBe(1);
+            engine.destroy();
+        });
+    });
+
+    test('should refuse to move entities between worlds during a transaction', () => {
+        const engine = new EngineBuilder().build();
+        const other = engine.createWorld('other');
+        const entity = engine.createEntity();
+
+        engine.beginTransaction();
+
+        expect(() => engine.moveEntityToWorld(entity, other)).toThrow(
+            '[ECS] Cannot move entities out of a world during a transaction'
+        );
+        engine.rollbackTransaction();
+        engine.destroy();
+    });
+});
@@ -2,7 +2,8 @@
  * Utility functions for OrionECS
  */
 
-import type { ComponentIdentifier, StrictComponentClass } from './definitions';
+import type { ComponentIdentifier, RelationType, StrictComponentClass } from './definitions';
+import { getSoASchema } from './soa';
 
 /**
  * Define a component class with typed constructor parameters.
@@ -177,6 +178,34 @@ export function deepCloneComponent<T>(obj: T, visited = new WeakMap()): T {
     return clone;
 }
 
+/**
+ * Copy a component's data into a plain object that can be assigned onto a new instance.
+ *
+ * Regular components are deep-cloned with {@link deepCloneComponent}. Typed-array
+ * (SoA) components keep their values in columns rather than own properties, so
+ * their schema fields are read instead.
+ *
+ * @param type - The component class
+ * @param component - The component instance to copy
+ * @returns A plain object with the component's data
+ *
+ * @example
+ * ```typescript
+ * const data = cloneComponentData(Position, entity.getComponent(Position));
+ * Object.assign(other.addComponent(Position).getComponent(Position), data);
+ * ```
+ *
+ * @public
+ */
+export function cloneComponentData(type: ComponentIdentifier, component: unknown): object {
+    const schema = getSoASchema(type);
+    if (schema) {
+        const values = component as Record<string, unknown>;
+        return Object.fromEntries(Object.keys(schema).map((field) => [field, values[field]]));
+    }
+    return deepCloneComponent(component) as object;
+}
+
 /**
  * Create a tag component class for entity categorization
  * Tag components are marker components with no data, used for filtering entities in queries
@@ -220,3 +249,42 @@ export function createTagComponent(name: string): ComponentIdentifier<any> {
 
     return TagClass as ComponentIdentifier<any>;
 }
+
+/**
+ * Define a relation type for typed, many-to-many relationships between entities.
+ *
+ * Each call creates a distinct relation type, compared by identity. The type
+ * parameter describes the optional data stored on each relation.
+ *
+ * @typeParam T - Type of the data attached to each relation
+ * @param name - The relation name, used for debugging
+ * @returns A relation type for use with `entity.addRelation()` and relation queries
+ *
+ * @example
+ * ```typescript
+ * const DockedAt = defineRelation<{ bay: number }>('DockedAt');
+ *
+ * ship.addRelation(DockedAt, station, { bay: 3 });
+ *
+ * engine.createSystem('DockedShips',
+ *   { all: [Ship], relations: [{ relation: DockedAt, target: station }] },
+ *   { act: (ship) => { // Only ships docked at this station } }
+ * );
+ * ```
+ *
+ * @public
+ */
+export function defineRelation<T = undefined>(name: string): RelationType<T> {
+    return Object.freeze({ name });
+}
+
+/**
+ * Name the type of a value for error messages, telling arrays and null apart from objects.
+ * @internal
+ */
+export function describeValueType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,229 @@
+/**
+ * Multiple Worlds Test Suite
+ * Tests for isolated worlds sharing one engine's registrations
+ */
+
+import type { EnginePlugin } from './definitions';
+import { EngineBuilder } from './engine';
+import { defineSoAComponent } from './soa';
+
+class Position {
+    constructor(
+        public x: number = 0,
+        public y: number = 0
+    ) {}
+}
+
+class Inventory {
+    items: string[] = [];
+}
+
+class Score {
+    constructor(public value: number = 0) {}
+}
+
+class Label {
+    constructor(public text: string) {
+        if (typeof text !== 'string') {
+            throw new Error('Label needs text');
+        }
+    }
+}
+
+const Particle = defineSoAComponent('Particle', { x: 'f32', life: 'u8' });
+
+describe('Multiple Worlds', () => {
+    test('should keep entities, singletons and systems separate', () => {
+        const engine = new EngineBuilder().build();
+        const match = engine.createWorld('match');
+        const seen: string[] = [];
+        match.createSystem('Counter', { all: [Position] }, { act: () => void seen.push('match') });
+        engine.createSystem('Counter', { all: [Position] }, { act: () => void seen.push('main') });
+
+        engine.createEntity('Hero').addComponent(Position);
+        match.createEntity('Hero').addComponent(Position);
+        match.createEntity('Villain').addComponent(Position);
+        match.setSingleton(Score, 3);
+        engine.getSystem('Counter')!.enabled = false;
+
+        match.update(16);
+        engine.update(16);
+
+        expect(seen).toEqual(['match', 'match']);
+        expect(engine.getAllEntities()).toHaveLength(1);
+        expect(match.getAllEntities()).toHaveLength(2);
+        expect(engine.hasSingleton(Score)).toBe(false);
+        expect(match.getSingleton(Score)?.value).toBe(3);
+        engine.destroy();
+    });
+
+    test('should share component registrations and prefabs', () => {
+        const engine = new EngineBuilder().build();
+        engine.registerComponentValidator(Score, {
+            validate: (score) => score.value >= 0 || 'Score must not be negative',
+        });
+        engine.registerPrefab('Pawn', {
+            name: 'Pawn',
+            components: [{ type: Position, args: [1, 2] }],
+            tags: ['pawn'],
+        });
+        const sandbox = engine.createWorld('sandbox');
+
+        const pawn = sandbox.createFromPrefab('Pawn', 'Pawn1');
+
+        expect(pawn?.getComponent(Position)).toEqual({ x: 1, y: 2 });
+        expect(() => sandbox.createEntity().addComponent(Score, -1)).toThrow(
+            'Score must not be negative'
+        );
+        engine.destroy();
+    });
+
+    test('should share plugin registrations but keep plugins in the installing world', () => {
+        const ticks: string[] = [];
+        const plugin: EnginePlugin = {
+            name: 'Stats',
+            install: (context) => {
+                context.registerComponentValidator(Score, {
+                    validate: (score) => score.value >= 0 || 'Score must not be negative',
+                });
+                context.createSystem(
+                    'ScoreTicker',
+                    { all: [Score] },
+                    {
+                        act: () => void ticks.push('tick'),
+                    }
+                );
+                const installedOn = context.getEngine() as { getAllEntities(): unknown[] };
+                context.extend('stats', { entityCount: () => installedOn.getAllEntities().length });
+            },
+        };
+        const engine = new EngineBuilder().use(plugin).build();
+        engine.createEntity().addComponent(Score, 1);
+        const world = engine.createWorld('other');
+        world.createEntity().addComponent(Score, 2);
+        world.createEntity().addComponent(Score, 3);
+
+        world.update(16);
+        engine.update(16);
+
+        expect(ticks).toEqual(['tick']);
+        expect(world.hasPlugin('Stats')).toBe(false);
+        expect(world.getSystem('ScoreTicker')).toBeUndefined();
+        expect(world.getExtension('stats')).toBeUndefined();
+        expect('stats' in world).toBe(false);
+        expect(engine.getExtension<{ entityCount(): number }>('stats')?.entityCount()).toBe(1);
+        expect(() => world.createEntity().addComponent(Score, -1)).toThrow(
+            'Score must not be negative'
+        );
+
+        world.installPlugin({
+            name: 'Sandbox',
+            install: (context) => context.extend('sandbox', { preview: true }),
+        });
+        expect(world.hasPlugin('Sandbox')).toBe(true);
+        expect(engine.hasPlugin('Sandbox')).toBe(false);
+        expect('sandbox' in engine).toBe(false);
+        engine.destroy();
+    });
+
+    test('should look up, list and destroy worlds', () => {
+        const engine = new EngineBuilder().build();
+        const a = engine.createWorld('a');
+        const b = a.createWorld('b');
+
+        expect(engine.getWorld('main')).toBe(engine);
+        expect(b.getWorld('a')).toBe(a);
+        expect(engine.getWorlds()).toEqual([engine, a, b]);
+        expect(() => engine.createWorld('a')).toThrow('[ECS] World "a" already exists');
+        expect(() => engine.destroyWorld('main')).toThrow(/Cannot destroy the main world/);
+
+        expect(engine.destroyWorld('a')).toBe(true);
+        expect(engine.destroyWorld('a')).toBe(false);
+        expect(engine.getWorlds().map((world) => world.getWorldName())).toEqual(['main', 'b']);
+
+        engine.destroy();
+        expect(engine.getWorlds()).toEqual([engine]);
+    });
+
+    test('should copy an entity tree into another world', () => {
+        const engine = new EngineBuilder().build();
+        const preview = engine.createWorld('preview');
+        const parent = engine.createEntity('Chest').addComponent(Inventory).addTag('loot');
+        parent.getComponent(Inventory).items.push('sword');
+        parent.addChild(engine.createEntity('Lid').addComponent(Position, 0, 1));
+
+        const copy = engine.copyEntityToWorld(parent, preview);
+        copy.getComponent(Inventory).items.push('shield');
+
+        expect(copy).not.toBe(parent);
+        expect(copy.hasTag('loot')).toBe(true);
+        expect(parent.getComponent(Inventory).items).toEqual(['sword']);
+        expect(preview.getEntityByName('Lid')?.parent).toBe(copy);
+        expect(preview.getEntityByName('Lid')?.getComponent(Position).y).toBe(1);
+        expect(engine.getAllEntities()).toHaveLength(2);
+        expect(preview.createQuery({ all: [Inventory] }).getEntitiesArray()).toEqual([copy]);
+        engine.destroy();
+    });
+
+    test('should move an entity and release it from the source world', () => {
+        const engine = new EngineBuilder().build();
+        const match = engine.createWorld('match');
+        const player = engine.createEntity('Player').addComponent(Position, 5, 6);
+        player.addChild(engine.createEntity('Weapon'));
+        const sourceQuery = engine.createQuery({ all: [Position] });
+
+        const moved = engine.moveEntityToWorld(player, match);
+
+        expect(engine.getAllEntities()).toHaveLength(0);
+        expect(sourceQuery.getEntitiesArray()).toEqual([]);
+        expect(match.getEntityByName('Player')).toBe(moved);
+        expect(moved.getComponent(Position)).toEqual({ x: 5, y: 6 });
+        expect(moved.children.map((child) => child.name)).toEqual(['Weapon']);
+        expect(match.moveEntityToWorld(moved, match)).toBe(moved);
+        engine.destroy();
+    });
+
+    test('should copy components whose constructor and validator need arguments', () => {
+        const engine = new EngineBuilder().build();
+        engine.registerComponentValidator(Label, {
+            validate: (label) => label.text.length > 0 || 'text must not be empty',
+        });
+        const other = engine.createWorld('other');
+        const sign = engine.createEntity('Sign').addComponent(Label, 'north');
+
+        const copy = engine.copyEntityToWorld(sign, other);
+
+        expect(copy.getComponent(Label)).toBeInstanceOf(Label);
+        expect(copy.getComponent(Label).text).toBe('north');
+        expect(copy.getComponent(Label)).not.toBe(sign.getComponent(Label));
+        engine.destroy();
+    });
+
+    test('should transfer struct-of-arrays component values', () => {
+        const engine = new EngineBuilder().build();
+        const other = engine.createWorld('other');
+        const entity = engine.createEntity().addComponent(Particle, { x: 1.5, life: 200 });
+
+        const moved = engine.moveEntityToWorld(entity, other);
+
+        expect(moved.getComponent(Particle).x).toBe(1.5);
+        expect(moved.getComponent(Particle).life).toBe(200);
+        engine.destroy();
+    });
+
+    test('should reject entities and worlds from elsewhere', () => {
+        const engine = new EngineBuilder().build();
+        const match = engine.createWorld('match');
+        const stranger = new EngineBuilder().build();
+        const entity = engine.createEntity('Player');
+
+        expect(() => match.moveEntityToWorld(entity, engine)).toThrow(
+            '[ECS] Entity Player does not belong to world "match"'
+        );
+        expect(() => engine.copyEntityToWorld(entity, stranger)).toThrow(
+            '[ECS] World "main" is not a world of this engine'
+        );
+        engine.destroy();
+        stranger.destroy();
+    });
+});
@@ -215,6 +215,51 @@ describe('generateTemplateFiles', () => {
         });
     });
 
+    describe('hot module replacement', () => {
+        it('should generate the HMR adapter and register the engine', () => {
+            const config = createConfig({ template: 'canvas2d' });
+            const files = generateTemplateFiles(config);
+            const hmr = findFile(files, 'src/hmr.ts');
+            const entry = findFile(files, 'src/index.ts');
+
+            expect(hmr.content).toContain('engine.hotSwap(');
+            expect(entry.content).toContain('enableHotReload(engine);');
+            expect(findFile(files, 'src/vite-env.d.ts').content).toContain('vite/client');
+        });
+
+        it('should make system modules self-accepting', () => {
+            const config = createConfig({ template: 'three' });
+            const files = generateTemplateFiles(config);
+
+            for (const path of ['src/systems/movement.ts', 'src/systems/render.ts']) {
+                const system = findFile(files, path);
+                expect(system.content).toContain('import.meta.hot.accept()');
+                expect(system.content).toContain('hotSwapSystems(import.meta.hot');
+            }
+        });
+
+        it('should run the vanilla template through vite-node', () => {
+            const config = createConfig({ template: 'vanilla', language: 'javascript' });
+            const files = generateTemplateFiles(config);
+            const parsed = JSON.parse(findFile(files, 'package.json').content);
+
+            expect(parsed.scripts.dev).toBe('vite-node --watch src/index.js');
+            expect(parsed.devDependencies['vite-node']).toBeDefined();
+            expect(findFile(files, 'src/hmr.js').content).not.toContain('HotContext');
+        });
+
+        it('should leave webpack and multiplayer templates unchanged', () => {
+            for (const template of ['webpack', 'multiplayer'] as const) {
+                const files = generateTemplateFiles(createConfig({ template }));
+
+                expect(files.find((f) => f.path === 'src/hmr.ts')).toBeUndefined();
+                for (const file of files) {
+                    expect(file.content).not.toContain('import.meta.hot');
+                }
+            }
+        });
+    });
+
     describe('JavaScript output', () => {
         it('should use .js extensions', () => {
             const config = createConfig({ template: 'vanilla', language: 'javascript' });
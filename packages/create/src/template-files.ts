@@ -1,4 +1,4 @@
-import type { ProjectConfig, TemplateFile } from './types.js';
+import type { ProjectConfig, TemplateFile, TemplateType } from './types.js';
 import { getTemplateInfo } from './templates.js';
 
 /**
@@ -43,6 +43,10 @@ export function generateTemplateFiles(config: ProjectConfig): TemplateFile[] {
             break;
     }
 
+    if (supportsHotReload(config.template)) {
+        files.push(...generateHmrFiles(ext));
+    }
+
     return files;
 }
 
@@ -59,7 +63,9 @@ function generatePackageJson(config: ProjectConfig): TemplateFile {
     switch (config.template) {
         case 'vanilla':
             scripts.build = isTS ? 'tsc' : 'echo "No build step for JavaScript"';
-            scripts.dev = isTS ? 'tsx watch src/index.ts' : 'node src/index.js';
+            scripts.dev = isTS
+                ? 'vite-node --watch src/index.ts'
+                : 'vite-node --watch src/index.js';
             scripts.start = isTS ? 'tsx src/index.ts' : 'node src/index.js';
             break;
         case 'canvas2d':
@@ -95,6 +101,7 @@ function generatePackageJson(config: ProjectConfig): TemplateFile {
         devDependencies: {
             ...templateInfo?.devDependencies,
             ...(config.template === 'vanilla' && isTS ? { tsx: '^4.0.0' } : {}),
+            ...(config.template === 'vanilla' ? { vite: '^6.0.7', 'vite-node': '^3.0.0' } : {}),
         },
     };
 
@@ -240,14 +247,14 @@ function generateVanillaFiles(config: ProjectConfig, ext: string): TemplateFile[
 
 import { EngineBuilder } from '@orion-ecs/core';
 import { Position, Velocity } from './components/transform.${ext.replace('.ts', '')}${isTS ? '.js' : ''}';
-import { MovementSystem } from './systems/movement.${ext.replace('.ts', '')}${isTS ? '.js' : ''}';
+import { MovementSystem } from './systems/movement.${ext.replace('.ts', '')}${isTS ? '.js' : ''}';${hmrImport('enableHotReload', './hmr', ext)}
 
 // Create the ECS engine
 const engine = new EngineBuilder()
     .withDebugMode(true)
     .withFixedUpdateFPS(60)
     .build();
-
+${hmrEnable('')}
 // Register systems
 engine.registerSystem(new MovementSystem(engine));
 
@@ -298,7 +305,7 @@ export class Velocity {
  * Movement System
  */
 
-import { Position, Velocity } from '../components/transform.${isTS ? 'js' : ext}';
+import { Position, Velocity } from '../components/transform.${isTS ? 'js' : ext}';${hmrImport('hotSwapSystems', '../hmr', ext)}
 ${isTS ? "import type { Engine, Entity } from '@orion-ecs/core';" : ''}
 
 export class MovementSystem {
@@ -319,7 +326,7 @@ export class MovementSystem {
         position.y += velocity.y * deltaTime;
     }
 }
-`,
+${hmrAccept('new MovementSystem(engine)')}`,
         },
     ];
 }
@@ -327,7 +334,7 @@ export class MovementSystem {
 /**
  * Generate Canvas2D template files
  */
-function generateCanvas2dFiles(config: ProjectConfig, ext: string): TemplateFile[] {
+function generateCanvas2dFiles(config: ProjectConfig, ext: string, hmr = true): TemplateFile[] {
     const isTS = ext === 'ts';
 
     return [
@@ -370,7 +377,7 @@ function generateCanvas2dFiles(config: ProjectConfig, ext: string): TemplateFile
 import { EngineBuilder } from '@orion-ecs/core';
 import { Position, Velocity, Sprite } from './components/transform.${isTS ? 'js' : ext}';
 import { MovementSystem } from './systems/movement.${isTS ? 'js' : ext}';
-import { RenderSystem } from './systems/render.${isTS ? 'js' : ext}';
+import { RenderSystem } from './systems/render.${isTS ? 'js' : ext}';${hmrImport('enableHotReload', './hmr', ext, hmr)}
 
 // Get canvas and context
 const canvas = document.getElementById('game')${isTS ? ' as HTMLCanvasElement' : ''};
@@ -381,7 +388,7 @@ const engine = new EngineBuilder()
     .withDebugMode(true)
     .withFixedUpdateFPS(60)
     .build();
-
+${hmrEnable('', hmr)}
 // Register systems
 new MovementSystem(engine);
 new RenderSystem(engine, ctx);
@@ -443,7 +450,7 @@ export class Sprite {
  * Movement System with boundary bouncing
  */
 
-import { Position, Velocity } from '../components/transform.${isTS ? 'js' : ext}';
+import { Position, Velocity } from '../components/transform.${isTS ? 'js' : ext}';${hmrImport('hotSwapSystems', '../hmr', ext, hmr)}
 ${isTS ? "import type { Engine, Entity } from '@orion-ecs/core';" : ''}
 
 export class MovementSystem {
@@ -474,7 +481,7 @@ export class MovementSystem {
         }
     }
 }
-`,
+${hmrAccept('new MovementSystem(engine)', hmr)}`,
         },
         {
             path: `src/systems/render.${ext}`,
@@ -482,7 +489,7 @@ export class MovementSystem {
  * Canvas2D Render System
  */
 
-import { Position, Sprite } from '../components/transform.${isTS ? 'js' : ext}';
+import { Position, Sprite } from '../components/transform.${isTS ? 'js' : ext}';${hmrImport('hotSwapSystems', '../hmr', ext, hmr)}
 ${isTS ? "import type { Engine, Entity } from '@orion-ecs/core';" : ''}
 
 export class RenderSystem {
@@ -516,7 +523,7 @@ export class RenderSystem {
         );
     }
 }
-`,
+${hmrAccept(`new RenderSystem(engine, ${isTS ? "(document.getElementById('game') as HTMLCanvasElement).getContext('2d')!" : "document.getElementById('game').getContext('2d')"})`, hmr)}`,
         },
         generateViteConfig(config),
     ];
@@ -567,7 +574,7 @@ import { Application, Graphics } from 'pixi.js';
 import { EngineBuilder } from '@orion-ecs/core';
 import { Position, Velocity, PixiRenderable } from './components/transform.${isTS ? 'js' : ext}';
 import { MovementSystem } from './systems/movement.${isTS ? 'js' : ext}';
-import { PixiRenderSystem } from './systems/render.${isTS ? 'js' : ext}';
+import { PixiRenderSystem } from './systems/render.${isTS ? 'js' : ext}';${hmrImport('enableHotReload', './hmr', ext)}
 
 async function main() {
     // Create Pixi Application
@@ -584,7 +591,7 @@ async function main() {
         .withDebugMode(true)
         .withFixedUpdateFPS(60)
         .build();
-
+${hmrEnable('    ')}
     // Register systems
     new MovementSystem(engine);
     new PixiRenderSystem(engine, app);
@@ -656,7 +663,7 @@ export class PixiRenderable {
  * Movement System with boundary bouncing
  */
 
-import { Position, Velocity } from '../components/transform.${isTS ? 'js' : ext}';
+import { Position, Velocity } from '../components/transform.${isTS ? 'js' : ext}';${hmrImport('hotSwapSystems', '../hmr', ext)}
 ${isTS ? "import type { Engine, Entity } from '@orion-ecs/core';" : ''}
 
 export class MovementSystem {
@@ -687,7 +694,7 @@ export class MovementSystem {
         }
     }
 }
-`,
+${hmrAccept('new MovementSystem(engine)')}`,
         },
         {
             path: `src/systems/render.${ext}`,
@@ -760,7 +767,7 @@ import * as THREE from 'three';
 import { EngineBuilder } from '@orion-ecs/core';
 import { Position3D, Velocity3D, ThreeRenderable } from './components/transform.${isTS ? 'js' : ext}';
 import { MovementSystem } from './systems/movement.${isTS ? 'js' : ext}';
-import { ThreeRenderSystem } from './systems/render.${isTS ? 'js' : ext}';
+import { ThreeRenderSystem } from './systems/render.${isTS ? 'js' : ext}';${hmrImport('enableHotReload', './hmr', ext)}
 
 // Create Three.js scene
 const scene = new THREE.Scene();
@@ -786,7 +793,7 @@ const engine = new EngineBuilder()
     .withDebugMode(true)
     .withFixedUpdateFPS(60)
     .build();
-
+${hmrEnable('')}
 // Register systems
 new MovementSystem(engine);
 new ThreeRenderSystem(engine);
@@ -871,7 +878,7 @@ export class ThreeRenderable {
  * 3D Movement System with boundary bouncing
  */
 
-import { Position3D, Velocity3D } from '../components/transform.${isTS ? 'js' : ext}';
+import { Position3D, Velocity3D } from '../components/transform.${isTS ? 'js' : ext}';${hmrImport('hotSwapSystems', '../hmr', ext)}
 ${isTS ? "import type { Engine, Entity } from '@orion-ecs/core';" : ''}
 
 export class MovementSystem {
@@ -904,7 +911,7 @@ export class MovementSystem {
         }
     }
 }
-`,
+${hmrAccept('new MovementSystem(engine)')}`,
         },
         {
             path: `src/systems/render.${ext}`,
@@ -912,7 +919,7 @@ export class MovementSystem {
  * Three.js Render System
  */
 
-import { Position3D, ThreeRenderable } from '../components/transform.${isTS ? 'js' : ext}';
+import { Position3D, ThreeRenderable } from '../components/transform.${isTS ? 'js' : ext}';${hmrImport('hotSwapSystems', '../hmr', ext)}
 ${isTS ? "import type { Engine, Entity } from '@orion-ecs/core';" : ''}
 
 export class ThreeRenderSystem {
@@ -933,7 +940,7 @@ export class ThreeRenderSystem {
         renderable.object.rotation.y += 0.01;
     }
 }
-`,
+${hmrAccept('new ThreeRenderSystem(engine)')}`,
         },
         generateViteConfig(config),
     ];
@@ -1271,7 +1278,7 @@ function generateViteFiles(config: ProjectConfig, ext: string): TemplateFile[] {
  */
 function generateWebpackFiles(config: ProjectConfig, ext: string): TemplateFile[] {
     const isTS = ext === 'ts';
-    const baseFiles = generateCanvas2dFiles(config, ext);
+    const baseFiles = generateCanvas2dFiles(config, ext, false);
 
     // Replace vite.config with webpack.config
     const filesWithoutVite = baseFiles.filter((f) => !f.path.includes('vite.config'));
@@ -1365,3 +1372,97 @@ export default defineConfig({
 `,
     };
 }
+
+/**
+ * Whether the template's dev server reloads modules through Vite or vite-node
+ */
+function supportsHotReload(template: TemplateType): boolean {
+    return ['vanilla', 'canvas2d', 'pixi', 'three', 'vite'].includes(template);
+}
+
+/**
+ * Import line for the HMR adapter, or nothing when hot reload is disabled
+ */
+function hmrImport(name: string, from: string, ext: string, enabled = true): string {
+    return enabled ? `\nimport { ${name} } from '${from}.${ext === 'ts' ? 'js' : ext}';` : '';
+}
+
+/**
+ * Entry point call that lets updated system modules reach the running engine
+ */
+function hmrEnable(indent: string, enabled = true): string {
+    return enabled
+        ? `\n${indent}// Let updated system modules swap into this engine\n${indent}enableHotReload(engine);\n`
+        : '';
+}
+
+/**
+ * Self-accepting footer that re-runs a system module's definitions on update
+ */
+function hmrAccept(createSystems: string, enabled = true): string {
+    return enabled
+        ? `
+// Hot-swap this module's systems on save instead of reloading the game
+if (import.meta.hot) {
+    import.meta.hot.accept();
+    hotSwapSystems(import.meta.hot, (engine) => ${createSystems});
+}
+`
+        : '';
+}
+
+/**
+ * Generate the HMR adapter shared by Vite and vite-node templates
+ */
+function generateHmrFiles(ext: string): TemplateFile[] {
+    const isTS = ext === 'ts';
+    const files: TemplateFile[] = [
+        {
+            path: `src/hmr.${ext}`,
+            content: `/**
+ * Hot module replacement adapter
+ *
+ * System modules accept their own updates and re-run their definitions inside
+ * engine.hotSwap(), which replaces the callbacks of existing systems in place.
+ * Entities, queries, priorities and system health survive the edit.
+ */
+${isTS ? "\nimport type { Engine } from '@orion-ecs/core';\n\ntype HotContext = NonNullable<ImportMeta['hot']>;\n" : ''}
+let activeEngine${isTS ? ': Engine | undefined' : ''};
+
+/**
+ * Remember the engine that updated system modules swap into
+ */
+export function enableHotReload(engine${isTS ? ': Engine' : ''})${isTS ? ': void' : ''} {
+    activeEngine = engine;
+}
+
+/**
+ * Re-run a module's system definitions against the running engine after an update
+ */
+export function hotSwapSystems(
+    hot${isTS ? ': HotContext' : ''},
+    createSystems${isTS ? ': (engine: Engine) => void' : ''}
+)${isTS ? ': void' : ''} {
+    const engine = activeEngine;
+    if (hot.data.orionLoaded && engine) {
+        const swapped = engine.hotSwap(() => createSystems(engine));
+        console.log(\`[HMR] Hot-swapped \${swapped.join(', ')}\`);
+    }
+    hot.dispose((data) => {
+        data.orionLoaded = true;
+    });
+}
+`,
+        },
+    ];
+
+    if (isTS) {
+        files.push({
+            path: 'src/vite-env.d.ts',
+            content: `/// <reference types="vite/client" />
+`,
+        });
+    }
+
+    return files;
+}
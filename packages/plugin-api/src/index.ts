@@ -477,6 +477,12 @@ export interface SystemMessage {
  * rather than storing references to the Engine instance. This ensures
  * proper encapsulation and allows the engine to control plugin behavior.
  *
+ * The engine records the systems, queries, prefabs, event listeners, message
+ * subscriptions, extensions and singletons a plugin creates through its
+ * context, and removes them when the plugin is uninstalled or its install
+ * fails. Registered components and validators are kept, since entities may
+ * still use them. Anything created through `getEngine()` is not tracked.
+ *
  * @example
  * ```typescript
  * class MyPlugin implements EnginePlugin {
@@ -782,6 +788,24 @@ export interface PluginContext {
  */
 export type ExtractPluginExtensions<TPlugin> = TPlugin extends EnginePlugin<infer E> ? E : object;
 
+/**
+ * Plugin dependency declarations: plugin names mapped to semver ranges.
+ *
+ * Ranges support exact versions, `^`, `~`, comparison operators (`>=1.2.0 <2.0.0`),
+ * `x` wildcards, hyphen ranges (`1.0.0 - 1.4.0`) and `||` alternatives.
+ *
+ * @example
+ * ```typescript
+ * const dependencies: PluginDependencies = {
+ *   PhysicsPlugin: '^2.0.0',
+ *   SpatialPartitionPlugin: '>=1.1.0 <3.0.0',
+ * };
+ * ```
+ *
+ * @public
+ */
+export type PluginDependencies = Record<string, string>;
+
 /**
  * Interface for creating plugins that extend the OrionECS engine.
  *
@@ -800,6 +824,10 @@ export type ExtractPluginExtensions<TPlugin> = TPlugin extends EnginePlugin<infe
  * When a plugin uses `context.extend()` to add APIs, it should declare those
  * types in the TExtensions generic parameter for full TypeScript intellisense support.
  *
+ * Plugins declared as `dependencies` or `optionalDependencies` are installed
+ * first, and a plugin cannot be uninstalled while another installed plugin
+ * depends on it.
+ *
  * @example Basic Plugin (no extensions)
  * ```typescript
  * class LoggingPlugin implements EnginePlugin {
@@ -814,6 +842,20 @@ export type ExtractPluginExtensions<TPlugin> = TPlugin extends EnginePlugin<infe
  * }
  * ```
  *
+ * @example Plugin with Dependencies
+ * ```typescript
+ * class RagdollPlugin implements EnginePlugin {
+ *   name = 'RagdollPlugin';
+ *   version = '1.0.0';
+ *   dependencies = { PhysicsPlugin: '^2.0.0' };
+ *   optionalDependencies = { DebugVisualizerPlugin: '*' };
+ *
+ *   install(context: PluginContext): void {
+ *     // PhysicsPlugin is already installed here
+ *   }
+ * }
+ * ```
+ *
  * @example Plugin with Type Extensions
  * ```typescript
  * interface PhysicsAPI {
@@ -855,10 +897,33 @@ export interface EnginePlugin<TExtensions extends object = object> {
 
     /**
      * Optional semantic version string (e.g., "1.0.0").
-     * Useful for debugging and dependency management.
+     * Checked against the version ranges other plugins declare as dependencies.
      */
     version?: string;
 
+    /**
+     * Plugins that must be installed before this one, mapped to a semver range
+     * their `version` must satisfy (e.g. `{ PhysicsPlugin: '^2.0.0' }`).
+     * Use `'*'` to accept any version.
+     */
+    dependencies?: PluginDependencies;
+
+    /**
+     * Plugins that are installed before this one when present, mapped to a
+     * semver range their `version` must satisfy. Missing optional dependencies
+     * are not an error.
+     */
+    optionalDependencies?: PluginDependencies;
+
+    /**
+     * Plugins that must also be installed on the engine, mapped to a semver
+     * range their `version` must satisfy. They are checked when this plugin
+     * installs but do not change the install order: a peer may come before or
+     * after this plugin in the same `EngineBuilder` or `installPlugins()` call,
+     * but must already be installed when this plugin is installed on its own.
+     */
+    peerDependencies?: PluginDependencies;
+
     /**
      * Type brand for compile-time type inference.
      *
@@ -886,8 +951,10 @@ export interface EnginePlugin<TExtensions extends object = object> {
     /**
      * Optional cleanup method called when the plugin is uninstalled.
      *
-     * Use this to remove event listeners, clean up resources, or
-     * perform other teardown operations.
+     * Resources created through the {@link PluginContext} are removed by the
+     * engine after this hook runs. Use it for teardown the engine cannot see,
+     * such as resources created through `getEngine()`, timers or external
+     * connections.
      */
     uninstall?(): void | Promise<void>;
 }
@@ -1,3 +1,5 @@
+import { findComponentFieldSchemas } from '../utils/ecsScanner';
+
 // Note: Since the scanner depends heavily on vscode.workspace APIs,
 // these tests verify the scanner's parsing logic with mocked workspace
 
@@ -173,6 +175,69 @@ describe('ECS Scanner', () => {
             expect(matches?.length).toBe(2);
         });
     });
+
+    describe('Component Field Schemas', () => {
+        it('should extract fields declared with registerComponentSchema', () => {
+            const text = [
+                'engine.registerComponentSchema(Health, {',
+                '    version: 2,',
+                '    fields: {',
+                "        current: { type: 'number', min: 0, max: 100, default: 100, description: 'Hit points' },",
+                "        armor: { type: 'enum', values: ['none', 'light'], default: 'none' },",
+                "        spawn: { type: 'vector2', default: { x: 0, y: 0 } },",
+                "        owner: { type: 'entity', optional: true },",
+                '    },',
+                '});',
+                'engine.registerComponentSchema(Position, positionSchema);',
+            ].join('\n');
+
+            const schemas = findComponentFieldSchemas(text);
+
+            expect([...schemas.keys()]).toEqual(['Health']);
+            expect(schemas.get('Health')).toEqual([
+                {
+                    name: 'current',
+                    type: 'number',
+                    description: 'Hit points',
+                    defaultValue: '100',
+                    optional: false,
+                    min: 0,
+                    max: 100,
+                    values: undefined,
+                },
+                {
+                    name: 'armor',
+                    type: 'enum',
+                    description: undefined,
+                    defaultValue: "'none'",
+                    optional: false,
+                    min: undefined,
+                    max: undefined,
+                    values: ['none', 'light'],
+                },
+                {
+                    name: 'spawn',
+                    type: 'vector2',
+                    description: undefined,
+                    defaultValue: '{ x: 0, y: 0 }',
+                    optional: false,
+                    min: undefined,
+                    max: undefined,
+                    values: undefined,
+                },
+                {
+                    name: 'owner',
+                    type: 'entity',
+                    description: undefined,
+                    defaultValue: undefined,
+                    optional: true,
+                    min: undefined,
+                    max: undefined,
+                    values: undefined,
+                },
+            ]);
+        });
+    });
 });
 
 describe('Snippet Validation', () => {
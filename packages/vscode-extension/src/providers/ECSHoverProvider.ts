@@ -1,20 +1,25 @@
 import * as vscode from 'vscode';
+import { type ComponentInfo, scanForComponents } from '../utils/ecsScanner';
 
 /**
- * Provides hover documentation for ECS patterns and APIs
+ * Provides hover documentation for ECS patterns, APIs and components with
+ * declared field schemas
  */
 export class ECSHoverProvider implements vscode.HoverProvider {
     private readonly apiDocs: Map<string, ApiDocumentation> = new Map();
+    private componentCache: Map<string, ComponentInfo> = new Map();
+    private cacheTimestamp = 0;
+    private readonly cacheTimeout = 30000; // 30 seconds
 
     constructor() {
         this.initializeApiDocs();
     }
 
-    provideHover(
+    async provideHover(
         document: vscode.TextDocument,
         position: vscode.Position,
         _token: vscode.CancellationToken
-    ): vscode.Hover | undefined {
+    ): Promise<vscode.Hover | undefined> {
         const wordRange = document.getWordRangeAtPosition(position);
         if (!wordRange) {
             return undefined;
@@ -29,6 +34,12 @@ export class ECSHoverProvider implements vscode.HoverProvider {
             return new vscode.Hover(this.formatApiDoc(apiDoc), wordRange);
         }
 
+        // Check for components with declared fields
+        const component = await this.getComponent(word);
+        if (component?.fields && component.fields.length > 0) {
+            return new vscode.Hover(this.formatComponentFields(component), wordRange);
+        }
+
         // Check for ECS patterns
         const patternDoc = this.getPatternDocumentation(word, lineText);
         if (patternDoc) {
@@ -38,6 +49,49 @@ export class ECSHoverProvider implements vscode.HoverProvider {
         return undefined;
     }
 
+    /**
+     * Gets a scanned component by name, rescanning the workspace if the cache is stale
+     */
+    private async getComponent(name: string): Promise<ComponentInfo | undefined> {
+        const now = Date.now();
+        if (now - this.cacheTimestamp > this.cacheTimeout) {
+            const components = await scanForComponents();
+            this.componentCache = new Map(components.map((c) => [c.name, c]));
+            this.cacheTimestamp = now;
+        }
+        return this.componentCache.get(name);
+    }
+
+    private formatComponentFields(component: ComponentInfo): vscode.MarkdownString {
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**Component \`${component.name}\`**\n\n**Fields:**\n`);
+
+        for (const field of component.fields ?? []) {
+            const constraints: string[] = [];
+            if (field.min !== undefined) {
+                constraints.push(`min ${field.min}`);
+            }
+            if (field.max !== undefined) {
+                constraints.push(`max ${field.max}`);
+            }
+            if (field.values) {
+                constraints.push(`one of ${field.values.join(', ')}`);
+            }
+            if (field.defaultValue !== undefined) {
+                constraints.push(`default \`${field.defaultValue}\``);
+            }
+            if (field.optional) {
+                constraints.push('optional');
+            }
+
+            const details = constraints.length > 0 ? ` (${constraints.join('; ')})` : '';
+            const description = field.description ? ` - ${field.description}` : '';
+            md.appendMarkdown(`- \`${field.name}\`: \`${field.type}\`${details}${description}\n`);
+        }
+
+        return md;
+    }
+
     private isInEcsContext(lineText: string): boolean {
         return (
             lineText.includes('engine.') ||
@@ -6,6 +6,8 @@ export interface ComponentInfo {
     line: number;
     properties: PropertyInfo[];
     isTagComponent: boolean;
+    /** Fields declared with engine.registerComponentSchema() */
+    fields?: FieldSchemaInfo[];
 }
 
 export interface PropertyInfo {
@@ -14,6 +16,17 @@ export interface PropertyInfo {
     defaultValue?: string;
 }
 
+export interface FieldSchemaInfo {
+    name: string;
+    type: string;
+    description?: string;
+    defaultValue?: string;
+    optional: boolean;
+    min?: number;
+    max?: number;
+    values?: string[];
+}
+
 export interface SystemInfo {
     name: string;
     filePath: string;
@@ -37,6 +50,7 @@ export interface PrefabInfo {
  */
 export async function scanForComponents(): Promise<ComponentInfo[]> {
     const components: ComponentInfo[] = [];
+    const fieldSchemas = new Map<string, FieldSchemaInfo[]>();
 
     try {
         const files = await vscode.workspace.findFiles('**/*.{ts,js}', '**/node_modules/**');
@@ -53,6 +67,11 @@ export async function scanForComponents(): Promise<ComponentInfo[]> {
                 // Find tag components
                 const tagMatches = findTagComponents(text, file.fsPath);
                 components.push(...tagMatches);
+
+                // Schemas are often registered away from the component class
+                for (const [name, fields] of findComponentFieldSchemas(text)) {
+                    fieldSchemas.set(name, fields);
+                }
             } catch {
                 // Skip files that can't be read
             }
@@ -61,9 +80,82 @@ export async function scanForComponents(): Promise<ComponentInfo[]> {
         // Return empty if workspace scan fails
     }
 
+    for (const component of components) {
+        component.fields = fieldSchemas.get(component.name);
+    }
+
     return components;
 }
 
+/**
+ * Finds the fields declared in registerComponentSchema calls, keyed by component name
+ */
+export function findComponentFieldSchemas(text: string): Map<string, FieldSchemaInfo[]> {
+    const schemas = new Map<string, FieldSchemaInfo[]>();
+    const callPattern = /registerComponentSchema\s*\(\s*(\w+)\s*,\s*(?=\{)/g;
+
+    for (const call of text.matchAll(callPattern)) {
+        const options = extractBraced(text, (call.index ?? 0) + call[0].length);
+        const fieldsStart = options?.search(/\bfields\s*:\s*\{/) ?? -1;
+        if (!options || fieldsStart < 0) {
+            continue;
+        }
+
+        const fieldsBlock = extractBraced(options, fieldsStart) ?? '';
+        const fields: FieldSchemaInfo[] = [];
+        // Field declarations may nest one level of braces, e.g. default: { x: 0, y: 0 }
+        const fieldPattern = /(\w+)\s*:\s*\{((?:[^{}]|\{[^{}]*\})*)\}/g;
+        for (const [, name, body] of fieldsBlock.slice(1, -1).matchAll(fieldPattern)) {
+            const type = body.match(/\btype\s*:\s*['"`](\w+)['"`]/)?.[1];
+            if (!type) {
+                continue;
+            }
+            const min = body.match(/\bmin\s*:\s*(-?[\d.]+)/)?.[1];
+            const max = body.match(/\bmax\s*:\s*(-?[\d.]+)/)?.[1];
+            const values = body.match(/\bvalues\s*:\s*\[([^\]]*)\]/)?.[1];
+            fields.push({
+                name,
+                type,
+                description: body.match(/\bdescription\s*:\s*(['"`])(.*?)\1/)?.[2],
+                defaultValue: body.match(/\bdefault\s*:\s*((?:\{[^{}]*\}|[^,])+)/)?.[1]?.trim(),
+                optional: /\boptional\s*:\s*true/.test(body),
+                min: min !== undefined ? Number(min) : undefined,
+                max: max !== undefined ? Number(max) : undefined,
+                values: values
+                    ?.split(',')
+                    .map((value) => value.trim().replace(/^['"`]|['"`]$/g, ''))
+                    .filter((value) => value.length > 0),
+            });
+        }
+        schemas.set(call[1], fields);
+    }
+
+    return schemas;
+}
+
+/**
+ * Extracts the brace-delimited block starting at or after the given index
+ */
+function extractBraced(text: string, fromIndex: number): string | undefined {
+    const start = text.indexOf('{', fromIndex);
+    if (start < 0) {
+        return undefined;
+    }
+
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                return text.slice(start, i + 1);
+            }
+        }
+    }
+    return undefined;
+}
+
 /**
  * Finds component class definitions in text
  */
@@ -274,6 +274,62 @@ describe('EntityInspectorAPI', () => {
     });
 });
 
+describe('component field metadata', () => {
+    class Health {
+        current = 80;
+        armor = 'light';
+        label = 'hero';
+    }
+
+    it('should describe properties from declared fields', () => {
+        const plugin = new EntityInspectorPlugin();
+        const mockContext = createMockContext();
+        const engine = {
+            ...mockContext.getEngine(),
+            singletons: new Map<unknown, unknown>([[Health, new Health()]]),
+            getComponentSchema: jest.fn(() => ({
+                fields: {
+                    current: { type: 'integer', min: 0, max: 100, description: 'Hit points' },
+                    armor: { type: 'enum', values: ['none', 'light', 'heavy'] },
+                },
+            })),
+        };
+        mockContext.getEngine = jest.fn(() => engine);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        let inspectorApi: any;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (mockContext as any).extend = jest.fn((_name: string, apiObj: unknown) => {
+            inspectorApi = apiObj;
+        });
+        plugin.install(mockContext);
+
+        const [singleton] = inspectorApi.getSingletons();
+
+        expect(engine.getComponentSchema).toHaveBeenCalledWith(Health);
+        expect(singleton.component.properties).toEqual([
+            {
+                name: 'current',
+                value: 80,
+                typeHint: 'number',
+                editable: true,
+                description: 'Hit points',
+                min: 0,
+                max: 100,
+                step: 1,
+            },
+            {
+                name: 'armor',
+                value: 'light',
+                typeHint: 'enum',
+                editable: true,
+                enumValues: ['none', 'light', 'heavy'],
+            },
+            { name: 'label', value: 'hero', typeHint: 'string', editable: true },
+        ]);
+        plugin.uninstall?.();
+    });
+});
+
 describe('DEFAULT_INSPECTOR_CONFIG', () => {
     it('should have expected default values', () => {
         expect(DEFAULT_INSPECTOR_CONFIG.port).toBe(8765);
@@ -92,6 +92,8 @@ interface EngineRef {
     };
     /** Get registered component classes */
     getComponentRegistry?(): Map<string, ComponentClass>;
+    /** Get the schema registered for a component, including its declared fields */
+    getComponentSchema?(type: ComponentClass): { fields?: Record<string, FieldDef> } | undefined;
     /** Get archetype statistics */
     getArchetypeStats?(): { count: number; entityCounts: Record<string, number> };
     /** Create entity */
@@ -120,6 +122,35 @@ interface QueryDef {
 
 type ComponentClass = new (...args: unknown[]) => unknown;
 
+/**
+ * Field metadata declared in a component schema.
+ */
+interface FieldDef {
+    type: string;
+    description?: string;
+    min?: number;
+    max?: number;
+    step?: number;
+    values?: ReadonlyArray<string | number>;
+}
+
+/**
+ * Property type hints for declared field types.
+ */
+const FIELD_TYPE_HINTS: Record<string, PropertyTypeHint> = {
+    number: 'number',
+    integer: 'number',
+    string: 'string',
+    boolean: 'boolean',
+    enum: 'enum',
+    color: 'color',
+    vector2: 'vector2',
+    vector3: 'vector3',
+    entity: 'entity-ref',
+    array: 'array',
+    object: 'object',
+};
+
 // =============================================================================
 // WebSocket Server Abstraction
 // =============================================================================
@@ -421,7 +452,11 @@ export class EntityInspectorAPI implements IEntityInspectorAPI {
             const typeName = (type as ComponentClass).name ?? String(type);
             result.push({
                 type: typeName,
-                component: this.serializeComponentInstance(typeName, instance),
+                component: this.serializeComponentInstance(
+                    typeName,
+                    instance,
+                    type as ComponentClass
+                ),
             });
         }
 
@@ -1027,7 +1062,7 @@ export class EntityInspectorAPI implements IEntityInspectorAPI {
             try {
                 if (entity.hasComponent(compClass)) {
                     const instance = entity.getComponent(compClass);
-                    components.push(this.serializeComponentInstance(typeName, instance));
+                    components.push(this.serializeComponentInstance(typeName, instance, compClass));
                 }
             } catch {
                 // Component access failed, skip
@@ -1046,8 +1081,14 @@ export class EntityInspectorAPI implements IEntityInspectorAPI {
         };
     }
 
-    private serializeComponentInstance(typeName: string, instance: unknown): SerializedComponent {
+    private serializeComponentInstance(
+        typeName: string,
+        instance: unknown,
+        compClass?: ComponentClass
+    ): SerializedComponent {
         const properties: ComponentProperty[] = [];
+        // Declared fields describe the property; other properties are guessed from their values
+        const fields = compClass ? this.engine.getComponentSchema?.(compClass)?.fields : undefined;
 
         if (instance && typeof instance === 'object') {
             for (const [key, value] of Object.entries(instance)) {
@@ -1056,12 +1097,23 @@ export class EntityInspectorAPI implements IEntityInspectorAPI {
                     continue;
                 }
 
-                properties.push({
+                const field = fields?.[key];
+                const property: ComponentProperty = {
                     name: key,
                     value: this.serializeValue(value),
-                    typeHint: this.getTypeHint(value),
+                    typeHint: (field && FIELD_TYPE_HINTS[field.type]) ?? this.getTypeHint(value),
                     editable: true,
-                });
+                };
+                if (field) {
+                    Object.assign(property, {
+                        description: field.description,
+                        min: field.min,
+                        max: field.max,
+                        step: field.step ?? (field.type === 'integer' ? 1 : undefined),
+                        enumValues: field.values?.map(String),
+                    });
+                }
+                properties.push(property);
             }
         }
 
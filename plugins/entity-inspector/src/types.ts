@@ -175,6 +175,8 @@ export interface ComponentProperty {
     value: unknown;
     /** Property type hint for UI rendering */
     typeHint: PropertyTypeHint;
+    /** Optional description from the component's field schema */
+    description?: string;
     /** Whether property is editable */
     editable: boolean;
     /** Optional min value for numeric types */